@@ -6,6 +6,9 @@ import { fileURLToPath } from "url";
 import dotenv from "dotenv";
 import { createPublicClient, createWalletClient, http, getContract, toHex } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
+import { resolveNetworkManager } from "../scripts/deployment.js";
+import { formatEndpoint, hostError, normalizeHost } from "../scripts/endpoint.js";
+import { CRL_REASONS } from "../scripts/revocation.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -19,6 +22,23 @@ const CA_DIR = path.join(OUTPUT_DIR, "ca");
 const CERTS_DIR = path.join(OUTPUT_DIR, "certs");
 const LOGS_DIR = path.join(OUTPUT_DIR, "logs");
 const MEMBERS_FILE = path.join(__dirname, "example-members.json");
+const CRL_FILE = path.join(CA_DIR, "crl.pem");
+
+// index.txt expiry for revoked serials this CA never issued: the latest UTCTime, since the real expiry is unknown
+const UNKNOWN_EXPIRY = "491231235959Z";
+
+// One entry of NetworkManager.addMembers, matching the contract's MemberInput struct
+interface MemberInput {
+  memberAddress: `0x${string}`;
+  x500Name: string;
+  certSerialHex: `0x${string}`;
+  platformVersion: number;
+  host: string;
+  port: number;
+  certFingerprint: `0x${string}`;
+  certNotBefore: bigint;
+  certNotAfter: bigint;
+}
 
 // Colors for console output
 const colors = {
@@ -103,11 +123,14 @@ certs             = ${CA_DIR}/certs
 new_certs_dir     = ${CA_DIR}/newcerts
 database          = ${CA_DIR}/index.txt
 serial            = ${CA_DIR}/serial
+crlnumber         = ${CA_DIR}/crlnumber
+crl               = ${CRL_FILE}
 private_key       = ${CA_DIR}/ca.key
 certificate       = ${CA_DIR}/ca.crt
 default_md        = sha256
 policy            = policy_loose
 default_days      = 365
+default_crl_days  = 30
 copy_extensions   = copy
 
 [ policy_loose ]
@@ -159,6 +182,7 @@ async function setupRootCA(): Promise<void> {
   fs.ensureDirSync(path.join(CA_DIR, "newcerts"));
   fs.writeFileSync(path.join(CA_DIR, "index.txt"), "");
   fs.writeFileSync(path.join(CA_DIR, "serial"), "1000\n");
+  fs.writeFileSync(path.join(CA_DIR, "crlnumber"), "1000\n");
 
   info("Creating CA directory structure...");
   createCAConfig();
@@ -195,7 +219,7 @@ async function setupRootCA(): Promise<void> {
 async function generateNodeCertificate(
   member: any,
   nodeName: string
-): Promise<{ serial: string; fingerprint: string }> {
+): Promise<{ serial: string; fingerprint: string; notBefore: number; notAfter: number }> {
   const nodeDir = path.join(CERTS_DIR, nodeName);
   fs.ensureDirSync(nodeDir);
 
@@ -237,6 +261,16 @@ async function generateNodeCertificate(
   );
   const fingerprint = fingerprintOutput.trim().split("=")[1];
 
+  // Extract validity window ("notBefore=Jan  1 00:00:00 2025 GMT") as unix seconds
+  const validityOutput = execCommand(
+    `openssl x509 -in ${nodeDir}/node.crt -noout -startdate -enddate`,
+    true
+  );
+  const [notBefore, notAfter] = validityOutput
+    .trim()
+    .split("\n")
+    .map(line => Math.floor(Date.parse(line.split("=")[1]) / 1000));
+
   // Verify certificate
   execCommand(
     `openssl verify -CAfile ${CA_DIR}/ca.crt ${nodeDir}/node.crt`,
@@ -245,7 +279,7 @@ async function generateNodeCertificate(
 
   success(`Generated certificate for ${nodeName} (serial: 0x${serial})`);
 
-  return { serial, fingerprint };
+  return { serial, fingerprint, notBefore, notAfter };
 }
 
 // Generate all node certificates
@@ -260,12 +294,14 @@ async function generateAllCertificates(members: any[]): Promise<Map<string, any>
       ?.toLowerCase()
       .replace(/\s+/g, "-") || `node-${member.memberAddress.slice(2, 8)}`;
 
-    const { serial, fingerprint } = await generateNodeCertificate(member, nodeName);
+    const { serial, fingerprint, notBefore, notAfter } = await generateNodeCertificate(member, nodeName);
 
     certData.set(member.memberAddress, {
       nodeName,
       serial: `0x${serial}`,
       fingerprint,
+      notBefore,
+      notAfter,
       x500Name: member.x500Name,
       certPath: path.join(CERTS_DIR, nodeName, "node.crt"),
       keyPath: path.join(CERTS_DIR, nodeName, "node.key")
@@ -276,13 +312,8 @@ async function generateAllCertificates(members: any[]): Promise<Map<string, any>
   return certData;
 }
 
-// Register members in NetworkManager contract
-async function registerMembers(
-  members: any[],
-  certData: Map<string, any>
-): Promise<void> {
-  section("Registering Members in NetworkManager Contract");
-
+// Locate the deployed NetworkManager and connect to it
+async function loadNetworkManager() {
   // Find deployed contract
   const ignitionDeploymentsDir = path.join(__dirname, "..", "ignition", "deployments");
   
@@ -308,25 +339,17 @@ async function registerMembers(
     .sort((a, b) => b.time - a.time);
 
   const latestChainDir = path.join(ignitionDeploymentsDir, sortedChainDirs[0].name);
-  const deployedAddressesPath = path.join(latestChainDir, "deployed_addresses.json");
-
-  const deployedAddresses = JSON.parse(fs.readFileSync(deployedAddressesPath, "utf8"));
-  const networkManagerKey = Object.keys(deployedAddresses).find(key => 
-    key.includes("NetworkManager")
-  );
+  // Proxy address plus the ABI of its current implementation
+  const deployment = resolveNetworkManager(latestChainDir);
 
-  if (!networkManagerKey) {
+  if (!deployment) {
     error("NetworkManager contract not found in deployment!");
     throw new Error("NetworkManager not deployed");
   }
 
-  const contractAddress = deployedAddresses[networkManagerKey];
+  const contractAddress = deployment.address;
   info(`Found NetworkManager at: ${contractAddress}`);
 
-  // Load contract ABI
-  const artifactsPath = path.join(latestChainDir, "artifacts", `${networkManagerKey}.json`);
-  const artifact = JSON.parse(fs.readFileSync(artifactsPath, "utf8"));
-
   // Setup viem clients
   const rpcUrl = process.env.SUBNET_URL || "http://127.0.0.1:8545";
   const privateKey = process.env.SUBNET_PK || 
@@ -344,14 +367,31 @@ async function registerMembers(
 
   const networkManager = getContract({
     address: contractAddress as `0x${string}`,
-    abi: artifact.abi,
+    abi: deployment.abi,
     client: { public: publicClient, wallet: walletClient }
   });
 
+  return { networkManager, publicClient, contractAddress };
+}
+
+// Convert an OpenSSL fingerprint ("AB:CD:...") to the bytes32 stored on-chain
+function fingerprintToBytes32(fingerprint: string): `0x${string}` {
+  return `0x${fingerprint.replace(/:/g, "").toLowerCase()}`;
+}
+
+// Register members in NetworkManager contract
+async function registerMembers(
+  members: any[],
+  certData: Map<string, any>
+): Promise<void> {
+  section("Registering Members in NetworkManager Contract");
+
+  const { networkManager, publicClient, contractAddress } = await loadNetworkManager();
+
   info(`Registering ${members.length} members...`);
 
   const registeredMembers: any[] = [];
-  let successCount = 0;
+  const batch: MemberInput[] = [];
   let skipCount = 0;
 
   for (const member of members) {
@@ -362,45 +402,61 @@ async function registerMembers(
       continue;
     }
 
-    try {
-      // Check if member already exists
-      const isMember = await networkManager.read.isMember([
-        member.memberAddress as `0x${string}`
-      ]);
-
-      if (isMember) {
-        info(`Member ${member.memberAddress} already registered, skipping...`);
-        skipCount++;
-        continue;
-      }
+    // Check if member already exists
+    const isMember = await networkManager.read.isMember([
+      member.memberAddress as `0x${string}`
+    ]);
+
+    if (isMember) {
+      info(`Member ${member.memberAddress} already registered, skipping...`);
+      skipCount++;
+      continue;
+    }
+
+    // The certificate fingerprint and expiry go in with the member so nodes can pin the exact certificate
+    batch.push({
+      memberAddress: member.memberAddress as `0x${string}`,
+      x500Name: member.x500Name,
+      certSerialHex: certInfo.serial as `0x${string}`,
+      platformVersion: Number(member.platformVersion),
+      host: normalizeHost(member.host),
+      port: Number(member.port),
+      certFingerprint: fingerprintToBytes32(certInfo.fingerprint),
+      certNotBefore: BigInt(certInfo.notBefore),
+      certNotAfter: BigInt(certInfo.notAfter)
+    });
+
+    registeredMembers.push({
+      address: member.memberAddress,
+      nodeName: certInfo.nodeName,
+      x500Name: member.x500Name,
+      endpoint: formatEndpoint(member.host, member.port),
+      serial: certInfo.serial,
+      fingerprint: certInfo.fingerprint,
+      notAfter: new Date(certInfo.notAfter * 1000).toISOString()
+    });
+  }
+
+  let successCount = 0;
 
-      // Register member
-      info(`Adding member: ${certInfo.nodeName}...`);
-      
-      const hash = await networkManager.write.addMember([
-        member.memberAddress as `0x${string}`,
-        member.x500Name,
-        certInfo.serial as `0x${string}`,
-        BigInt(member.platformVersion),
-        member.host,
-        BigInt(member.port)
-      ]);
+  if (batch.length > 0) {
+    // One transaction for the whole batch; the contract rejects all of it if any entry is invalid
+    info(`Adding ${batch.length} members in one transaction...`);
 
+    try {
+      // The wallet client has no chain configured, so the transaction goes to whatever chain the RPC serves
+      const hash = await networkManager.write.addMembers([batch], { chain: null });
       await publicClient.waitForTransactionReceipt({ hash });
-      
-      success(`Registered ${certInfo.nodeName} (tx: ${hash.slice(0, 10)}...)`);
-      
-      registeredMembers.push({
-        address: member.memberAddress,
-        nodeName: certInfo.nodeName,
-        x500Name: member.x500Name,
-        serial: certInfo.serial,
-        transactionHash: hash
-      });
-      
-      successCount++;
+
+      for (const registered of registeredMembers) {
+        registered.transactionHash = hash;
+        success(`Registered ${registered.nodeName}`);
+      }
+      successCount = batch.length;
+      success(`Batch registered (tx: ${hash.slice(0, 10)}...)`);
     } catch (err: any) {
-      error(`Failed to register ${member.memberAddress}: ${err.message}`);
+      error(`Failed to register batch: ${err.message}`);
+      registeredMembers.length = 0;
     }
   }
 
@@ -420,6 +476,74 @@ async function registerMembers(
   success(`Registration report saved to: ${reportPath}`);
 }
 
+// Format a unix timestamp as an OpenSSL CA database time (UTCTime, YYMMDDHHMMSSZ)
+function toOpenSSLTime(timestamp: number): string {
+  return new Date(timestamp * 1000)
+    .toISOString()
+    .replace(/[-:T]/g, "")
+    .slice(2, 14) + "Z";
+}
+
+// Normalise a certificate serial to the upper-case hex form used in index.txt
+function normalizeSerial(serial: string): string {
+  const hex = serial.replace(/^0x/i, "").toUpperCase().replace(/^0+(?=.)/, "");
+  return hex.length % 2 === 0 ? hex : `0${hex}`;
+}
+
+// Build the CA's CRL from the revocation list held in NetworkManager
+async function generateCRL(): Promise<void> {
+  section("Generating Certificate Revocation List");
+
+  if (!fs.existsSync(path.join(CA_DIR, "ca.key"))) {
+    throw new Error("Root CA not found. Run the full bootstrap first.");
+  }
+
+  const { networkManager } = await loadNetworkManager();
+  const revoked = await networkManager.read.getRevokedCertificates([]) as {
+    certSerialHex: `0x${string}`;
+    reason: number;
+    revokedAt: bigint;
+  }[];
+
+  info(`Found ${revoked.length} revoked certificate(s) on-chain`);
+
+  // Mark revoked serials in the CA database; serials this CA never issued are appended
+  const indexPath = path.join(CA_DIR, "index.txt");
+  const entries = fs.readFileSync(indexPath, "utf8")
+    .split("\n")
+    .filter(line => line.length > 0)
+    .map(line => line.split("\t"));
+
+  for (const certificate of revoked) {
+    const serial = normalizeSerial(certificate.certSerialHex);
+    const revokedAt = toOpenSSLTime(Number(certificate.revokedAt));
+    const reason = CRL_REASONS[certificate.reason] || "unspecified";
+    const revocationField = reason === "unspecified" ? revokedAt : `${revokedAt},${reason}`;
+
+    const entry = entries.find(fields => normalizeSerial(fields[3]) === serial);
+    if (entry) {
+      entry[0] = "R";
+      entry[2] = revocationField;
+    } else {
+      warn(`Serial 0x${serial} was not issued by this CA, adding it to the CRL anyway`);
+      entries.push(["R", UNKNOWN_EXPIRY, revocationField, serial, "unknown", `/CN=revoked-${serial}`]);
+    }
+  }
+
+  fs.writeFileSync(indexPath, entries.map(fields => fields.join("\t")).join("\n") + (entries.length > 0 ? "\n" : ""));
+
+  if (!fs.existsSync(path.join(CA_DIR, "crlnumber"))) {
+    fs.writeFileSync(path.join(CA_DIR, "crlnumber"), "1000\n");
+  }
+
+  execCommand(
+    `openssl ca -config ${CA_DIR}/openssl.cnf -gencrl -out ${CRL_FILE}`,
+    true
+  );
+
+  success(`CRL saved to: ${CRL_FILE}`);
+}
+
 // Generate certificate summary
 async function generateSummary(
   members: any[],
@@ -439,8 +563,11 @@ async function generateSummary(
         x500Name: certInfo.x500Name,
         certSerial: certInfo.serial,
         fingerprint: certInfo.fingerprint,
-        host: member.host,
+        notBefore: new Date(certInfo.notBefore * 1000).toISOString(),
+        notAfter: new Date(certInfo.notAfter * 1000).toISOString(),
+        host: normalizeHost(member.host),
         port: member.port,
+        endpoint: formatEndpoint(member.host, member.port),
         platformVersion: member.platformVersion,
         certificatePath: path.relative(BOOTSTRAP_DIR, certInfo.certPath),
         privateKeyPath: path.relative(BOOTSTRAP_DIR, certInfo.keyPath)
@@ -486,7 +613,8 @@ ${cert.nodeName}
   X500 Name:   ${cert.x500Name}
   Serial:      ${cert.certSerial}
   Fingerprint: ${cert.fingerprint}
-  Network:     ${cert.host}:${cert.port}
+  Valid:       ${cert.notBefore} to ${cert.notAfter}
+  Network:     ${cert.endpoint}
   Certificate: ${cert.certificatePath}
   Private Key: ${cert.privateKeyPath}
 `;
@@ -529,6 +657,18 @@ async function main() {
   console.clear();
   section("XDC SUBNET PKI BOOTSTRAP");
 
+  // `crl` only refreshes the CRL of an existing CA from the on-chain revocation list
+  if (process.argv[2] === "crl") {
+    try {
+      await generateCRL();
+      info(`Log file: ${logFile}`);
+    } catch (err: any) {
+      error(`CRL generation failed: ${err.message}`);
+      process.exit(1);
+    }
+    return;
+  }
+
   try {
     // Check prerequisites
     info("Checking prerequisites...");
@@ -550,6 +690,23 @@ async function main() {
     const members = membersData.members;
     info(`Loaded ${members.length} members from configuration`);
 
+    // Reject the whole file before any certificate is issued if an entry has an unusable endpoint
+    let invalidCount = 0;
+    for (const member of members) {
+      const port = Number(member.port);
+      const problem = hostError(String(member.host ?? "")) ??
+        (Number.isInteger(port) && port >= 1 && port <= 65535 ? null : "Port must be between 1 and 65535");
+      if (problem) {
+        error(`${member.memberAddress}: ${problem}`);
+        invalidCount++;
+      }
+    }
+    if (invalidCount > 0) {
+      error(`${invalidCount} member(s) in ${MEMBERS_FILE} have an invalid endpoint`);
+      process.exit(1);
+    }
+    success("Member endpoints valid");
+
     // Ensure output directories exist
     fs.ensureDirSync(OUTPUT_DIR);
     fs.ensureDirSync(CA_DIR);
@@ -560,6 +717,7 @@ async function main() {
     await setupRootCA();
     const certData = await generateAllCertificates(members);
     await registerMembers(members, certData);
+    await generateCRL();
     await generateSummary(members, certData);
 
     section("Bootstrap Complete!");
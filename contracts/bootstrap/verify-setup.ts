@@ -5,6 +5,8 @@ import path from "path";
 import { fileURLToPath } from "url";
 import dotenv from "dotenv";
 import { createPublicClient, http, getContract } from "viem";
+import { resolveNetworkManager } from "../scripts/deployment.js";
+import { formatEndpoint } from "../scripts/endpoint.js";
 
 dotenv.config();
 
@@ -243,25 +245,17 @@ async function verifyContractRegistration(): Promise<boolean> {
       .sort((a, b) => b.time - a.time);
 
     const latestChainDir = path.join(ignitionDeploymentsDir, sortedChainDirs[0].name);
-    const deployedAddressesPath = path.join(latestChainDir, "deployed_addresses.json");
+    // Proxy address plus the ABI of its current implementation
+    const deployment = resolveNetworkManager(latestChainDir);
 
-    const deployedAddresses = JSON.parse(fs.readFileSync(deployedAddressesPath, "utf8"));
-    const networkManagerKey = Object.keys(deployedAddresses).find(key => 
-      key.includes("NetworkManager")
-    );
-
-    if (!networkManagerKey) {
+    if (!deployment) {
       fail("NetworkManager contract not found in deployment");
       return false;
     }
 
-    const contractAddress = deployedAddresses[networkManagerKey];
+    const contractAddress = deployment.address;
     success(`Found NetworkManager at: ${contractAddress}`);
 
-    // Load contract ABI
-    const artifactsPath = path.join(latestChainDir, "artifacts", `${networkManagerKey}.json`);
-    const artifact = JSON.parse(fs.readFileSync(artifactsPath, "utf8"));
-
     // Setup client
     const rpcUrl = process.env.SUBNET_URL || "http://192.168.25.11:8545";
     
@@ -271,7 +265,7 @@ async function verifyContractRegistration(): Promise<boolean> {
 
     const networkManager = getContract({
       address: contractAddress as `0x${string}`,
-      abi: artifact.abi,
+      abi: deployment.abi,
       client: publicClient
     });
 
@@ -285,10 +279,16 @@ async function verifyContractRegistration(): Promise<boolean> {
       
       console.log(`${colors.cyan}${address}${colors.reset}`);
       info(`  X500 Name: ${member.x500Name}`);
-      info(`  Host: ${member.host}:${member.port}`);
+      info(`  Host: ${formatEndpoint(member.host, member.port)}`);
       info(`  Platform: v${member.platformVersion}`);
       info(`  Status: ${member.isActive ? colors.green + "Active" + colors.reset : colors.red + "Inactive" + colors.reset}`);
       info(`  Joined: ${new Date(Number(member.joinedAt) * 1000).toLocaleString()}`);
+      if (BigInt(member.certNotAfter) === 0n) {
+        warn(`  Certificate fingerprint not registered`);
+      } else {
+        info(`  Fingerprint: ${member.certFingerprint}`);
+        info(`  Certificate expires: ${new Date(Number(member.certNotAfter) * 1000).toLocaleString()}`);
+      }
       console.log();
     }
 
@@ -3,50 +3,86 @@
 // Compatible with XDC Subnet
 pragma solidity 0.8.19;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import {NetworkManagerBase} from "./NetworkManagerBase.sol";
+import {NetworkManagerExtension} from "./NetworkManagerExtension.sol";
 
 /**
  * @title NetworkManager
  * @dev Manages the membership and metadata of approved nodes in the XDC subnet.
  * This contract works in conjunction with an off-chain Private PKI/CA system.
+ *
+ * Write access is split into roles. The deployer (or the proxy's initial owner) is granted DEFAULT_ADMIN_ROLE
+ * and the operational roles explicitly, so like any other grant they are listed by `getRoleMember` and can be
+ * revoked once the roles are handed to separate accounts. Ownership is separate from the roles: it covers
+ * upgrades and organizations, and moves in two steps: the owner nominates a pending owner, who must call
+ * `acceptOwnership` before anything changes. Roles do not move with it.
+ *
+ * Membership changes can also go through proposals that need `approvalThreshold` registrar
+ * approvals before they execute. Once the threshold is above one, the direct write functions
+ * are disabled and proposals are the only way to add, update or remove members.
+ *
+ * A pauser can freeze every registry mutation (members, certificates, revocations and proposals)
+ * in an emergency. Role and ownership management stay available so a compromised key can be replaced.
+ *
+ * The contract can be deployed directly or behind an ERC1967 proxy (UUPS). Behind a proxy it is set up
+ * with `initialize`, and the owner upgrades it with `upgradeTo`. State lives in NetworkManagerBase.
+ *
+ * The contract is split in four to stay under the 24KB contract size limit. NetworkManagerExtension holds
+ * the features added after the first split; this contract deploys it in its constructor and delegates the
+ * calls it does not handle to it. The extension in turn delegates the calls it does not handle to
+ * NetworkManagerExtension2, which is deployed separately (its creation code no longer fits in this contract's)
+ * and passed to the constructor, and that one to NetworkManagerExtension3, which holds the proposal workflow
+ * and join requests and is passed to NetworkManagerExtension2's constructor. Callers see one contract whose
+ * ABI is the union of all four.
  */
-contract NetworkManager is Ownable {
-    constructor() {}
+contract NetworkManager is NetworkManagerBase, UUPSUpgradeable {
+    // Serves every function NetworkManager does not define, against this contract's storage
+    address private immutable extension;
 
-    // Struct to store metadata about an approved network member.
-    // The certificate itself is managed off-chain via PKI tools.
-    struct NodeMember {
-        string x500Name;          // e.g., "C=US, ST=CA, L=SF, O=MyOrg, CN=node-abc"
-        address memberAddress;    // XDC/EVM address associated with the node
-        bytes certSerialHex;      // Hex representation of the X.509 Certificate Serial Number (for revocation matching)
-        bool isActive;            // Can this node participate in P2P consensus/communication?
-        uint256 joinedAt;         
-        uint256 lastUpdated;      
-        uint16 platformVersion;   // e.g., version of the node software
-        string host;              // Network host address (IP or DNS) for connection
-        uint16 port;              // P2P/gRPC port
+    // A direct deployment is ready to use; the implementation behind a proxy can never be initialized
+    constructor(address secondExtension) {
+        require(secondExtension.code.length > 0, "Second extension is not a contract");
+
+        extension = address(new NetworkManagerExtension(secondExtension));
+        deploymentBlock = block.number;
+        _grantInitialRoles(msg.sender);
+        _disableInitializers();
     }
 
-    mapping(address => NodeMember) private members;
-    mapping(address => uint256) private memberIndex;
-    address[] private memberAddresses; // For easy iteration
+    // Any function this contract does not define is served by the extension
+    fallback() external {
+        _delegateToExtension();
+    }
 
-    event MemberAdded(address indexed memberAddress, string x500Name, bytes certSerialHex);
-    event MemberRemoved(address indexed memberAddress);
-    event MemberUpdated(address indexed memberAddress);
+    function _delegateToExtension() internal {
+        _delegate(extension);
+    }
 
-    modifier memberExists(address memberAddress) {
-        require(members[memberAddress].memberAddress != address(0), "Member does not exist");
-        _;
+    /**
+     * @dev Sets up a proxy deployment. Constructors and field initializers only run for the implementation,
+     * so everything they set for a direct deployment is set here for the proxy's own storage.
+     */
+    function initialize(address initialOwner) external initializer {
+        require(initialOwner != address(0), "Owner is required");
+
+        _transferOwnership(initialOwner);
+        _grantInitialRoles(initialOwner);
+        approvalThreshold = 1;
+        deploymentBlock = block.number;
     }
 
-    modifier memberDoesNotExist(address memberAddress) {
-        require(members[memberAddress].memberAddress == address(0), "Member already exists");
-        _;
+    // Every role except the read-only auditor marker, so a new deployment can be run from one account until it hands them out
+    function _grantInitialRoles(address account) private {
+        _grantRole(DEFAULT_ADMIN_ROLE, account);
+        _grantRole(REGISTRAR_ROLE, account);
+        _grantRole(OPERATOR_ROLE, account);
+        _grantRole(PAUSER_ROLE, account);
+        _grantRole(RENEWER_ROLE, account);
     }
 
     /**
-     * @dev Owner adds a new approved member to the on-chain registry.
+     * @dev A registrar adds a new approved member to the on-chain registry.
      * The off-chain PKI process must run in parallel to issue actual certificates.
      */
     function addMember(
@@ -56,47 +92,21 @@ contract NetworkManager is Ownable {
         uint16 platformVersion,
         string calldata host,
         uint16 port
-    ) external onlyOwner memberDoesNotExist(memberAddress) {
-        NodeMember memory newMember = NodeMember({
-            x500Name: x500Name,
-            memberAddress: memberAddress,
-            certSerialHex: certSerialHex,
-            isActive: true,
-            joinedAt: block.timestamp,
-            lastUpdated: block.timestamp,
-            platformVersion: platformVersion,
-            host: host,
-            port: port
-        });
-
-        members[memberAddress] = newMember;
-        memberIndex[memberAddress] = memberAddresses.length;
-        memberAddresses.push(memberAddress);
-
-        emit MemberAdded(memberAddress, x500Name, certSerialHex);
+    ) external whenNotPaused onlyRole(REGISTRAR_ROLE) {
+        _checkDirectChangesAllowed();
+        _addMember(_memberRecord(memberAddress, x500Name, certSerialHex, platformVersion, host, port));
     }
 
     /**
-     * @dev Removes a member. Requires manual certificate revocation off-chain.
+     * @dev Removes a member. Revoke its certificate with `revokeCertificate` so nodes stop trusting it.
      */
-    function removeMember(address memberAddress) external onlyOwner memberExists(memberAddress) {
-        uint256 index = memberIndex[memberAddress];
-        address lastMember = memberAddresses[memberAddresses.length - 1];
-
-        memberAddresses[index] = lastMember;
-        memberIndex[lastMember] = index;
-
-        memberAddresses.pop();
-        delete memberIndex[memberAddress];
-        delete members[memberAddress];
-
-        emit MemberRemoved(memberAddress);
+    function removeMember(address memberAddress) external whenNotPaused onlyRole(REGISTRAR_ROLE) {
+        _checkDirectChangesAllowed();
+        _removeMember(memberAddress, 0);
     }
 
-    function updateMemberStatus(address memberAddress, bool isActive) external onlyOwner memberExists(memberAddress) {
-        members[memberAddress].isActive = isActive;
-        members[memberAddress].lastUpdated = block.timestamp;
-        emit MemberUpdated(memberAddress);
+    function updateMemberStatus(address memberAddress, bool isActive) external whenNotPaused onlyRole(OPERATOR_ROLE) {
+        _setMemberStatus(memberAddress, isActive);
     }
 
     /**
@@ -109,27 +119,264 @@ contract NetworkManager is Ownable {
         uint16 platformVersion,
         string calldata host,
         uint16 port
-    ) external onlyOwner memberExists(memberAddress) {
-        NodeMember storage member = members[memberAddress];
-        member.x500Name = x500Name;
-        member.certSerialHex = certSerialHex;
+    ) external whenNotPaused onlyRole(REGISTRAR_ROLE) {
+        _checkDirectChangesAllowed();
+        _updateMemberDetails(_memberRecord(memberAddress, x500Name, certSerialHex, platformVersion, host, port));
+    }
+
+    /**
+     * @dev Adds several members in one transaction. The batch is atomic: if any entry fails
+     * validation (duplicate address, revoked serial, bad certificate window) nothing is added.
+     */
+    function addMembers(MemberInput[] calldata newMembers) external whenNotPaused onlyRole(REGISTRAR_ROLE) {
+        require(newMembers.length > 0, "Batch is empty");
+        _checkDirectChangesAllowed();
+
+        for (uint256 i = 0; i < newMembers.length; i++) {
+            MemberInput calldata input = newMembers[i];
+            NodeMember memory record = _memberRecord(
+                input.memberAddress,
+                input.x500Name,
+                input.certSerialHex,
+                input.platformVersion,
+                input.host,
+                input.port
+            );
+
+            if (input.certFingerprint != bytes32(0)) {
+                _checkCertificate(input.certFingerprint, input.certNotBefore, input.certNotAfter);
+                record.certFingerprint = input.certFingerprint;
+                record.certNotBefore = input.certNotBefore;
+                record.certNotAfter = input.certNotAfter;
+            }
+
+            _addMember(record);
+        }
+    }
+
+    /**
+     * @dev Sets the same status on several members. Reverts without changes if any address is not a member.
+     */
+    function updateMembersStatus(address[] calldata addresses, bool isActive) external whenNotPaused onlyRole(OPERATOR_ROLE) {
+        require(addresses.length > 0, "Batch is empty");
+
+        for (uint256 i = 0; i < addresses.length; i++) {
+            _setMemberStatus(addresses[i], isActive);
+        }
+    }
+
+    /**
+     * @dev Removes several members in one transaction. Reverts without changes if any address is not a member.
+     */
+    function removeMembers(address[] calldata addresses) external whenNotPaused onlyRole(REGISTRAR_ROLE) {
+        require(addresses.length > 0, "Batch is empty");
+        _checkDirectChangesAllowed();
+
+        for (uint256 i = 0; i < addresses.length; i++) {
+            _removeMember(addresses[i], 0);
+        }
+    }
+
+    /**
+     * @dev Records the fingerprint and validity window of the certificate issued for a member's current serial.
+     * Cleared automatically when `updateMemberDetails` changes the serial. Above a threshold of one this
+     * goes through `proposeMemberCertificate` instead.
+     */
+    function setMemberCertificate(
+        address memberAddress,
+        bytes32 certFingerprint,
+        uint256 certNotBefore,
+        uint256 certNotAfter
+    ) external whenNotPaused onlyRole(REGISTRAR_ROLE) memberExists(memberAddress) {
+        _checkDirectChangesAllowed();
+        _setMemberCertificate(memberAddress, certFingerprint, certNotBefore, certNotAfter);
+    }
+
+    /**
+     * @dev Lets a registered node update its own connection details without going through a registrar.
+     * Identity fields (x500Name, certificate serial) and status can only be changed by registrars and operators.
+     * Only Pending and Active members may do so; suspended and departing nodes go through a registrar.
+     */
+    function updateMyEndpoint(string calldata host, uint16 port, uint16 platformVersion) external whenNotPaused memberExists(msg.sender) {
+        require(_memberState(msg.sender) <= MemberState.Active, "Member is not pending or active");
+        require(bytes(host).length > 0, "Host is required");
+        require(port > 0, "Port is required");
+        _checkEndpointAvailable(msg.sender, host, port);
+
+        NodeMember storage member = members[msg.sender];
+        _setEndpoint(member, host, port);
         member.platformVersion = platformVersion;
-        member.host = host;
-        member.port = port;
         member.lastUpdated = block.timestamp;
 
-        emit MemberUpdated(memberAddress);
+        emit MemberSelfUpdated(msg.sender, platformVersion);
+        emit MemberUpdated(msg.sender);
+    }
+
+    /**
+     * @dev Withdraws a pending ownership nomination. Equivalent to `transferOwnership(address(0))`.
+     */
+    function cancelOwnershipTransfer() external onlyOwner {
+        require(pendingOwner() != address(0), "No pending ownership transfer");
+        transferOwnership(address(0));
+    }
+
+    /**
+     * @dev Freezes all registry changes until `unpause` is called.
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @dev Raises how many registrar approvals a proposal needs before it can execute.
+     * A threshold above one disables the direct addMember, removeMember and updateMemberDetails calls.
+     * Lowering it takes an approved `proposeApprovalThreshold` proposal, so one admin cannot switch off M-of-N alone.
+     */
+    function setApprovalThreshold(uint256 newThreshold) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newThreshold > 0, "Threshold must be at least 1");
+        require(newThreshold >= approvalThreshold, "Lowering the threshold requires an approved proposal");
+
+        emit ApprovalThresholdChanged(approvalThreshold, newThreshold);
+        approvalThreshold = newThreshold;
+    }
+
+    /*
+     * The proposal functions run in NetworkManagerExtension3. They are declared here only to keep them in
+     * NetworkManager's ABI: each one forwards its call unchanged, and the extension does all the checks.
+     */
+
+    function proposeAddMember(
+        address /* memberAddress */,
+        string calldata /* x500Name */,
+        bytes calldata /* certSerialHex */,
+        uint16 /* platformVersion */,
+        string calldata /* host */,
+        uint16 /* port */
+    ) external returns (uint256 /* proposalId */) {
+        _delegateToExtension();
+    }
+
+    function proposeRemoveMember(address /* memberAddress */) external returns (uint256 /* proposalId */) {
+        _delegateToExtension();
+    }
+
+    function proposeUpdateMemberDetails(
+        address /* memberAddress */,
+        string calldata /* x500Name */,
+        bytes calldata /* certSerialHex */,
+        uint16 /* platformVersion */,
+        string calldata /* host */,
+        uint16 /* port */
+    ) external returns (uint256 /* proposalId */) {
+        _delegateToExtension();
+    }
+
+    function approveProposal(uint256 /* proposalId */) external {
+        _delegateToExtension();
+    }
+
+    function executeProposal(uint256 /* proposalId */) external {
+        _delegateToExtension();
+    }
+
+    function cancelProposal(uint256 /* proposalId */) external {
+        _delegateToExtension();
+    }
+
+    /**
+     * @dev Adds a certificate serial to the on-chain revocation list.
+     * Nodes check peers against `isSerialRevoked`, and the bootstrap tooling builds the CA's CRL from `getRevokedCertificates`.
+     */
+    function revokeCertificate(bytes calldata certSerialHex, uint8 reason) external whenNotPaused onlyRole(REGISTRAR_ROLE) {
+        require(certSerialHex.length > 0, "Certificate serial is required");
+        require(reason <= MAX_REVOCATION_REASON, "Invalid revocation reason");
+
+        bytes32 serialHash = keccak256(certSerialHex);
+        require(!revokedSerials[serialHash], "Certificate already revoked");
+
+        revokedSerials[serialHash] = true;
+        revocations.push(RevokedCertificate({
+            certSerialHex: certSerialHex,
+            reason: reason,
+            revokedAt: block.timestamp
+        }));
+
+        emit CertificateRevoked(serialHash, certSerialHex, reason);
+    }
+
+    function isSerialRevoked(bytes calldata certSerialHex) external view returns (bool) {
+        return revokedSerials[keccak256(certSerialHex)];
+    }
+
+    function getRevokedCertificates() external view returns (RevokedCertificate[] memory) {
+        return revocations;
+    }
+
+    function getProposal(uint256 proposalId) external view returns (Proposal memory) {
+        require(proposalId < proposals.length, "Proposal does not exist");
+        return proposals[proposalId];
+    }
+
+    function getProposalCount() external view returns (uint256) {
+        return proposals.length;
+    }
+
+    function hasApprovedProposal(uint256 proposalId, address account) external view returns (bool) {
+        return proposalApprovals[proposalId][account];
     }
 
     function getMember(address memberAddress) external view memberExists(memberAddress) returns (NodeMember memory) {
         return members[memberAddress];
     }
 
+    /**
+     * @dev Finds the member holding a certificate serial, e.g. the peer of a failed TLS handshake.
+     */
+    function getMemberBySerial(bytes calldata certSerialHex) external view returns (NodeMember memory) {
+        return _getMember(memberBySerial[keccak256(certSerialHex)]);
+    }
+
+    /**
+     * @dev Finds a member by its exact X.500 name, as recorded on-chain.
+     */
+    function getMemberByX500Name(string calldata x500Name) external view returns (NodeMember memory) {
+        return _getMember(memberByX500Name[keccak256(bytes(x500Name))]);
+    }
+
     function getAllMembers() external view returns (address[] memory) {
         return memberAddresses;
     }
 
+    function getMemberCount() external view returns (uint256) {
+        return memberAddresses.length;
+    }
+
+    /**
+     * @dev Returns up to `limit` full member records starting at `offset`, plus the total member count.
+     * An offset past the end of the registry yields an empty page.
+     */
+    function getMembersPage(uint256 offset, uint256 limit) external view returns (NodeMember[] memory page, uint256 total) {
+        total = memberAddresses.length;
+        if (offset >= total) {
+            return (new NodeMember[](0), total);
+        }
+
+        uint256 end = limit > total - offset ? total : offset + limit;
+
+        page = new NodeMember[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = members[memberAddresses[i]];
+        }
+    }
+
     function isMember(address memberAddress) external view returns (bool) {
         return members[memberAddress].memberAddress != address(0);
     }
+
+    // Only the owner can point the proxy at a new implementation
+    function _authorizeUpgrade(address) internal override onlyOwner {}
 }
@@ -4,10 +4,17 @@
 pragma solidity 0.8.19;
 
 import {NetworkManager} from "./NetworkManager.sol";
+import {NetworkManagerBase} from "./NetworkManagerBase.sol";
+import {NetworkManagerExtension} from "./NetworkManagerExtension.sol";
+import {NetworkManagerExtension2} from "./NetworkManagerExtension2.sol";
+import {NetworkManagerExtension3} from "./NetworkManagerExtension3.sol";
+import {NetworkManagerProxy} from "./NetworkManagerProxy.sol";
+import {NetworkManagerV2Mock} from "./mocks/NetworkManagerV2Mock.sol";
 import {Test} from "forge-std/Test.sol";
 
 contract NetworkManagerTest is Test {
     NetworkManager networkManager;
+    address secondExtension;
     address owner;
     address member1;
     address member2;
@@ -17,13 +24,15 @@ contract NetworkManagerTest is Test {
     event MemberAdded(address indexed memberAddress, string x500Name, bytes certSerialHex);
     event MemberRemoved(address indexed memberAddress);
     event MemberUpdated(address indexed memberAddress);
+    event MemberStatusChanged(address indexed memberAddress, bool previousStatus, bool newStatus);
 
     function setUp() public {
         owner = address(this);
         member1 = address(0x1);
         member2 = address(0x2);
         nonOwner = address(0x999);
-        networkManager = new NetworkManager();
+        secondExtension = address(new NetworkManagerExtension2(address(new NetworkManagerExtension3())));
+        networkManager = new NetworkManager(secondExtension);
     }
 
     function test_InitialOwner() public view {
@@ -75,7 +84,7 @@ contract NetworkManagerTest is Test {
             30303
         );
 
-        NetworkManager.NodeMember memory member = networkManager.getMember(member1);
+        NetworkManagerBase.NodeMember memory member = networkManager.getMember(member1);
         require(member.memberAddress == member1, "Member address should match");
         require(keccak256(bytes(member.x500Name)) == keccak256(bytes("CN=Node1, O=Org, L=City, C=US")), "X500 name should match");
         require(member.isActive == true, "Member should be active");
@@ -185,7 +194,7 @@ contract NetworkManagerTest is Test {
 
         networkManager.updateMemberStatus(member1, false);
 
-        NetworkManager.NodeMember memory member = networkManager.getMember(member1);
+        NetworkManagerBase.NodeMember memory member = networkManager.getMember(member1);
         require(member.isActive == false, "Member should be inactive");
     }
 
@@ -229,7 +238,7 @@ contract NetworkManagerTest is Test {
             30304
         );
 
-        NetworkManager.NodeMember memory member = networkManager.getMember(member1);
+        NetworkManagerBase.NodeMember memory member = networkManager.getMember(member1);
         require(keccak256(bytes(member.x500Name)) == keccak256(bytes("CN=NodeUpdated, O=NewOrg, L=NewCity, C=US")), "X500 name should be updated");
         require(keccak256(member.certSerialHex) == keccak256(hex"fedcba987654"), "Certificate serial should be updated");
         require(member.platformVersion == 2, "Platform version should be updated");
@@ -325,6 +334,505 @@ contract NetworkManagerTest is Test {
         require(networkManager.isMember(member3), "Member3 should still exist");
     }
 
+    function test_GetMembersPage() public {
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"111111111111",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        networkManager.addMember(
+            member2,
+            "CN=Node2, O=Org, L=City, C=US",
+            hex"222222222222",
+            1,
+            "node2.example.com",
+            30304
+        );
+
+        (NetworkManagerBase.NodeMember[] memory page, uint256 total) = networkManager.getMembersPage(1, 10);
+        require(total == 2, "Total should be 2");
+        require(page.length == 1, "Page should hold the remaining member");
+        require(page[0].memberAddress == member2, "Page should start at the offset");
+
+        (page, total) = networkManager.getMembersPage(2, 10);
+        require(page.length == 0, "Page past the end should be empty");
+    }
+
+    function test_SetMemberCertificate() public {
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        bytes32 fingerprint = keccak256("node1.crt");
+        networkManager.setMemberCertificate(member1, fingerprint, 1735689600, 1767225600);
+
+        NetworkManagerBase.NodeMember memory member = networkManager.getMember(member1);
+        require(member.certFingerprint == fingerprint, "Fingerprint should be stored");
+        require(member.certNotAfter == 1767225600, "Expiry should be stored");
+    }
+
+    function test_TwoStepOwnershipTransfer() public {
+        networkManager.transferOwnership(member1);
+        require(networkManager.owner() == owner, "Owner should not change until accepted");
+        require(networkManager.pendingOwner() == member1, "Nominee should be pending");
+
+        vm.prank(member1);
+        networkManager.acceptOwnership();
+
+        require(networkManager.owner() == member1, "Nominee should become owner");
+        require(networkManager.pendingOwner() == address(0), "Pending owner should be cleared");
+        require(!networkManager.hasRole(networkManager.DEFAULT_ADMIN_ROLE(), member1), "Roles should not move with ownership");
+        require(networkManager.hasRole(networkManager.DEFAULT_ADMIN_ROLE(), owner), "Previous owner should keep its roles");
+    }
+
+    function test_UpdateMyEndpoint() public {
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        vm.prank(member1);
+        networkManager.updateMyEndpoint("10.0.0.5", 30400, 2);
+
+        NetworkManagerBase.NodeMember memory member = networkManager.getMember(member1);
+        require(keccak256(bytes(member.host)) == keccak256(bytes("10.0.0.5")), "Host should be updated");
+        require(member.port == 30400, "Port should be updated");
+        require(member.platformVersion == 2, "Platform version should be updated");
+
+        vm.prank(nonOwner);
+        vm.expectRevert("Member does not exist");
+        networkManager.updateMyEndpoint("10.0.0.6", 30401, 2);
+
+        networkManager.updateMemberStatus(member1, false);
+        vm.prank(member1);
+        vm.expectRevert("Member is not pending or active");
+        networkManager.updateMyEndpoint("10.0.0.6", 30401, 2);
+    }
+
+    function test_ProposalExecutesAtThreshold() public {
+        networkManager.grantRole(networkManager.REGISTRAR_ROLE(), member2);
+        networkManager.setApprovalThreshold(2);
+
+        uint256 proposalId = networkManager.proposeAddMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        vm.expectRevert("Not enough approvals");
+        networkManager.executeProposal(proposalId);
+
+        vm.prank(member2);
+        networkManager.approveProposal(proposalId);
+        networkManager.executeProposal(proposalId);
+
+        require(networkManager.isMember(member1), "Member should be added by the proposal");
+    }
+
+    function test_LowerThresholdByProposal() public {
+        NetworkManagerExtension3 extension = NetworkManagerExtension3(address(networkManager));
+        networkManager.grantRole(networkManager.REGISTRAR_ROLE(), member2);
+        networkManager.setApprovalThreshold(2);
+
+        vm.expectRevert("Lowering the threshold requires an approved proposal");
+        networkManager.setApprovalThreshold(1);
+
+        uint256 proposalId = extension.proposeApprovalThreshold(1);
+        vm.prank(member2);
+        networkManager.approveProposal(proposalId);
+        networkManager.executeProposal(proposalId);
+
+        require(networkManager.approvalThreshold() == 1, "Threshold should be lowered by the proposal");
+    }
+
+    function test_BatchAddAndRemove() public {
+        NetworkManagerBase.MemberInput[] memory batch = new NetworkManagerBase.MemberInput[](2);
+        batch[0] = NetworkManagerBase.MemberInput(member1, "CN=Node1, O=Org, L=City, C=US", hex"0a1b", 1, "node1.example.com", 30303, bytes32(0), 0, 0);
+        batch[1] = NetworkManagerBase.MemberInput(member2, "CN=Node2, O=Org, L=City, C=US", hex"0c1d", 1, "node2.example.com", 30303, bytes32(0), 0, 0);
+
+        networkManager.addMembers(batch);
+        require(networkManager.getMemberCount() == 2, "Both members should be added");
+
+        address[] memory addresses = new address[](2);
+        addresses[0] = member1;
+        addresses[1] = nonOwner;
+
+        vm.expectRevert("Member does not exist");
+        networkManager.removeMembers(addresses);
+
+        addresses[1] = member2;
+        networkManager.removeMembers(addresses);
+        require(networkManager.getMemberCount() == 0, "Both members should be removed");
+    }
+
+    function test_PauseBlocksChanges() public {
+        networkManager.pause();
+
+        vm.expectRevert("Pausable: paused");
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        networkManager.unpause();
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+        require(networkManager.isMember(member1), "Member should be added after unpausing");
+    }
+
+    function test_StatusChangeEvent() public {
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        vm.expectEmit(true, false, false, true);
+        emit MemberStatusChanged(member1, true, false);
+        networkManager.updateMemberStatus(member1, false);
+    }
+
+    function test_UpgradeKeepsState() public {
+        NetworkManager implementation = new NetworkManager(secondExtension);
+        NetworkManager proxied = NetworkManager(address(new NetworkManagerProxy(
+            address(implementation),
+            abi.encodeCall(NetworkManager.initialize, (owner))
+        )));
+
+        proxied.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        proxied.upgradeTo(address(new NetworkManagerV2Mock(secondExtension)));
+        NetworkManagerV2Mock upgraded = NetworkManagerV2Mock(address(proxied));
+
+        require(upgraded.owner() == owner, "Owner should survive the upgrade");
+        require(upgraded.isMember(member1), "Member should survive the upgrade");
+        upgraded.setUpgradeMarker(1);
+        require(upgraded.upgradeMarker() == 1, "New storage should be usable");
+    }
+
+    function test_LookupBySerialAndName() public {
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        require(networkManager.getMemberBySerial(hex"0a1b2c3d4e5f").memberAddress == member1, "Serial lookup should find the member");
+        require(networkManager.getMemberByX500Name("CN=Node1, O=Org, L=City, C=US").memberAddress == member1, "Name lookup should find the member");
+
+        vm.expectRevert("Certificate serial already in use");
+        networkManager.addMember(
+            member2,
+            "CN=Node2, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node2.example.com",
+            30304
+        );
+    }
+
+    function test_RevertWhen_EndpointInUse() public {
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        vm.expectRevert("Endpoint already in use");
+        networkManager.addMember(
+            member2,
+            "CN=Node2, O=Org, L=City, C=US",
+            hex"0f1e2d3c4b5a",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        networkManager.addMember(
+            member2,
+            "CN=Node2, O=Org, L=City, C=US",
+            hex"0f1e2d3c4b5a",
+            1,
+            "node1.example.com",
+            30304
+        );
+
+        vm.prank(member2);
+        vm.expectRevert("Endpoint already in use");
+        networkManager.updateMyEndpoint("node1.example.com", 30303, 1);
+
+        vm.prank(member2);
+        vm.expectRevert("Endpoint already in use");
+        networkManager.updateMyEndpoint("NODE1.Example.com", 30303, 1);
+    }
+
+    function test_MemberMetadata() public {
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        // Metadata functions are served by the extension at the NetworkManager address
+        NetworkManagerExtension extension = NetworkManagerExtension(address(networkManager));
+        extension.setMetadata(member1, "region", "eu-west-1");
+        require(keccak256(bytes(extension.getMetadata(member1, "region"))) == keccak256("eu-west-1"), "Metadata should be stored");
+
+        vm.prank(member1);
+        vm.expectRevert("Not allowed to set metadata");
+        extension.setMetadata(member1, "region", "us-east-1");
+
+        extension.setMetadataSelfService(true);
+        vm.prank(member1);
+        extension.setMetadata(member1, "region", "");
+
+        (string[] memory keys, ) = extension.getAllMetadata(member1);
+        require(keys.length == 0, "Empty value should remove the key");
+    }
+
+    function test_MembershipLease() public {
+        NetworkManagerExtension extension = NetworkManagerExtension(address(networkManager));
+        extension.setDefaultLeaseDuration(365 days);
+
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+        require(extension.getLeaseExpiry(member1) == block.timestamp + 365 days, "New member should get the default lease");
+
+        vm.warp(block.timestamp + 366 days);
+        require(!extension.isMemberValid(member1), "Lease should have ended");
+
+        extension.renewMembership(member1, block.timestamp + 365 days);
+        require(extension.isMemberValid(member1), "Renewed member should be valid");
+
+        vm.expectRevert("Renewal cannot shorten the lease");
+        extension.renewMembership(member1, block.timestamp + 30 days);
+    }
+
+    function test_PlatformVersionCompliance() public {
+        NetworkManagerExtension2 extension = NetworkManagerExtension2(address(networkManager));
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+        require(extension.isCompliant(member1), "Every member should comply without a minimum");
+
+        extension.setMinPlatformVersion(2);
+        require(!extension.isCompliant(member1), "Member below the minimum should not comply");
+
+        vm.prank(member1);
+        networkManager.updateMyEndpoint("node1.example.com", 30303, 2);
+        require(extension.isCompliant(member1), "Upgraded member should comply");
+    }
+
+    function test_AddMemberWithJoinRequest() public {
+        NetworkManagerExtension3 extension = NetworkManagerExtension3(address(networkManager));
+        uint256 memberKey = 0xA11CE;
+        NetworkManagerBase.JoinRequest memory request = NetworkManagerBase.JoinRequest({
+            memberAddress: vm.addr(memberKey),
+            x500Name: "CN=Node1, O=Org, L=City, C=US",
+            certSerialHex: hex"0a1b2c3d4e5f",
+            host: "node1.example.com",
+            port: 30303,
+            nonce: 0,
+            deadline: block.timestamp + 1 hours
+        });
+
+        bytes32 domainSeparator = keccak256(abi.encode(
+            keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+            keccak256("NetworkManager"),
+            keccak256("1"),
+            block.chainid,
+            address(networkManager)
+        ));
+        bytes32 structHash = keccak256(abi.encode(
+            extension.JOIN_REQUEST_TYPEHASH(),
+            request.memberAddress,
+            keccak256(bytes(request.x500Name)),
+            keccak256(request.certSerialHex),
+            keccak256(bytes(request.host)),
+            request.port,
+            request.nonce,
+            request.deadline
+        ));
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(memberKey, keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash)));
+        bytes memory signature = abi.encodePacked(r, s, v);
+
+        request.port = 30304;
+        vm.expectRevert("Invalid join request signature");
+        extension.addMemberWithJoinRequest(request, 1, signature);
+
+        request.port = 30303;
+        extension.addMemberWithJoinRequest(request, 1, signature);
+        require(networkManager.isMember(request.memberAddress), "Signed join request should add the member");
+
+        networkManager.removeMember(request.memberAddress);
+        vm.expectRevert("Join request nonce already used");
+        extension.addMemberWithJoinRequest(request, 1, signature);
+    }
+
+    function test_MemberEndpoints() public {
+        NetworkManagerExtension extension = NetworkManagerExtension(address(networkManager));
+        networkManager.addMember(
+            member1,
+            "CN=Node1, O=Org, L=City, C=US",
+            hex"0a1b2c3d4e5f",
+            1,
+            "node1.example.com",
+            30303
+        );
+
+        NetworkManagerBase.Endpoint[] memory endpoints = new NetworkManagerBase.Endpoint[](2);
+        endpoints[0] = NetworkManagerBase.Endpoint(NetworkManagerBase.EndpointProtocol.RPC, "node1.example.com", 8545);
+        endpoints[1] = NetworkManagerBase.Endpoint(NetworkManagerBase.EndpointProtocol.Metrics, "node1.example.com", 9555);
+
+        vm.prank(member1);
+        extension.setEndpoints(member1, endpoints);
+        require(extension.getEndpoints(member1).length == 2, "Member should have two endpoints");
+        require(extension.getEndpointHolder("node1.example.com", 8545) == member1, "RPC endpoint should be held by member1");
+
+        networkManager.removeMember(member1);
+        require(extension.getEndpointHolder("node1.example.com", 8545) == address(0), "Removal should free the endpoints");
+    }
+
+    function test_OrganizationAdminWithinQuota() public {
+        NetworkManagerExtension2 organizations = NetworkManagerExtension2(address(networkManager));
+        uint256 organizationId = organizations.createOrganization("Acme Corp", 1);
+        organizations.addOrganizationAdmin(organizationId, nonOwner);
+
+        vm.prank(nonOwner);
+        organizations.addOrganizationMember(member1, "CN=Node1, O=Acme, L=City, C=US", hex"0a1b2c3d4e5f", 1, "node1.example.com", 30303);
+        require(organizations.getMemberOrganization(member1) == organizationId, "Member should join the admin's organization");
+
+        vm.prank(nonOwner);
+        vm.expectRevert("Organization node quota reached");
+        organizations.addOrganizationMember(member2, "CN=Node2, O=Acme, L=City, C=US", hex"0a1b2c3d4e60", 1, "node2.example.com", 30303);
+
+        networkManager.removeMember(member1);
+        require(organizations.getOrganization(organizationId).memberCount == 0, "Removal should free the quota");
+    }
+
+    function test_MemberLifecycle() public {
+        NetworkManagerExtension2 lifecycle = NetworkManagerExtension2(address(networkManager));
+        lifecycle.addPendingMember(member1, "CN=Node1, O=Org, L=City, C=US", hex"0a1b2c3d4e5f", 1, "node1.example.com", 30303);
+        require(lifecycle.getMemberState(member1) == NetworkManagerBase.MemberState.Pending, "Member added as pending should be pending");
+        require(!networkManager.getMember(member1).isActive, "Pending member should not report isActive");
+
+        vm.expectRevert("Invalid state transition");
+        lifecycle.setMemberState(member1, NetworkManagerBase.MemberState.Suspended, 0);
+
+        lifecycle.setMemberState(member1, NetworkManagerBase.MemberState.Active, 1);
+        require(networkManager.getMember(member1).isActive, "Active member should report isActive");
+
+        lifecycle.setMemberState(member1, NetworkManagerBase.MemberState.Retiring, 6);
+        lifecycle.setMemberState(member1, NetworkManagerBase.MemberState.Retired, 6);
+        require(!networkManager.getMember(member1).isActive, "Retired member should not report isActive");
+
+        vm.expectRevert("Invalid state transition");
+        networkManager.updateMemberStatus(member1, true);
+    }
+
+    function test_FormerMembers() public {
+        NetworkManagerExtension2 archive = NetworkManagerExtension2(address(networkManager));
+        networkManager.addMember(member1, "CN=Node1, O=Org, L=City, C=US", hex"0a1b2c3d4e5f", 1, "node1.example.com", 30303);
+        archive.removeMemberWithReason(member1, 6);
+
+        NetworkManagerBase.FormerMember[] memory formerMembers = archive.getFormerMembers();
+        require(formerMembers.length == 1, "Removed member should be archived");
+        require(keccak256(formerMembers[0].member.certSerialHex) == keccak256(hex"0a1b2c3d4e5f"), "Archive should keep the serial");
+        require(formerMembers[0].reason == 6, "Archive should keep the reason");
+
+        networkManager.addMember(member1, "CN=Node1, O=Org, L=City, C=US", hex"0a1b2c3d4e5f", 1, "node1.example.com", 30303);
+        require(archive.getPreviousTenure(member1) == 1, "Re-added member should link to its earlier tenure");
+    }
+
+    function test_Heartbeat() public {
+        NetworkManagerExtension2 liveness = NetworkManagerExtension2(address(networkManager));
+        networkManager.addMember(member1, "CN=Node1, O=Org, L=City, C=US", hex"0a1b2c3d4e5f", 1, "node1.example.com", 30303);
+
+        vm.warp(1000);
+        vm.prank(member1);
+        liveness.heartbeat();
+        require(liveness.getLastSeen(member1) == 1000, "Heartbeat should record the block time");
+
+        vm.prank(member2);
+        vm.expectRevert("Member does not exist");
+        liveness.heartbeat();
+    }
+
+    function test_UpgradePlan() public {
+        NetworkManagerExtension2 upgrades = NetworkManagerExtension2(address(networkManager));
+        networkManager.addMember(member1, "CN=Node1, O=Org, L=City, C=US", hex"0a1b2c3d4e5f", 1, "node1.example.com", 30303);
+        networkManager.addMember(member2, "CN=Node2, O=Org, L=City, C=US", hex"0a1b2c3d4e60", 1, "node2.example.com", 30303);
+
+        uint256 planId = upgrades.createUpgradePlan(2, block.number + 100, block.timestamp + 1 days);
+        vm.prank(member1);
+        upgrades.acknowledgeUpgrade(planId);
+
+        (address[] memory ready, address[] memory notReady) = upgrades.getUpgradeReadiness(planId);
+        require(ready.length == 1 && ready[0] == member1, "Acknowledging member should be ready");
+        require(notReady.length == 1 && notReady[0] == member2, "Other member should not be ready");
+
+        vm.warp(block.timestamp + 1 days + 1);
+        vm.prank(member2);
+        vm.expectRevert("Upgrade plan deadline has passed");
+        upgrades.acknowledgeUpgrade(planId);
+    }
+
     function testFuzz_AddMultipleMembers(uint8 count) public {
         vm.assume(count > 0 && count <= 50);
         
@@ -333,7 +841,7 @@ contract NetworkManagerTest is Test {
             
             networkManager.addMember(
                 memberAddr,
-                "CN=Node, O=Org, L=City, C=US",
+                string.concat("CN=Node", vm.toString(uint256(i)), ", O=Org, L=City, C=US"),
                 abi.encodePacked(keccak256(abi.encodePacked(i))),
                 1,
                 "node.example.com",
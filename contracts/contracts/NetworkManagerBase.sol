@@ -0,0 +1,551 @@
+// SPDX-License-Identifier: MIT
+
+// Compatible with XDC Subnet
+pragma solidity 0.8.19;
+
+import "@openzeppelin/contracts/access/Ownable2Step.sol";
+import "@openzeppelin/contracts/access/AccessControlEnumerable.sol";
+import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+
+/**
+ * @title NetworkManagerBase
+ * @dev Storage layout, events, modifiers and member bookkeeping shared by NetworkManager and its three
+ * extensions. All of them run against the same storage, so
+ * state is only ever declared here, and new state variables must be appended after the existing ones.
+ */
+abstract contract NetworkManagerBase is Initializable, Ownable2Step, AccessControlEnumerable, Pausable {
+    bytes32 public constant REGISTRAR_ROLE = keccak256("REGISTRAR_ROLE"); // Adds, updates and removes members; revokes certificates
+    bytes32 public constant OPERATOR_ROLE = keccak256("OPERATOR_ROLE");   // Changes member status
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");     // Read-only marker for audit accounts
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");       // Pauses and unpauses registry changes
+    bytes32 public constant RENEWER_ROLE = keccak256("RENEWER_ROLE");     // Extends membership leases
+
+    // Struct to store metadata about an approved network member.
+    // The certificate itself is managed off-chain via PKI tools.
+    struct NodeMember {
+        string x500Name;          // e.g., "C=US, ST=CA, L=SF, O=MyOrg, CN=node-abc"
+        address memberAddress;    // XDC/EVM address associated with the node
+        bytes certSerialHex;      // Hex representation of the X.509 Certificate Serial Number (for revocation matching)
+        bool isActive;            // Can this node participate in P2P consensus/communication? True exactly when its state is Active
+        uint256 joinedAt;         
+        uint256 lastUpdated;      
+        uint16 platformVersion;   // e.g., version of the node software
+        string host;              // Network host address (IP or DNS) for connection
+        uint16 port;              // P2P/gRPC port
+        bytes32 certFingerprint;  // SHA-256 fingerprint of the DER certificate, so nodes can pin the exact certificate
+        uint256 certNotBefore;    // Certificate validity window (unix seconds); zero until set by setMemberCertificate
+        uint256 certNotAfter;
+    }
+
+    // One entry of an `addMembers` batch. The certificate fields are optional: leave the fingerprint
+    // zero to register the member without them and call `setMemberCertificate` later.
+    struct MemberInput {
+        address memberAddress;
+        string x500Name;
+        bytes certSerialHex;
+        uint16 platformVersion;
+        string host;
+        uint16 port;
+        bytes32 certFingerprint;
+        uint256 certNotBefore;
+        uint256 certNotAfter;
+    }
+
+    // What a member endpoint serves. Stored by value, so new protocols are only appended.
+    enum EndpointProtocol { P2P, RPC, WS, GRPC, Metrics }
+
+    // A service a member node exposes besides its primary (P2P) host and port
+    struct Endpoint {
+        EndpointProtocol protocol;
+        string host;
+        uint16 port;
+    }
+
+    // Registration details signed (EIP-712) with the member's own key, proving the operator controls the address.
+    // The platform version is left out: the registrar sets it when adding the member.
+    struct JoinRequest {
+        address memberAddress;
+        string x500Name;
+        bytes certSerialHex;
+        string host;
+        uint16 port;
+        uint256 nonce;    // Must equal the address's join request nonce; using the request consumes it
+        uint256 deadline; // Last unix time the request can be used
+    }
+
+    // A revoked X.509 certificate serial, kept so the CA can publish a CRL from on-chain state.
+    struct RevokedCertificate {
+        bytes certSerialHex;      // Serial of the revoked certificate
+        uint8 reason;             // RFC 5280 CRLReason code (0 = unspecified ... 6 = certificateHold)
+        uint256 revokedAt;
+    }
+
+    // Highest CRLReason code that OpenSSL can record in a CA database
+    uint8 public constant MAX_REVOCATION_REASON = 6;
+
+    // Stored by value, so new actions are only appended
+    enum ProposalAction { AddMember, RemoveMember, UpdateMemberDetails, ChangeApprovalThreshold, SetMemberCertificate, AddMemberWithJoinRequest }
+    enum ProposalStatus { Pending, Executed, Cancelled }
+
+    // A pending registry change. AddMemberWithJoinRequest applies its member like AddMember and consumes the join
+    // request nonce kept in `proposalJoinNonces`. For RemoveMember only `member.memberAddress` is set; SetMemberCertificate also sets
+    // the serial the certificate was issued for and the certificate fields. For ChangeApprovalThreshold no member
+    // is set and the new threshold is kept in `proposedThresholds`.
+    struct Proposal {
+        ProposalAction action;
+        NodeMember member;        // Member record to apply when the proposal executes
+        address proposer;
+        uint256 approvals;        // Number of registrars that approved, including the proposer; execution counts only current registrars
+        uint256 createdAt;
+        uint256 expiresAt;        // Proposal can no longer be approved or executed after this time
+        ProposalStatus status;
+    }
+
+    uint256 public constant PROPOSAL_LIFETIME = 7 days;
+
+    // Lifecycle of a membership. Only Active members take part in the network. Members are added Active,
+    // as before the lifecycle existed, unless added with `addPendingMember`.
+    // Stored by value, so new states are only appended.
+    enum MemberState { Pending, Active, Suspended, Retiring, Retired }
+
+    // A company running several member nodes. Its admins manage only its own members, up to `nodeQuota` of them.
+    struct Organization {
+        string name;
+        uint256 nodeQuota;
+        uint256 memberCount;
+        address[] admins;
+    }
+
+    // A removed member's record, kept so the registry stays auditable after removal
+    struct FormerMember {
+        NodeMember member;        // Record as it stood when the member was removed
+        MemberState finalState;
+        uint8 reason;             // Lifecycle reason code (0 = unspecified ... 7 = replaced by another node)
+        address removedBy;
+        uint256 removedAt;
+        uint256 previousTenure;   // Archive id of the same address's earlier tenure; zero for its first
+    }
+
+    // A hard fork members signal readiness for. Acknowledgements are kept per plan, so plans do not interfere.
+    struct UpgradePlan {
+        uint16 targetVersion;     // Platform version every node should run once the fork activates
+        uint256 activationBlock;
+        uint256 deadline;         // Members can acknowledge until this time
+        address createdBy;
+        uint256 createdAt;
+        bool cancelled;
+    }
+
+    uint256 public approvalThreshold = 1;
+
+    // Block the registry was deployed in, so clients know where to start reading its event history
+    uint256 public deploymentBlock;
+
+    mapping(address => NodeMember) internal members;
+    mapping(address => uint256) internal memberIndex;
+    address[] internal memberAddresses; // For easy iteration
+
+    mapping(bytes32 => bool) internal revokedSerials; // keccak256(certSerialHex) => revoked
+    RevokedCertificate[] internal revocations;
+
+    Proposal[] internal proposals;
+    mapping(uint256 => mapping(address => bool)) internal proposalApprovals;
+
+    // Reverse lookups for peers identified only by their TLS certificate. Serials and X.500 names are unique.
+    mapping(bytes32 => address) internal memberBySerial;   // keccak256(certSerialHex) => member
+    mapping(bytes32 => address) internal memberByX500Name; // keccak256(x500Name) => member
+    mapping(bytes32 => address) internal memberByEndpoint; // _endpointKey(host, port) => member
+
+    // Free-form string attributes per member (region, operator contact, ...). Keys are kept in a list so clients can enumerate them.
+    mapping(address => string[]) internal metadataKeys;
+    mapping(address => mapping(string => uint256)) internal metadataKeyPosition; // key => index in metadataKeys + 1
+    mapping(address => mapping(string => string)) internal metadataValues;
+    bool internal metadataSelfService; // Members may set metadata on their own record
+
+    // Membership leases (unix seconds). Zero means the membership does not expire.
+    mapping(address => uint256) internal memberExpiresAt;
+    uint256 internal defaultLeaseDuration; // Lease given to new members; zero adds them without one
+
+    uint16 internal minPlatformVersion; // Oldest node software the network supports; zero means no minimum
+
+    // Additional endpoints per member; the primary host and port stay in NodeMember. Each is unique like the primary.
+    mapping(address => Endpoint[]) internal memberEndpoints;
+
+    // Organization ids start at 1 (index + 1), so zero means "no organization"
+    Organization[] internal organizations;
+    mapping(address => uint256) internal memberOrganization; // member => organization id
+    mapping(address => uint256) internal adminOrganization;  // admin account => organization id; an account admins at most one
+
+    mapping(address => MemberState) internal memberStates;
+
+    // Archive ids are index + 1, so zero means "never removed"
+    FormerMember[] internal formerMembers;
+    mapping(address => uint256) internal lastTenure; // address => archive id of its latest removal
+
+    mapping(address => uint256) internal lastSeen; // Time of the member node's latest heartbeat; zero until its first
+
+    // Upgrade plan ids are index + 1, like organization ids
+    UpgradePlan[] internal upgradePlans;
+    mapping(uint256 => mapping(address => uint256)) internal upgradeAcknowledgedAt; // plan id => member => time; zero if not yet
+
+    bool internal joinRequestRequired; // Members can only be added from a signed join request
+    mapping(address => uint256) internal joinRequestNonces; // Nonce the address's next join request must carry
+
+    mapping(uint256 => uint256) internal proposedThresholds; // proposal id => threshold a ChangeApprovalThreshold proposal sets
+    mapping(uint256 => uint256) internal proposalJoinNonces; // proposal id => join request nonce an AddMemberWithJoinRequest proposal consumes
+
+    event MemberAdded(address indexed memberAddress, string x500Name, bytes certSerialHex);
+    event MemberRemoved(address indexed memberAddress);
+    event MemberUpdated(address indexed memberAddress);
+    event MemberStatusChanged(address indexed memberAddress, bool previousStatus, bool newStatus);
+    event MemberEndpointChanged(address indexed memberAddress, string previousHost, uint16 previousPort, string newHost, uint16 newPort);
+    event MemberSelfUpdated(address indexed memberAddress, uint16 platformVersion);
+    event MemberCertificateRotated(address indexed memberAddress, bytes32 indexed newSerialHash, bytes previousCertSerialHex, bytes newCertSerialHex);
+    event CertificateRevoked(bytes32 indexed serialHash, bytes certSerialHex, uint8 reason);
+    event ProposalCreated(uint256 indexed proposalId, ProposalAction action, address indexed memberAddress, address indexed proposer);
+    event ProposalApproved(uint256 indexed proposalId, address indexed approver, uint256 approvals);
+    event ProposalExecuted(uint256 indexed proposalId);
+    event ProposalCancelled(uint256 indexed proposalId);
+    event ApprovalThresholdChanged(uint256 previousThreshold, uint256 newThreshold);
+    event MemberMetadataSet(address indexed memberAddress, string key, string value, address indexed setBy);
+    event MetadataSelfServiceChanged(bool enabled);
+    event MemberLeaseRenewed(address indexed memberAddress, uint256 previousExpiresAt, uint256 newExpiresAt, address indexed renewedBy);
+    event DefaultLeaseDurationChanged(uint256 previousDuration, uint256 newDuration);
+    event MinPlatformVersionChanged(uint16 previousVersion, uint16 newVersion);
+    event MemberEndpointsChanged(address indexed memberAddress, Endpoint[] endpoints);
+    event OrganizationCreated(uint256 indexed organizationId, string name, uint256 nodeQuota);
+    event OrganizationQuotaChanged(uint256 indexed organizationId, uint256 previousQuota, uint256 newQuota);
+    event OrganizationAdminAdded(uint256 indexed organizationId, address indexed account);
+    event OrganizationAdminRemoved(uint256 indexed organizationId, address indexed account);
+    event MemberOrganizationChanged(address indexed memberAddress, uint256 previousOrganizationId, uint256 newOrganizationId);
+    event MemberStateChanged(address indexed memberAddress, MemberState previousState, MemberState newState, uint8 reason);
+    event MemberArchived(address indexed memberAddress, uint256 indexed tenureId, uint8 reason, address indexed removedBy);
+    event UpgradePlanCreated(uint256 indexed planId, uint16 targetVersion, uint256 activationBlock, uint256 deadline);
+    event UpgradePlanCancelled(uint256 indexed planId);
+    event UpgradeAcknowledged(uint256 indexed planId, address indexed memberAddress);
+    event JoinRequestRequirementChanged(bool required);
+
+    modifier memberExists(address memberAddress) {
+        require(members[memberAddress].memberAddress != address(0), "Member does not exist");
+        _;
+    }
+
+    modifier memberDoesNotExist(address memberAddress) {
+        require(members[memberAddress].memberAddress == address(0), "Member already exists");
+        _;
+    }
+
+    modifier proposalPending(uint256 proposalId) {
+        require(proposalId < proposals.length, "Proposal does not exist");
+        require(proposals[proposalId].status == ProposalStatus.Pending, "Proposal is not pending");
+        require(block.timestamp <= proposals[proposalId].expiresAt, "Proposal has expired");
+        _;
+    }
+
+    // Kept as a function rather than a modifier: the member write functions are already close to the stack limit
+    function _checkSerialNotRevoked(bytes memory certSerialHex) internal view {
+        require(!revokedSerials[keccak256(certSerialHex)], "Certificate serial is revoked");
+    }
+
+    // Reverts if the serial is revoked, or if the serial, X.500 name or endpoint belongs to another member
+    function _checkIdentityAvailable(NodeMember memory record) internal view {
+        _checkSerialNotRevoked(record.certSerialHex);
+
+        address serialHolder = memberBySerial[keccak256(record.certSerialHex)];
+        require(serialHolder == address(0) || serialHolder == record.memberAddress, "Certificate serial already in use");
+
+        address nameHolder = memberByX500Name[keccak256(bytes(record.x500Name))];
+        require(nameHolder == address(0) || nameHolder == record.memberAddress, "X.500 name already in use");
+
+        _checkEndpointAvailable(record.memberAddress, record.host, record.port);
+    }
+
+    // A member may keep its own primary endpoint, but not take one listed among its additional endpoints
+    function _checkEndpointAvailable(address memberAddress, string memory host, uint16 port) internal view {
+        bytes32 key = _endpointKey(host, port);
+        address endpointHolder = memberByEndpoint[key];
+        require(
+            endpointHolder == address(0) ||
+                (endpointHolder == memberAddress && key == _endpointKey(members[memberAddress].host, members[memberAddress].port)),
+            "Endpoint already in use"
+        );
+    }
+
+    // DNS names and IPv6 hex digits are case-insensitive, so hosts are keyed lowercased: "Node1.example.com" and
+    // "node1.example.com" are the same endpoint. The host itself is stored as given.
+    function _endpointKey(string memory host, uint16 port) internal pure returns (bytes32) {
+        bytes memory lower = bytes.concat(bytes(host));
+        // Lowercases ASCII A-Z in place; written in assembly to keep NetworkManager under the contract size limit
+        assembly {
+            for { let i := 0 } lt(i, mload(lower)) { i := add(i, 1) } {
+                let position := add(add(lower, 32), i)
+                let char := byte(0, mload(position))
+                if and(gt(char, 0x40), lt(char, 0x5b)) { mstore8(position, or(char, 0x20)) }
+            }
+        }
+        return keccak256(abi.encode(string(lower), port));
+    }
+
+    function _checkDirectChangesAllowed() internal view {
+        require(approvalThreshold <= 1, "Membership changes require an approved proposal");
+    }
+
+    function _checkJoinRequestNotRequired() internal view {
+        require(!joinRequestRequired, "Members must be added with a signed join request");
+    }
+
+    function _checkCertificate(bytes32 certFingerprint, uint256 certNotBefore, uint256 certNotAfter) internal pure {
+        require(certFingerprint != bytes32(0), "Certificate fingerprint is required");
+        require(certNotAfter > certNotBefore, "Invalid certificate validity period");
+    }
+
+    // Builds the record the add, update and proposal functions apply. It is Active; updates keep the member's own status.
+    function _memberRecord(
+        address memberAddress,
+        string calldata x500Name,
+        bytes calldata certSerialHex,
+        uint16 platformVersion,
+        string calldata host,
+        uint16 port
+    ) internal pure returns (NodeMember memory record) {
+        record.isActive = true;
+        record.x500Name = x500Name;
+        record.memberAddress = memberAddress;
+        record.certSerialHex = certSerialHex;
+        record.platformVersion = platformVersion;
+        record.host = host;
+        record.port = port;
+    }
+
+    function _getMember(address memberAddress) internal view memberExists(memberAddress) returns (NodeMember memory) {
+        return members[memberAddress];
+    }
+
+    function _addMember(NodeMember memory newMember) internal {
+        _checkJoinRequestNotRequired();
+        _addSignedMember(newMember);
+    }
+
+    // Adds a member without the join request check; only for members whose signed join request was verified
+    function _addSignedMember(NodeMember memory newMember) internal memberDoesNotExist(newMember.memberAddress) {
+        _checkIdentityAvailable(newMember);
+
+        newMember.joinedAt = block.timestamp;
+        newMember.lastUpdated = block.timestamp;
+
+        members[newMember.memberAddress] = newMember;
+        memberIndex[newMember.memberAddress] = memberAddresses.length;
+        memberAddresses.push(newMember.memberAddress);
+        memberBySerial[keccak256(newMember.certSerialHex)] = newMember.memberAddress;
+        memberByX500Name[keccak256(bytes(newMember.x500Name))] = newMember.memberAddress;
+        memberByEndpoint[_endpointKey(newMember.host, newMember.port)] = newMember.memberAddress;
+        if (defaultLeaseDuration > 0) {
+            memberExpiresAt[newMember.memberAddress] = block.timestamp + defaultLeaseDuration;
+        }
+
+        emit MemberAdded(newMember.memberAddress, newMember.x500Name, newMember.certSerialHex);
+    }
+
+    function _removeMember(address memberAddress, uint8 reason) internal memberExists(memberAddress) {
+        _archiveMember(memberAddress, reason);
+
+        uint256 index = memberIndex[memberAddress];
+        address lastMember = memberAddresses[memberAddresses.length - 1];
+
+        memberAddresses[index] = lastMember;
+        memberIndex[lastMember] = index;
+
+        memberAddresses.pop();
+        delete memberIndex[memberAddress];
+        delete memberBySerial[keccak256(members[memberAddress].certSerialHex)];
+        delete memberByX500Name[keccak256(bytes(members[memberAddress].x500Name))];
+        delete memberByEndpoint[_endpointKey(members[memberAddress].host, members[memberAddress].port)];
+        delete members[memberAddress];
+        delete memberExpiresAt[memberAddress];
+        delete memberStates[memberAddress];
+        delete lastSeen[memberAddress];
+        _clearMetadata(memberAddress);
+        _clearEndpoints(memberAddress);
+
+        // Frees the member's place in its organization's quota
+        uint256 organizationId = memberOrganization[memberAddress];
+        if (organizationId != 0) {
+            organizations[organizationId - 1].memberCount--;
+            delete memberOrganization[memberAddress];
+        }
+
+        emit MemberRemoved(memberAddress);
+    }
+
+    // Copies the record into the archive before removal deletes it, linked to the address's previous tenure
+    function _archiveMember(address memberAddress, uint8 reason) internal {
+        FormerMember storage former = formerMembers.push();
+        former.member = members[memberAddress];
+        former.finalState = _memberState(memberAddress);
+        former.reason = reason;
+        former.removedBy = msg.sender;
+        former.removedAt = block.timestamp;
+        former.previousTenure = lastTenure[memberAddress];
+
+        uint256 tenureId = formerMembers.length;
+        lastTenure[memberAddress] = tenureId;
+
+        emit MemberArchived(memberAddress, tenureId, reason, msg.sender);
+    }
+
+    // Frees every additional endpoint of a member for other members to use
+    function _clearEndpoints(address memberAddress) internal {
+        Endpoint[] storage endpoints = memberEndpoints[memberAddress];
+        for (uint256 i = 0; i < endpoints.length; i++) {
+            delete memberByEndpoint[_endpointKey(endpoints[i].host, endpoints[i].port)];
+        }
+        delete memberEndpoints[memberAddress];
+    }
+
+    // Metadata describes one membership, so an address that is removed and added again starts without it
+    function _clearMetadata(address memberAddress) internal {
+        string[] storage keys = metadataKeys[memberAddress];
+        for (uint256 i = 0; i < keys.length; i++) {
+            delete metadataKeyPosition[memberAddress][keys[i]];
+            delete metadataValues[memberAddress][keys[i]];
+        }
+        delete metadataKeys[memberAddress];
+    }
+
+    /**
+     * @dev The boolean status setter kept for compatibility: true activates the member and false suspends it.
+     * Setting the status a member already has is not a transition, so a Pending member stays Pending when set inactive.
+     */
+    function _setMemberStatus(address memberAddress, bool isActive) internal memberExists(memberAddress) {
+        if (members[memberAddress].isActive == isActive) {
+            _writeStatus(memberAddress, isActive);
+        } else {
+            _setMemberState(memberAddress, isActive ? MemberState.Active : MemberState.Suspended, 0);
+        }
+    }
+
+    function _setMemberState(address memberAddress, MemberState newState, uint8 reason) internal memberExists(memberAddress) {
+        MemberState previousState = _memberState(memberAddress);
+        require(_isAllowedTransition(previousState, newState), "Invalid state transition");
+
+        memberStates[memberAddress] = newState;
+        emit MemberStateChanged(memberAddress, previousState, newState, reason);
+
+        _writeStatus(memberAddress, newState == MemberState.Active);
+    }
+
+    function _writeStatus(address memberAddress, bool isActive) internal {
+        NodeMember storage member = members[memberAddress];
+        if (member.isActive != isActive) {
+            emit MemberStatusChanged(memberAddress, member.isActive, isActive);
+        }
+
+        member.isActive = isActive;
+        member.lastUpdated = block.timestamp;
+        emit MemberUpdated(memberAddress);
+    }
+
+    // Members added before the lifecycle existed have no stored state; their status tells Active from Pending
+    function _memberState(address memberAddress) internal view returns (MemberState state) {
+        state = memberStates[memberAddress];
+        if (state == MemberState.Pending && members[memberAddress].isActive) {
+            state = MemberState.Active;
+        }
+    }
+
+    // Pending -> Active or Retired; Active <-> Suspended; Active or Suspended -> Retiring -> Retired
+    function _isAllowedTransition(MemberState from, MemberState to) internal pure returns (bool) {
+        if (from == MemberState.Pending) return to == MemberState.Active || to == MemberState.Retired;
+        if (from == MemberState.Active) return to == MemberState.Suspended || to == MemberState.Retiring;
+        if (from == MemberState.Suspended) return to == MemberState.Active || to == MemberState.Retiring;
+        if (from == MemberState.Retiring) return to == MemberState.Retired;
+        return false;
+    }
+
+    // Writes host and port, emitting MemberEndpointChanged only when one of them actually changes.
+    // Callers check the new endpoint with `_checkEndpointAvailable` first.
+    function _setEndpoint(NodeMember storage member, string memory host, uint16 port) internal {
+        if (member.port != port || keccak256(bytes(member.host)) != keccak256(bytes(host))) {
+            emit MemberEndpointChanged(member.memberAddress, member.host, member.port, host, port);
+
+            delete memberByEndpoint[_endpointKey(member.host, member.port)];
+            memberByEndpoint[_endpointKey(host, port)] = member.memberAddress;
+        }
+
+        member.host = host;
+        member.port = port;
+    }
+
+    function _updateMemberDetails(NodeMember memory details) internal memberExists(details.memberAddress) {
+        _checkIdentityAvailable(details);
+
+        NodeMember storage member = members[details.memberAddress];
+        delete memberBySerial[keccak256(member.certSerialHex)];
+        delete memberByX500Name[keccak256(bytes(member.x500Name))];
+
+        // A new serial means a re-issued certificate, so the recorded fingerprint no longer applies
+        bytes32 newSerialHash = keccak256(details.certSerialHex);
+        if (keccak256(member.certSerialHex) != newSerialHash) {
+            emit MemberCertificateRotated(details.memberAddress, newSerialHash, member.certSerialHex, details.certSerialHex);
+
+            delete member.certFingerprint;
+            delete member.certNotBefore;
+            delete member.certNotAfter;
+        }
+
+        member.x500Name = details.x500Name;
+        member.certSerialHex = details.certSerialHex;
+        memberBySerial[newSerialHash] = details.memberAddress;
+        memberByX500Name[keccak256(bytes(details.x500Name))] = details.memberAddress;
+        member.platformVersion = details.platformVersion;
+        _setEndpoint(member, details.host, details.port);
+        member.lastUpdated = block.timestamp;
+
+        emit MemberUpdated(details.memberAddress);
+    }
+
+    function _setMemberCertificate(address memberAddress, bytes32 certFingerprint, uint256 certNotBefore, uint256 certNotAfter) internal {
+        _checkCertificate(certFingerprint, certNotBefore, certNotAfter);
+
+        NodeMember storage member = members[memberAddress];
+        member.certFingerprint = certFingerprint;
+        member.certNotBefore = certNotBefore;
+        member.certNotAfter = certNotAfter;
+        member.lastUpdated = block.timestamp;
+
+        emit MemberUpdated(memberAddress);
+    }
+
+    function _createProposal(ProposalAction action, NodeMember memory member) internal returns (uint256 proposalId) {
+        proposalId = proposals.length;
+
+        Proposal storage proposal = proposals.push();
+        proposal.action = action;
+        proposal.member = member;
+        proposal.proposer = msg.sender;
+        proposal.approvals = 1;
+        proposal.createdAt = block.timestamp;
+        proposal.expiresAt = block.timestamp + PROPOSAL_LIFETIME;
+
+        proposalApprovals[proposalId][msg.sender] = true;
+
+        emit ProposalCreated(proposalId, action, member.memberAddress, msg.sender);
+    }
+
+    /**
+     * @dev Runs the current call against `target`'s code and this contract's storage,
+     * then returns or reverts with its result unchanged.
+     */
+    function _delegate(address target) internal {
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+
+            switch result
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
+        }
+    }
+}
@@ -0,0 +1,186 @@
+// SPDX-License-Identifier: MIT
+
+// Compatible with XDC Subnet
+pragma solidity 0.8.19;
+
+import {NetworkManagerBase} from "./NetworkManagerBase.sol";
+
+/**
+ * @title NetworkManagerExtension
+ * @dev The part of NetworkManager that no longer fits in its 24KB contract. NetworkManager deploys one
+ * in its constructor and forwards every call it does not handle itself here with delegatecall, so these
+ * functions run against NetworkManager's (or its proxy's) storage, roles and pause state.
+ * A deployed extension is never meant to be called directly: its own storage is empty.
+ *
+ * Calls the extension does not handle either are forwarded the same way to NetworkManagerExtension2.
+ */
+contract NetworkManagerExtension is NetworkManagerBase {
+    uint256 public constant MAX_METADATA_KEYS = 32;
+    uint256 public constant MAX_METADATA_KEY_LENGTH = 64;
+    uint256 public constant MAX_METADATA_VALUE_LENGTH = 256;
+    uint256 public constant MAX_ENDPOINTS = 8;
+
+    // Serves every function neither NetworkManager nor this contract defines
+    address private immutable secondExtension;
+
+    constructor(address secondExtensionAddress) {
+        secondExtension = secondExtensionAddress;
+    }
+
+    fallback() external {
+        _delegate(secondExtension);
+    }
+
+    /**
+     * @dev Returns the member registered at `host`:`port`, or the zero address if the endpoint is free.
+     */
+    function getEndpointHolder(string calldata host, uint16 port) external view returns (address) {
+        return memberByEndpoint[_endpointKey(host, port)];
+    }
+
+    /**
+     * @dev Sets a free-form attribute on a member, e.g. "region" => "eu-west-1". An empty value removes the key.
+     * Registrars can set metadata on any member; members can set their own while self-service is enabled.
+     */
+    function setMetadata(address memberAddress, string calldata key, string calldata value) external whenNotPaused memberExists(memberAddress) {
+        require(
+            hasRole(REGISTRAR_ROLE, msg.sender) || (metadataSelfService && msg.sender == memberAddress),
+            "Not allowed to set metadata"
+        );
+        require(bytes(key).length > 0 && bytes(key).length <= MAX_METADATA_KEY_LENGTH, "Invalid metadata key");
+        require(bytes(value).length <= MAX_METADATA_VALUE_LENGTH, "Metadata value too long");
+
+        string[] storage keys = metadataKeys[memberAddress];
+        uint256 position = metadataKeyPosition[memberAddress][key];
+
+        if (bytes(value).length == 0) {
+            require(position != 0, "Metadata key not set");
+
+            // Swap-and-pop, as for member addresses
+            string memory lastKey = keys[keys.length - 1];
+            keys[position - 1] = lastKey;
+            metadataKeyPosition[memberAddress][lastKey] = position;
+            keys.pop();
+
+            delete metadataKeyPosition[memberAddress][key];
+            delete metadataValues[memberAddress][key];
+        } else {
+            if (position == 0) {
+                require(keys.length < MAX_METADATA_KEYS, "Too many metadata keys");
+                keys.push(key);
+                metadataKeyPosition[memberAddress][key] = keys.length;
+            }
+            metadataValues[memberAddress][key] = value;
+        }
+
+        emit MemberMetadataSet(memberAddress, key, value, msg.sender);
+    }
+
+    /**
+     * @dev Returns the value stored under `key`, or an empty string if the key is not set.
+     */
+    function getMetadata(address memberAddress, string calldata key) external view memberExists(memberAddress) returns (string memory) {
+        return metadataValues[memberAddress][key];
+    }
+
+    /**
+     * @dev Returns every metadata entry of a member as parallel key and value arrays, in no particular order.
+     */
+    function getAllMetadata(address memberAddress) external view memberExists(memberAddress) returns (string[] memory keys, string[] memory values) {
+        keys = metadataKeys[memberAddress];
+        values = new string[](keys.length);
+        for (uint256 i = 0; i < keys.length; i++) {
+            values[i] = metadataValues[memberAddress][keys[i]];
+        }
+    }
+
+    /**
+     * @dev Lets members set metadata on their own record, or restricts metadata to registrars again.
+     */
+    function setMetadataSelfService(bool enabled) external whenNotPaused onlyRole(DEFAULT_ADMIN_ROLE) {
+        metadataSelfService = enabled;
+        emit MetadataSelfServiceChanged(enabled);
+    }
+
+    function isMetadataSelfServiceEnabled() external view returns (bool) {
+        return metadataSelfService;
+    }
+
+    /**
+     * @dev Extends a member's lease for another agreement period, or gives a lease to a member without one.
+     * It cannot shorten a lease. Leases are not enforced by the registry itself; clients check them with `isMemberValid`.
+     */
+    function renewMembership(address memberAddress, uint256 newExpiresAt) external whenNotPaused onlyRole(RENEWER_ROLE) memberExists(memberAddress) {
+        require(newExpiresAt > block.timestamp, "Lease must end in the future");
+        require(newExpiresAt > memberExpiresAt[memberAddress], "Renewal cannot shorten the lease");
+
+        emit MemberLeaseRenewed(memberAddress, memberExpiresAt[memberAddress], newExpiresAt, msg.sender);
+        memberExpiresAt[memberAddress] = newExpiresAt;
+    }
+
+    /**
+     * @dev Sets the lease length given to members added from now on. Zero adds members without a lease.
+     */
+    function setDefaultLeaseDuration(uint256 newDuration) external whenNotPaused onlyRole(DEFAULT_ADMIN_ROLE) {
+        emit DefaultLeaseDurationChanged(defaultLeaseDuration, newDuration);
+        defaultLeaseDuration = newDuration;
+    }
+
+    function getDefaultLeaseDuration() external view returns (uint256) {
+        return defaultLeaseDuration;
+    }
+
+    /**
+     * @dev Returns when a member's lease ends, or zero if the membership does not expire.
+     */
+    function getLeaseExpiry(address memberAddress) external view memberExists(memberAddress) returns (uint256) {
+        return memberExpiresAt[memberAddress];
+    }
+
+    /**
+     * @dev Lease ends for several members in one call, in the order given. Unknown addresses yield zero.
+     */
+    function getLeaseExpiries(address[] calldata addresses) external view returns (uint256[] memory expiries) {
+        expiries = new uint256[](addresses.length);
+        for (uint256 i = 0; i < addresses.length; i++) {
+            expiries[i] = memberExpiresAt[addresses[i]];
+        }
+    }
+
+    /**
+     * @dev Like `isMember`, but false once the member's lease has ended.
+     */
+    function isMemberValid(address memberAddress) external view returns (bool) {
+        uint256 expiresAt = memberExpiresAt[memberAddress];
+        return members[memberAddress].memberAddress != address(0) && (expiresAt == 0 || block.timestamp < expiresAt);
+    }
+
+    /**
+     * @dev Replaces a member's additional endpoints (RPC, WebSocket, metrics, ...); an empty list removes them.
+     * The primary host and port are changed with `updateMemberDetails` or `updateMyEndpoint` as before.
+     * Registrars can set any member's endpoints, and a member its own.
+     */
+    function setEndpoints(address memberAddress, Endpoint[] calldata endpoints) external whenNotPaused memberExists(memberAddress) {
+        require(hasRole(REGISTRAR_ROLE, msg.sender) || msg.sender == memberAddress, "Not allowed to set endpoints");
+        require(endpoints.length <= MAX_ENDPOINTS, "Too many endpoints");
+
+        _clearEndpoints(memberAddress);
+
+        for (uint256 i = 0; i < endpoints.length; i++) {
+            Endpoint calldata endpoint = endpoints[i];
+            require(bytes(endpoint.host).length > 0 && endpoint.port != 0, "Invalid endpoint");
+
+            bytes32 key = _endpointKey(endpoint.host, endpoint.port);
+            require(memberByEndpoint[key] == address(0), "Endpoint already in use");
+
+            memberByEndpoint[key] = memberAddress;
+            memberEndpoints[memberAddress].push(endpoint);
+        }
+
+        emit MemberEndpointsChanged(memberAddress, endpoints);
+    }
+
+    function getEndpoints(address memberAddress) external view memberExists(memberAddress) returns (Endpoint[] memory) {
+        return memberEndpoints[memberAddress];
+    }
+}
@@ -0,0 +1,429 @@
+// SPDX-License-Identifier: MIT
+
+// Compatible with XDC Subnet
+pragma solidity 0.8.19;
+
+import {NetworkManagerBase} from "./NetworkManagerBase.sol";
+
+/**
+ * @title NetworkManagerExtension2
+ * @dev The part of NetworkManager that no longer fits in NetworkManagerExtension. NetworkManagerExtension
+ * forwards every call it does not handle here with delegatecall, so like the first extension these functions
+ * run against NetworkManager's (or its proxy's) storage, roles and pause state.
+ * It is deployed on its own and its address passed to NetworkManager's constructor.
+ *
+ * Calls this extension does not handle either are forwarded the same way to NetworkManagerExtension3.
+ */
+contract NetworkManagerExtension2 is NetworkManagerBase {
+    // Highest lifecycle reason code (0 = unspecified ... 7 = replaced by another node); see `setMemberState`
+    uint8 public constant MAX_STATE_REASON = 7;
+
+    // Serves every function neither NetworkManager nor the first two extensions define
+    address private immutable thirdExtension;
+
+    constructor(address thirdExtensionAddress) {
+        require(thirdExtensionAddress.code.length > 0, "Third extension is not a contract");
+        thirdExtension = thirdExtensionAddress;
+    }
+
+    fallback() external {
+        _delegate(thirdExtension);
+    }
+
+    modifier upgradePlanExists(uint256 planId) {
+        require(planId != 0 && planId <= upgradePlans.length, "Upgrade plan does not exist");
+        _;
+    }
+
+    modifier organizationExists(uint256 organizationId) {
+        require(organizationId != 0 && organizationId <= organizations.length, "Organization does not exist");
+        _;
+    }
+
+    // The caller administers the organization the member belongs to
+    modifier onlyOrganizationAdminOf(address memberAddress) {
+        uint256 organizationId = adminOrganization[msg.sender];
+        require(organizationId != 0, "Caller is not an organization admin");
+        require(memberOrganization[memberAddress] == organizationId, "Member belongs to another organization");
+        _;
+    }
+
+    /**
+     * @dev Creates an organization that may hold up to `nodeQuota` members. Ids start at 1.
+     */
+    function createOrganization(string calldata name, uint256 nodeQuota) external whenNotPaused onlyOwner returns (uint256 organizationId) {
+        require(bytes(name).length > 0, "Organization name is required");
+
+        Organization storage organization = organizations.push();
+        organization.name = name;
+        organization.nodeQuota = nodeQuota;
+        organizationId = organizations.length;
+
+        emit OrganizationCreated(organizationId, name, nodeQuota);
+    }
+
+    /**
+     * @dev Changes how many members an organization may hold. It cannot drop below its current member count.
+     */
+    function setOrganizationQuota(uint256 organizationId, uint256 newQuota) external whenNotPaused onlyOwner organizationExists(organizationId) {
+        Organization storage organization = organizations[organizationId - 1];
+        require(newQuota >= organization.memberCount, "Quota is below the organization's member count");
+
+        emit OrganizationQuotaChanged(organizationId, organization.nodeQuota, newQuota);
+        organization.nodeQuota = newQuota;
+    }
+
+    // Organization admins are managed like roles, so they can be changed while paused to replace a compromised key
+    function addOrganizationAdmin(uint256 organizationId, address account) external onlyOwner organizationExists(organizationId) {
+        require(account != address(0), "Invalid admin address");
+        require(adminOrganization[account] == 0, "Account already administers an organization");
+
+        organizations[organizationId - 1].admins.push(account);
+        adminOrganization[account] = organizationId;
+
+        emit OrganizationAdminAdded(organizationId, account);
+    }
+
+    function removeOrganizationAdmin(address account) external onlyOwner {
+        uint256 organizationId = adminOrganization[account];
+        require(organizationId != 0, "Account is not an organization admin");
+
+        // Swap-and-pop, as for member addresses
+        address[] storage admins = organizations[organizationId - 1].admins;
+        for (uint256 i = 0; i < admins.length; i++) {
+            if (admins[i] == account) {
+                admins[i] = admins[admins.length - 1];
+                admins.pop();
+                break;
+            }
+        }
+        delete adminOrganization[account];
+
+        emit OrganizationAdminRemoved(organizationId, account);
+    }
+
+    /**
+     * @dev Moves an existing member into an organization, within its quota. Zero takes the member out of its organization.
+     */
+    function setMemberOrganization(address memberAddress, uint256 organizationId) external whenNotPaused onlyRole(REGISTRAR_ROLE) memberExists(memberAddress) {
+        require(organizationId == 0 || organizationId <= organizations.length, "Organization does not exist");
+        _setMemberOrganization(memberAddress, organizationId);
+    }
+
+    /**
+     * @dev Organization admin adds a member to its own organization, within the organization's quota.
+     * Like `addMember`, this is disabled while membership changes need an approved proposal.
+     */
+    function addOrganizationMember(
+        address memberAddress,
+        string calldata x500Name,
+        bytes calldata certSerialHex,
+        uint16 platformVersion,
+        string calldata host,
+        uint16 port
+    ) external whenNotPaused {
+        uint256 organizationId = adminOrganization[msg.sender];
+        require(organizationId != 0, "Caller is not an organization admin");
+        _checkDirectChangesAllowed();
+
+        _addMember(_memberRecord(memberAddress, x500Name, certSerialHex, platformVersion, host, port));
+        _setMemberOrganization(memberAddress, organizationId);
+    }
+
+    function removeOrganizationMember(address memberAddress) external whenNotPaused memberExists(memberAddress) onlyOrganizationAdminOf(memberAddress) {
+        _checkDirectChangesAllowed();
+        _removeMember(memberAddress, 0);
+    }
+
+    function updateOrganizationMemberDetails(
+        address memberAddress,
+        string calldata x500Name,
+        bytes calldata certSerialHex,
+        uint16 platformVersion,
+        string calldata host,
+        uint16 port
+    ) external whenNotPaused memberExists(memberAddress) onlyOrganizationAdminOf(memberAddress) {
+        _checkDirectChangesAllowed();
+        _updateMemberDetails(_memberRecord(memberAddress, x500Name, certSerialHex, platformVersion, host, port));
+    }
+
+    function updateOrganizationMemberStatus(address memberAddress, bool isActive) external whenNotPaused memberExists(memberAddress) onlyOrganizationAdminOf(memberAddress) {
+        _setMemberStatus(memberAddress, isActive);
+    }
+
+    function getOrganization(uint256 organizationId) external view organizationExists(organizationId) returns (Organization memory) {
+        return organizations[organizationId - 1];
+    }
+
+    function getOrganizationCount() external view returns (uint256) {
+        return organizations.length;
+    }
+
+    /**
+     * @dev Returns the organization id of a member, or zero if it belongs to none.
+     */
+    function getMemberOrganization(address memberAddress) external view memberExists(memberAddress) returns (uint256) {
+        return memberOrganization[memberAddress];
+    }
+
+    /**
+     * @dev Returns the organization an account administers, or zero if it is not an organization admin.
+     */
+    function getAdminOrganization(address account) external view returns (uint256) {
+        return adminOrganization[account];
+    }
+
+    function getOrganizationMembers(uint256 organizationId) external view organizationExists(organizationId) returns (address[] memory result) {
+        result = new address[](organizations[organizationId - 1].memberCount);
+
+        uint256 count = 0;
+        for (uint256 i = 0; i < memberAddresses.length; i++) {
+            if (memberOrganization[memberAddresses[i]] == organizationId) {
+                result[count++] = memberAddresses[i];
+            }
+        }
+    }
+
+    /**
+     * @dev Moves a member along its lifecycle. Only the transitions Pending -> Active or Retired,
+     * Active <-> Suspended and Active or Suspended -> Retiring -> Retired are allowed.
+     * `reason` records why: 0 unspecified, 1 node online, 2 maintenance, 3 security incident,
+     * 4 policy violation, 5 lease expired, 6 decommissioned, 7 replaced by another node.
+     * `isActive` follows the state, so it is true only while the member is Active.
+     */
+    function setMemberState(address memberAddress, MemberState newState, uint8 reason) external whenNotPaused onlyRole(OPERATOR_ROLE) {
+        require(reason <= MAX_STATE_REASON, "Invalid reason code");
+        _setMemberState(memberAddress, newState, reason);
+    }
+
+    /**
+     * @dev Adds a member like `addMember`, but in the Pending state, for a node that is approved and not online yet.
+     * `setMemberState` activates it once it is. Every other add function adds members as Active.
+     */
+    function addPendingMember(
+        address memberAddress,
+        string calldata x500Name,
+        bytes calldata certSerialHex,
+        uint16 platformVersion,
+        string calldata host,
+        uint16 port
+    ) external whenNotPaused onlyRole(REGISTRAR_ROLE) {
+        _checkDirectChangesAllowed();
+
+        NodeMember memory record = _memberRecord(memberAddress, x500Name, certSerialHex, platformVersion, host, port);
+        record.isActive = false;
+        _addMember(record);
+    }
+
+    function getMemberState(address memberAddress) external view memberExists(memberAddress) returns (MemberState) {
+        return _memberState(memberAddress);
+    }
+
+    /**
+     * @dev Lifecycle states of several members in one call, in the order given. Unknown addresses yield Pending.
+     */
+    function getMemberStates(address[] calldata addresses) external view returns (MemberState[] memory states) {
+        states = new MemberState[](addresses.length);
+        for (uint256 i = 0; i < addresses.length; i++) {
+            states[i] = _memberState(addresses[i]);
+        }
+    }
+
+    /**
+     * @dev Removes a member like `removeMember`, recording why in its archived record.
+     * `reason` takes the lifecycle reason codes of `setMemberState`; `removeMember` records 0 (unspecified).
+     */
+    function removeMemberWithReason(address memberAddress, uint8 reason) external whenNotPaused onlyRole(REGISTRAR_ROLE) {
+        require(reason <= MAX_STATE_REASON, "Invalid reason code");
+        _checkDirectChangesAllowed();
+        _removeMember(memberAddress, reason);
+    }
+
+    /**
+     * @dev Every removed member's record, oldest removal first. An entry's archive id is its position + 1.
+     */
+    function getFormerMembers() external view returns (FormerMember[] memory) {
+        return formerMembers;
+    }
+
+    /**
+     * @dev Archive id of the address's latest removal, or zero if it was never removed.
+     * For a member that was removed and added again this is its previous tenure.
+     */
+    function getPreviousTenure(address memberAddress) external view returns (uint256) {
+        return lastTenure[memberAddress];
+    }
+
+    /**
+     * @dev Called periodically by a member node to show it is running. It only records the time, without
+     * an event, to stay cheap, and works while the registry is paused since it changes no registry data.
+     */
+    function heartbeat() external memberExists(msg.sender) {
+        lastSeen[msg.sender] = block.timestamp;
+    }
+
+    /**
+     * @dev Time of the member's latest heartbeat, or zero if it has not sent one since it was added.
+     */
+    function getLastSeen(address memberAddress) external view memberExists(memberAddress) returns (uint256) {
+        return lastSeen[memberAddress];
+    }
+
+    /**
+     * @dev Latest heartbeat times of several members in one call, in the order given. Unknown addresses yield zero.
+     */
+    function getLastSeenTimes(address[] calldata addresses) external view returns (uint256[] memory times) {
+        times = new uint256[](addresses.length);
+        for (uint256 i = 0; i < addresses.length; i++) {
+            times[i] = lastSeen[addresses[i]];
+        }
+    }
+
+    /**
+     * @dev Sets the oldest platform version the network supports, typically ahead of a hard fork.
+     * Members below it stay registered; the minimum only drives `isCompliant`.
+     */
+    function setMinPlatformVersion(uint16 newVersion) external whenNotPaused onlyRole(DEFAULT_ADMIN_ROLE) {
+        emit MinPlatformVersionChanged(minPlatformVersion, newVersion);
+        minPlatformVersion = newVersion;
+    }
+
+    function getMinPlatformVersion() external view returns (uint16) {
+        return minPlatformVersion;
+    }
+
+    /**
+     * @dev True if the address is a member running at least the minimum platform version.
+     */
+    function isCompliant(address memberAddress) external view returns (bool) {
+        NodeMember storage member = members[memberAddress];
+        return member.memberAddress != address(0) && member.platformVersion >= minPlatformVersion;
+    }
+
+    /**
+     * @dev Announces a hard fork to `targetVersion` at `activationBlock`. Members acknowledge it with
+     * `acknowledgeUpgrade` once their node is ready, until `deadline`. Ids start at 1.
+     */
+    function createUpgradePlan(uint16 targetVersion, uint256 activationBlock, uint256 deadline) external whenNotPaused onlyRole(DEFAULT_ADMIN_ROLE) returns (uint256 planId) {
+        require(targetVersion > 0, "Invalid target version");
+        require(activationBlock > block.number, "Activation block must be in the future");
+        require(deadline > block.timestamp, "Deadline must be in the future");
+
+        upgradePlans.push(UpgradePlan(targetVersion, activationBlock, deadline, msg.sender, block.timestamp, false));
+        planId = upgradePlans.length;
+
+        emit UpgradePlanCreated(planId, targetVersion, activationBlock, deadline);
+    }
+
+    function cancelUpgradePlan(uint256 planId) external whenNotPaused onlyRole(DEFAULT_ADMIN_ROLE) upgradePlanExists(planId) {
+        UpgradePlan storage plan = upgradePlans[planId - 1];
+        require(!plan.cancelled, "Upgrade plan is cancelled");
+
+        plan.cancelled = true;
+        emit UpgradePlanCancelled(planId);
+    }
+
+    /**
+     * @dev Called by a member to signal that its node is ready for the plan's target version.
+     * Like `heartbeat` it changes no registry data, so it works while the registry is paused.
+     */
+    function acknowledgeUpgrade(uint256 planId) external upgradePlanExists(planId) memberExists(msg.sender) {
+        UpgradePlan storage plan = upgradePlans[planId - 1];
+        require(!plan.cancelled, "Upgrade plan is cancelled");
+        require(block.timestamp <= plan.deadline, "Upgrade plan deadline has passed");
+        require(!_hasAcknowledged(planId, msg.sender), "Upgrade already acknowledged");
+
+        upgradeAcknowledgedAt[planId][msg.sender] = block.timestamp;
+        emit UpgradeAcknowledged(planId, msg.sender);
+    }
+
+    function getUpgradePlan(uint256 planId) external view upgradePlanExists(planId) returns (UpgradePlan memory) {
+        return upgradePlans[planId - 1];
+    }
+
+    function getUpgradePlanCount() external view returns (uint256) {
+        return upgradePlans.length;
+    }
+
+    function hasAcknowledgedUpgrade(uint256 planId, address memberAddress) external view upgradePlanExists(planId) returns (bool) {
+        return _hasAcknowledged(planId, memberAddress);
+    }
+
+    /**
+     * @dev Splits the Active members into those that acknowledged the plan and those that have not, in member order.
+     * Pending, Suspended and Retiring members run no node the fork depends on, so they are left out of both lists.
+     */
+    function getUpgradeReadiness(uint256 planId) external view upgradePlanExists(planId) returns (address[] memory ready, address[] memory notReady) {
+        uint256 activeCount = 0;
+        uint256 readyCount = 0;
+        for (uint256 i = 0; i < memberAddresses.length; i++) {
+            if (_memberState(memberAddresses[i]) == MemberState.Active) {
+                activeCount++;
+                if (_hasAcknowledged(planId, memberAddresses[i])) {
+                    readyCount++;
+                }
+            }
+        }
+
+        ready = new address[](readyCount);
+        notReady = new address[](activeCount - readyCount);
+        uint256 readyIndex = 0;
+        uint256 notReadyIndex = 0;
+        for (uint256 i = 0; i < memberAddresses.length; i++) {
+            if (_memberState(memberAddresses[i]) != MemberState.Active) {
+                continue;
+            }
+            if (_hasAcknowledged(planId, memberAddresses[i])) {
+                ready[readyIndex++] = memberAddresses[i];
+            } else {
+                notReady[notReadyIndex++] = memberAddresses[i];
+            }
+        }
+    }
+
+    /**
+     * @dev Requires every new member to come from a signed join request (`addMemberWithJoinRequest`), so the other
+     * add functions and add proposals revert. Off by default, so existing deployments and bulk migrations that add
+     * members directly keep working; turn it on once they are done. Join requests are only accepted while the
+     * approval threshold is 1, so no members can be added while both are in effect.
+     * Not paused, so registration can be locked down while the registry is frozen during an incident.
+     */
+    function setJoinRequestRequired(bool required) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        joinRequestRequired = required;
+        emit JoinRequestRequirementChanged(required);
+    }
+
+    function isJoinRequestRequired() external view returns (bool) {
+        return joinRequestRequired;
+    }
+
+    /**
+     * @dev Nonce the address's next join request must be signed with.
+     */
+    function getJoinRequestNonce(address memberAddress) external view returns (uint256) {
+        return joinRequestNonces[memberAddress];
+    }
+
+    // An acknowledgement from an earlier tenure of the address does not count for a member added again since
+    function _hasAcknowledged(uint256 planId, address memberAddress) internal view returns (bool) {
+        uint256 acknowledgedAt = upgradeAcknowledgedAt[planId][memberAddress];
+        return acknowledgedAt != 0 && members[memberAddress].memberAddress != address(0) && acknowledgedAt >= members[memberAddress].joinedAt;
+    }
+
+    function _setMemberOrganization(address memberAddress, uint256 organizationId) internal {
+        uint256 previousId = memberOrganization[memberAddress];
+        require(previousId != organizationId, "Member is already in this organization");
+
+        if (organizationId != 0) {
+            Organization storage organization = organizations[organizationId - 1];
+            require(organization.memberCount < organization.nodeQuota, "Organization node quota reached");
+            organization.memberCount++;
+        }
+        if (previousId != 0) {
+            organizations[previousId - 1].memberCount--;
+        }
+        memberOrganization[memberAddress] = organizationId;
+
+        emit MemberOrganizationChanged(memberAddress, previousId, organizationId);
+    }
+}
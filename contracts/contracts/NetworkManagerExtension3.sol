@@ -0,0 +1,267 @@
+// SPDX-License-Identifier: MIT
+
+// Compatible with XDC Subnet
+pragma solidity 0.8.19;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {NetworkManagerBase} from "./NetworkManagerBase.sol";
+
+/**
+ * @title NetworkManagerExtension3
+ * @dev The proposal workflow and signed join requests, moved out of NetworkManagerExtension to make room there.
+ * NetworkManagerExtension2 forwards every call it does not handle here with delegatecall, so like the other
+ * extensions these functions run against NetworkManager's (or its proxy's) storage, roles and pause state.
+ * It is deployed on its own and its address passed to NetworkManagerExtension2's constructor.
+ */
+contract NetworkManagerExtension3 is NetworkManagerBase {
+    // EIP-712 domain: name "NetworkManager", version "1", the chain id and the NetworkManager (or proxy) address
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 public constant JOIN_REQUEST_TYPEHASH =
+        keccak256("JoinRequest(address memberAddress,string x500Name,bytes certSerialHex,string host,uint16 port,uint256 nonce,uint256 deadline)");
+
+    function proposeAddMember(
+        address memberAddress,
+        string calldata x500Name,
+        bytes calldata certSerialHex,
+        uint16 platformVersion,
+        string calldata host,
+        uint16 port
+    ) external whenNotPaused onlyRole(REGISTRAR_ROLE) memberDoesNotExist(memberAddress) returns (uint256) {
+        _checkJoinRequestNotRequired();
+        NodeMember memory record = _memberRecord(memberAddress, x500Name, certSerialHex, platformVersion, host, port);
+        _checkIdentityAvailable(record);
+        return _createProposal(ProposalAction.AddMember, record);
+    }
+
+    function proposeRemoveMember(address memberAddress) external whenNotPaused onlyRole(REGISTRAR_ROLE) memberExists(memberAddress) returns (uint256) {
+        NodeMember memory target;
+        target.memberAddress = memberAddress;
+        return _createProposal(ProposalAction.RemoveMember, target);
+    }
+
+    function proposeUpdateMemberDetails(
+        address memberAddress,
+        string calldata x500Name,
+        bytes calldata certSerialHex,
+        uint16 platformVersion,
+        string calldata host,
+        uint16 port
+    ) external whenNotPaused onlyRole(REGISTRAR_ROLE) memberExists(memberAddress) returns (uint256) {
+        NodeMember memory record = _memberRecord(memberAddress, x500Name, certSerialHex, platformVersion, host, port);
+        _checkIdentityAvailable(record);
+        return _createProposal(ProposalAction.UpdateMemberDetails, record);
+    }
+
+    /**
+     * @dev Proposes adding a member from a signed join request, for thresholds above one and for registries that
+     * require join requests. The request is checked like in `addMemberWithJoinRequest` now, and its nonce is
+     * consumed when the proposal executes, which reverts if the nonce was used in the meantime.
+     */
+    function proposeAddMemberWithJoinRequest(
+        JoinRequest calldata request,
+        uint16 platformVersion,
+        bytes calldata signature
+    ) external whenNotPaused onlyRole(REGISTRAR_ROLE) memberDoesNotExist(request.memberAddress) returns (uint256 proposalId) {
+        _checkJoinRequest(request, signature);
+
+        NodeMember memory record = _joinRequestRecord(request, platformVersion);
+        _checkIdentityAvailable(record);
+        proposalId = _createProposal(ProposalAction.AddMemberWithJoinRequest, record);
+        proposalJoinNonces[proposalId] = request.nonce;
+    }
+
+    /**
+     * @dev Proposes recording a member's certificate fingerprint and validity window, like `setMemberCertificate`.
+     * The proposal is tied to the member's current serial and reverts at execution if the serial changed since.
+     */
+    function proposeMemberCertificate(
+        address memberAddress,
+        bytes32 certFingerprint,
+        uint256 certNotBefore,
+        uint256 certNotAfter
+    ) external whenNotPaused onlyRole(REGISTRAR_ROLE) memberExists(memberAddress) returns (uint256) {
+        _checkCertificate(certFingerprint, certNotBefore, certNotAfter);
+
+        NodeMember memory certificate;
+        certificate.memberAddress = memberAddress;
+        certificate.certSerialHex = members[memberAddress].certSerialHex;
+        certificate.certFingerprint = certFingerprint;
+        certificate.certNotBefore = certNotBefore;
+        certificate.certNotAfter = certNotAfter;
+        return _createProposal(ProposalAction.SetMemberCertificate, certificate);
+    }
+
+    /**
+     * @dev Proposes a new approval threshold. An admin can raise the threshold directly, but lowering it
+     * needs as many registrar approvals as the current threshold.
+     */
+    function proposeApprovalThreshold(uint256 newThreshold) external whenNotPaused onlyRole(REGISTRAR_ROLE) returns (uint256 proposalId) {
+        require(newThreshold > 0, "Threshold must be at least 1");
+
+        NodeMember memory noMember;
+        proposalId = _createProposal(ProposalAction.ChangeApprovalThreshold, noMember);
+        proposedThresholds[proposalId] = newThreshold;
+    }
+
+    function approveProposal(uint256 proposalId) external whenNotPaused onlyRole(REGISTRAR_ROLE) proposalPending(proposalId) {
+        require(!proposalApprovals[proposalId][msg.sender], "Proposal already approved by caller");
+
+        proposalApprovals[proposalId][msg.sender] = true;
+        proposals[proposalId].approvals++;
+
+        emit ProposalApproved(proposalId, msg.sender, proposals[proposalId].approvals);
+    }
+
+    /**
+     * @dev Applies an approved proposal. Member state is re-checked here, so a proposal made stale by another change reverts.
+     * Only approvals from accounts that still hold REGISTRAR_ROLE count, so revoking a registrar withdraws theirs.
+     */
+    function executeProposal(uint256 proposalId) external whenNotPaused onlyRole(REGISTRAR_ROLE) proposalPending(proposalId) {
+        Proposal storage proposal = proposals[proposalId];
+        require(getCurrentApprovals(proposalId) >= approvalThreshold, "Not enough approvals");
+
+        proposal.status = ProposalStatus.Executed;
+
+        if (proposal.action == ProposalAction.AddMember) {
+            _addMember(proposal.member);
+        } else if (proposal.action == ProposalAction.AddMemberWithJoinRequest) {
+            address memberAddress = proposal.member.memberAddress;
+            require(joinRequestNonces[memberAddress] == proposalJoinNonces[proposalId], "Join request nonce already used");
+
+            joinRequestNonces[memberAddress]++;
+            _addSignedMember(proposal.member);
+        } else if (proposal.action == ProposalAction.RemoveMember) {
+            _removeMember(proposal.member.memberAddress, 0);
+        } else if (proposal.action == ProposalAction.UpdateMemberDetails) {
+            _updateMemberDetails(proposal.member);
+        } else if (proposal.action == ProposalAction.SetMemberCertificate) {
+            NodeMember memory certificate = proposal.member;
+            require(members[certificate.memberAddress].memberAddress != address(0), "Member does not exist");
+            require(
+                keccak256(members[certificate.memberAddress].certSerialHex) == keccak256(certificate.certSerialHex),
+                "Certificate serial changed since the proposal"
+            );
+            _setMemberCertificate(certificate.memberAddress, certificate.certFingerprint, certificate.certNotBefore, certificate.certNotAfter);
+        } else {
+            emit ApprovalThresholdChanged(approvalThreshold, proposedThresholds[proposalId]);
+            approvalThreshold = proposedThresholds[proposalId];
+        }
+
+        emit ProposalExecuted(proposalId);
+    }
+
+    /**
+     * @dev Number of a proposal's approvals that count towards execution: those from current registrars.
+     */
+    function getCurrentApprovals(uint256 proposalId) public view returns (uint256 approvals) {
+        require(proposalId < proposals.length, "Proposal does not exist");
+
+        uint256 registrarCount = getRoleMemberCount(REGISTRAR_ROLE);
+        for (uint256 i = 0; i < registrarCount; i++) {
+            if (proposalApprovals[proposalId][getRoleMember(REGISTRAR_ROLE, i)]) {
+                approvals++;
+            }
+        }
+    }
+
+    function getProposedThreshold(uint256 proposalId) external view returns (uint256) {
+        require(proposalId < proposals.length, "Proposal does not exist");
+        return proposedThresholds[proposalId];
+    }
+
+    /**
+     * @dev Returns up to `limit` proposals starting at id `offset`, plus the total proposal count,
+     * so clients can read the recent ones without a call per proposal.
+     * An offset past the last proposal yields an empty page.
+     */
+    function getProposalsPage(uint256 offset, uint256 limit) external view returns (Proposal[] memory page, uint256 total) {
+        total = proposals.length;
+        if (offset >= total) {
+            return (new Proposal[](0), total);
+        }
+
+        uint256 end = limit > total - offset ? total : offset + limit;
+
+        page = new Proposal[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = proposals[i];
+        }
+    }
+
+    /**
+     * @dev Cancels a pending proposal. Only the proposer or an admin can cancel.
+     * Not paused: during an incident, proposals from a compromised key must still be cancellable.
+     */
+    function cancelProposal(uint256 proposalId) external {
+        require(proposalId < proposals.length, "Proposal does not exist");
+
+        Proposal storage proposal = proposals[proposalId];
+        require(proposal.status == ProposalStatus.Pending, "Proposal is not pending");
+        require(
+            msg.sender == proposal.proposer || hasRole(DEFAULT_ADMIN_ROLE, msg.sender),
+            "Only the proposer or an admin can cancel"
+        );
+
+        proposal.status = ProposalStatus.Cancelled;
+
+        emit ProposalCancelled(proposalId);
+    }
+
+    /**
+     * @dev Adds a member from a join request its operator signed with the member key, so only addresses
+     * someone actually controls get registered. The registrar supplies the platform version.
+     * The request must carry the address's current nonce and be used by its deadline; using it consumes the nonce,
+     * so a request cannot be replayed after the member is removed. This and `proposeAddMemberWithJoinRequest` are
+     * the only ways to add members while `setJoinRequestRequired(true)` is in effect; above a threshold of one,
+     * only the proposal works.
+     */
+    function addMemberWithJoinRequest(
+        JoinRequest calldata request,
+        uint16 platformVersion,
+        bytes calldata signature
+    ) external whenNotPaused onlyRole(REGISTRAR_ROLE) {
+        _checkDirectChangesAllowed();
+        _checkJoinRequest(request, signature);
+
+        joinRequestNonces[request.memberAddress]++;
+        _addSignedMember(_joinRequestRecord(request, platformVersion));
+    }
+
+    function _joinRequestRecord(JoinRequest calldata request, uint16 platformVersion) private pure returns (NodeMember memory) {
+        return _memberRecord(request.memberAddress, request.x500Name, request.certSerialHex, platformVersion, request.host, request.port);
+    }
+
+    function _checkJoinRequest(JoinRequest calldata request, bytes calldata signature) private view {
+        require(block.timestamp <= request.deadline, "Join request expired");
+        require(request.nonce == joinRequestNonces[request.memberAddress], "Join request nonce already used");
+        require(isValidJoinRequest(request, signature), "Invalid join request signature");
+    }
+
+    /**
+     * @dev True if `signature` is the member address's EIP-712 signature of `request` for this contract and chain.
+     * Only the signature is checked; the nonce and deadline are checked when the request is used.
+     */
+    function isValidJoinRequest(JoinRequest calldata request, bytes calldata signature) public view returns (bool) {
+        bytes32 domainSeparator = keccak256(abi.encode(
+            EIP712_DOMAIN_TYPEHASH,
+            keccak256("NetworkManager"),
+            keccak256("1"),
+            block.chainid,
+            address(this)
+        ));
+        bytes32 structHash = keccak256(abi.encode(
+            JOIN_REQUEST_TYPEHASH,
+            request.memberAddress,
+            keccak256(bytes(request.x500Name)),
+            keccak256(request.certSerialHex),
+            keccak256(bytes(request.host)),
+            request.port,
+            request.nonce,
+            request.deadline
+        ));
+
+        (address signer, ECDSA.RecoverError error) = ECDSA.tryRecover(ECDSA.toTypedDataHash(domainSeparator, structHash), signature);
+        return error == ECDSA.RecoverError.NoError && signer == request.memberAddress;
+    }
+}
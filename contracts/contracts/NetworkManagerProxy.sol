@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+
+// Compatible with XDC Subnet
+pragma solidity 0.8.19;
+
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/**
+ * @title NetworkManagerProxy
+ * @dev ERC1967 proxy for an upgradeable (UUPS) NetworkManager deployment. The upgrade logic lives in
+ * the implementation, so this contract only forwards calls and holds the registry's storage.
+ */
+contract NetworkManagerProxy is ERC1967Proxy {
+    constructor(address implementation, bytes memory initData) ERC1967Proxy(implementation, initData) {}
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+
+// Compatible with XDC Subnet
+pragma solidity 0.8.19;
+
+import {NetworkManager} from "../NetworkManager.sol";
+
+/**
+ * @dev Test-only implementation used to check that proxy state survives an upgrade.
+ * Appends one state variable after NetworkManager's storage, as a real upgrade would.
+ */
+contract NetworkManagerV2Mock is NetworkManager {
+    uint256 public upgradeMarker;
+
+    constructor(address secondExtension) NetworkManager(secondExtension) {}
+
+    function setUpgradeMarker(uint256 value) external onlyOwner {
+        upgradeMarker = value;
+    }
+
+    function version() external pure returns (string memory) {
+        return "2.0.0-mock";
+    }
+}
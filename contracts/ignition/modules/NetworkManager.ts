@@ -3,10 +3,19 @@ import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 /**
  * NetworkManager Ignition Deployment Module
  * 
- * This module deploys the NetworkManager contract using Hardhat Ignition.
+ * This module deploys the NetworkManager contract behind an ERC1967 (UUPS) proxy using Hardhat Ignition.
  * The contract manages network nodes and their associated metadata for the XDC subnet.
  * 
- * Constructor automatically receives msg.sender as the contract owner (via Ownable).
+ * The proxy address is the one to use everywhere: it keeps the registry's storage, so upgrading the
+ * implementation (see UpgradeNetworkManager.ts) keeps every registered member.
+ * 
+ * NetworkManager serves part of its functions from NetworkManagerExtension, which its constructor deploys,
+ * and that extension serves the rest from NetworkManagerExtension2, which is deployed first and passed in.
+ * NetworkManagerExtension2 in turn serves what it does not implement from NetworkManagerExtension3, which is
+ * deployed before it. All three extensions are recorded against the proxy address too, so their ABIs are part
+ * of the deployment.
+ * 
+ * initialize(owner) runs in the proxy's constructor, so the deploying account becomes the owner.
  * 
  * Usage:
  *   npx hardhat ignition deploy ./ignition/modules/NetworkManager.ts --network subnet
@@ -16,25 +25,39 @@ import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
  *   --reset               Start fresh deployment (ignore previous state)
  *   --deployment-id <id>  Use a specific deployment ID
  */
+export const proxyModule = buildModule("NetworkManagerProxyModule", (m) => {
+  const owner = m.getAccount(0);
+
+  const thirdExtension = m.contract("NetworkManagerExtension3", [], { id: "ThirdExtension" });
+  const secondExtension = m.contract("NetworkManagerExtension2", [thirdExtension], { id: "SecondExtension" });
+  const implementation = m.contract("NetworkManager", [secondExtension], { id: "NetworkManagerImplementation" });
+  const initData = m.encodeFunctionCall(implementation, "initialize", [owner]);
+  const proxy = m.contract("NetworkManagerProxy", [implementation, initData]);
+
+  return { implementation, proxy };
+});
+
 export default buildModule("NetworkManagerModule", (m) => {
-  // Deploy the NetworkManager contract
-  // The constructor receives msg.sender as owner automatically through Ownable(msg.sender)
-  const networkManager = m.contract("NetworkManager", []);
+  const { implementation, proxy } = m.useModule(proxyModule);
+
+  // Talk to the proxy through the NetworkManager ABI and those of its three extensions
+  const networkManager = m.contractAt("NetworkManager", proxy);
+  const extension = m.contractAt("NetworkManagerExtension", proxy, { id: "NetworkManagerExtension" });
+  const secondExtension = m.contractAt("NetworkManagerExtension2", proxy, { id: "NetworkManagerExtension2" });
+  const thirdExtension = m.contractAt("NetworkManagerExtension3", proxy, { id: "NetworkManagerExtension3" });
 
   // Optional: You can add initial member registration here
   // Uncomment and modify if you want to add members during deployment
   // 
   // Example:
-  // const owner = m.getAccount(0);
   // m.call(networkManager, "addMember", [
   //   "0x1234567890123456789012345678901234567890", // memberAddress
   //   "CN=Node1,O=XDC,L=Singapore,C=SG",            // x500Name
-  //   "0x04...",                                     // publicKey (compressed or uncompressed)
-  //   1n,                                            // serial
+  //   "0x0a1b2c3d4e5f6071",                          // certSerialHex
   //   1n,                                            // platformVersion
   //   "192.168.25.11",                              // host
   //   30303                                          // port
   // ]);
 
-  return { networkManager };
+  return { networkManager, extension, secondExtension, thirdExtension, proxy, implementation };
 });
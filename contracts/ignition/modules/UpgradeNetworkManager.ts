@@ -0,0 +1,56 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import NetworkManagerModule from "./NetworkManager.js";
+
+/**
+ * NetworkManager Upgrade Module
+ * 
+ * Deploys the current NetworkManager source as a new implementation and points the existing proxy at it.
+ * Run it against the same deployment as NetworkManager.ts so Ignition reuses the recorded proxy.
+ * 
+ * Bump IMPLEMENTATION_VERSION for every upgrade. Ignition skips futures that already succeeded, so
+ * reusing an id would silently keep the previous implementation.
+ * 
+ * Storage rules for a new implementation:
+ *   - Only append new state variables after the existing ones
+ *   - Only append new fields at the end of structs stored in mappings or arrays
+ *   - Never reorder, remove or change the type of existing state
+ * 
+ * Usage:
+ *   npx hardhat ignition deploy ./ignition/modules/UpgradeNetworkManager.ts --network subnet
+ */
+const IMPLEMENTATION_VERSION = 2;
+
+export default buildModule("NetworkManagerUpgradeModule", (m) => {
+  const { networkManager, proxy } = m.useModule(NetworkManagerModule);
+
+  const newThirdExtension = m.contract("NetworkManagerExtension3", [], {
+    id: `ThirdExtensionV${IMPLEMENTATION_VERSION}`,
+  });
+  const newSecondExtension = m.contract("NetworkManagerExtension2", [newThirdExtension], {
+    id: `SecondExtensionV${IMPLEMENTATION_VERSION}`,
+  });
+  const implementation = m.contract("NetworkManager", [newSecondExtension], {
+    id: `NetworkManagerImplementationV${IMPLEMENTATION_VERSION}`,
+  });
+
+  // upgradeTo is restricted to the owner by the current implementation
+  const upgrade = m.call(networkManager, "upgradeTo", [implementation], {
+    id: `UpgradeToV${IMPLEMENTATION_VERSION}`,
+  });
+
+  // The new implementation deploys its own first extension and uses the new second and third ones; record their ABIs for export-abi
+  const extension = m.contractAt("NetworkManagerExtension", proxy, {
+    id: `NetworkManagerExtensionV${IMPLEMENTATION_VERSION}`,
+    after: [upgrade],
+  });
+  const secondExtension = m.contractAt("NetworkManagerExtension2", proxy, {
+    id: `NetworkManagerExtension2V${IMPLEMENTATION_VERSION}`,
+    after: [upgrade],
+  });
+  const thirdExtension = m.contractAt("NetworkManagerExtension3", proxy, {
+    id: `NetworkManagerExtension3V${IMPLEMENTATION_VERSION}`,
+    after: [upgrade],
+  });
+
+  return { networkManager, extension, secondExtension, thirdExtension, proxy, implementation };
+});
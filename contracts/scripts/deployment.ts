@@ -0,0 +1,65 @@
+/**
+ * Locate NetworkManager in an Ignition deployment directory.
+ *
+ * NetworkManager is deployed behind a UUPS proxy, so a deployment holds several NetworkManager entries:
+ * the proxy (the address everything should talk to) and one implementation per upgrade. The ABI is
+ * taken from the most recent implementation so callers see functions added by upgrades, merged with
+ * the most recent NetworkManagerExtension, NetworkManagerExtension2 and NetworkManagerExtension3, whose
+ * functions NetworkManager serves at the same address.
+ */
+
+import fs from "fs-extra";
+import path from "path";
+
+// contractAt future for the proxy, see ignition/modules/NetworkManager.ts
+const PROXY_KEY = "NetworkManagerModule#NetworkManager";
+// NetworkManagerImplementation for the first deployment, NetworkManagerImplementationV<n> for upgrades
+const IMPLEMENTATION_KEY = /#NetworkManagerImplementation(V\d+)?$/;
+// Same numbering for the extension recorded at the proxy address
+const EXTENSION_KEY = /#NetworkManagerExtension(V\d+)?$/;
+const SECOND_EXTENSION_KEY = /#NetworkManagerExtension2(V\d+)?$/;
+const THIRD_EXTENSION_KEY = /#NetworkManagerExtension3(V\d+)?$/;
+
+export interface NetworkManagerDeployment {
+  address: string;
+  implementation: string;
+  abi: any[];
+}
+
+export function resolveNetworkManager(deploymentDir: string): NetworkManagerDeployment | null {
+  const deployedAddresses: Record<string, string> = fs.readJsonSync(path.join(deploymentDir, "deployed_addresses.json"));
+  const keys = Object.keys(deployedAddresses);
+
+  // Deployments made before the proxy was introduced only have a plain NetworkManager
+  const addressKey = PROXY_KEY in deployedAddresses ? PROXY_KEY : keys.find(key => key.includes("NetworkManager"));
+  if (!addressKey) {
+    return null;
+  }
+
+  // Ignition records addresses in execution order, so the last implementation is the live one
+  const implementationKey = keys.filter(key => IMPLEMENTATION_KEY.test(key)).pop() ?? addressKey;
+  const extensionKeys = [EXTENSION_KEY, SECOND_EXTENSION_KEY, THIRD_EXTENSION_KEY]
+    .map(pattern => keys.filter(key => pattern.test(key)).pop())
+    .filter((key): key is string => key !== undefined);
+  const readAbi = (key: string): any[] => fs.readJsonSync(path.join(deploymentDir, "artifacts", `${key}.json`)).abi;
+
+  return {
+    address: deployedAddresses[addressKey],
+    implementation: deployedAddresses[implementationKey],
+    abi: mergeAbis(readAbi(implementationKey), ...extensionKeys.map(readAbi))
+  };
+}
+
+// All four contracts inherit NetworkManagerBase, so entries such as events and role functions appear in each; keep them once
+function mergeAbis(...abis: any[][]): any[] {
+  const seen = new Set<string>();
+
+  return abis.flat().filter(entry => {
+    const signature = `${entry.type} ${entry.name ?? ""}(${(entry.inputs ?? []).map((input: any) => input.type).join(",")})`;
+    if (seen.has(signature)) {
+      return false;
+    }
+    seen.add(signature);
+    return true;
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * Host validation and endpoint formatting shared by the CLI and the bootstrap loader.
+ *
+ * The contract stores a host as a plain string, so IPv6 addresses are stored without brackets ("::1").
+ * Brackets are accepted on input and added back whenever a host is printed next to its port ("[::1]:30303").
+ * IPv6 addresses are also stored in their RFC 5952 form, since the contract only compares hosts
+ * case-insensitively and would otherwise treat "0::1" and "::1" as different endpoints.
+ */
+
+export type HostKind = "ipv4" | "ipv6" | "dns";
+
+const IPV4_OCTET = "(25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+const IPV4 = new RegExp(`^${IPV4_OCTET}(\\.${IPV4_OCTET}){3}$`);
+const HEX_GROUP = /^[0-9a-fA-F]{1,4}$/;
+const DNS_LABEL = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+
+// Strip surrounding whitespace and the brackets of a bracketed IPv6 host, and lowercase it: the contract
+// compares hosts case-insensitively, so the stored form should match what it compares. Valid IPv6
+// addresses are rewritten in their canonical form, so every spelling of an address is stored the same way
+export function normalizeHost(host: string): string {
+  const trimmed = host.trim().toLowerCase();
+  const unbracketed = trimmed.startsWith("[") && trimmed.endsWith("]") ? trimmed.slice(1, -1) : trimmed;
+  return unbracketed.includes(":") && isIPv6(unbracketed) ? canonicalIPv6(unbracketed) : unbracketed;
+}
+
+// RFC 5952 text form of a valid, lowercased IPv6 address: no leading zeros, and the longest run of two or
+// more zero groups (the first, on a tie) replaced by "::". An IPv4 tail is kept in dotted form.
+function canonicalIPv6(address: string): string {
+  const halves = address.split("::").map(half => (half === "" ? [] : half.split(":")));
+  const last = halves[halves.length - 1];
+  const ipv4 = last.length > 0 && last[last.length - 1].includes(".") ? last.pop()! : "";
+
+  const width = ipv4 ? 6 : 8;
+  const groups = halves.length === 2
+    ? [...halves[0], ...Array(width - halves[0].length - halves[1].length).fill("0"), ...halves[1]]
+    : halves[0];
+  const hex = groups.map(group => parseInt(group, 16).toString(16));
+
+  let runStart = -1;
+  let runLength = 1;
+  for (let i = 0; i < hex.length; i++) {
+    if (hex[i] !== "0") {
+      continue;
+    }
+    let end = i + 1;
+    while (end < hex.length && hex[end] === "0") {
+      end++;
+    }
+    if (end - i > runLength) {
+      runStart = i;
+      runLength = end - i;
+    }
+    // hex[end] is not a zero group, so the scan can resume after it
+    i = end;
+  }
+
+  const text = runStart < 0
+    ? hex.join(":")
+    : `${hex.slice(0, runStart).join(":")}::${hex.slice(runStart + runLength).join(":")}`;
+  if (!ipv4) {
+    return text;
+  }
+  return text.endsWith(":") ? `${text}${ipv4}` : `${text}:${ipv4}`;
+}
+
+function isIPv6(host: string): boolean {
+  const halves = host.split("::");
+  if (halves.length > 2) {
+    return false;
+  }
+
+  const groups = halves.map(half => (half === "" ? [] : half.split(":")));
+
+  // An IPv4 tail ("::ffff:192.0.2.1") takes the place of two groups. It must end the address, so it is
+  // only looked for in the last half: "1.2.3.4::" is not an address
+  const tail = groups[groups.length - 1];
+  let count = groups.flat().length;
+  if (tail.length > 0 && tail[tail.length - 1].includes(".")) {
+    if (!IPV4.test(tail.pop()!)) {
+      return false;
+    }
+    count++;
+  }
+
+  if (!groups.flat().every(group => HEX_GROUP.test(group))) {
+    return false;
+  }
+  return halves.length === 2 ? count < 8 : count === 8;
+}
+
+/**
+ * Classify a host as an IPv4 address, an IPv6 address (bracketed or not) or a DNS name.
+ * Returns null if it is none of them.
+ */
+export function hostKind(host: string): HostKind | null {
+  const normalized = normalizeHost(host);
+
+  if (normalized.includes(":")) {
+    return isIPv6(normalized) ? "ipv6" : null;
+  }
+  // All-numeric dotted hosts are never DNS names, so "256.1.1.1" is an invalid address rather than a name
+  if (/^[\d.]+$/.test(normalized)) {
+    return IPV4.test(normalized) ? "ipv4" : null;
+  }
+  if (normalized.length <= 253 && normalized.split(".").every(label => DNS_LABEL.test(label))) {
+    return "dns";
+  }
+  return null;
+}
+
+// Error message for an invalid host, or null if it is valid
+export function hostError(host: string): string | null {
+  if (normalizeHost(host) === "") {
+    return "Host is required";
+  }
+  return hostKind(host) ? null : `"${host}" is not a valid IPv4 address, IPv6 address or DNS name`;
+}
+
+// host:port, with an IPv6 host in brackets
+export function formatEndpoint(host: string, port: number | string): string {
+  const normalized = normalizeHost(host);
+  return normalized.includes(":") ? `[${normalized}]:${port}` : `${normalized}:${port}`;
+}
@@ -1,11 +1,15 @@
 /**
  * Export the deployed contract ABI to a location accessible by the frontend
  * This ensures the frontend always uses the correct, deployed contract ABI
+ *
+ * The ABI comes from the proxy's current implementation and the address is the proxy's,
+ * so re-running this after an upgrade picks up new functions without changing the address.
  */
 
 import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { resolveNetworkManager } from './deployment.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -15,12 +19,6 @@ interface Deployment {
   time: number;
 }
 
-interface ContractArtifact {
-  abi: any[];
-  contractName: string;
-  sourceName: string;
-}
-
 async function exportABI() {
   // Find the latest deployment
   const deploymentsDir = path.join(__dirname, '../ignition/deployments');
@@ -50,14 +48,15 @@ async function exportABI() {
   const latestDeployment = path.join(deploymentsDir, sortedChainDirs[0].name);
   console.log(`Using deployment from: ${sortedChainDirs[0].name}`);
 
-  // Read the contract artifact
-  const artifactPath = path.join(latestDeployment, 'artifacts/NetworkManagerModule#NetworkManager.json');
-  if (!fs.existsSync(artifactPath)) {
+  // Find the proxy and the artifact of its current implementation
+  const deployment = resolveNetworkManager(latestDeployment);
+  if (!deployment) {
     console.error('Contract artifact not found!');
     process.exit(1);
   }
 
-  const artifact: ContractArtifact = fs.readJsonSync(artifactPath);
+  console.log(`Proxy: ${deployment.address}`);
+  console.log(`Implementation: ${deployment.implementation}`);
 
   // Create output directory
   const outputDir = path.join(__dirname, '../../frontend/src/contracts');
@@ -65,7 +64,7 @@ async function exportABI() {
 
   // Export ABI as JSON
   const abiPath = path.join(outputDir, 'NetworkManager.abi.json');
-  await fs.writeJson(abiPath, artifact.abi, { spaces: 2 });
+  await fs.writeJson(abiPath, deployment.abi, { spaces: 2 });
   console.log(`✓ ABI exported to: frontend/src/contracts/NetworkManager.abi.json`);
 
   // Export as TypeScript module
@@ -75,7 +74,7 @@ async function exportABI() {
  * DO NOT EDIT MANUALLY - Run 'npm run export-abi' in contracts directory to update
  */
 
-export const NetworkManagerABI = ${JSON.stringify(artifact.abi, null, 2)} as const;
+export const NetworkManagerABI = ${JSON.stringify(deployment.abi, null, 2)} as const;
 
 export type NetworkManagerABI = typeof NetworkManagerABI;
 `;
@@ -84,7 +83,25 @@ export type NetworkManagerABI = typeof NetworkManagerABI;
   await fs.writeFile(tsPath, tsContent);
   console.log(`✓ TypeScript ABI exported to: frontend/src/contracts/NetworkManager.abi.ts`);
 
-  console.log('\nSuccessfully exported contract ABI!');
+  // Export the addresses; the proxy address stays the same across upgrades
+  const deploymentContent = `/**
+ * NetworkManager Deployment
+ * Auto-generated from the Ignition deployment
+ * DO NOT EDIT MANUALLY - Run 'npm run export-abi' in contracts directory to update
+ */
+
+export const NetworkManagerDeployment = {
+  chain: '${sortedChainDirs[0].name}',
+  address: '${deployment.address}', // Proxy - use this address for all calls
+  implementation: '${deployment.implementation}'
+} as const;
+`;
+
+  const deploymentPath = path.join(outputDir, 'NetworkManager.deployment.ts');
+  await fs.writeFile(deploymentPath, deploymentContent);
+  console.log(`✓ Deployment addresses exported to: frontend/src/contracts/NetworkManager.deployment.ts`);
+
+  console.log('\nSuccessfully exported contract ABI and address!');
 }
 
 // Execute
@@ -6,8 +6,11 @@ import fs from "fs-extra";
 import path from "path";
 import dotenv from "dotenv";
 import { fileURLToPath } from "url";
-import { hexToString, type Address, type Hex, type GetContractReturnType, type PublicClient, type WalletClient } from "viem";
+import { hexToString, parseEventLogs, type Address, type Hex, type GetContractReturnType, type PublicClient, type WalletClient } from "viem";
 import type { NodeMember, NodeMemberDisplay } from "../types/NetworkManager.js";
+import { resolveNetworkManager } from "./deployment.js";
+import { formatEndpoint, hostError, normalizeHost } from "./endpoint.js";
+import { CRL_REASONS } from "./revocation.js";
 
 dotenv.config();
 
@@ -26,16 +29,65 @@ const __dirname = path.dirname(__filename);
  *   COMMAND=addMember ARGS=0x123...|NodeName|pubkey|1001|1|host|30303 npx hardhat run scripts/hardhat-interact.ts --network subnet
  * 
  * Commands:
- *  - getManager: Get the current manager address
+ *  - getManager: Get the current manager address and whether the registry is paused
  *  - addMember: Add a new member (args: address|x500Name|publicKey|serial|platformVersion|host|port)
- *  - removeMember: Remove a member (args: address)
+ *  - addPending: Add a member in the Pending state, for a node that is not online yet (args: address|x500Name|certSerialHex|platformVersion|host|port)
+ *  - removeMember: Remove a member, archiving its record with an optional lifecycle reason (args: address|[reason])
  *  - getMember: Get member details (args: address)
  *  - getAllMembers: List all member addresses
+ *  - history: Show every change to a member with its block, time and sender (args: address)
+ *  - findMember: Find the member holding a certificate serial (0x...) or an exact X.500 name (args: certSerialHex or x500Name)
  *  - updateStatus: Update member status (args: address|isActive)
+ *  - setState: Move a member along its lifecycle (args: address|state|[reason])
+ *  - listStates: List members by lifecycle state, or only those in one state (args: [state])
+ *  - formerMembers: List archived records of removed members, or only the tenures of one address (args: [address])
  *  - updateDetails: Update member details (args: address|x500Name|publicKey|serial|platformVersion|host|port)
- *  - transferManager: Transfer manager role to new address (args: newManagerAddress)
+ *  - transferManager: Nominate a new manager, who must accept (args: newManagerAddress)
+ *  - acceptManager: Accept a pending manager nomination (signed by the nominee)
+ *  - cancelTransfer: Cancel a pending manager nomination
  *  - isMember: Check if an address is a member (args: address)
  *  - updateSubnetMemberDetail: Update subnet details (args: address|serial|platformVersion|host|port)
+ *  - batch: Add, activate, deactivate or remove every member listed in a JSON file in one transaction (args: add|activate|deactivate|remove|file)
+ *  - setCertificate: Record a member's certificate fingerprint and validity (args: address|sha256Fingerprint|notBefore|notAfter)
+ *  - proposeCertificate: Propose recording a certificate, for thresholds above 1 (args: address|sha256Fingerprint|notBefore|notAfter)
+ *  - updateMyEndpoint: Update the signing member's own endpoint (args: host|port|platformVersion)
+ *  - getMetadata: Show a member's metadata, or one key of it (args: address|[key])
+ *  - setMetadata: Set a metadata key on a member; omit the value to remove the key (args: address|key|[value])
+ *  - getEndpoints: Show a member's primary and additional endpoints (args: address)
+ *  - setEndpoints: Replace a member's additional endpoints; pass only the address to clear them (args: address|[protocol:host:port]...)
+ *  - renew: Extend a member's lease by a number of days from its current end, or from now if it has lapsed (args: address|days)
+ *  - setLeaseDuration: Set the lease given to newly added members; 0 disables leases (args: days)
+ *  - setMinVersion: Set the oldest platform version the network supports; 0 clears it (args: version)
+ *  - compliance: Show the platform version distribution and the members below the minimum
+ *  - createUpgradePlan: Announce a hard fork members acknowledge readiness for (args: targetVersion|activationBlock|deadlineDays)
+ *  - cancelUpgradePlan: Cancel an upgrade plan (args: planId)
+ *  - acknowledgeUpgrade: Signal that the signing member's node is ready for an upgrade plan (args: planId)
+ *  - listUpgradePlans: List upgrade plans with their status and readiness
+ *  - upgradeReport: Show the members ready and not ready for an upgrade plan, by default the latest (args: [planId])
+ *  - createOrg: Create an organization with a node quota (args: name|nodeQuota)
+ *  - setOrgQuota: Change an organization's node quota (args: organizationId|nodeQuota)
+ *  - addOrgAdmin: Make an account an admin of an organization (args: organizationId|address)
+ *  - removeOrgAdmin: Remove an account's organization admin rights (args: address)
+ *  - setMemberOrg: Move a member into an organization; 0 takes it out (args: address|organizationId)
+ *  - listOrgs: List organizations with their quota use, admins and members
+ *  - orgAddMember: Add a member to the signer's own organization as its admin (args: address|x500Name|certSerialHex|platformVersion|host|port)
+ *  - orgRemoveMember: Remove a member of the signer's own organization (args: address)
+ *  - orgUpdateStatus: Update the status of a member of the signer's own organization (args: address|isActive)
+ *  - revoke: Add a certificate serial to the on-chain revocation list (args: certSerialHex|reason)
+ *  - grantRole: Grant a role to an account (args: role|address)
+ *  - revokeRole: Revoke a role from an account (args: role|address)
+ *  - listRoles: List role holders, or the roles of one account (args: [address])
+ *  - proposeAdd: Propose adding a member (args: address|x500Name|certSerialHex|platformVersion|host|port)
+ *  - proposeRemove: Propose removing a member (args: address)
+ *  - proposeUpdate: Propose updating member details (args: address|x500Name|certSerialHex|platformVersion|host|port)
+ *  - proposeThreshold: Propose a new approval threshold; the only way to lower it (args: threshold)
+ *  - approve: Approve a pending proposal (args: proposalId)
+ *  - execute: Execute a proposal that reached the approval threshold (args: proposalId)
+ *  - cancel: Cancel a pending proposal (args: proposalId)
+ *  - listProposals: List proposals with their approvals and expiry (args: [all])
+ *  - setThreshold: Raise the number of approvals a proposal needs (args: threshold)
+ *  - pause: Freeze all registry changes (pauser role)
+ *  - unpause: Allow registry changes again (pauser role)
  *  - help: Display this help message
  */
 
@@ -43,19 +95,170 @@ const __dirname = path.dirname(__filename);
 const validCommands = [
   "getManager",
   "addMember",
+  "addPending",
   "removeMember",
   "getMember",
   "getAllMembers",
+  "history",
+  "findMember",
   "updateStatus",
+  "setState",
+  "listStates",
+  "formerMembers",
   "updateDetails",
   "transferManager",
+  "acceptManager",
+  "cancelTransfer",
   "isMember",
   "updateSubnetMemberDetail",
+  "batch",
+  "setCertificate",
+  "proposeCertificate",
+  "updateMyEndpoint",
+  "getMetadata",
+  "setMetadata",
+  "getEndpoints",
+  "setEndpoints",
+  "renew",
+  "setLeaseDuration",
+  "setMinVersion",
+  "compliance",
+  "createUpgradePlan",
+  "cancelUpgradePlan",
+  "acknowledgeUpgrade",
+  "listUpgradePlans",
+  "upgradeReport",
+  "createOrg",
+  "setOrgQuota",
+  "addOrgAdmin",
+  "removeOrgAdmin",
+  "setMemberOrg",
+  "listOrgs",
+  "orgAddMember",
+  "orgRemoveMember",
+  "orgUpdateStatus",
+  "revoke",
+  "grantRole",
+  "revokeRole",
+  "listRoles",
+  "proposeAdd",
+  "proposeRemove",
+  "proposeUpdate",
+  "proposeThreshold",
+  "approve",
+  "execute",
+  "cancel",
+  "listProposals",
+  "setThreshold",
+  "pause",
+  "unpause",
   "help"
 ] as const;
 
 type Command = typeof validCommands[number];
 
+// Role names accepted on the command line, mapped to the contract's role constants
+const roleConstants = {
+  admin: "DEFAULT_ADMIN_ROLE",
+  registrar: "REGISTRAR_ROLE",
+  operator: "OPERATOR_ROLE",
+  auditor: "AUDITOR_ROLE",
+  pauser: "PAUSER_ROLE",
+  renewer: "RENEWER_ROLE",
+} as const;
+
+type RoleName = keyof typeof roleConstants;
+
+const roleNames = Object.keys(roleConstants) as RoleName[];
+
+// Names of the contract's ProposalAction and ProposalStatus enums, indexed by value
+const proposalActions = ["AddMember", "RemoveMember", "UpdateMemberDetails", "ChangeApprovalThreshold", "SetMemberCertificate", "AddMemberWithJoinRequest"];
+const proposalStatuses = ["Pending", "Executed", "Cancelled"];
+
+// Names of the contract's EndpointProtocol enum, indexed by value
+const endpointProtocols = ["p2p", "rpc", "ws", "grpc", "metrics"];
+
+// Names of the contract's MemberState enum, indexed by value
+const memberStates = ["Pending", "Active", "Suspended", "Retiring", "Retired"];
+
+// Lifecycle reasons accepted by setMemberState and removeMemberWithReason, indexed by reason code
+const stateReasons = [
+  "unspecified",
+  "nodeOnline",
+  "maintenance",
+  "securityIncident",
+  "policyViolation",
+  "leaseExpired",
+  "decommissioned",
+  "replaced"
+];
+
+// Events that mark a change to one member's record; MemberUpdated accompanies every change to the struct itself
+const memberHistoryEvents = [
+  "MemberAdded",
+  "MemberUpdated",
+  "MemberRemoved",
+  "MemberMetadataSet",
+  "MemberLeaseRenewed",
+  "MemberEndpointsChanged",
+  "MemberStateChanged",
+  "MemberArchived"
+] as const;
+
+// NodeMember fields compared between blocks by the history command
+const memberHistoryFields = [
+  "x500Name",
+  "certSerialHex",
+  "isActive",
+  "platformVersion",
+  "host",
+  "port",
+  "certFingerprint",
+  "certNotBefore",
+  "certNotAfter",
+] as const;
+
+// Largest block range requested in one eth_getLogs call; many subnet RPC nodes cap the range
+const LOG_BLOCK_RANGE = 5000n;
+
+interface Organization {
+  name: string;
+  nodeQuota: bigint;
+  memberCount: bigint;
+  admins: readonly Address[];
+}
+
+interface Proposal {
+  action: number;
+  member: NodeMember;
+  proposer: Address;
+  approvals: bigint;
+  createdAt: bigint;
+  expiresAt: bigint;
+  status: number;
+}
+
+interface UpgradePlan {
+  targetVersion: number;
+  activationBlock: bigint;
+  deadline: bigint;
+  createdBy: Address;
+  createdAt: bigint;
+  cancelled: boolean;
+}
+
+interface FormerMember {
+  member: NodeMember;
+  finalState: number;
+  reason: number;
+  removedBy: Address;
+  removedAt: bigint;
+  previousTenure: bigint;
+}
+
+// Operations accepted by the batch command
+const batchActions = ["add", "activate", "deactivate", "remove"];
+
 // Process arguments - check environment variable first, then fall back to process.argv
 let command: string = process.env.COMMAND || "help";
 let args: string[] = [];
@@ -115,32 +318,19 @@ async function main() {
       process.exit(1);
     }
 
-    const deployedAddresses = JSON.parse(fs.readFileSync(deployedAddressesPath, "utf8"));
-    
-    // Find NetworkManager contract address
-    const networkManagerKey = Object.keys(deployedAddresses).find(key => key.includes("NetworkManager"));
-    if (!networkManagerKey) {
+    // Find the NetworkManager proxy and the ABI of its current implementation
+    const deployment = resolveNetworkManager(latestChainDir);
+    if (!deployment) {
       console.error("NetworkManager contract not found in deployment!");
       process.exit(1);
     }
 
-    const contractAddress = deployedAddresses[networkManagerKey];
+    const contractAddress = deployment.address;
 
     console.log(`✓ Found NetworkManager at address: ${contractAddress}`);
-
-    // Read contract ABI from artifacts
-    const artifactsPath = path.join(latestChainDir, "artifacts", `${networkManagerKey}.json`);
-    if (!fs.existsSync(artifactsPath)) {
-      console.error("Contract artifact not found!");
-      process.exit(1);
+    if (deployment.implementation !== contractAddress) {
+      console.log(`✓ Implementation: ${deployment.implementation}`);
     }
-
-    const artifact = JSON.parse(fs.readFileSync(artifactsPath, "utf8"));
-    
-    const deployment = {
-      address: contractAddress,
-      abi: artifact.abi
-    };
     
     console.log(`✓ Loaded deployment from ${latestChainDir}`);
     console.log(`✓ Chain: ${sortedChainDirs[0].name}`);
@@ -175,11 +365,75 @@ async function main() {
 
     console.log(`\nInteracting with NetworkManager at address: ${deployment.address}\n`);
 
+    // Resolve a role name (admin, registrar, operator, auditor, pauser, renewer) to its bytes32 identifier
+    const getRoleId = async (roleName: string): Promise<Hex> => {
+      const key = roleName.toLowerCase() as RoleName;
+      if (!roleNames.includes(key)) {
+        console.error(`Unknown role: ${roleName}. Expected one of: ${roleNames.join(", ")}`);
+        process.exit(1);
+      }
+      return await networkManager.read[roleConstants[key]]([]) as Hex;
+    };
+
+    // Validate a host (IPv4, IPv6 with or without brackets, or DNS name) and return it as stored on-chain
+    const requireHost = (host: string): string => {
+      const problem = hostError(host ?? "");
+      if (problem) {
+        console.error(problem);
+        process.exit(1);
+      }
+      return normalizeHost(host);
+    };
+
+    // Where an upgrade plan stands: cancelled, activated, closed to acknowledgements, or open
+    const upgradePlanStatus = (plan: UpgradePlan, currentBlock: bigint): string => {
+      if (plan.cancelled) {
+        return "cancelled";
+      }
+      if (currentBlock >= plan.activationBlock) {
+        return "activated";
+      }
+      return Number(plan.deadline) * 1000 < Date.now() ? "deadline passed" : "open";
+    };
+
+    // Resolve a lifecycle reason given as a code or a name; empty means unspecified
+    const parseStateReason = (reasonArg: string | undefined): number => {
+      const arg = reasonArg || "unspecified";
+      const reason = /^\d+$/.test(arg)
+        ? parseInt(arg)
+        : stateReasons.findIndex(name => name.toLowerCase() === arg.toLowerCase());
+      if (reason < 0 || reason >= stateReasons.length) {
+        console.error(`Unknown reason: ${arg}. Expected a code 0-${stateReasons.length - 1} or one of: ${stateReasons.join(", ")}`);
+        process.exit(1);
+      }
+      return reason;
+    };
+
+    // Submit a proposal transaction and return the id from its ProposalCreated event
+    const submitProposal = async (hash: Hex): Promise<bigint> => {
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      const [created] = parseEventLogs({
+        abi: deployment.abi,
+        logs: receipt.logs,
+        eventName: "ProposalCreated"
+      }) as unknown as { args: { proposalId: bigint } }[];
+      return created.args.proposalId;
+    };
+
     // Process command
     switch (command) {
       case "getManager":
         const manager = await networkManager.read.owner([]) as Address;
         console.log(`Current manager: ${manager}`);
+
+        const nominee = await networkManager.read.pendingOwner([]) as Address;
+        if (BigInt(nominee) !== 0n) {
+          console.log(`Pending manager (awaiting acceptance): ${nominee}`);
+        }
+
+        if (await networkManager.read.paused([])) {
+          console.log(`Registry is PAUSED: member, certificate and proposal changes are blocked`);
+        }
         break;
 
       case "addMember":
@@ -197,7 +451,7 @@ async function main() {
             x500Name,
             certSerialHex as Hex,
             parseInt(platformVersion),
-            host,
+            requireHost(host),
             parseInt(port)
           ],
           {} as any
@@ -207,20 +461,44 @@ async function main() {
         console.log(`Member added successfully`);
         break;
 
+      case "addPending":
+        if (args.length < 6) {
+          console.error("Usage: COMMAND=addPending ARGS=address|x500Name|certSerialHex|platformVersion|host|port npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address, x500Name, certSerialHex, platformVersion, host, port");
+          process.exit(1);
+        }
+
+        const addPendingHash = await networkManager.write.addPendingMember(
+          [
+            args[0] as Address,
+            args[1],
+            args[2] as Hex,
+            parseInt(args[3]),
+            requireHost(args[4]),
+            parseInt(args[5])
+          ],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: addPendingHash });
+
+        console.log(`Member added as Pending. Activate it with setState once its node is online`);
+        break;
+
       case "removeMember":
         if (args.length < 1) {
-          console.error("Usage: COMMAND=removeMember ARGS=address npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Usage: COMMAND=removeMember ARGS=address|[reason] npx hardhat run scripts/hardhat-interact.ts --network subnet");
           console.error("Required args: address");
+          console.error(`Optional args: reason (code 0-${stateReasons.length - 1} or one of ${stateReasons.join(", ")}; default unspecified)`);
           process.exit(1);
         }
 
-        const removeHash = await networkManager.write.removeMember(
-          [args[0] as Address],
-          {} as any
-        ) as Hex;
+        const removeReason = parseStateReason(args[1]);
+        const removeHash = (removeReason === 0
+          ? await networkManager.write.removeMember([args[0] as Address], {} as any)
+          : await networkManager.write.removeMemberWithReason([args[0] as Address, removeReason], {} as any)) as Hex;
         await publicClient.waitForTransactionReceipt({ hash: removeHash });
 
-        console.log(`Member removed successfully`);
+        console.log(`Member removed successfully. Its record is archived (${stateReasons[removeReason]}); see formerMembers`);
         break;
 
       case "getMember":
@@ -250,6 +528,9 @@ async function main() {
           platformVersion: member.platformVersion,
           host: member.host,
           port: member.port,
+          certFingerprint: member.certFingerprint,
+          certNotBefore: Number(member.certNotBefore),
+          certNotAfter: Number(member.certNotAfter),
         };
 
         let certSerialDisplay: string;
@@ -262,6 +543,30 @@ async function main() {
         console.log("Member details:");
         console.log(JSON.stringify(memberDisplay, null, 2));
         console.log(`Certificate Serial (decoded): ${certSerialDisplay}`);
+        if (memberDisplay.certNotAfter > 0) {
+          console.log(`Certificate valid: ${new Date(memberDisplay.certNotBefore * 1000).toISOString()} to ${new Date(memberDisplay.certNotAfter * 1000).toISOString()}`);
+        }
+
+        const leaseExpiry = Number(await networkManager.read.getLeaseExpiry([getMemberAddress]) as bigint);
+        const memberState = await networkManager.read.getMemberState([getMemberAddress]) as number;
+        console.log(`Lifecycle state: ${memberStates[memberState]}`);
+        const previousTenure = await networkManager.read.getPreviousTenure([getMemberAddress]) as bigint;
+        if (previousTenure > 0n) {
+          console.log(`Previous tenure: archive #${previousTenure} (see formerMembers)`);
+        }
+        const lastSeen = Number(await networkManager.read.getLastSeen([getMemberAddress]) as bigint);
+        console.log(`Last heartbeat: ${lastSeen > 0 ? new Date(lastSeen * 1000).toISOString() : "never"}`);
+        console.log(`Primary endpoint: ${formatEndpoint(member.host, member.port)}`);
+        console.log(`Membership lease: ${leaseExpiry > 0 ? `until ${new Date(leaseExpiry * 1000).toISOString()}` : "no expiry"}`);
+
+        const memberEndpointList = await networkManager.read.getEndpoints([getMemberAddress]) as { protocol: number; host: string; port: number }[];
+        memberEndpointList.forEach(endpoint => console.log(`Endpoint (${endpointProtocols[endpoint.protocol]}): ${formatEndpoint(endpoint.host, endpoint.port)}`));
+
+        const memberOrganizationId = await networkManager.read.getMemberOrganization([getMemberAddress]) as bigint;
+        if (memberOrganizationId > 0n) {
+          const memberOrganization = await networkManager.read.getOrganization([memberOrganizationId]) as Organization;
+          console.log(`Organization: #${memberOrganizationId} ${memberOrganization.name}`);
+        }
         break;
 
       case "getAllMembers":
@@ -271,6 +576,138 @@ async function main() {
         console.log(`Total member count: ${memberAddresses.length}`);
         break;
 
+      case "history":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=history ARGS=address npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address");
+          process.exit(1);
+        }
+
+        const historyAddress = args[0].trim() as Address;
+        const historyFrom = await networkManager.read.deploymentBlock([]) as bigint;
+        const historyTo = await publicClient.getBlockNumber();
+        const historyLogs: { eventName: string; blockNumber: bigint; logIndex: number; transactionHash: Hex; args: any }[] = [];
+
+        for (let start = historyFrom; start <= historyTo; start += LOG_BLOCK_RANGE) {
+          const end = start + LOG_BLOCK_RANGE - 1n < historyTo ? start + LOG_BLOCK_RANGE - 1n : historyTo;
+
+          for (const eventName of memberHistoryEvents) {
+            const logs = await publicClient.getContractEvents({
+              address: deployment.address as Address,
+              abi: deployment.abi,
+              eventName,
+              args: { memberAddress: historyAddress },
+              fromBlock: start,
+              toBlock: end,
+            }) as any[];
+            historyLogs.push(...logs);
+          }
+        }
+
+        if (historyLogs.length === 0) {
+          console.log(`No history recorded for ${historyAddress}`);
+          break;
+        }
+
+        historyLogs.sort((a, b) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex);
+        const historyTransactions = [...new Set(historyLogs.map(log => log.transactionHash))];
+
+        // getMember at a past block; null if the address was not a member then or the node has pruned that state
+        const readMemberAt = async (blockNumber: bigint): Promise<NodeMember | null> => {
+          try {
+            return await networkManager.read.getMember([historyAddress], { blockNumber }) as NodeMember;
+          } catch {
+            return null;
+          }
+        };
+        const formatField = (field: string, value: unknown): string =>
+          (field === "certNotBefore" || field === "certNotAfter") && Number(value) > 0
+            ? new Date(Number(value) * 1000).toISOString()
+            : String(value);
+
+        console.log(`History of ${historyAddress}:`);
+        for (const [index, hash] of historyTransactions.entries()) {
+          const txLogs = historyLogs.filter(log => log.transactionHash === hash);
+          const txBlock = txLogs[0].blockNumber;
+          const block = await publicClient.getBlock({ blockNumber: txBlock });
+          const transaction = await publicClient.getTransaction({ hash });
+          const eventNames = txLogs.map(log => log.eventName);
+
+          console.log(`\nBlock ${txBlock} (${new Date(Number(block.timestamp) * 1000).toISOString()}) by ${transaction.from}`);
+          console.log(`  tx ${hash}`);
+          console.log(`  events: ${eventNames.join(", ")}`);
+
+          // The struct is compared across the whole block, so several transactions in one block share one diff on the last
+          const nextHash = historyTransactions[index + 1];
+          const lastInBlock = !nextHash || historyLogs.find(log => log.transactionHash === nextHash)!.blockNumber !== txBlock;
+          if (lastInBlock && eventNames.some(name => name === "MemberAdded" || name === "MemberUpdated" || name === "MemberRemoved")) {
+            const before = await readMemberAt(txBlock - 1n);
+            const after = await readMemberAt(txBlock);
+
+            if ((!before && !eventNames.includes("MemberAdded")) || (!after && !eventNames.includes("MemberRemoved"))) {
+              console.log("  (member state at this block is not available from this node)");
+            } else if (after) {
+              for (const field of memberHistoryFields) {
+                const previous = before ? formatField(field, before[field]) : "";
+                const current = formatField(field, after[field]);
+                if (previous !== current) {
+                  console.log(`  ${field}: ${previous || "(none)"} -> ${current}`);
+                }
+              }
+            }
+          }
+
+          for (const log of txLogs) {
+            if (log.eventName === "MemberMetadataSet") {
+              let previous = "";
+              try {
+                previous = await networkManager.read.getMetadata([historyAddress, log.args.key], { blockNumber: txBlock - 1n }) as string;
+              } catch {
+                // Pruned state; show the new value only
+              }
+              console.log(`  metadata.${log.args.key}: ${previous || "(none)"} -> ${log.args.value || "(removed)"}`);
+            } else if (log.eventName === "MemberLeaseRenewed") {
+              const previous = log.args.previousExpiresAt > 0n ? new Date(Number(log.args.previousExpiresAt) * 1000).toISOString() : "(none)";
+              console.log(`  lease: ${previous} -> ${new Date(Number(log.args.newExpiresAt) * 1000).toISOString()}`);
+            } else if (log.eventName === "MemberEndpointsChanged") {
+              const formatEndpoints = (endpoints: readonly { protocol: number; host: string; port: number }[]): string =>
+                endpoints.map(endpoint => `${endpointProtocols[endpoint.protocol]} ${formatEndpoint(endpoint.host, endpoint.port)}`).join(", ");
+              let previous = "";
+              try {
+                previous = formatEndpoints(await networkManager.read.getEndpoints([historyAddress], { blockNumber: txBlock - 1n }) as { protocol: number; host: string; port: number }[]);
+              } catch {
+                // Pruned state; show the new list only
+              }
+              console.log(`  endpoints: ${previous || "(none)"} -> ${formatEndpoints(log.args.endpoints) || "(none)"}`);
+            } else if (log.eventName === "MemberStateChanged") {
+              console.log(`  state: ${memberStates[log.args.previousState]} -> ${memberStates[log.args.newState]} (${stateReasons[log.args.reason] ?? `reason ${log.args.reason}`})`);
+            } else if (log.eventName === "MemberArchived") {
+              console.log(`  archived as #${log.args.tenureId} (${stateReasons[log.args.reason] ?? `reason ${log.args.reason}`})`);
+            }
+          }
+        }
+        break;
+
+      case "findMember":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=findMember ARGS=certSerialHex|x500Name npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: certificate serial (0x...) or exact X.500 name");
+          process.exit(1);
+        }
+
+        // A hex argument is a certificate serial; anything else is looked up as an X.500 name
+        const lookupKey = args[0];
+        const found = (/^0x[0-9a-fA-F]+$/.test(lookupKey)
+          ? await networkManager.read.getMemberBySerial([lookupKey as Hex])
+          : await networkManager.read.getMemberByX500Name([lookupKey])) as NodeMember;
+
+        console.log(`Member: ${found.memberAddress}`);
+        console.log(`X.500 Name: ${found.x500Name}`);
+        console.log(`Certificate Serial: ${found.certSerialHex}`);
+        console.log(`Endpoint: ${formatEndpoint(found.host, found.port)}`);
+        console.log(`Status: ${found.isActive ? "active" : "inactive"}`);
+        break;
+
       case "updateStatus":
         if (args.length < 2) {
           console.error("Usage: COMMAND=updateStatus ARGS=address|isActive npx hardhat run scripts/hardhat-interact.ts --network subnet");
@@ -289,6 +726,73 @@ async function main() {
         console.log(`Member status updated successfully`);
         break;
 
+      case "setState":
+        if (args.length < 2) {
+          console.error("Usage: COMMAND=setState ARGS=address|state|[reason] npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error(`Required args: address, state (one of ${memberStates.join(", ")})`);
+          console.error(`Optional args: reason (code 0-${stateReasons.length - 1} or one of ${stateReasons.join(", ")}; default unspecified)`);
+          process.exit(1);
+        }
+
+        const newState = memberStates.findIndex(state => state.toLowerCase() === args[1].toLowerCase());
+        if (newState < 0) {
+          console.error(`Unknown state: ${args[1]}. Expected one of: ${memberStates.join(", ")}`);
+          process.exit(1);
+        }
+
+        const stateReason = parseStateReason(args[2]);
+
+        const previousState = await networkManager.read.getMemberState([args[0] as Address]) as number;
+        const stateHash = await networkManager.write.setMemberState(
+          [args[0] as Address, newState, stateReason],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: stateHash });
+
+        console.log(`Member moved from ${memberStates[previousState]} to ${memberStates[newState]} (${stateReasons[stateReason]})`);
+        break;
+
+      case "listStates":
+        const stateFilter = args[0] ? memberStates.findIndex(state => state.toLowerCase() === args[0].toLowerCase()) : -1;
+        if (args[0] && stateFilter < 0) {
+          console.error(`Unknown state: ${args[0]}. Expected one of: ${memberStates.join(", ")}`);
+          process.exit(1);
+        }
+
+        const stateAddresses = await networkManager.read.getAllMembers([]) as Address[];
+        const states = await networkManager.read.getMemberStates([stateAddresses]) as number[];
+
+        for (const [state, name] of memberStates.entries()) {
+          if (stateFilter >= 0 && state !== stateFilter) continue;
+
+          const inState = stateAddresses.filter((_, i) => states[i] === state);
+          console.log(`${name} (${inState.length}):`);
+          inState.forEach(address => console.log(`  ${address}`));
+        }
+        break;
+
+      case "formerMembers":
+        const formerMembers = await networkManager.read.getFormerMembers([]) as FormerMember[];
+        const formerFilter = args[0]?.trim().toLowerCase();
+
+        let formerShown = 0;
+        for (const [index, former] of formerMembers.entries()) {
+          if (formerFilter && former.member.memberAddress.toLowerCase() !== formerFilter) continue;
+
+          formerShown++;
+          console.log(`#${index + 1} ${former.member.memberAddress} ${former.member.x500Name}`);
+          console.log(`  serial ${former.member.certSerialHex}, endpoint ${formatEndpoint(former.member.host, former.member.port)}`);
+          console.log(`  joined ${new Date(Number(former.member.joinedAt) * 1000).toISOString()}, removed ${new Date(Number(former.removedAt) * 1000).toISOString()} by ${former.removedBy}`);
+          console.log(`  final state ${memberStates[former.finalState]}, reason ${stateReasons[former.reason] ?? former.reason}`);
+          if (former.previousTenure > 0n) {
+            console.log(`  previous tenure #${former.previousTenure}`);
+          }
+        }
+        if (formerShown === 0) {
+          console.log(formerFilter ? `No archived records for ${args[0]}` : "No members have been removed");
+        }
+        break;
+
       case "updateDetails":
         if (args.length < 6) {
           console.error("Usage: COMMAND=updateDetails ARGS=address|x500Name|certSerialHex|platformVersion|host|port npx hardhat run scripts/hardhat-interact.ts --network subnet");
@@ -304,7 +808,7 @@ async function main() {
             updateName,
             updateCertSerial as Hex,
             parseInt(updatePlatformVersion),
-            updateHost,
+            requireHost(updateHost),
             parseInt(updatePort)
           ],
           {} as any
@@ -321,14 +825,29 @@ async function main() {
           process.exit(1);
         }
 
-        // Note: Using transferOwnership() instead of transferManagerRole() as per the Ownable contract
+        // Note: transferOwnership() only nominates the new manager (Ownable2Step); they must run acceptManager
         const transferHash = await networkManager.write.transferOwnership(
           [args[0] as Address],
           {} as any
         ) as Hex;
         await publicClient.waitForTransactionReceipt({ hash: transferHash });
 
-        console.log(`Manager role transferred successfully`);
+        console.log(`${args[0]} nominated as manager`);
+        console.log("The nominee must run 'COMMAND=acceptManager' with their own key (SUBNET_PK) to complete the transfer");
+        break;
+
+      case "acceptManager":
+        const acceptHash = await networkManager.write.acceptOwnership([], {} as any) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: acceptHash });
+
+        console.log(`Manager role accepted by ${account.address}`);
+        break;
+
+      case "cancelTransfer":
+        const cancelTransferHash = await networkManager.write.cancelOwnershipTransfer([], {} as any) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: cancelTransferHash });
+
+        console.log(`Pending manager nomination cancelled`);
         break;
 
       case "isMember":
@@ -360,7 +879,7 @@ async function main() {
             currentMember.x500Name, // Keep the current X500 name
             currentMember.certSerialHex, // Keep the current cert serial
             parseInt(platformVer),
-            newHost,
+            requireHost(newHost),
             parseInt(newPort)
           ],
           {} as any
@@ -370,19 +889,813 @@ async function main() {
         console.log(`Subnet details updated successfully`);
         break;
 
+      case "batch":
+        if (args.length < 2 || !batchActions.includes(args[0])) {
+          console.error("Usage: COMMAND=batch ARGS=add|activate|deactivate|remove|file npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: action, path to a JSON file in the example-members.json format");
+          process.exit(1);
+        }
+
+        const [batchAction, batchFile] = args;
+        const batchMembers: any[] = fs.readJsonSync(path.resolve(process.cwd(), batchFile)).members || [];
+        if (batchMembers.length === 0) {
+          console.error(`No members found in ${batchFile}`);
+          process.exit(1);
+        }
+
+        const batchAddresses = batchMembers.map(m => m.memberAddress as Address);
+        let batchHash: Hex;
+
+        if (batchAction === "add") {
+          batchHash = await networkManager.write.addMembers(
+            [batchMembers.map(m => ({
+              memberAddress: m.memberAddress as Address,
+              x500Name: m.x500Name,
+              certSerialHex: m.certSerialHex as Hex,
+              platformVersion: Number(m.platformVersion),
+              host: requireHost(m.host),
+              port: Number(m.port),
+              certFingerprint: `0x${"0".repeat(64)}` as Hex,
+              certNotBefore: 0n,
+              certNotAfter: 0n
+            }))],
+            {} as any
+          ) as Hex;
+        } else if (batchAction === "remove") {
+          batchHash = await networkManager.write.removeMembers([batchAddresses], {} as any) as Hex;
+        } else {
+          batchHash = await networkManager.write.updateMembersStatus(
+            [batchAddresses, batchAction === "activate"],
+            {} as any
+          ) as Hex;
+        }
+        await publicClient.waitForTransactionReceipt({ hash: batchHash });
+
+        console.log(`Batch ${batchAction} applied to ${batchMembers.length} members (tx: ${batchHash})`);
+        break;
+
+      case "setCertificate":
+      case "proposeCertificate":
+        if (args.length < 4) {
+          console.error(`Usage: COMMAND=${command} ARGS=address|sha256Fingerprint|notBefore|notAfter npx hardhat run scripts/hardhat-interact.ts --network subnet`);
+          console.error("Required args: address, sha256Fingerprint (hex, colons allowed), notBefore, notAfter (unix seconds or dates)");
+          process.exit(1);
+        }
+
+        const [certAddress, certFingerprint, certNotBefore, certNotAfter] = args;
+        // Accept unix seconds or anything Date.parse understands (e.g. openssl's "Jan  1 00:00:00 2025 GMT")
+        const toUnixSeconds = (value: string) =>
+          /^\d+$/.test(value) ? BigInt(value) : BigInt(Math.floor(Date.parse(value) / 1000));
+
+        const certArgs = [
+          certAddress as Address,
+          `0x${certFingerprint.replace(/^0x/, "").replace(/:/g, "").toLowerCase()}` as Hex,
+          toUnixSeconds(certNotBefore),
+          toUnixSeconds(certNotAfter)
+        ] as const;
+
+        if (command === "proposeCertificate") {
+          const certProposalId = await submitProposal(
+            await networkManager.write.proposeMemberCertificate(certArgs, {} as any) as Hex
+          );
+          console.log(`Proposal ${certProposalId} created`);
+        } else {
+          const certHash = await networkManager.write.setMemberCertificate(certArgs, {} as any) as Hex;
+          await publicClient.waitForTransactionReceipt({ hash: certHash });
+
+          console.log(`Certificate fingerprint recorded for ${certAddress}`);
+        }
+        break;
+
+      case "updateMyEndpoint":
+        if (args.length < 3) {
+          console.error("Usage: COMMAND=updateMyEndpoint ARGS=host|port|platformVersion npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: host, port, platformVersion");
+          console.error("Must be signed with the member's own key (SUBNET_PK)");
+          process.exit(1);
+        }
+
+        const [myHost, myPort, myPlatformVersion] = args;
+
+        const endpointHash = await networkManager.write.updateMyEndpoint(
+          [requireHost(myHost), parseInt(myPort), parseInt(myPlatformVersion)],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: endpointHash });
+
+        console.log(`Endpoint of ${account.address} updated to ${formatEndpoint(myHost, myPort)} (platform version ${myPlatformVersion})`);
+        break;
+
+      case "getMetadata":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=getMetadata ARGS=address|[key] npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address");
+          process.exit(1);
+        }
+
+        if (args[1]) {
+          const metadataValue = await networkManager.read.getMetadata([args[0] as Address, args[1]]) as string;
+          console.log(metadataValue ? `${args[1]}: ${metadataValue}` : `${args[1]} is not set`);
+          break;
+        }
+
+        const [metadataKeys, metadataValues] = await networkManager.read.getAllMetadata([args[0] as Address]) as [string[], string[]];
+        if (metadataKeys.length === 0) {
+          console.log(`No metadata set for ${args[0]}`);
+          break;
+        }
+
+        console.log(`Metadata for ${args[0]}:`);
+        metadataKeys.forEach((key, i) => console.log(`  ${key}: ${metadataValues[i]}`));
+        break;
+
+      case "setMetadata":
+        if (args.length < 2) {
+          console.error("Usage: COMMAND=setMetadata ARGS=address|key|[value] npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address, key (an empty value removes the key)");
+          process.exit(1);
+        }
+
+        const metadataHash = await networkManager.write.setMetadata(
+          [args[0] as Address, args[1], args[2] ?? ""],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: metadataHash });
+
+        console.log(args[2] ? `Metadata ${args[1]} set to "${args[2]}"` : `Metadata ${args[1]} removed`);
+        break;
+
+      case "getEndpoints":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=getEndpoints ARGS=address npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address");
+          process.exit(1);
+        }
+
+        const endpointsMember = await networkManager.read.getMember([args[0] as Address]) as NodeMember;
+        const additionalEndpoints = await networkManager.read.getEndpoints([args[0] as Address]) as { protocol: number; host: string; port: number }[];
+
+        console.log(`Endpoints of ${args[0]}:`);
+        console.log(`  p2p      ${formatEndpoint(endpointsMember.host, endpointsMember.port)} (primary)`);
+        additionalEndpoints.forEach(endpoint => console.log(`  ${endpointProtocols[endpoint.protocol].padEnd(8)} ${formatEndpoint(endpoint.host, endpoint.port)}`));
+        break;
+
+      case "setEndpoints":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=setEndpoints ARGS=address|[protocol:host:port]... npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error(`Required args: address, then one protocol:host:port per endpoint (protocols: ${endpointProtocols.join(", ")})`);
+          process.exit(1);
+        }
+
+        const newEndpoints = args.slice(1).map(spec => {
+          // The port follows the last colon and the protocol precedes the first, so an IPv6 host ("rpc:[::1]:8545") keeps its colons
+          const protocol = endpointProtocols.indexOf(spec.slice(0, spec.indexOf(":")).toLowerCase());
+          const endpointHost = spec.slice(spec.indexOf(":") + 1, spec.lastIndexOf(":"));
+          const endpointPort = parseInt(spec.slice(spec.lastIndexOf(":") + 1), 10);
+          if (protocol < 0 || !endpointHost || isNaN(endpointPort)) {
+            console.error(`Invalid endpoint "${spec}". Expected protocol:host:port with protocol one of: ${endpointProtocols.join(", ")}`);
+            process.exit(1);
+          }
+          return { protocol, host: requireHost(endpointHost), port: endpointPort };
+        });
+
+        const endpointsHash = await networkManager.write.setEndpoints(
+          [args[0] as Address, newEndpoints],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: endpointsHash });
+
+        console.log(newEndpoints.length > 0
+          ? `${newEndpoints.length} additional endpoint(s) set for ${args[0]}`
+          : `Additional endpoints of ${args[0]} cleared`);
+        break;
+
+      case "renew":
+        if (args.length < 2) {
+          console.error("Usage: COMMAND=renew ARGS=address|days npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address, days");
+          process.exit(1);
+        }
+
+        const renewDays = parseInt(args[1], 10);
+        if (isNaN(renewDays) || renewDays < 1) {
+          console.error("days must be a positive number");
+          process.exit(1);
+        }
+
+        // A lapsed lease (or a member without one) is renewed from now rather than from its old end
+        const currentExpiry = Number(await networkManager.read.getLeaseExpiry([args[0] as Address]) as bigint);
+        const renewFrom = Math.max(currentExpiry, Math.floor(Date.now() / 1000));
+        const newExpiry = renewFrom + renewDays * 24 * 60 * 60;
+
+        const renewHash = await networkManager.write.renewMembership(
+          [args[0] as Address, BigInt(newExpiry)],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: renewHash });
+
+        console.log(`Lease of ${args[0]} extended to ${new Date(newExpiry * 1000).toISOString()}`);
+        break;
+
+      case "setLeaseDuration":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=setLeaseDuration ARGS=days npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: days (0 adds members without a lease)");
+          process.exit(1);
+        }
+
+        const leaseDays = parseInt(args[0], 10);
+        if (isNaN(leaseDays) || leaseDays < 0) {
+          console.error("days must be 0 or a positive number");
+          process.exit(1);
+        }
+
+        const leaseDurationHash = await networkManager.write.setDefaultLeaseDuration(
+          [BigInt(leaseDays * 24 * 60 * 60)],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: leaseDurationHash });
+
+        console.log(leaseDays > 0 ? `New members get a ${leaseDays}-day lease` : "New members are added without a lease");
+        break;
+
+      case "setMinVersion":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=setMinVersion ARGS=version npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: version (0 clears the minimum)");
+          process.exit(1);
+        }
+
+        const minVersion = parseInt(args[0], 10);
+        if (isNaN(minVersion) || minVersion < 0 || minVersion > 65535) {
+          console.error("version must be between 0 and 65535");
+          process.exit(1);
+        }
+
+        const minVersionHash = await networkManager.write.setMinPlatformVersion([minVersion], {} as any) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: minVersionHash });
+
+        console.log(minVersion > 0 ? `Minimum platform version set to ${minVersion}` : "Minimum platform version cleared");
+        break;
+
+      case "compliance":
+        const requiredVersion = Number(await networkManager.read.getMinPlatformVersion([]));
+        const complianceAddresses = await networkManager.read.getAllMembers([]) as Address[];
+        const versionCounts = new Map<number, number>();
+        const belowMinimum: NodeMember[] = [];
+
+        for (const address of complianceAddresses) {
+          const record = await networkManager.read.getMember([address]) as NodeMember;
+          versionCounts.set(record.platformVersion, (versionCounts.get(record.platformVersion) ?? 0) + 1);
+          if (record.platformVersion < requiredVersion) {
+            belowMinimum.push(record);
+          }
+        }
+
+        console.log(`Minimum platform version: ${requiredVersion > 0 ? requiredVersion : "none"}`);
+        console.log(`Compliant members: ${complianceAddresses.length - belowMinimum.length} of ${complianceAddresses.length}`);
+
+        console.log("\nVersion distribution:");
+        [...versionCounts.entries()]
+          .sort(([a], [b]) => b - a)
+          .forEach(([version, count]) => console.log(`  v${version}: ${count}${version < requiredVersion ? " (below minimum)" : ""}`));
+
+        if (belowMinimum.length > 0) {
+          console.log("\nBelow minimum:");
+          belowMinimum
+            .sort((a, b) => a.platformVersion - b.platformVersion)
+            .forEach(record => console.log(`  ${record.memberAddress} v${record.platformVersion} ${record.x500Name} (${formatEndpoint(record.host, record.port)})`));
+        }
+        break;
+
+      case "createUpgradePlan":
+        if (args.length < 3) {
+          console.error("Usage: COMMAND=createUpgradePlan ARGS=targetVersion|activationBlock|deadlineDays npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: targetVersion, activationBlock (fork block number), deadlineDays (days members have to acknowledge)");
+          process.exit(1);
+        }
+
+        const targetVersion = parseInt(args[0], 10);
+        const deadlineDays = parseInt(args[2], 10);
+        if (isNaN(targetVersion) || targetVersion < 1 || targetVersion > 65535) {
+          console.error("targetVersion must be between 1 and 65535");
+          process.exit(1);
+        }
+        if (isNaN(deadlineDays) || deadlineDays < 1) {
+          console.error("deadlineDays must be a positive number");
+          process.exit(1);
+        }
+
+        const upgradeDeadline = Math.floor(Date.now() / 1000) + deadlineDays * 24 * 60 * 60;
+        const createPlanHash = await networkManager.write.createUpgradePlan(
+          [targetVersion, BigInt(args[1]), BigInt(upgradeDeadline)],
+          {} as any
+        ) as Hex;
+        const createPlanReceipt = await publicClient.waitForTransactionReceipt({ hash: createPlanHash });
+        const [planCreated] = parseEventLogs({
+          abi: deployment.abi,
+          logs: createPlanReceipt.logs,
+          eventName: "UpgradePlanCreated"
+        }) as unknown as { args: { planId: bigint } }[];
+
+        console.log(`Upgrade plan #${planCreated.args.planId} created: v${targetVersion} activates at block ${args[1]}`);
+        console.log(`Members can acknowledge until ${new Date(upgradeDeadline * 1000).toISOString()}`);
+        break;
+
+      case "cancelUpgradePlan":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=cancelUpgradePlan ARGS=planId npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: planId");
+          process.exit(1);
+        }
+
+        const cancelPlanHash = await networkManager.write.cancelUpgradePlan([BigInt(args[0])], {} as any) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: cancelPlanHash });
+
+        console.log(`Upgrade plan #${args[0]} cancelled`);
+        break;
+
+      case "acknowledgeUpgrade":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=acknowledgeUpgrade ARGS=planId npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: planId (signed with the member's key, e.g. SUBNET_PK)");
+          process.exit(1);
+        }
+
+        const acknowledgeHash = await networkManager.write.acknowledgeUpgrade([BigInt(args[0])], {} as any) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: acknowledgeHash });
+
+        console.log(`${account.address} is ready for upgrade plan #${args[0]}`);
+        break;
+
+      case "listUpgradePlans":
+        const planCount = Number(await networkManager.read.getUpgradePlanCount([]));
+        const currentBlock = await publicClient.getBlockNumber();
+        console.log(`Total upgrade plans: ${planCount}`);
+
+        for (let id = 1n; id <= BigInt(planCount); id++) {
+          const plan = await networkManager.read.getUpgradePlan([id]) as UpgradePlan;
+          const [planReady, planNotReady] = await networkManager.read.getUpgradeReadiness([id]) as [Address[], Address[]];
+
+          console.log(`\n#${id} v${plan.targetVersion} at block ${plan.activationBlock} (${upgradePlanStatus(plan, currentBlock)})`);
+          console.log(`  Acknowledge by: ${new Date(Number(plan.deadline) * 1000).toISOString()}`);
+          console.log(`  Ready: ${planReady.length} of ${planReady.length + planNotReady.length} active members`);
+        }
+        break;
+
+      case "upgradeReport":
+        const reportPlanId = args[0] ? BigInt(args[0]) : await networkManager.read.getUpgradePlanCount([]) as bigint;
+        if (reportPlanId === 0n) {
+          console.log("No upgrade plans have been created");
+          break;
+        }
+
+        const reportPlan = await networkManager.read.getUpgradePlan([reportPlanId]) as UpgradePlan;
+        const [readyMembers, notReadyMembers] = await networkManager.read.getUpgradeReadiness([reportPlanId]) as [Address[], Address[]];
+        const reportTotal = readyMembers.length + notReadyMembers.length;
+        const readyShare = reportTotal > 0 ? Math.round((readyMembers.length / reportTotal) * 100) : 100;
+
+        console.log(`Upgrade plan #${reportPlanId}: v${reportPlan.targetVersion} at block ${reportPlan.activationBlock} (${upgradePlanStatus(reportPlan, await publicClient.getBlockNumber())})`);
+        console.log(`Created by ${reportPlan.createdBy} at ${new Date(Number(reportPlan.createdAt) * 1000).toISOString()}`);
+        console.log(`Acknowledge by: ${new Date(Number(reportPlan.deadline) * 1000).toISOString()}`);
+        console.log(`Ready: ${readyMembers.length} of ${reportTotal} active members (${readyShare}%)`);
+
+        // Not-ready members are listed with their registered version, so operators still on an old release stand out
+        for (const [label, addresses] of [["Ready", readyMembers], ["Not ready", notReadyMembers]] as const) {
+          if (addresses.length === 0) {
+            continue;
+          }
+          console.log(`\n${label}:`);
+          for (const address of addresses) {
+            const record = await networkManager.read.getMember([address]) as NodeMember;
+            console.log(`  ${address} v${record.platformVersion} ${record.x500Name}`);
+          }
+        }
+        break;
+
+      case "createOrg":
+        if (args.length < 2) {
+          console.error("Usage: COMMAND=createOrg ARGS=name|nodeQuota npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: name, nodeQuota (most members the organization may hold)");
+          process.exit(1);
+        }
+
+        const createOrgHash = await networkManager.write.createOrganization(
+          [args[0], BigInt(args[1])],
+          {} as any
+        ) as Hex;
+        const createOrgReceipt = await publicClient.waitForTransactionReceipt({ hash: createOrgHash });
+        const [orgCreated] = parseEventLogs({
+          abi: deployment.abi,
+          logs: createOrgReceipt.logs,
+          eventName: "OrganizationCreated"
+        }) as unknown as { args: { organizationId: bigint } }[];
+
+        console.log(`Organization #${orgCreated.args.organizationId} "${args[0]}" created with a quota of ${args[1]} node(s)`);
+        break;
+
+      case "setOrgQuota":
+        if (args.length < 2) {
+          console.error("Usage: COMMAND=setOrgQuota ARGS=organizationId|nodeQuota npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: organizationId, nodeQuota");
+          process.exit(1);
+        }
+
+        const orgQuotaHash = await networkManager.write.setOrganizationQuota(
+          [BigInt(args[0]), BigInt(args[1])],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: orgQuotaHash });
+
+        console.log(`Organization #${args[0]} quota set to ${args[1]}`);
+        break;
+
+      case "addOrgAdmin":
+        if (args.length < 2) {
+          console.error("Usage: COMMAND=addOrgAdmin ARGS=organizationId|address npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: organizationId, address");
+          process.exit(1);
+        }
+
+        const addOrgAdminHash = await networkManager.write.addOrganizationAdmin(
+          [BigInt(args[0]), args[1] as Address],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: addOrgAdminHash });
+
+        console.log(`${args[1]} is now an admin of organization #${args[0]}`);
+        break;
+
+      case "removeOrgAdmin":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=removeOrgAdmin ARGS=address npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address");
+          process.exit(1);
+        }
+
+        const removeOrgAdminHash = await networkManager.write.removeOrganizationAdmin([args[0] as Address], {} as any) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: removeOrgAdminHash });
+
+        console.log(`${args[0]} is no longer an organization admin`);
+        break;
+
+      case "setMemberOrg":
+        if (args.length < 2) {
+          console.error("Usage: COMMAND=setMemberOrg ARGS=address|organizationId npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address, organizationId (0 takes the member out of its organization)");
+          process.exit(1);
+        }
+
+        const memberOrgHash = await networkManager.write.setMemberOrganization(
+          [args[0] as Address, BigInt(args[1])],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: memberOrgHash });
+
+        console.log(args[1] === "0" ? `${args[0]} removed from its organization` : `${args[0]} moved to organization #${args[1]}`);
+        break;
+
+      case "listOrgs":
+        const organizationCount = Number(await networkManager.read.getOrganizationCount([]));
+        console.log(`Total organizations: ${organizationCount}`);
+
+        for (let id = 1n; id <= BigInt(organizationCount); id++) {
+          const organization = await networkManager.read.getOrganization([id]) as Organization;
+          const organizationMembers = await networkManager.read.getOrganizationMembers([id]) as Address[];
+
+          console.log(`\n#${id} ${organization.name} (${organization.memberCount}/${organization.nodeQuota} nodes)`);
+          console.log(`  Admins: ${organization.admins.length > 0 ? organization.admins.join(", ") : "(none)"}`);
+          organizationMembers.forEach(address => console.log(`  Member: ${address}`));
+        }
+        break;
+
+      case "orgAddMember":
+        if (args.length < 6) {
+          console.error("Usage: COMMAND=orgAddMember ARGS=address|x500Name|certSerialHex|platformVersion|host|port npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address, x500Name, certSerialHex, platformVersion, host, port");
+          process.exit(1);
+        }
+
+        const orgAddHash = await networkManager.write.addOrganizationMember(
+          [
+            args[0] as Address,
+            args[1],
+            args[2] as Hex,
+            parseInt(args[3]),
+            requireHost(args[4]),
+            parseInt(args[5])
+          ],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: orgAddHash });
+
+        console.log(`Member added to your organization`);
+        break;
+
+      case "orgRemoveMember":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=orgRemoveMember ARGS=address npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address");
+          process.exit(1);
+        }
+
+        const orgRemoveHash = await networkManager.write.removeOrganizationMember([args[0] as Address], {} as any) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: orgRemoveHash });
+
+        console.log(`Member removed from your organization`);
+        break;
+
+      case "orgUpdateStatus":
+        if (args.length < 2) {
+          console.error("Usage: COMMAND=orgUpdateStatus ARGS=address|isActive npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address, isActive (true/false)");
+          process.exit(1);
+        }
+
+        const orgStatusHash = await networkManager.write.updateOrganizationMemberStatus(
+          [args[0] as Address, args[1].toLowerCase() === "true"],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: orgStatusHash });
+
+        console.log(`Member status updated`);
+        break;
+
+      case "revoke":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=revoke ARGS=certSerialHex|reason npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: certSerialHex");
+          console.error(`Optional args: reason (code 0-${CRL_REASONS.length - 1} or one of ${CRL_REASONS.join(", ")}; default unspecified)`);
+          process.exit(1);
+        }
+
+        const revokeSerial = args[0];
+        const reasonArg = args[1] || "unspecified";
+        const reasonCode = /^\d+$/.test(reasonArg)
+          ? parseInt(reasonArg)
+          : CRL_REASONS.findIndex(reason => reason.toLowerCase() === reasonArg.toLowerCase());
+
+        if (reasonCode < 0 || reasonCode >= CRL_REASONS.length) {
+          console.error(`Unknown revocation reason: ${reasonArg}`);
+          process.exit(1);
+        }
+
+        const revokeHash = await networkManager.write.revokeCertificate(
+          [revokeSerial as Hex, reasonCode],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: revokeHash });
+
+        console.log(`Certificate ${revokeSerial} revoked (${CRL_REASONS[reasonCode]})`);
+        console.log("Run 'npm run bootstrap:crl' to publish the updated CRL");
+        break;
+
+      case "grantRole":
+      case "revokeRole":
+        if (args.length < 2) {
+          console.error(`Usage: COMMAND=${command} ARGS=role|address npx hardhat run scripts/hardhat-interact.ts --network subnet`);
+          console.error(`Required args: role (${roleNames.join(", ")}), address`);
+          process.exit(1);
+        }
+
+        const [roleArg, roleAccount] = args;
+        const roleId = await getRoleId(roleArg);
+
+        const roleHash = await networkManager.write[command](
+          [roleId, roleAccount as Address],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: roleHash });
+
+        console.log(`Role ${roleArg} ${command === "grantRole" ? "granted to" : "revoked from"} ${roleAccount}`);
+        break;
+
+      case "listRoles":
+        const roleOwner = await networkManager.read.owner([]) as Address;
+        console.log(`Owner (roles are granted separately): ${roleOwner}`);
+
+        if (args.length > 0) {
+          const roleAddress = args[0] as Address;
+          const heldRoles: string[] = [];
+          for (const roleName of roleNames) {
+            if (await networkManager.read.hasRole([await getRoleId(roleName), roleAddress])) {
+              heldRoles.push(roleName);
+            }
+          }
+          console.log(`Roles of ${roleAddress}: ${heldRoles.length > 0 ? heldRoles.join(", ") : "(none)"}`);
+          break;
+        }
+
+        for (const roleName of roleNames) {
+          const listRoleId = await getRoleId(roleName);
+          const holderCount = Number(await networkManager.read.getRoleMemberCount([listRoleId]));
+          const holders: Address[] = [];
+          for (let i = 0; i < holderCount; i++) {
+            holders.push(await networkManager.read.getRoleMember([listRoleId, BigInt(i)]) as Address);
+          }
+          console.log(`${roleName}: ${holders.length > 0 ? holders.join(", ") : "(none)"}`);
+        }
+        break;
+
+      case "proposeAdd":
+      case "proposeUpdate":
+        if (args.length < 6) {
+          console.error(`Usage: COMMAND=${command} ARGS=address|x500Name|certSerialHex|platformVersion|host|port npx hardhat run scripts/hardhat-interact.ts --network subnet`);
+          console.error("Required args: address, x500Name, certSerialHex, platformVersion, host, port");
+          process.exit(1);
+        }
+
+        const [proposalAddress, proposalName, proposalCertSerial, proposalPlatformVersion, proposalHost, proposalPort] = args;
+        const proposalArgs = [
+          proposalAddress as Address,
+          proposalName,
+          proposalCertSerial as Hex,
+          parseInt(proposalPlatformVersion),
+          requireHost(proposalHost),
+          parseInt(proposalPort)
+        ];
+
+        const detailsProposalId = await submitProposal(
+          (command === "proposeAdd"
+            ? await networkManager.write.proposeAddMember(proposalArgs, {} as any)
+            : await networkManager.write.proposeUpdateMemberDetails(proposalArgs, {} as any)) as Hex
+        );
+
+        console.log(`Proposal ${detailsProposalId} created`);
+        break;
+
+      case "proposeRemove":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=proposeRemove ARGS=address npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: address");
+          process.exit(1);
+        }
+
+        const removeProposalId = await submitProposal(
+          await networkManager.write.proposeRemoveMember([args[0] as Address], {} as any) as Hex
+        );
+
+        console.log(`Proposal ${removeProposalId} created`);
+        break;
+
+      case "proposeThreshold":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=proposeThreshold ARGS=threshold npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: threshold");
+          process.exit(1);
+        }
+
+        const thresholdProposalId = await submitProposal(
+          await networkManager.write.proposeApprovalThreshold([BigInt(args[0])], {} as any) as Hex
+        );
+
+        console.log(`Proposal ${thresholdProposalId} created`);
+        break;
+
+      case "approve":
+      case "execute":
+      case "cancel":
+        if (args.length < 1) {
+          console.error(`Usage: COMMAND=${command} ARGS=proposalId npx hardhat run scripts/hardhat-interact.ts --network subnet`);
+          console.error("Required args: proposalId");
+          process.exit(1);
+        }
+
+        const proposalFunction = {
+          approve: "approveProposal",
+          execute: "executeProposal",
+          cancel: "cancelProposal"
+        }[command];
+
+        const proposalHash = await networkManager.write[proposalFunction](
+          [BigInt(args[0])],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: proposalHash });
+
+        console.log(`Proposal ${args[0]} ${command === "approve" ? "approved" : command === "execute" ? "executed" : "cancelled"}`);
+        break;
+
+      case "listProposals":
+        const threshold = await networkManager.read.approvalThreshold([]) as bigint;
+        const proposalCount = Number(await networkManager.read.getProposalCount([]));
+        const showAll = args[0] === "all";
+        const now = Math.floor(Date.now() / 1000);
+
+        console.log(`Approval threshold: ${threshold}`);
+
+        for (let i = 0; i < proposalCount; i++) {
+          const proposal = await networkManager.read.getProposal([BigInt(i)]) as Proposal;
+          const expired = proposal.status === 0 && Number(proposal.expiresAt) < now;
+          if (!showAll && (proposal.status !== 0 || expired)) {
+            continue;
+          }
+
+          const status = expired ? "Expired" : proposalStatuses[proposal.status];
+          // Threshold proposals carry no member; show the threshold they set instead
+          const subject = proposalActions[proposal.action] === "ChangeApprovalThreshold"
+            ? `to ${await networkManager.read.getProposedThreshold([BigInt(i)])}`
+            : proposal.member.memberAddress;
+          console.log(
+            `#${i} ${proposalActions[proposal.action]} ${subject} - ${status}, ` +
+            `${proposal.approvals}/${threshold} approvals, proposed by ${proposal.proposer}, ` +
+            `expires ${new Date(Number(proposal.expiresAt) * 1000).toISOString()}`
+          );
+        }
+        break;
+
+      case "setThreshold":
+        if (args.length < 1) {
+          console.error("Usage: COMMAND=setThreshold ARGS=threshold npx hardhat run scripts/hardhat-interact.ts --network subnet");
+          console.error("Required args: threshold");
+          process.exit(1);
+        }
+
+        const thresholdHash = await networkManager.write.setApprovalThreshold(
+          [BigInt(args[0])],
+          {} as any
+        ) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: thresholdHash });
+
+        console.log(`Approval threshold set to ${args[0]}. To lower it, use COMMAND=proposeThreshold.`);
+        break;
+
+      case "pause":
+        const pauseHash = await networkManager.write.pause([], {} as any) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: pauseHash });
+
+        console.log(`Registry paused. Run COMMAND=unpause to allow changes again.`);
+        break;
+
+      case "unpause":
+        const unpauseHash = await networkManager.write.unpause([], {} as any) as Hex;
+        await publicClient.waitForTransactionReceipt({ hash: unpauseHash });
+
+        console.log(`Registry unpaused`);
+        break;
+
       case "help":
       default:
         console.log("Available commands:");
-        console.log("  getManager                                  - Get the current manager address");
+        console.log("  getManager                                  - Get the current manager address and pause state");
         console.log("  addMember [address] [x500Name] [certSerialHex] [platformVersion] [host] [port] - Add a new member");
-        console.log("  removeMember [address]                      - Remove a member");
+        console.log("  addPending [address] [x500Name] [certSerialHex] [platformVersion] [host] [port] - Add a member as Pending (node not online yet)");
+        console.log("  removeMember [address] [reason]             - Remove a member, archiving its record");
         console.log("  getMember [address]                         - Get member details");
         console.log("  getAllMembers                               - List all member addresses");
+        console.log("  history [address]                           - Show every change to a member with block, time and sender");
+        console.log("  findMember [certSerialHex|x500Name]         - Find a member by certificate serial or exact X.500 name");
         console.log("  updateStatus [address] [isActive]           - Update member status (true/false)");
+        console.log("  setState [address] [state] [reason]         - Move a member to Pending/Active/Suspended/Retiring/Retired");
+        console.log("  listStates [state]                          - List members by lifecycle state");
+        console.log("  formerMembers [address]                     - List archived records of removed members");
         console.log("  updateDetails [address] [x500Name] [certSerialHex] [platformVersion] [host] [port] - Update member details");
-        console.log("  transferManager [newManagerAddress]         - Transfer manager role to new address");
+        console.log("  transferManager [newManagerAddress]         - Nominate a new manager (they must accept)");
+        console.log("  acceptManager                               - Accept a pending manager nomination");
+        console.log("  cancelTransfer                              - Cancel a pending manager nomination");
         console.log("  isMember [address]                          - Check if an address is a member");
         console.log("  updateSubnetMemberDetail [address] [platformVersion] [host] [port] - Update subnet details");
+        console.log("  batch [add|activate|deactivate|remove] [file] - Apply one change to every member in a JSON file");
+        console.log("  setCertificate [address] [fingerprint] [notBefore] [notAfter] - Record certificate fingerprint and validity");
+        console.log("  proposeCertificate [address] [fingerprint] [notBefore] [notAfter] - Propose recording a certificate (threshold above 1)");
+        console.log("  updateMyEndpoint [host] [port] [platformVersion] - Update your own node's endpoint (member key)");
+        console.log("  getMetadata [address] [key?]                - Show a member's metadata, or one key");
+        console.log("  setMetadata [address] [key] [value?]        - Set a metadata key; omit the value to remove it");
+        console.log("  getEndpoints [address]                      - Show a member's primary and additional endpoints");
+        console.log("  setEndpoints [address] [protocol:host:port...] - Replace a member's additional endpoints");
+        console.log("  renew [address] [days]                      - Extend a member's lease by a number of days");
+        console.log("  setLeaseDuration [days]                     - Set the lease given to new members (0 = none)");
+        console.log("  setMinVersion [version]                     - Set the minimum platform version (0 = none)");
+        console.log("  compliance                                  - Show version distribution and members below the minimum");
+        console.log("  createUpgradePlan [targetVersion] [activationBlock] [deadlineDays] - Announce a hard fork for members to acknowledge");
+        console.log("  cancelUpgradePlan [planId]                  - Cancel an upgrade plan");
+        console.log("  acknowledgeUpgrade [planId]                 - Signal your node is ready for an upgrade plan (member key)");
+        console.log("  listUpgradePlans                            - List upgrade plans with their status and readiness");
+        console.log("  upgradeReport [planId?]                     - Show members ready and not ready for an upgrade plan");
+        console.log("  createOrg [name] [nodeQuota]                - Create an organization with a node quota");
+        console.log("  setOrgQuota [organizationId] [nodeQuota]    - Change an organization's node quota");
+        console.log("  addOrgAdmin [organizationId] [address]      - Make an account an organization admin");
+        console.log("  removeOrgAdmin [address]                    - Remove an account's organization admin rights");
+        console.log("  setMemberOrg [address] [organizationId]     - Move a member into an organization (0 = none)");
+        console.log("  listOrgs                                    - List organizations with quota use, admins and members");
+        console.log("  orgAddMember [address] [x500Name] [certSerialHex] [platformVersion] [host] [port] - Add a member to your organization");
+        console.log("  orgRemoveMember [address]                   - Remove a member of your organization");
+        console.log("  orgUpdateStatus [address] [isActive]        - Update the status of a member of your organization");
+        console.log("  revoke [certSerialHex] [reason]             - Revoke a certificate serial on-chain");
+        console.log("  grantRole [role] [address]                  - Grant admin/registrar/operator/auditor/pauser/renewer role");
+        console.log("  revokeRole [role] [address]                 - Revoke a role from an account");
+        console.log("  listRoles [address?]                        - List role holders, or the roles of one account");
+        console.log("  proposeAdd [address] [x500Name] [certSerialHex] [platformVersion] [host] [port] - Propose adding a member");
+        console.log("  proposeRemove [address]                     - Propose removing a member");
+        console.log("  proposeUpdate [address] [x500Name] [certSerialHex] [platformVersion] [host] [port] - Propose updating member details");
+        console.log("  proposeThreshold [threshold]                - Propose a new approval threshold (needed to lower it)");
+        console.log("  approve [proposalId]                        - Approve a pending proposal");
+        console.log("  execute [proposalId]                        - Execute a proposal that has enough approvals");
+        console.log("  cancel [proposalId]                         - Cancel a pending proposal");
+        console.log("  listProposals [all?]                        - List pending proposals (or all of them)");
+        console.log("  setThreshold [threshold]                    - Raise the approvals a proposal needs");
+        console.log("  pause                                       - Freeze all registry changes");
+        console.log("  unpause                                     - Allow registry changes again");
         console.log("  help                                        - Display this help message");
         console.log("\nNote: Use pipe (|) to separate arguments when using ARGS environment variable");
         console.log("Note: certSerialHex should be the X.509 certificate serial number in hex format (e.g., 0x1234...)");
@@ -0,0 +1,124 @@
+/**
+ * Heartbeat agent for member node operators.
+ *
+ * Runs next to a member node and calls NetworkManager.heartbeat() with the node's member key on an interval,
+ * so the registry records when the node was last seen. Dashboards flag members whose heartbeat is too old.
+ *
+ * Usage:
+ *   npm run heartbeat
+ *
+ * Environment (also read from .env):
+ *   SUBNET_URL                  RPC endpoint of the subnet (default http://127.0.0.1:8545)
+ *   HEARTBEAT_PK                Private key of the member address; falls back to SUBNET_PK
+ *   NETWORK_MANAGER_ADDRESS     Registry address; defaults to the latest Ignition deployment in this directory
+ *   HEARTBEAT_INTERVAL_SECONDS  Time between heartbeats (default 300)
+ *
+ * A failed heartbeat is logged and retried on the next interval, so a restarting RPC node does not stop the agent.
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import dotenv from "dotenv";
+import { fileURLToPath } from "url";
+import { createPublicClient, createWalletClient, getContract, http, parseAbi, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { resolveNetworkManager } from "./deployment.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+dotenv.config({ path: path.join(__dirname, "..", ".env") });
+
+const DEFAULT_INTERVAL_SECONDS = 300;
+
+// Only the functions the agent calls, so it also works without a local deployment directory
+const heartbeatAbi = parseAbi([
+  "function heartbeat()",
+  "function isMember(address memberAddress) view returns (bool)",
+  "function getLastSeen(address memberAddress) view returns (uint256)"
+]);
+
+function log(message: string) {
+  console.log(`[${new Date().toISOString()}] ${message}`);
+}
+
+// The proxy address of the most recently deployed chain, as the CLI and bootstrap find it
+function findDeployedAddress(): string | null {
+  const ignitionDeploymentsDir = path.join(__dirname, "..", "ignition", "deployments");
+  if (!fs.existsSync(ignitionDeploymentsDir)) {
+    return null;
+  }
+
+  const latestChainDir = fs.readdirSync(ignitionDeploymentsDir)
+    .filter(dir => dir.startsWith("chain-") && fs.statSync(path.join(ignitionDeploymentsDir, dir)).isDirectory())
+    .map(dir => path.join(ignitionDeploymentsDir, dir))
+    .sort((a, b) => fs.statSync(b).mtime.getTime() - fs.statSync(a).mtime.getTime())[0];
+
+  return latestChainDir ? resolveNetworkManager(latestChainDir)?.address ?? null : null;
+}
+
+async function main() {
+  const rpcUrl = process.env.SUBNET_URL || "http://127.0.0.1:8545";
+  const privateKey = process.env.HEARTBEAT_PK || process.env.SUBNET_PK;
+  const contractAddress = process.env.NETWORK_MANAGER_ADDRESS || findDeployedAddress();
+  const intervalSeconds = Number(process.env.HEARTBEAT_INTERVAL_SECONDS || DEFAULT_INTERVAL_SECONDS);
+
+  if (!privateKey) {
+    throw new Error("Set HEARTBEAT_PK (or SUBNET_PK) to the member node's private key");
+  }
+  if (!contractAddress) {
+    throw new Error("Set NETWORK_MANAGER_ADDRESS, or run the agent from a directory with an Ignition deployment");
+  }
+  if (!Number.isFinite(intervalSeconds) || intervalSeconds < 1) {
+    throw new Error("HEARTBEAT_INTERVAL_SECONDS must be a positive number");
+  }
+
+  const account = privateKeyToAccount(privateKey as Hex);
+  const publicClient = createPublicClient({ transport: http(rpcUrl) });
+  const walletClient = createWalletClient({ account, transport: http(rpcUrl) });
+  const networkManager = getContract({
+    address: contractAddress as Address,
+    abi: heartbeatAbi,
+    client: { public: publicClient, wallet: walletClient }
+  });
+
+  // The contract rejects heartbeats from other addresses, so fail early with a clear message
+  if (!(await networkManager.read.isMember([account.address]))) {
+    throw new Error(`${account.address} is not a member of NetworkManager at ${contractAddress}`);
+  }
+
+  log(`Sending heartbeats for ${account.address} to ${contractAddress} every ${intervalSeconds}s`);
+
+  const beat = async () => {
+    try {
+      const hash = await networkManager.write.heartbeat({} as any);
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      const lastSeen = await networkManager.read.getLastSeen([account.address]);
+      log(`Heartbeat recorded at ${new Date(Number(lastSeen) * 1000).toISOString()} (tx ${hash})`);
+    } catch (err: any) {
+      log(`Heartbeat failed, retrying in ${intervalSeconds}s: ${err.shortMessage ?? err.message}`);
+    }
+  };
+
+  // Schedule the next heartbeat only after the previous one settled, so slow confirmations never overlap
+  let timer: NodeJS.Timeout;
+  const loop = async () => {
+    await beat();
+    timer = setTimeout(loop, intervalSeconds * 1000);
+  };
+  await loop();
+
+  const stop = () => {
+    clearTimeout(timer);
+    log("Heartbeat agent stopped");
+    process.exit(0);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+main().catch((err) => {
+  console.error(`Heartbeat agent failed: ${err.shortMessage ?? err.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+/**
+ * Certificate revocation reasons shared by the CLI and the bootstrap CRL generator.
+ *
+ * NetworkManager.revokeCertificate stores the RFC 5280 CRLReason code as a number; this list maps each
+ * accepted code to the name OpenSSL uses for it in index.txt and in the CRL.
+ */
+
+// RFC 5280 CRLReason names accepted by revokeCertificate, indexed by reason code
+export const CRL_REASONS = [
+  "unspecified",
+  "keyCompromise",
+  "CACompromise",
+  "affiliationChanged",
+  "superseded",
+  "cessationOfOperation",
+  "certificateHold"
+];
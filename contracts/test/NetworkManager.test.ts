@@ -2,7 +2,9 @@ import assert from "node:assert/strict";
 import { describe, it } from "node:test";
 
 import { network } from "hardhat";
-import { toHex } from "viem";
+import { encodeFunctionData, keccak256, toHex, zeroAddress } from "viem";
+
+import { formatEndpoint, hostKind, normalizeHost } from "../scripts/endpoint.js";
 
 describe("NetworkManager", async function () {
   const { viem } = await network.connect();
@@ -15,21 +17,50 @@ describe("NetworkManager", async function () {
       x500Name: `CN=Node${index}, O=Organization, L=City, C=US`,
       publicKey: toHex(`publicKey${index}`, { size: 32 }),
       serial: BigInt(1000 + index),
+      certSerialHex: toHex(1000 + index, { size: 8 }),
       platformVersion: 1,
       host: `node${index}.example.com`,
       port: 30303 + index,
     };
   }
 
+  // NetworkManager's constructor takes a separately deployed NetworkManagerExtension2, whose constructor takes a NetworkManagerExtension3
+  async function deploySecondExtension() {
+    const thirdExtension = await viem.deployContract("NetworkManagerExtension3");
+    return viem.deployContract("NetworkManagerExtension2", [thirdExtension.address]);
+  }
+
+  async function deployNetworkManager() {
+    const secondExtension = await deploySecondExtension();
+    return viem.deployContract("NetworkManager", [secondExtension.address]);
+  }
+
+  // A registry with member1 added from createMemberData(1)
+  async function deployWithMember() {
+    const networkManager = await deployNetworkManager();
+    const memberData = createMemberData(1);
+
+    await networkManager.write.addMember([
+      member1.account.address,
+      memberData.x500Name,
+      memberData.certSerialHex,
+      memberData.platformVersion,
+      memberData.host,
+      memberData.port,
+    ]);
+
+    return networkManager;
+  }
+
   describe("Deployment", function () {
     it("Should set the correct owner", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const contractOwner = (await networkManager.read.owner()) as `0x${string}`;
       assert.equal(contractOwner.toLowerCase(), owner.account.address.toLowerCase());
     });
 
     it("Should have no members initially", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const members = (await networkManager.read.getAllMembers()) as `0x${string}`[];
       assert.equal(members.length, 0);
     });
@@ -37,7 +68,7 @@ describe("NetworkManager", async function () {
 
   describe("Add Member", function () {
     it("Should successfully add a member", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const memberData = createMemberData(1);
 
       await networkManager.write.addMember([
@@ -55,7 +86,7 @@ describe("NetworkManager", async function () {
     });
 
     it("Should emit MemberAdded event", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const deploymentBlockNumber = await publicClient.getBlockNumber();
       const memberData = createMemberData(1);
 
@@ -83,7 +114,7 @@ describe("NetworkManager", async function () {
     });
 
     it("Should store member data correctly", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const memberData = createMemberData(1);
 
       await networkManager.write.addMember([
@@ -109,7 +140,7 @@ describe("NetworkManager", async function () {
     });
 
     it("Should add multiple members", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const memberData1 = createMemberData(1);
       const memberData2 = createMemberData(2);
       const memberData3 = createMemberData(3);
@@ -151,7 +182,7 @@ describe("NetworkManager", async function () {
 
   describe("Remove Member", function () {
     it("Should successfully remove a member", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const memberData = createMemberData(1);
 
       await networkManager.write.addMember([
@@ -171,7 +202,7 @@ describe("NetworkManager", async function () {
     });
 
     it("Should emit MemberRemoved event", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const deploymentBlockNumber = await publicClient.getBlockNumber();
       const memberData = createMemberData(1);
 
@@ -200,7 +231,7 @@ describe("NetworkManager", async function () {
     });
 
     it("Should maintain array integrity after removal from middle", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const memberData1 = createMemberData(1);
       const memberData2 = createMemberData(2);
       const memberData3 = createMemberData(3);
@@ -248,7 +279,7 @@ describe("NetworkManager", async function () {
 
   describe("Update Member Status", function () {
     it("Should successfully update member status to inactive", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const memberData = createMemberData(1);
 
       await networkManager.write.addMember([
@@ -268,7 +299,7 @@ describe("NetworkManager", async function () {
     });
 
     it("Should emit MemberUpdated event when status changes", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const deploymentBlockNumber = await publicClient.getBlockNumber();
       const memberData = createMemberData(1);
 
@@ -301,7 +332,7 @@ describe("NetworkManager", async function () {
 
   describe("Update Member Details", function () {
     it("Should successfully update member details", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const memberData = createMemberData(1);
 
       await networkManager.write.addMember([
@@ -343,7 +374,7 @@ describe("NetworkManager", async function () {
     });
 
     it("Should emit MemberUpdated event when details change", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const deploymentBlockNumber = await publicClient.getBlockNumber();
       const memberData = createMemberData(1);
 
@@ -393,7 +424,7 @@ describe("NetworkManager", async function () {
 
   describe("Query Functions", function () {
     it("Should return all member addresses", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const memberData1 = createMemberData(1);
       const memberData2 = createMemberData(2);
 
@@ -424,7 +455,7 @@ describe("NetworkManager", async function () {
     });
 
     it("Should correctly report member existence", async function () {
-      const networkManager = await viem.deployContract("NetworkManager");
+      const networkManager = await deployNetworkManager();
       const memberData = createMemberData(1);
 
       // Non-existent member
@@ -445,4 +476,2706 @@ describe("NetworkManager", async function () {
       assert.equal(await networkManager.read.isMember([member1.account.address]), true);
     });
   });
+
+  describe("Certificate Revocation", function () {
+    it("Should revoke a certificate serial", async function () {
+      const networkManager = await deployNetworkManager();
+      const memberData = createMemberData(1);
+
+      assert.equal(await networkManager.read.isSerialRevoked([memberData.certSerialHex]), false);
+
+      await networkManager.write.revokeCertificate([memberData.certSerialHex, 1]);
+
+      assert.equal(await networkManager.read.isSerialRevoked([memberData.certSerialHex]), true);
+
+      const revoked = (await networkManager.read.getRevokedCertificates()) as any[];
+      assert.equal(revoked.length, 1);
+      assert.equal(revoked[0].certSerialHex, memberData.certSerialHex);
+      assert.equal(revoked[0].reason, 1);
+    });
+
+    it("Should emit CertificateRevoked event", async function () {
+      const networkManager = await deployNetworkManager();
+      const deploymentBlockNumber = await publicClient.getBlockNumber();
+      const memberData = createMemberData(1);
+
+      await networkManager.write.revokeCertificate([memberData.certSerialHex, 4]);
+
+      const events = await publicClient.getContractEvents({
+        address: networkManager.address,
+        abi: networkManager.abi,
+        eventName: "CertificateRevoked",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+
+      assert.equal(events.length, 1);
+      assert.equal((events[0].args as any).certSerialHex, memberData.certSerialHex);
+      assert.equal((events[0].args as any).reason, 4);
+    });
+
+    it("Should reject revoking the same serial twice", async function () {
+      const networkManager = await deployNetworkManager();
+      const memberData = createMemberData(1);
+
+      await networkManager.write.revokeCertificate([memberData.certSerialHex, 0]);
+
+      await assert.rejects(
+        networkManager.write.revokeCertificate([memberData.certSerialHex, 0]),
+        /Certificate already revoked/
+      );
+    });
+
+    it("Should reject an unknown revocation reason", async function () {
+      const networkManager = await deployNetworkManager();
+      const memberData = createMemberData(1);
+
+      await assert.rejects(
+        networkManager.write.revokeCertificate([memberData.certSerialHex, 7]),
+        /Invalid revocation reason/
+      );
+    });
+
+    it("Should not register a member with a revoked serial", async function () {
+      const networkManager = await deployNetworkManager();
+      const memberData = createMemberData(1);
+
+      await networkManager.write.revokeCertificate([memberData.certSerialHex, 1]);
+
+      await assert.rejects(
+        networkManager.write.addMember([
+          member1.account.address,
+          memberData.x500Name,
+          memberData.certSerialHex,
+          memberData.platformVersion,
+          memberData.host,
+          memberData.port,
+        ]),
+        /Certificate serial is revoked/
+      );
+    });
+
+    it("Should only allow registrars to revoke", async function () {
+      const networkManager = await deployNetworkManager();
+      const memberData = createMemberData(1);
+
+      await assert.rejects(
+        networkManager.write.revokeCertificate([memberData.certSerialHex, 1], { account: nonOwner.account }),
+        /is missing role/
+      );
+    });
+  });
+
+  describe("Access Control", function () {
+    it("Should grant the deployer the admin and operational roles explicitly", async function () {
+      const networkManager = await deployNetworkManager();
+
+      for (const role of [
+        await networkManager.read.DEFAULT_ADMIN_ROLE(),
+        await networkManager.read.REGISTRAR_ROLE(),
+        await networkManager.read.OPERATOR_ROLE(),
+        await networkManager.read.PAUSER_ROLE(),
+        await networkManager.read.RENEWER_ROLE(),
+      ]) {
+        assert.equal(await networkManager.read.hasRole([role, owner.account.address]), true);
+        assert.equal(await networkManager.read.getRoleMemberCount([role]), 1n);
+        assert.equal(
+          ((await networkManager.read.getRoleMember([role, 0n])) as string).toLowerCase(),
+          owner.account.address.toLowerCase()
+        );
+      }
+
+      const auditorRole = await networkManager.read.AUDITOR_ROLE();
+      assert.equal(await networkManager.read.hasRole([auditorRole, owner.account.address]), false);
+    });
+
+    it("Should let the owner's own roles be revoked", async function () {
+      const networkManager = await deployNetworkManager();
+      const pauserRole = await networkManager.read.PAUSER_ROLE();
+
+      await networkManager.write.revokeRole([pauserRole, owner.account.address]);
+
+      assert.equal(await networkManager.read.hasRole([pauserRole, owner.account.address]), false);
+      assert.equal(await networkManager.read.getRoleMemberCount([pauserRole]), 0n);
+      await assert.rejects(networkManager.write.pause(), /is missing role/);
+    });
+
+    it("Should let a registrar add and remove members", async function () {
+      const networkManager = await deployNetworkManager();
+      const registrarRole = await networkManager.read.REGISTRAR_ROLE();
+      const memberData = createMemberData(1);
+
+      await networkManager.write.grantRole([registrarRole, member2.account.address]);
+
+      await networkManager.write.addMember([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ], { account: member2.account });
+      assert.equal(await networkManager.read.isMember([member1.account.address]), true);
+
+      await networkManager.write.removeMember([member1.account.address], { account: member2.account });
+      assert.equal(await networkManager.read.isMember([member1.account.address]), false);
+    });
+
+    it("Should restrict status changes to operators", async function () {
+      const networkManager = await deployNetworkManager();
+      const registrarRole = await networkManager.read.REGISTRAR_ROLE();
+      const operatorRole = await networkManager.read.OPERATOR_ROLE();
+      const memberData = createMemberData(1);
+
+      await networkManager.write.addMember([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+
+      await networkManager.write.grantRole([registrarRole, member2.account.address]);
+      await networkManager.write.grantRole([operatorRole, member3.account.address]);
+
+      await assert.rejects(
+        networkManager.write.updateMemberStatus([member1.account.address, false], { account: member2.account }),
+        /is missing role/
+      );
+
+      await networkManager.write.updateMemberStatus([member1.account.address, false], { account: member3.account });
+      const member = (await networkManager.read.getMember([member1.account.address])) as any;
+      assert.equal(member.isActive, false);
+    });
+
+    it("Should not let an operator add members", async function () {
+      const networkManager = await deployNetworkManager();
+      const operatorRole = await networkManager.read.OPERATOR_ROLE();
+      const memberData = createMemberData(1);
+
+      await networkManager.write.grantRole([operatorRole, member3.account.address]);
+
+      await assert.rejects(
+        networkManager.write.addMember([
+          member1.account.address,
+          memberData.x500Name,
+          memberData.certSerialHex,
+          memberData.platformVersion,
+          memberData.host,
+          memberData.port,
+        ], { account: member3.account }),
+        /is missing role/
+      );
+    });
+
+    it("Should enumerate and revoke granted roles", async function () {
+      const networkManager = await deployNetworkManager();
+      const auditorRole = await networkManager.read.AUDITOR_ROLE();
+
+      await networkManager.write.grantRole([auditorRole, member1.account.address]);
+      assert.equal(await networkManager.read.getRoleMemberCount([auditorRole]), 1n);
+      assert.equal(
+        ((await networkManager.read.getRoleMember([auditorRole, 0n])) as string).toLowerCase(),
+        member1.account.address.toLowerCase()
+      );
+
+      await networkManager.write.revokeRole([auditorRole, member1.account.address]);
+      assert.equal(await networkManager.read.hasRole([auditorRole, member1.account.address]), false);
+      assert.equal(await networkManager.read.getRoleMemberCount([auditorRole]), 0n);
+    });
+
+    it("Should only allow admins to grant roles", async function () {
+      const networkManager = await deployNetworkManager();
+      const registrarRole = await networkManager.read.REGISTRAR_ROLE();
+
+      await assert.rejects(
+        networkManager.write.grantRole([registrarRole, nonOwner.account.address], { account: nonOwner.account }),
+        /is missing role/
+      );
+    });
+
+    it("Should not move roles with ownership", async function () {
+      const networkManager = await deployNetworkManager();
+      const adminRole = await networkManager.read.DEFAULT_ADMIN_ROLE();
+
+      await networkManager.write.transferOwnership([member1.account.address]);
+      await networkManager.write.acceptOwnership([], { account: member1.account });
+
+      assert.equal(await networkManager.read.hasRole([adminRole, member1.account.address]), false);
+      assert.equal(await networkManager.read.hasRole([adminRole, owner.account.address]), true);
+    });
+  });
+
+  describe("Pagination", function () {
+    async function deployWithMembers(count: number) {
+      const networkManager = await deployNetworkManager();
+      const accounts = [member1, member2, member3].slice(0, count);
+
+      for (const [i, account] of accounts.entries()) {
+        const memberData = createMemberData(i + 1);
+        await networkManager.write.addMember([
+          account.account.address,
+          memberData.x500Name,
+          memberData.certSerialHex,
+          memberData.platformVersion,
+          memberData.host,
+          memberData.port,
+        ]);
+      }
+
+      return networkManager;
+    }
+
+    it("Should return full member records with the total count", async function () {
+      const networkManager = await deployWithMembers(3);
+
+      const [page, total] = (await networkManager.read.getMembersPage([0n, 2n])) as [any[], bigint];
+      assert.equal(total, 3n);
+      assert.equal(page.length, 2);
+      assert.equal(page[0].memberAddress.toLowerCase(), member1.account.address.toLowerCase());
+      assert.equal(page[0].x500Name, createMemberData(1).x500Name);
+      assert.equal(page[1].host, createMemberData(2).host);
+      assert.equal(page[1].isActive, true);
+    });
+
+    it("Should truncate the last page", async function () {
+      const networkManager = await deployWithMembers(3);
+
+      const [page, total] = (await networkManager.read.getMembersPage([2n, 10n])) as [any[], bigint];
+      assert.equal(total, 3n);
+      assert.equal(page.length, 1);
+      assert.equal(page[0].memberAddress.toLowerCase(), member3.account.address.toLowerCase());
+    });
+
+    it("Should return an empty page past the end", async function () {
+      const networkManager = await deployWithMembers(2);
+
+      const [page, total] = (await networkManager.read.getMembersPage([5n, 10n])) as [any[], bigint];
+      assert.equal(total, 2n);
+      assert.equal(page.length, 0);
+      assert.equal(await networkManager.read.getMemberCount(), 2n);
+    });
+  });
+
+  describe("Proposals", function () {
+    async function deployWithRegistrars(threshold: bigint) {
+      const networkManager = await deployNetworkManager();
+      const registrarRole = await networkManager.read.REGISTRAR_ROLE();
+
+      await networkManager.write.grantRole([registrarRole, member2.account.address]);
+      await networkManager.write.grantRole([registrarRole, member3.account.address]);
+      await networkManager.write.setApprovalThreshold([threshold]);
+
+      return networkManager;
+    }
+
+    function addMemberArgs(index: number, address: `0x${string}`) {
+      const memberData = createMemberData(index);
+      return [
+        address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ] as const;
+    }
+
+    it("Should execute an add proposal once the threshold is reached", async function () {
+      const networkManager = await deployWithRegistrars(2n);
+
+      await networkManager.write.proposeAddMember([...addMemberArgs(1, member1.account.address)]);
+      await assert.rejects(networkManager.write.executeProposal([0n]), /Not enough approvals/);
+
+      await networkManager.write.approveProposal([0n], { account: member2.account });
+      await networkManager.write.executeProposal([0n], { account: member3.account });
+
+      assert.equal(await networkManager.read.isMember([member1.account.address]), true);
+      const proposal = (await networkManager.read.getProposal([0n])) as any;
+      assert.equal(proposal.status, 1);
+      assert.equal(proposal.approvals, 2n);
+      assert.equal(proposal.member.x500Name, createMemberData(1).x500Name);
+    });
+
+    it("Should execute remove and update proposals", async function () {
+      const networkManager = await deployNetworkManager();
+      await networkManager.write.addMember([...addMemberArgs(1, member1.account.address)]);
+      await networkManager.write.addMember([...addMemberArgs(2, member2.account.address)]);
+
+      await networkManager.write.proposeUpdateMemberDetails([...addMemberArgs(3, member1.account.address)]);
+      await networkManager.write.proposeRemoveMember([member2.account.address]);
+      assert.equal(await networkManager.read.getProposalCount(), 2n);
+
+      await networkManager.write.executeProposal([0n]);
+      await networkManager.write.executeProposal([1n]);
+
+      const member = (await networkManager.read.getMember([member1.account.address])) as any;
+      assert.equal(member.host, createMemberData(3).host);
+      assert.equal(await networkManager.read.isMember([member2.account.address]), false);
+    });
+
+    it("Should disable direct membership changes above a threshold of one", async function () {
+      const networkManager = await deployWithRegistrars(2n);
+
+      await assert.rejects(
+        networkManager.write.addMember([...addMemberArgs(1, member1.account.address)]),
+        /Membership changes require an approved proposal/
+      );
+    });
+
+    it("Should reject duplicate approvals", async function () {
+      const networkManager = await deployWithRegistrars(3n);
+
+      await networkManager.write.proposeAddMember([...addMemberArgs(1, member1.account.address)]);
+      assert.equal(await networkManager.read.hasApprovedProposal([0n, owner.account.address]), true);
+
+      await assert.rejects(networkManager.write.approveProposal([0n]), /Proposal already approved by caller/);
+    });
+
+    it("Should only let registrars propose and approve", async function () {
+      const networkManager = await deployWithRegistrars(2n);
+
+      await assert.rejects(
+        networkManager.write.proposeAddMember([...addMemberArgs(1, member1.account.address)], { account: nonOwner.account }),
+        /is missing role/
+      );
+
+      await networkManager.write.proposeAddMember([...addMemberArgs(1, member1.account.address)]);
+      await assert.rejects(
+        networkManager.write.approveProposal([0n], { account: nonOwner.account }),
+        /is missing role/
+      );
+    });
+
+    it("Should let the proposer or an admin cancel", async function () {
+      const networkManager = await deployWithRegistrars(2n);
+
+      await networkManager.write.proposeAddMember([...addMemberArgs(1, member1.account.address)], { account: member2.account });
+      await assert.rejects(
+        networkManager.write.cancelProposal([0n], { account: member3.account }),
+        /Only the proposer or an admin can cancel/
+      );
+
+      await networkManager.write.cancelProposal([0n], { account: member2.account });
+      await assert.rejects(networkManager.write.approveProposal([0n], { account: member3.account }), /Proposal is not pending/);
+
+      await networkManager.write.proposeAddMember([...addMemberArgs(1, member1.account.address)], { account: member2.account });
+      await networkManager.write.cancelProposal([1n]);
+      const proposal = (await networkManager.read.getProposal([1n])) as any;
+      assert.equal(proposal.status, 2);
+    });
+
+    it("Should not execute an expired proposal", async function () {
+      const networkManager = await deployWithRegistrars(2n);
+      const testClient = await viem.getTestClient();
+
+      await networkManager.write.proposeAddMember([...addMemberArgs(1, member1.account.address)]);
+      await networkManager.write.approveProposal([0n], { account: member2.account });
+
+      const lifetime = (await networkManager.read.PROPOSAL_LIFETIME()) as bigint;
+      await testClient.increaseTime({ seconds: Number(lifetime) + 1 });
+      await testClient.mine({ blocks: 1 });
+
+      await assert.rejects(networkManager.write.executeProposal([0n]), /Proposal has expired/);
+    });
+
+    it("Should reject a stale proposal at execution", async function () {
+      const networkManager = await deployNetworkManager();
+
+      await networkManager.write.proposeAddMember([...addMemberArgs(1, member1.account.address)]);
+      await networkManager.write.addMember([...addMemberArgs(2, member1.account.address)]);
+
+      await assert.rejects(networkManager.write.executeProposal([0n]), /Member already exists/);
+    });
+
+    it("Should only allow admins to change the threshold", async function () {
+      const networkManager = await deployNetworkManager();
+
+      await assert.rejects(
+        networkManager.write.setApprovalThreshold([2n], { account: nonOwner.account }),
+        /is missing role/
+      );
+      await assert.rejects(networkManager.write.setApprovalThreshold([0n]), /Threshold must be at least 1/);
+
+      await networkManager.write.setApprovalThreshold([3n]);
+      assert.equal(await networkManager.read.approvalThreshold(), 3n);
+    });
+
+    it("Should only lower the threshold through an approved proposal", async function () {
+      const networkManager = await deployWithRegistrars(2n);
+      const extension = await viem.getContractAt("NetworkManagerExtension3", networkManager.address);
+
+      await assert.rejects(
+        networkManager.write.setApprovalThreshold([1n]),
+        /Lowering the threshold requires an approved proposal/
+      );
+      await assert.rejects(extension.write.proposeApprovalThreshold([0n]), /Threshold must be at least 1/);
+
+      await extension.write.proposeApprovalThreshold([1n]);
+      assert.equal(await extension.read.getProposedThreshold([0n]), 1n);
+      await assert.rejects(networkManager.write.executeProposal([0n]), /Not enough approvals/);
+
+      await networkManager.write.approveProposal([0n], { account: member2.account });
+      await networkManager.write.executeProposal([0n]);
+
+      assert.equal(await networkManager.read.approvalThreshold(), 1n);
+      const proposal = (await networkManager.read.getProposal([0n])) as any;
+      assert.equal(proposal.action, 3);
+    });
+
+    it("Should return proposals a page at a time", async function () {
+      const networkManager = await deployNetworkManager();
+      const extension = await viem.getContractAt("NetworkManagerExtension3", networkManager.address);
+
+      for (let i = 1; i <= 3; i++) {
+        await networkManager.write.proposeAddMember([...addMemberArgs(i, member1.account.address)]);
+      }
+
+      const [page, total] = (await extension.read.getProposalsPage([1n, 5n])) as [any[], bigint];
+      assert.equal(total, 3n);
+      assert.equal(page.length, 2);
+      assert.equal(page[0].member.x500Name, createMemberData(2).x500Name);
+
+      const [empty] = (await extension.read.getProposalsPage([3n, 5n])) as [any[], bigint];
+      assert.equal(empty.length, 0);
+    });
+
+    it("Should not count approvals from accounts that are no longer registrars", async function () {
+      const networkManager = await deployWithRegistrars(2n);
+      const extension = await viem.getContractAt("NetworkManagerExtension3", networkManager.address);
+      const registrarRole = await networkManager.read.REGISTRAR_ROLE();
+
+      await networkManager.write.proposeAddMember([...addMemberArgs(1, member1.account.address)]);
+      await networkManager.write.approveProposal([0n], { account: member2.account });
+      assert.equal(await extension.read.getCurrentApprovals([0n]), 2n);
+
+      await networkManager.write.revokeRole([registrarRole, member2.account.address]);
+
+      assert.equal(await extension.read.getCurrentApprovals([0n]), 1n);
+      await assert.rejects(networkManager.write.executeProposal([0n]), /Not enough approvals/);
+
+      await networkManager.write.approveProposal([0n], { account: member3.account });
+      await networkManager.write.executeProposal([0n]);
+      assert.equal(await networkManager.read.isMember([member1.account.address]), true);
+    });
+  });
+
+  describe("Self-Service Endpoint Updates", function () {
+    it("Should let a member update its own endpoint", async function () {
+      const networkManager = await deployWithMember();
+
+      await networkManager.write.updateMyEndpoint(["10.0.0.5", 30400, 2], { account: member1.account });
+
+      const member = (await networkManager.read.getMember([member1.account.address])) as any;
+      assert.equal(member.host, "10.0.0.5");
+      assert.equal(member.port, 30400);
+      assert.equal(member.platformVersion, 2);
+      assert.equal(member.x500Name, createMemberData(1).x500Name);
+      assert.equal(member.certSerialHex, createMemberData(1).certSerialHex);
+    });
+
+    it("Should emit MemberEndpointChanged event", async function () {
+      const networkManager = await deployWithMember();
+      const deploymentBlockNumber = await publicClient.getBlockNumber();
+
+      await networkManager.write.updateMyEndpoint(["10.0.0.5", 30400, 2], { account: member1.account });
+
+      const events = await publicClient.getContractEvents({
+        address: networkManager.address,
+        abi: networkManager.abi,
+        eventName: "MemberEndpointChanged",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+
+      assert.equal(events.length, 1);
+      assert.equal((events[0].args as any).memberAddress?.toLowerCase(), member1.account.address.toLowerCase());
+      assert.equal((events[0].args as any).previousHost, createMemberData(1).host);
+      assert.equal((events[0].args as any).newHost, "10.0.0.5");
+      assert.equal((events[0].args as any).newPort, 30400);
+    });
+
+    it("Should emit MemberSelfUpdated with the platform version", async function () {
+      const networkManager = await deployWithMember();
+      const deploymentBlockNumber = await publicClient.getBlockNumber();
+      const memberData = createMemberData(1);
+
+      await networkManager.write.updateMyEndpoint([memberData.host, memberData.port, 2], { account: member1.account });
+
+      const events = await publicClient.getContractEvents({
+        address: networkManager.address,
+        abi: networkManager.abi,
+        eventName: "MemberSelfUpdated",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+
+      assert.equal(events.length, 1);
+      assert.equal((events[0].args as any).memberAddress?.toLowerCase(), member1.account.address.toLowerCase());
+      assert.equal((events[0].args as any).platformVersion, 2);
+    });
+
+    it("Should reject members that are not pending or active", async function () {
+      const networkManager = await deployWithMember();
+
+      await networkManager.write.updateMemberStatus([member1.account.address, false]);
+
+      await assert.rejects(
+        networkManager.write.updateMyEndpoint(["10.0.0.5", 30400, 2], { account: member1.account }),
+        /Member is not pending or active/
+      );
+    });
+
+    it("Should reject callers that are not members", async function () {
+      const networkManager = await deployWithMember();
+
+      await assert.rejects(
+        networkManager.write.updateMyEndpoint(["10.0.0.5", 30400, 2]),
+        /Member does not exist/
+      );
+    });
+
+    it("Should reject an empty host or zero port", async function () {
+      const networkManager = await deployWithMember();
+
+      await assert.rejects(
+        networkManager.write.updateMyEndpoint(["", 30400, 2], { account: member1.account }),
+        /Host is required/
+      );
+      await assert.rejects(
+        networkManager.write.updateMyEndpoint(["10.0.0.5", 0, 2], { account: member1.account }),
+        /Port is required/
+      );
+    });
+  });
+
+  describe("Ownership Transfer", function () {
+    it("Should keep the owner until the nominee accepts", async function () {
+      const networkManager = await deployNetworkManager();
+
+      await networkManager.write.transferOwnership([member1.account.address]);
+
+      assert.equal(
+        ((await networkManager.read.owner()) as string).toLowerCase(),
+        owner.account.address.toLowerCase()
+      );
+      assert.equal(
+        ((await networkManager.read.pendingOwner()) as string).toLowerCase(),
+        member1.account.address.toLowerCase()
+      );
+
+      await networkManager.write.acceptOwnership([], { account: member1.account });
+
+      assert.equal(
+        ((await networkManager.read.owner()) as string).toLowerCase(),
+        member1.account.address.toLowerCase()
+      );
+      assert.equal(await networkManager.read.pendingOwner(), "0x0000000000000000000000000000000000000000");
+    });
+
+    it("Should only let the nominee accept", async function () {
+      const networkManager = await deployNetworkManager();
+
+      await networkManager.write.transferOwnership([member1.account.address]);
+
+      await assert.rejects(
+        networkManager.write.acceptOwnership([], { account: nonOwner.account }),
+        /caller is not the new owner/
+      );
+    });
+
+    it("Should let the owner cancel a pending transfer", async function () {
+      const networkManager = await deployNetworkManager();
+
+      await assert.rejects(networkManager.write.cancelOwnershipTransfer(), /No pending ownership transfer/);
+
+      await networkManager.write.transferOwnership([member1.account.address]);
+      await networkManager.write.cancelOwnershipTransfer();
+
+      assert.equal(await networkManager.read.pendingOwner(), "0x0000000000000000000000000000000000000000");
+      await assert.rejects(
+        networkManager.write.acceptOwnership([], { account: member1.account }),
+        /caller is not the new owner/
+      );
+    });
+
+    it("Should only let the owner nominate or cancel", async function () {
+      const networkManager = await deployNetworkManager();
+
+      await assert.rejects(
+        networkManager.write.transferOwnership([nonOwner.account.address], { account: nonOwner.account }),
+        /caller is not the owner/
+      );
+      await assert.rejects(
+        networkManager.write.cancelOwnershipTransfer([], { account: nonOwner.account }),
+        /caller is not the owner/
+      );
+    });
+  });
+
+  describe("Certificate Fingerprint", function () {
+    const fingerprint = toHex("certificate-fingerprint", { size: 32 });
+    const notBefore = 1735689600n; // 2025-01-01
+    const notAfter = 1767225600n; // 2026-01-01
+
+    it("Should store the certificate fingerprint and validity window", async function () {
+      const networkManager = await deployWithMember();
+
+      await networkManager.write.setMemberCertificate([member1.account.address, fingerprint, notBefore, notAfter]);
+
+      const member = (await networkManager.read.getMember([member1.account.address])) as any;
+      assert.equal(member.certFingerprint, fingerprint);
+      assert.equal(member.certNotBefore, notBefore);
+      assert.equal(member.certNotAfter, notAfter);
+    });
+
+    it("Should clear the fingerprint when the serial changes", async function () {
+      const networkManager = await deployWithMember();
+      const memberData = createMemberData(1);
+
+      await networkManager.write.setMemberCertificate([member1.account.address, fingerprint, notBefore, notAfter]);
+
+      // Same serial keeps the fingerprint
+      await networkManager.write.updateMemberDetails([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        "moved.example.com",
+        memberData.port,
+      ]);
+      let member = (await networkManager.read.getMember([member1.account.address])) as any;
+      assert.equal(member.certFingerprint, fingerprint);
+
+      await networkManager.write.updateMemberDetails([
+        member1.account.address,
+        memberData.x500Name,
+        createMemberData(2).certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+      member = (await networkManager.read.getMember([member1.account.address])) as any;
+      assert.equal(member.certFingerprint, toHex(0, { size: 32 }));
+      assert.equal(member.certNotAfter, 0n);
+    });
+
+    it("Should reject an empty fingerprint or inverted validity window", async function () {
+      const networkManager = await deployWithMember();
+
+      await assert.rejects(
+        networkManager.write.setMemberCertificate([member1.account.address, toHex(0, { size: 32 }), notBefore, notAfter]),
+        /Certificate fingerprint is required/
+      );
+      await assert.rejects(
+        networkManager.write.setMemberCertificate([member1.account.address, fingerprint, notAfter, notBefore]),
+        /Invalid certificate validity period/
+      );
+    });
+
+    it("Should only allow registrars to set certificates", async function () {
+      const networkManager = await deployWithMember();
+
+      await assert.rejects(
+        networkManager.write.setMemberCertificate(
+          [member1.account.address, fingerprint, notBefore, notAfter],
+          { account: nonOwner.account }
+        ),
+        /is missing role/
+      );
+    });
+
+    it("Should set certificates through a proposal above a threshold of one", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension3", networkManager.address);
+      await networkManager.write.grantRole([await networkManager.read.REGISTRAR_ROLE(), member2.account.address]);
+      await networkManager.write.setApprovalThreshold([2n]);
+
+      await assert.rejects(
+        networkManager.write.setMemberCertificate([member1.account.address, fingerprint, notBefore, notAfter]),
+        /Membership changes require an approved proposal/
+      );
+
+      await extension.write.proposeMemberCertificate([member1.account.address, fingerprint, notBefore, notAfter]);
+      await networkManager.write.approveProposal([0n], { account: member2.account });
+      await networkManager.write.executeProposal([0n]);
+
+      const member = (await networkManager.read.getMember([member1.account.address])) as any;
+      assert.equal(member.certFingerprint, fingerprint);
+      assert.equal(member.certNotAfter, notAfter);
+      assert.equal(((await networkManager.read.getProposal([0n])) as any).action, 4);
+    });
+
+    it("Should reject a certificate proposal once the member's serial changed", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension3", networkManager.address);
+      const memberData = createMemberData(1);
+
+      await extension.write.proposeMemberCertificate([member1.account.address, fingerprint, notBefore, notAfter]);
+      await networkManager.write.updateMemberDetails([
+        member1.account.address,
+        memberData.x500Name,
+        createMemberData(2).certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+
+      await assert.rejects(
+        networkManager.write.executeProposal([0n]),
+        /Certificate serial changed since the proposal/
+      );
+    });
+  });
+
+  describe("Batch Operations", function () {
+    const zeroFingerprint = toHex(0, { size: 32 });
+
+    function createMemberInput(index: number, address: `0x${string}`) {
+      const memberData = createMemberData(index);
+      return {
+        memberAddress: address,
+        x500Name: memberData.x500Name,
+        certSerialHex: memberData.certSerialHex,
+        platformVersion: memberData.platformVersion,
+        host: memberData.host,
+        port: memberData.port,
+        certFingerprint: zeroFingerprint,
+        certNotBefore: 0n,
+        certNotAfter: 0n,
+      };
+    }
+
+    async function deployWithBatch() {
+      const networkManager = await deployNetworkManager();
+
+      await networkManager.write.addMembers([[
+        createMemberInput(1, member1.account.address),
+        createMemberInput(2, member2.account.address),
+        createMemberInput(3, member3.account.address),
+      ]]);
+
+      return networkManager;
+    }
+
+    it("Should add several members in one transaction", async function () {
+      const networkManager = await deployWithBatch();
+
+      assert.equal(await networkManager.read.getMemberCount(), 3n);
+      const member = (await networkManager.read.getMember([member2.account.address])) as any;
+      assert.equal(member.x500Name, createMemberData(2).x500Name);
+      assert.equal(member.isActive, true);
+
+      const events = await networkManager.getEvents.MemberAdded();
+      assert.equal(events.length, 3);
+    });
+
+    it("Should store certificate data supplied with the batch", async function () {
+      const networkManager = await deployNetworkManager();
+      const fingerprint = toHex("certificate-fingerprint", { size: 32 });
+
+      await networkManager.write.addMembers([[
+        { ...createMemberInput(1, member1.account.address), certFingerprint: fingerprint, certNotBefore: 1n, certNotAfter: 2n },
+      ]]);
+
+      const member = (await networkManager.read.getMember([member1.account.address])) as any;
+      assert.equal(member.certFingerprint, fingerprint);
+      assert.equal(member.certNotAfter, 2n);
+    });
+
+    it("Should add nothing if any entry is invalid", async function () {
+      const networkManager = await deployNetworkManager();
+
+      await assert.rejects(
+        networkManager.write.addMembers([[
+          createMemberInput(1, member1.account.address),
+          createMemberInput(2, member1.account.address),
+        ]]),
+        /Member already exists/
+      );
+      assert.equal(await networkManager.read.getMemberCount(), 0n);
+
+      await assert.rejects(networkManager.write.addMembers([[]]), /Batch is empty/);
+    });
+
+    it("Should update the status of several members", async function () {
+      const networkManager = await deployWithBatch();
+
+      await networkManager.write.updateMembersStatus([[member1.account.address, member3.account.address], false]);
+
+      assert.equal(((await networkManager.read.getMember([member1.account.address])) as any).isActive, false);
+      assert.equal(((await networkManager.read.getMember([member2.account.address])) as any).isActive, true);
+      assert.equal(((await networkManager.read.getMember([member3.account.address])) as any).isActive, false);
+
+      await assert.rejects(
+        networkManager.write.updateMembersStatus([[member2.account.address, nonOwner.account.address], false]),
+        /Member does not exist/
+      );
+      assert.equal(((await networkManager.read.getMember([member2.account.address])) as any).isActive, true);
+    });
+
+    it("Should remove several members and roll back on a missing address", async function () {
+      const networkManager = await deployWithBatch();
+
+      await assert.rejects(
+        networkManager.write.removeMembers([[member1.account.address, nonOwner.account.address]]),
+        /Member does not exist/
+      );
+      assert.equal(await networkManager.read.getMemberCount(), 3n);
+
+      await networkManager.write.removeMembers([[member1.account.address, member3.account.address]]);
+
+      const remaining = (await networkManager.read.getAllMembers()) as string[];
+      assert.deepEqual(remaining.map((a) => a.toLowerCase()), [member2.account.address.toLowerCase()]);
+    });
+
+    it("Should apply the same role checks as single-member writes", async function () {
+      const networkManager = await deployWithBatch();
+
+      await assert.rejects(
+        networkManager.write.addMembers([[createMemberInput(4, nonOwner.account.address)]], { account: nonOwner.account }),
+        /is missing role/
+      );
+      await assert.rejects(
+        networkManager.write.updateMembersStatus([[member1.account.address], false], { account: nonOwner.account }),
+        /is missing role/
+      );
+
+      await networkManager.write.setApprovalThreshold([2n]);
+      await assert.rejects(
+        networkManager.write.removeMembers([[member1.account.address]]),
+        /Membership changes require an approved proposal/
+      );
+    });
+  });
+
+  describe("Emergency Pause", function () {
+    it("Should block registry changes while paused", async function () {
+      const networkManager = await deployWithMember();
+      const memberData = createMemberData(2);
+
+      await networkManager.write.pause();
+      assert.equal(await networkManager.read.paused(), true);
+
+      await assert.rejects(
+        networkManager.write.addMember([
+          member2.account.address,
+          memberData.x500Name,
+          memberData.certSerialHex,
+          memberData.platformVersion,
+          memberData.host,
+          memberData.port,
+        ]),
+        /Pausable: paused/
+      );
+      await assert.rejects(networkManager.write.updateMemberStatus([member1.account.address, false]), /Pausable: paused/);
+      await assert.rejects(networkManager.write.removeMember([member1.account.address]), /Pausable: paused/);
+      await assert.rejects(
+        networkManager.write.revokeCertificate([memberData.certSerialHex, 0]),
+        /Pausable: paused/
+      );
+      await assert.rejects(
+        networkManager.write.updateMyEndpoint(["10.0.0.5", 30400, 2], { account: member1.account }),
+        /Pausable: paused/
+      );
+    });
+
+    it("Should block setting and organization changes while paused", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension", networkManager.address);
+      const secondExtension = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+      await secondExtension.write.createOrganization(["Org A", 2n]);
+
+      await networkManager.write.pause();
+
+      await assert.rejects(secondExtension.write.setMinPlatformVersion([2]), /Pausable: paused/);
+      await assert.rejects(extension.write.setDefaultLeaseDuration([86400n]), /Pausable: paused/);
+      await assert.rejects(extension.write.setMetadataSelfService([true]), /Pausable: paused/);
+      await assert.rejects(secondExtension.write.createOrganization(["Org B", 1n]), /Pausable: paused/);
+      await assert.rejects(secondExtension.write.setOrganizationQuota([1n, 3n]), /Pausable: paused/);
+      await assert.rejects(secondExtension.write.createUpgradePlan([2, 1000n, 4102444800n]), /Pausable: paused/);
+    });
+
+    it("Should let proposals be cancelled and join requests be required while paused", async function () {
+      const networkManager = await deployWithMember();
+      const secondExtension = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+      const memberData = createMemberData(2);
+      await networkManager.write.proposeAddMember([
+        member2.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+
+      await networkManager.write.pause();
+
+      await networkManager.write.cancelProposal([0n]);
+      await secondExtension.write.setJoinRequestRequired([true]);
+      assert.equal(await secondExtension.read.isJoinRequestRequired(), true);
+    });
+
+    it("Should allow changes again after unpausing", async function () {
+      const networkManager = await deployWithMember();
+
+      await networkManager.write.pause();
+      await networkManager.write.unpause();
+
+      await networkManager.write.updateMemberStatus([member1.account.address, false]);
+      const member = (await networkManager.read.getMember([member1.account.address])) as any;
+      assert.equal(member.isActive, false);
+    });
+
+    it("Should keep role management available while paused", async function () {
+      const networkManager = await deployWithMember();
+      const pauserRole = await networkManager.read.PAUSER_ROLE();
+
+      await networkManager.write.pause();
+      await networkManager.write.grantRole([pauserRole, member2.account.address]);
+
+      await networkManager.write.unpause([], { account: member2.account });
+      assert.equal(await networkManager.read.paused(), false);
+    });
+
+    it("Should only allow pausers to pause and unpause", async function () {
+      const networkManager = await deployWithMember();
+
+      await assert.rejects(networkManager.write.pause([], { account: nonOwner.account }), /is missing role/);
+
+      await networkManager.write.pause();
+      await assert.rejects(networkManager.write.unpause([], { account: nonOwner.account }), /is missing role/);
+    });
+  });
+
+  describe("Change Events", function () {
+    it("Should record the deployment block", async function () {
+      const networkManager = await deployNetworkManager();
+
+      // Each transaction is mined in its own block, so the latest block is the deployment block
+      assert.equal(await networkManager.read.deploymentBlock(), await publicClient.getBlockNumber());
+    });
+
+    it("Should emit MemberStatusChanged with the previous and new status", async function () {
+      const networkManager = await deployWithMember();
+
+      await networkManager.write.updateMemberStatus([member1.account.address, false]);
+      // Setting the same status again is not a change
+      await networkManager.write.updateMemberStatus([member1.account.address, false]);
+
+      const events = await networkManager.getEvents.MemberStatusChanged({}, { fromBlock: 0n });
+      assert.equal(events.length, 1);
+      assert.equal((events[0].args as any).previousStatus, true);
+      assert.equal((events[0].args as any).newStatus, false);
+    });
+
+    it("Should emit MemberEndpointChanged and MemberCertificateRotated from updateMemberDetails", async function () {
+      const networkManager = await deployWithMember();
+      const memberData = createMemberData(1);
+      const newSerial = createMemberData(2).certSerialHex;
+
+      await networkManager.write.updateMemberDetails([
+        member1.account.address,
+        memberData.x500Name,
+        newSerial,
+        memberData.platformVersion,
+        "moved.example.com",
+        memberData.port,
+      ]);
+
+      const endpointEvents = await networkManager.getEvents.MemberEndpointChanged({}, { fromBlock: 0n });
+      assert.equal(endpointEvents.length, 1);
+      assert.equal((endpointEvents[0].args as any).previousHost, memberData.host);
+      assert.equal((endpointEvents[0].args as any).newHost, "moved.example.com");
+      assert.equal((endpointEvents[0].args as any).previousPort, memberData.port);
+      assert.equal((endpointEvents[0].args as any).newPort, memberData.port);
+
+      const rotatedEvents = await networkManager.getEvents.MemberCertificateRotated(
+        { memberAddress: member1.account.address },
+        { fromBlock: 0n }
+      );
+      assert.equal(rotatedEvents.length, 1);
+      assert.equal((rotatedEvents[0].args as any).previousCertSerialHex, memberData.certSerialHex);
+      assert.equal((rotatedEvents[0].args as any).newCertSerialHex, newSerial);
+      assert.equal((rotatedEvents[0].args as any).newSerialHash, keccak256(newSerial));
+    });
+
+    it("Should not emit change events when details stay the same", async function () {
+      const networkManager = await deployWithMember();
+      const memberData = createMemberData(1);
+
+      await networkManager.write.updateMemberDetails([
+        member1.account.address,
+        "CN=Renamed, O=Organization, L=City, C=US",
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+
+      assert.equal((await networkManager.getEvents.MemberEndpointChanged({}, { fromBlock: 0n })).length, 0);
+      assert.equal((await networkManager.getEvents.MemberCertificateRotated({}, { fromBlock: 0n })).length, 0);
+      assert.equal((await networkManager.getEvents.MemberUpdated({}, { fromBlock: 0n })).length, 1);
+    });
+  });
+
+  describe("Reverse Lookups", function () {
+    async function addMember(networkManager: any, account: typeof member1, index: number) {
+      const memberData = createMemberData(index);
+      await networkManager.write.addMember([
+        account.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+    }
+
+    it("Should find a member by certificate serial and X.500 name", async function () {
+      const networkManager = await deployNetworkManager();
+      await addMember(networkManager, member1, 1);
+      await addMember(networkManager, member2, 2);
+      const memberData = createMemberData(2);
+
+      const bySerial = (await networkManager.read.getMemberBySerial([memberData.certSerialHex])) as any;
+      assert.equal(bySerial.memberAddress.toLowerCase(), member2.account.address.toLowerCase());
+
+      const byName = (await networkManager.read.getMemberByX500Name([memberData.x500Name])) as any;
+      assert.equal(byName.memberAddress.toLowerCase(), member2.account.address.toLowerCase());
+    });
+
+    it("Should revert for an unknown serial or name", async function () {
+      const networkManager = await deployNetworkManager();
+      await addMember(networkManager, member1, 1);
+
+      await assert.rejects(
+        networkManager.read.getMemberBySerial([createMemberData(2).certSerialHex]),
+        /Member does not exist/
+      );
+      await assert.rejects(
+        networkManager.read.getMemberByX500Name([createMemberData(2).x500Name]),
+        /Member does not exist/
+      );
+    });
+
+    it("Should reject a serial or name already used by another member", async function () {
+      const networkManager = await deployNetworkManager();
+      await addMember(networkManager, member1, 1);
+      const memberData = createMemberData(1);
+      const otherData = createMemberData(2);
+
+      await assert.rejects(
+        networkManager.write.addMember([
+          member2.account.address,
+          otherData.x500Name,
+          memberData.certSerialHex,
+          otherData.platformVersion,
+          otherData.host,
+          otherData.port,
+        ]),
+        /Certificate serial already in use/
+      );
+      await assert.rejects(
+        networkManager.write.addMember([
+          member2.account.address,
+          memberData.x500Name,
+          otherData.certSerialHex,
+          otherData.platformVersion,
+          otherData.host,
+          otherData.port,
+        ]),
+        /X.500 name already in use/
+      );
+
+      await addMember(networkManager, member2, 2);
+      await assert.rejects(
+        networkManager.write.updateMemberDetails([
+          member2.account.address,
+          otherData.x500Name,
+          memberData.certSerialHex,
+          otherData.platformVersion,
+          otherData.host,
+          otherData.port,
+        ]),
+        /Certificate serial already in use/
+      );
+    });
+
+    it("Should move the indexes when details change", async function () {
+      const networkManager = await deployNetworkManager();
+      await addMember(networkManager, member1, 1);
+      const memberData = createMemberData(1);
+      const newSerial = createMemberData(5).certSerialHex;
+      const newName = "CN=Renamed, O=Organization, L=City, C=US";
+
+      await networkManager.write.updateMemberDetails([
+        member1.account.address,
+        newName,
+        newSerial,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+
+      await assert.rejects(networkManager.read.getMemberBySerial([memberData.certSerialHex]), /Member does not exist/);
+      await assert.rejects(networkManager.read.getMemberByX500Name([memberData.x500Name]), /Member does not exist/);
+
+      const bySerial = (await networkManager.read.getMemberBySerial([newSerial])) as any;
+      assert.equal(bySerial.x500Name, newName);
+      const byName = (await networkManager.read.getMemberByX500Name([newName])) as any;
+      assert.equal(byName.certSerialHex, newSerial);
+    });
+
+    it("Should free the serial and name when a member is removed", async function () {
+      const networkManager = await deployNetworkManager();
+      await addMember(networkManager, member1, 1);
+      const memberData = createMemberData(1);
+
+      await networkManager.write.removeMember([member1.account.address]);
+      await assert.rejects(networkManager.read.getMemberBySerial([memberData.certSerialHex]), /Member does not exist/);
+
+      await networkManager.write.addMember([
+        member2.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+      const bySerial = (await networkManager.read.getMemberBySerial([memberData.certSerialHex])) as any;
+      assert.equal(bySerial.memberAddress.toLowerCase(), member2.account.address.toLowerCase());
+    });
+  });
+
+  describe("Unique Endpoints", function () {
+    async function deployWithMembers() {
+      const networkManager = await deployNetworkManager();
+      for (const [index, account] of [member1, member2].entries()) {
+        const memberData = createMemberData(index + 1);
+        await networkManager.write.addMember([
+          account.account.address,
+          memberData.x500Name,
+          memberData.certSerialHex,
+          memberData.platformVersion,
+          memberData.host,
+          memberData.port,
+        ]);
+      }
+
+      // getEndpointHolder is served by NetworkManagerExtension at the NetworkManager address
+      const extension = await viem.getContractAt("NetworkManagerExtension", networkManager.address);
+      return { networkManager, extension };
+    }
+
+    it("Should report the member holding an endpoint", async function () {
+      const { extension } = await deployWithMembers();
+      const memberData = createMemberData(1);
+
+      const holder = (await extension.read.getEndpointHolder([memberData.host, memberData.port])) as string;
+      assert.equal(holder.toLowerCase(), member1.account.address.toLowerCase());
+
+      const free = await extension.read.getEndpointHolder([memberData.host, memberData.port + 100]);
+      assert.equal(free, zeroAddress);
+    });
+
+    it("Should reject an endpoint already used by another member", async function () {
+      const { networkManager } = await deployWithMembers();
+      const takenData = createMemberData(1);
+      const otherData = createMemberData(3);
+
+      await assert.rejects(
+        networkManager.write.addMember([
+          member3.account.address,
+          otherData.x500Name,
+          otherData.certSerialHex,
+          otherData.platformVersion,
+          takenData.host,
+          takenData.port,
+        ]),
+        /Endpoint already in use/
+      );
+      await assert.rejects(
+        networkManager.write.updateMemberDetails([
+          member2.account.address,
+          createMemberData(2).x500Name,
+          createMemberData(2).certSerialHex,
+          1,
+          takenData.host,
+          takenData.port,
+        ]),
+        /Endpoint already in use/
+      );
+      await assert.rejects(
+        networkManager.write.updateMyEndpoint([takenData.host, takenData.port, 1], { account: member2.account }),
+        /Endpoint already in use/
+      );
+      await assert.rejects(
+        networkManager.write.proposeAddMember([
+          member3.account.address,
+          otherData.x500Name,
+          otherData.certSerialHex,
+          otherData.platformVersion,
+          takenData.host,
+          takenData.port,
+        ]),
+        /Endpoint already in use/
+      );
+    });
+
+    it("Should treat hosts differing only in case as the same endpoint", async function () {
+      const { networkManager, extension } = await deployWithMembers();
+      const takenData = createMemberData(1);
+      const otherData = createMemberData(3);
+      const upperHost = takenData.host.toUpperCase();
+
+      await assert.rejects(
+        networkManager.write.addMember([
+          member3.account.address,
+          otherData.x500Name,
+          otherData.certSerialHex,
+          otherData.platformVersion,
+          upperHost,
+          takenData.port,
+        ]),
+        /Endpoint already in use/
+      );
+
+      const holder = (await extension.read.getEndpointHolder([upperHost, takenData.port])) as string;
+      assert.equal(holder.toLowerCase(), member1.account.address.toLowerCase());
+    });
+
+    it("Should allow the same host on a different port", async function () {
+      const { networkManager, extension } = await deployWithMembers();
+      const takenData = createMemberData(1);
+
+      await networkManager.write.updateMyEndpoint([takenData.host, takenData.port + 1, 1], { account: member2.account });
+
+      const holder = (await extension.read.getEndpointHolder([takenData.host, takenData.port + 1])) as string;
+      assert.equal(holder.toLowerCase(), member2.account.address.toLowerCase());
+    });
+
+    it("Should free the endpoint when it changes or the member is removed", async function () {
+      const { networkManager, extension } = await deployWithMembers();
+      const memberData = createMemberData(1);
+
+      await networkManager.write.updateMyEndpoint(["10.0.0.5", 30400, 1], { account: member1.account });
+      assert.equal(await extension.read.getEndpointHolder([memberData.host, memberData.port]), zeroAddress);
+      assert.equal(
+        ((await extension.read.getEndpointHolder(["10.0.0.5", 30400])) as string).toLowerCase(),
+        member1.account.address.toLowerCase()
+      );
+
+      await networkManager.write.removeMember([member1.account.address]);
+      assert.equal(await extension.read.getEndpointHolder(["10.0.0.5", 30400]), zeroAddress);
+
+      // The freed endpoint can be taken by another member
+      await networkManager.write.updateMyEndpoint(["10.0.0.5", 30400, 1], { account: member2.account });
+    });
+  });
+
+  describe("Member Metadata", function () {
+    // Metadata functions are served by NetworkManagerExtension at the NetworkManager address
+
+    it("Should set, overwrite and list metadata", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension", networkManager.address);
+
+      await extension.write.setMetadata([member1.account.address, "region", "eu-west-1"]);
+      await extension.write.setMetadata([member1.account.address, "contact", "ops@example.com"]);
+      await extension.write.setMetadata([member1.account.address, "region", "ap-southeast-1"]);
+
+      assert.equal(await extension.read.getMetadata([member1.account.address, "region"]), "ap-southeast-1");
+      assert.equal(await extension.read.getMetadata([member1.account.address, "datacenter"]), "");
+
+      const [keys, values] = (await extension.read.getAllMetadata([member1.account.address])) as [string[], string[]];
+      assert.deepEqual(keys, ["region", "contact"]);
+      assert.deepEqual(values, ["ap-southeast-1", "ops@example.com"]);
+    });
+
+    it("Should emit MemberMetadataSet event", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension", networkManager.address);
+      const deploymentBlockNumber = await publicClient.getBlockNumber();
+
+      await extension.write.setMetadata([member1.account.address, "region", "eu-west-1"]);
+
+      const events = await publicClient.getContractEvents({
+        address: extension.address,
+        abi: extension.abi,
+        eventName: "MemberMetadataSet",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+
+      assert.equal(events.length, 1);
+      assert.equal((events[0].args as any).memberAddress.toLowerCase(), member1.account.address.toLowerCase());
+      assert.equal((events[0].args as any).key, "region");
+      assert.equal((events[0].args as any).value, "eu-west-1");
+      assert.equal((events[0].args as any).setBy.toLowerCase(), owner.account.address.toLowerCase());
+    });
+
+    it("Should remove a key when set to an empty value", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension", networkManager.address);
+
+      await extension.write.setMetadata([member1.account.address, "region", "eu-west-1"]);
+      await extension.write.setMetadata([member1.account.address, "contact", "ops@example.com"]);
+      await extension.write.setMetadata([member1.account.address, "region", ""]);
+
+      const [keys] = (await extension.read.getAllMetadata([member1.account.address])) as [string[], string[]];
+      assert.deepEqual(keys, ["contact"]);
+      await assert.rejects(
+        extension.write.setMetadata([member1.account.address, "region", ""]),
+        /Metadata key not set/
+      );
+    });
+
+    it("Should only let members set their own metadata when self-service is enabled", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension", networkManager.address);
+
+      await assert.rejects(
+        extension.write.setMetadata([member1.account.address, "region", "eu-west-1"], { account: member1.account }),
+        /Not allowed to set metadata/
+      );
+
+      await extension.write.setMetadataSelfService([true]);
+      assert.equal(await extension.read.isMetadataSelfServiceEnabled(), true);
+
+      await extension.write.setMetadata([member1.account.address, "region", "eu-west-1"], { account: member1.account });
+      assert.equal(await extension.read.getMetadata([member1.account.address, "region"]), "eu-west-1");
+
+      // Self-service only covers the member's own record
+      await assert.rejects(
+        extension.write.setMetadata([member1.account.address, "region", "us-east-1"], { account: member2.account }),
+        /Not allowed to set metadata/
+      );
+      await assert.rejects(
+        extension.write.setMetadataSelfService([false], { account: member1.account }),
+        /is missing role/
+      );
+    });
+
+    it("Should validate keys and values", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension", networkManager.address);
+
+      await assert.rejects(
+        extension.write.setMetadata([member1.account.address, "", "value"]),
+        /Invalid metadata key/
+      );
+      await assert.rejects(
+        extension.write.setMetadata([member1.account.address, "k".repeat(65), "value"]),
+        /Invalid metadata key/
+      );
+      await assert.rejects(
+        extension.write.setMetadata([member1.account.address, "notes", "v".repeat(257)]),
+        /Metadata value too long/
+      );
+      await assert.rejects(
+        extension.write.setMetadata([member2.account.address, "region", "eu-west-1"]),
+        /Member does not exist/
+      );
+    });
+
+    it("Should clear metadata when the member is removed", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension", networkManager.address);
+      const memberData = createMemberData(1);
+
+      await extension.write.setMetadata([member1.account.address, "region", "eu-west-1"]);
+      await networkManager.write.removeMember([member1.account.address]);
+      await networkManager.write.addMember([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+
+      const [keys] = (await extension.read.getAllMetadata([member1.account.address])) as [string[], string[]];
+      assert.deepEqual(keys, []);
+      assert.equal(await extension.read.getMetadata([member1.account.address, "region"]), "");
+    });
+  });
+
+  describe("Membership Leases", function () {
+    const YEAR = 365n * 24n * 60n * 60n;
+
+    async function deployWithMember(leaseDuration: bigint = 0n) {
+      const networkManager = await deployNetworkManager();
+      // Lease functions are served by NetworkManagerExtension at the NetworkManager address
+      const extension = await viem.getContractAt("NetworkManagerExtension", networkManager.address);
+      const memberData = createMemberData(1);
+
+      if (leaseDuration > 0n) {
+        await extension.write.setDefaultLeaseDuration([leaseDuration]);
+      }
+      await networkManager.write.addMember([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+
+      return { networkManager, extension };
+    }
+
+    async function latestTimestamp() {
+      return (await publicClient.getBlock()).timestamp;
+    }
+
+    it("Should add members without a lease by default", async function () {
+      const { extension } = await deployWithMember();
+
+      assert.equal(await extension.read.getLeaseExpiry([member1.account.address]), 0n);
+      assert.equal(await extension.read.isMemberValid([member1.account.address]), true);
+      assert.equal(await extension.read.isMemberValid([member2.account.address]), false);
+    });
+
+    it("Should give new members the default lease", async function () {
+      const { extension } = await deployWithMember(YEAR);
+
+      const expiresAt = (await extension.read.getLeaseExpiry([member1.account.address])) as bigint;
+      assert.equal(expiresAt, (await latestTimestamp()) + YEAR);
+      assert.equal(await extension.read.getDefaultLeaseDuration(), YEAR);
+    });
+
+    it("Should stop reporting a member as valid once its lease ends", async function () {
+      const { networkManager, extension } = await deployWithMember(YEAR);
+      const testClient = await viem.getTestClient();
+
+      await testClient.increaseTime({ seconds: Number(YEAR) + 1 });
+      await testClient.mine({ blocks: 1 });
+
+      assert.equal(await extension.read.isMemberValid([member1.account.address]), false);
+      // The record itself stays until it is removed
+      assert.equal(await networkManager.read.isMember([member1.account.address]), true);
+    });
+
+    it("Should renew a lease and emit MemberLeaseRenewed", async function () {
+      const { extension } = await deployWithMember(YEAR);
+      const previousExpiresAt = (await extension.read.getLeaseExpiry([member1.account.address])) as bigint;
+      const newExpiresAt = previousExpiresAt + YEAR;
+      const deploymentBlockNumber = await publicClient.getBlockNumber();
+
+      await extension.write.renewMembership([member1.account.address, newExpiresAt]);
+
+      assert.equal(await extension.read.getLeaseExpiry([member1.account.address]), newExpiresAt);
+
+      const events = await publicClient.getContractEvents({
+        address: extension.address,
+        abi: extension.abi,
+        eventName: "MemberLeaseRenewed",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+
+      assert.equal(events.length, 1);
+      assert.equal((events[0].args as any).previousExpiresAt, previousExpiresAt);
+      assert.equal((events[0].args as any).newExpiresAt, newExpiresAt);
+      assert.equal((events[0].args as any).renewedBy.toLowerCase(), owner.account.address.toLowerCase());
+    });
+
+    it("Should only let renewers renew, and only into the future", async function () {
+      const { networkManager, extension } = await deployWithMember();
+      const newExpiresAt = (await latestTimestamp()) + YEAR;
+
+      await assert.rejects(
+        extension.write.renewMembership([member1.account.address, newExpiresAt], { account: member2.account }),
+        /is missing role/
+      );
+      await assert.rejects(
+        extension.write.renewMembership([member1.account.address, await latestTimestamp()]),
+        /Lease must end in the future/
+      );
+      await assert.rejects(
+        extension.write.renewMembership([member2.account.address, newExpiresAt]),
+        /Member does not exist/
+      );
+
+      await networkManager.write.grantRole([await networkManager.read.RENEWER_ROLE(), member2.account.address]);
+      await extension.write.renewMembership([member1.account.address, newExpiresAt], { account: member2.account });
+      assert.equal(await extension.read.getLeaseExpiry([member1.account.address]), newExpiresAt);
+    });
+
+    it("Should not shorten a lease", async function () {
+      const { extension } = await deployWithMember(YEAR);
+      const expiresAt = (await extension.read.getLeaseExpiry([member1.account.address])) as bigint;
+
+      await assert.rejects(
+        extension.write.renewMembership([member1.account.address, expiresAt - 1n]),
+        /Renewal cannot shorten the lease/
+      );
+      await assert.rejects(
+        extension.write.renewMembership([member1.account.address, expiresAt]),
+        /Renewal cannot shorten the lease/
+      );
+      assert.equal(await extension.read.getLeaseExpiry([member1.account.address]), expiresAt);
+    });
+
+    it("Should return lease ends for several members", async function () {
+      const { extension } = await deployWithMember(YEAR);
+      const expiresAt = (await extension.read.getLeaseExpiry([member1.account.address])) as bigint;
+
+      const expiries = await extension.read.getLeaseExpiries([[member1.account.address, member2.account.address]]);
+      assert.deepEqual(expiries, [expiresAt, 0n]);
+    });
+  });
+
+  describe("Platform Version Compliance", function () {
+    // Compliance functions are served by NetworkManagerExtension2 at the NetworkManager address
+
+    it("Should treat every member as compliant while no minimum is set", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      assert.equal(await extension.read.getMinPlatformVersion(), 0);
+      assert.equal(await extension.read.isCompliant([member1.account.address]), true);
+      assert.equal(await extension.read.isCompliant([member2.account.address]), false);
+    });
+
+    it("Should set the minimum and emit MinPlatformVersionChanged", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+      const deploymentBlockNumber = await publicClient.getBlockNumber();
+
+      await extension.write.setMinPlatformVersion([2]);
+
+      assert.equal(await extension.read.getMinPlatformVersion(), 2);
+      assert.equal(await extension.read.isCompliant([member1.account.address]), false);
+
+      const events = await publicClient.getContractEvents({
+        address: extension.address,
+        abi: extension.abi,
+        eventName: "MinPlatformVersionChanged",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+
+      assert.equal(events.length, 1);
+      assert.equal((events[0].args as any).previousVersion, 0);
+      assert.equal((events[0].args as any).newVersion, 2);
+    });
+
+    it("Should report a member as compliant again once it upgrades", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+      const memberData = createMemberData(1);
+      await extension.write.setMinPlatformVersion([2]);
+
+      await networkManager.write.updateMyEndpoint([memberData.host, memberData.port, 2], { account: member1.account });
+
+      assert.equal(await extension.read.isCompliant([member1.account.address]), true);
+    });
+
+    it("Should only let admins set the minimum", async function () {
+      const networkManager = await deployWithMember();
+      const extension = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      await assert.rejects(
+        extension.write.setMinPlatformVersion([2], { account: member1.account }),
+        /is missing role/
+      );
+    });
+  });
+
+  describe("Signed Join Requests", function () {
+    const joinRequestTypes = {
+      JoinRequest: [
+        { name: "memberAddress", type: "address" },
+        { name: "x500Name", type: "string" },
+        { name: "certSerialHex", type: "bytes" },
+        { name: "host", type: "string" },
+        { name: "port", type: "uint16" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    } as const;
+
+    async function deployWithJoinRequest() {
+      const networkManager = await deployNetworkManager();
+      // Join request functions are served by NetworkManagerExtension3 at the NetworkManager address
+      const extension = await viem.getContractAt("NetworkManagerExtension3", networkManager.address);
+      const memberData = createMemberData(1);
+      const request = {
+        memberAddress: member1.account.address,
+        x500Name: memberData.x500Name,
+        certSerialHex: memberData.certSerialHex,
+        host: memberData.host,
+        port: memberData.port,
+        nonce: 0n,
+        deadline: (await publicClient.getBlock()).timestamp + 3600n,
+      };
+      const domain = {
+        name: "NetworkManager",
+        version: "1",
+        chainId: await publicClient.getChainId(),
+        verifyingContract: networkManager.address,
+      };
+      const signature = await member1.signTypedData({
+        domain,
+        types: joinRequestTypes,
+        primaryType: "JoinRequest",
+        message: request,
+      });
+
+      return { networkManager, extension, memberData, request, domain, signature };
+    }
+
+    it("Should add a member from a join request signed with its key", async function () {
+      const { networkManager, extension, memberData, request, signature } = await deployWithJoinRequest();
+
+      assert.equal(await extension.read.isValidJoinRequest([request, signature]), true);
+      await extension.write.addMemberWithJoinRequest([request, memberData.platformVersion, signature]);
+
+      const member = (await networkManager.read.getMember([member1.account.address])) as any;
+      assert.equal(member.x500Name, memberData.x500Name);
+      assert.equal(member.host, memberData.host);
+      assert.equal(member.platformVersion, memberData.platformVersion);
+    });
+
+    it("Should reject a join request signed by another key", async function () {
+      const { extension, memberData, request, domain } = await deployWithJoinRequest();
+      const signature = await owner.signTypedData({
+        domain,
+        types: joinRequestTypes,
+        primaryType: "JoinRequest",
+        message: request,
+      });
+
+      assert.equal(await extension.read.isValidJoinRequest([request, signature]), false);
+      await assert.rejects(
+        extension.write.addMemberWithJoinRequest([request, memberData.platformVersion, signature]),
+        /Invalid join request signature/
+      );
+    });
+
+    it("Should reject a join request changed after signing", async function () {
+      const { extension, memberData, request, signature } = await deployWithJoinRequest();
+      const changed = { ...request, host: "attacker.example.com" };
+
+      await assert.rejects(
+        extension.write.addMemberWithJoinRequest([changed, memberData.platformVersion, signature]),
+        /Invalid join request signature/
+      );
+    });
+
+    it("Should reject a join request signed for another contract", async function () {
+      const { extension, memberData, request, domain } = await deployWithJoinRequest();
+      const signature = await member1.signTypedData({
+        domain: { ...domain, verifyingContract: member2.account.address },
+        types: joinRequestTypes,
+        primaryType: "JoinRequest",
+        message: request,
+      });
+
+      await assert.rejects(
+        extension.write.addMemberWithJoinRequest([request, memberData.platformVersion, signature]),
+        /Invalid join request signature/
+      );
+    });
+
+    it("Should only let registrars add members from join requests", async function () {
+      const { extension, memberData, request, signature } = await deployWithJoinRequest();
+
+      await assert.rejects(
+        extension.write.addMemberWithJoinRequest([request, memberData.platformVersion, signature], { account: member1.account }),
+        /is missing role/
+      );
+    });
+
+    it("Should consume the nonce so a join request cannot be used again", async function () {
+      const { networkManager, extension, memberData, request, signature } = await deployWithJoinRequest();
+      const settings = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      await extension.write.addMemberWithJoinRequest([request, memberData.platformVersion, signature]);
+      assert.equal(await settings.read.getJoinRequestNonce([member1.account.address]), 1n);
+
+      await networkManager.write.removeMember([member1.account.address]);
+      await assert.rejects(
+        extension.write.addMemberWithJoinRequest([request, memberData.platformVersion, signature]),
+        /Join request nonce already used/
+      );
+    });
+
+    it("Should reject a join request after its deadline", async function () {
+      const { extension, memberData, request, signature } = await deployWithJoinRequest();
+      const testClient = await viem.getTestClient();
+
+      await testClient.increaseTime({ seconds: 3601 });
+      await testClient.mine({ blocks: 1 });
+
+      await assert.rejects(
+        extension.write.addMemberWithJoinRequest([request, memberData.platformVersion, signature]),
+        /Join request expired/
+      );
+    });
+
+    it("Should only add members from join requests once they are required", async function () {
+      const { networkManager, extension, memberData, request, signature } = await deployWithJoinRequest();
+      const settings = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+      const other = createMemberData(2);
+
+      await settings.write.setJoinRequestRequired([true]);
+      assert.equal(await settings.read.isJoinRequestRequired(), true);
+
+      await assert.rejects(
+        networkManager.write.addMember([member2.account.address, other.x500Name, other.certSerialHex, other.platformVersion, other.host, other.port]),
+        /Members must be added with a signed join request/
+      );
+      await assert.rejects(
+        networkManager.write.addMembers([[{
+          memberAddress: member2.account.address,
+          x500Name: other.x500Name,
+          certSerialHex: other.certSerialHex,
+          platformVersion: other.platformVersion,
+          host: other.host,
+          port: other.port,
+          certFingerprint: toHex("certificate-fingerprint", { size: 32 }),
+          certNotBefore: 1n,
+          certNotAfter: 2n,
+        }]]),
+        /Members must be added with a signed join request/
+      );
+      await assert.rejects(
+        extension.write.proposeAddMember([member2.account.address, other.x500Name, other.certSerialHex, other.platformVersion, other.host, other.port]),
+        /Members must be added with a signed join request/
+      );
+
+      await extension.write.addMemberWithJoinRequest([request, memberData.platformVersion, signature]);
+      assert.equal(await networkManager.read.isMember([member1.account.address]), true);
+    });
+
+    it("Should add members from join requests through a proposal above a threshold of one", async function () {
+      const { networkManager, extension, memberData, request, signature } = await deployWithJoinRequest();
+      const settings = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+      await networkManager.write.grantRole([await networkManager.read.REGISTRAR_ROLE(), member2.account.address]);
+      await networkManager.write.setApprovalThreshold([2n]);
+      await settings.write.setJoinRequestRequired([true]);
+
+      await assert.rejects(
+        extension.write.addMemberWithJoinRequest([request, memberData.platformVersion, signature]),
+        /Membership changes require an approved proposal/
+      );
+
+      await extension.write.proposeAddMemberWithJoinRequest([request, memberData.platformVersion, signature]);
+      assert.equal(await settings.read.getJoinRequestNonce([member1.account.address]), 0n);
+
+      await networkManager.write.approveProposal([0n], { account: member2.account });
+      await networkManager.write.executeProposal([0n]);
+
+      assert.equal(await networkManager.read.isMember([member1.account.address]), true);
+      assert.equal(await settings.read.getJoinRequestNonce([member1.account.address]), 1n);
+      assert.equal(((await networkManager.read.getProposal([0n])) as any).action, 5);
+    });
+
+    it("Should check join requests when proposed and reject them at execution once used", async function () {
+      const { networkManager, extension, memberData, request, domain, signature } = await deployWithJoinRequest();
+      const forged = await owner.signTypedData({
+        domain,
+        types: joinRequestTypes,
+        primaryType: "JoinRequest",
+        message: request,
+      });
+
+      await assert.rejects(
+        extension.write.proposeAddMemberWithJoinRequest([request, memberData.platformVersion, forged]),
+        /Invalid join request signature/
+      );
+
+      await extension.write.proposeAddMemberWithJoinRequest([request, memberData.platformVersion, signature]);
+      await extension.write.addMemberWithJoinRequest([request, memberData.platformVersion, signature]);
+      await networkManager.write.removeMember([member1.account.address]);
+
+      await assert.rejects(networkManager.write.executeProposal([0n]), /Join request nonce already used/);
+    });
+
+    it("Should only let the admin require join requests", async function () {
+      const { networkManager } = await deployWithJoinRequest();
+      const settings = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      await assert.rejects(
+        settings.write.setJoinRequestRequired([true], { account: member1.account }),
+        /is missing role/
+      );
+    });
+  });
+
+  describe("Member Endpoints", function () {
+    // EndpointProtocol enum values
+    const P2P = 0;
+    const RPC = 1;
+    const METRICS = 4;
+
+    async function deployWithMembers() {
+      const networkManager = await deployNetworkManager();
+      // Endpoint functions are served by NetworkManagerExtension at the NetworkManager address
+      const extension = await viem.getContractAt("NetworkManagerExtension", networkManager.address);
+
+      for (const [index, member] of [member1, member2].entries()) {
+        const memberData = createMemberData(index + 1);
+        await networkManager.write.addMember([
+          member.account.address,
+          memberData.x500Name,
+          memberData.certSerialHex,
+          memberData.platformVersion,
+          memberData.host,
+          memberData.port,
+        ]);
+      }
+
+      return { networkManager, extension };
+    }
+
+    it("Should set and return a member's endpoints", async function () {
+      const { extension } = await deployWithMembers();
+      const endpoints = [
+        { protocol: RPC, host: "node1.example.com", port: 8545 },
+        { protocol: METRICS, host: "node1.example.com", port: 9555 },
+      ];
+      const deploymentBlockNumber = await publicClient.getBlockNumber();
+
+      await extension.write.setEndpoints([member1.account.address, endpoints]);
+
+      assert.deepEqual(await extension.read.getEndpoints([member1.account.address]), endpoints);
+      assert.equal(
+        ((await extension.read.getEndpointHolder(["node1.example.com", 8545])) as string).toLowerCase(),
+        member1.account.address.toLowerCase()
+      );
+
+      const events = await publicClient.getContractEvents({
+        address: extension.address,
+        abi: extension.abi,
+        eventName: "MemberEndpointsChanged",
+        fromBlock: deploymentBlockNumber,
+        strict: true,
+      });
+      assert.equal(events.length, 1);
+      assert.deepEqual((events[0].args as any).endpoints, endpoints);
+    });
+
+    it("Should replace the list and free endpoints that were dropped", async function () {
+      const { extension } = await deployWithMembers();
+
+      await extension.write.setEndpoints([member1.account.address, [{ protocol: RPC, host: "node1.example.com", port: 8545 }]]);
+      await extension.write.setEndpoints([member1.account.address, [{ protocol: RPC, host: "node1.example.com", port: 8546 }]]);
+
+      assert.equal(await extension.read.getEndpointHolder(["node1.example.com", 8545]), zeroAddress);
+      assert.equal((await extension.read.getEndpoints([member1.account.address]) as any[]).length, 1);
+
+      await extension.write.setEndpoints([member1.account.address, []]);
+      assert.equal((await extension.read.getEndpoints([member1.account.address]) as any[]).length, 0);
+      assert.equal(await extension.read.getEndpointHolder(["node1.example.com", 8546]), zeroAddress);
+    });
+
+    it("Should reject endpoints held by any member, including its own primary", async function () {
+      const { networkManager, extension } = await deployWithMembers();
+      const member2Data = createMemberData(2);
+      const member1Data = createMemberData(1);
+
+      await assert.rejects(
+        extension.write.setEndpoints([member1.account.address, [{ protocol: P2P, host: member2Data.host, port: member2Data.port }]]),
+        /Endpoint already in use/
+      );
+      await assert.rejects(
+        extension.write.setEndpoints([member1.account.address, [{ protocol: P2P, host: member1Data.host, port: member1Data.port }]]),
+        /Endpoint already in use/
+      );
+
+      // An additional endpoint cannot become another member's primary endpoint either
+      await extension.write.setEndpoints([member1.account.address, [{ protocol: RPC, host: "node1.example.com", port: 8545 }]]);
+      await assert.rejects(
+        networkManager.write.updateMyEndpoint(["node1.example.com", 8545, 1], { account: member2.account }),
+        /Endpoint already in use/
+      );
+    });
+
+    it("Should let members set their own endpoints but not other members'", async function () {
+      const { extension } = await deployWithMembers();
+      const endpoints = [{ protocol: RPC, host: "node1.example.com", port: 8545 }];
+
+      await extension.write.setEndpoints([member1.account.address, endpoints], { account: member1.account });
+      assert.deepEqual(await extension.read.getEndpoints([member1.account.address]), endpoints);
+
+      await assert.rejects(
+        extension.write.setEndpoints([member1.account.address, []], { account: member2.account }),
+        /Not allowed to set endpoints/
+      );
+    });
+
+    it("Should validate endpoints and free them when the member is removed", async function () {
+      const { networkManager, extension } = await deployWithMembers();
+
+      await assert.rejects(
+        extension.write.setEndpoints([member1.account.address, [{ protocol: RPC, host: "", port: 8545 }]]),
+        /Invalid endpoint/
+      );
+      const tooMany = Array.from({ length: 9 }, (_, i) => ({ protocol: RPC, host: "node1.example.com", port: 8545 + i }));
+      await assert.rejects(
+        extension.write.setEndpoints([member1.account.address, tooMany]),
+        /Too many endpoints/
+      );
+
+      await extension.write.setEndpoints([member1.account.address, [{ protocol: RPC, host: "node1.example.com", port: 8545 }]]);
+      await networkManager.write.removeMember([member1.account.address]);
+
+      assert.equal(await extension.read.getEndpointHolder(["node1.example.com", 8545]), zeroAddress);
+    });
+  });
+
+  describe("Organizations", function () {
+    async function deployWithOrganization(nodeQuota = 2n) {
+      const networkManager = await deployNetworkManager();
+      // Organization functions are served by NetworkManagerExtension2 at the NetworkManager address
+      const organizations = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      await organizations.write.createOrganization(["Acme Corp", nodeQuota]);
+      await organizations.write.addOrganizationAdmin([1n, member3.account.address]);
+
+      return { networkManager, organizations };
+    }
+
+    async function addAsOrganizationAdmin(
+      organizations: Awaited<ReturnType<typeof deployWithOrganization>>["organizations"],
+      memberAddress: `0x${string}`,
+      index: number
+    ) {
+      const memberData = createMemberData(index);
+      await organizations.write.addOrganizationMember(
+        [memberAddress, memberData.x500Name, memberData.certSerialHex, memberData.platformVersion, memberData.host, memberData.port],
+        { account: member3.account }
+      );
+    }
+
+    it("Should create organizations with admins and emit events", async function () {
+      const networkManager = await deployNetworkManager();
+      const organizations = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      await organizations.write.createOrganization(["Acme Corp", 3n]);
+      await organizations.write.addOrganizationAdmin([1n, member3.account.address]);
+
+      const organization = (await organizations.read.getOrganization([1n])) as any;
+      assert.equal(organization.name, "Acme Corp");
+      assert.equal(organization.nodeQuota, 3n);
+      assert.equal(organization.memberCount, 0n);
+      assert.deepEqual(organization.admins.map((a: string) => a.toLowerCase()), [member3.account.address.toLowerCase()]);
+      assert.equal(await organizations.read.getOrganizationCount(), 1n);
+      assert.equal(await organizations.read.getAdminOrganization([member3.account.address]), 1n);
+
+      const events = await organizations.getEvents.OrganizationCreated({}, { fromBlock: 0n });
+      assert.equal(events.length, 1);
+      assert.equal((events[0].args as any).organizationId, 1n);
+      assert.equal((events[0].args as any).name, "Acme Corp");
+    });
+
+    it("Should only allow the owner to create and configure organizations", async function () {
+      const { organizations } = await deployWithOrganization();
+
+      await assert.rejects(
+        organizations.write.createOrganization(["Other Corp", 1n], { account: nonOwner.account }),
+        /Ownable: caller is not the owner/
+      );
+      await assert.rejects(
+        organizations.write.setOrganizationQuota([1n, 5n], { account: member3.account }),
+        /Ownable: caller is not the owner/
+      );
+      await assert.rejects(
+        organizations.write.addOrganizationAdmin([1n, nonOwner.account.address], { account: member3.account }),
+        /Ownable: caller is not the owner/
+      );
+      await assert.rejects(organizations.write.createOrganization(["", 1n]), /Organization name is required/);
+      await assert.rejects(organizations.write.addOrganizationAdmin([2n, nonOwner.account.address]), /Organization does not exist/);
+      await assert.rejects(
+        organizations.write.addOrganizationAdmin([1n, member3.account.address]),
+        /Account already administers an organization/
+      );
+    });
+
+    it("Should let an organization admin add members to its organization within the quota", async function () {
+      const { networkManager, organizations } = await deployWithOrganization();
+
+      await addAsOrganizationAdmin(organizations, member1.account.address, 1);
+      await addAsOrganizationAdmin(organizations, member2.account.address, 2);
+
+      assert.equal(await networkManager.read.isMember([member1.account.address]), true);
+      assert.equal(await organizations.read.getMemberOrganization([member1.account.address]), 1n);
+      assert.equal(((await organizations.read.getOrganization([1n])) as any).memberCount, 2n);
+      assert.equal((await organizations.read.getOrganizationMembers([1n]) as string[]).length, 2);
+
+      await assert.rejects(
+        addAsOrganizationAdmin(organizations, nonOwner.account.address, 4),
+        /Organization node quota reached/
+      );
+    });
+
+    it("Should reject organization member changes from non-admins", async function () {
+      const { organizations } = await deployWithOrganization();
+      const memberData = createMemberData(1);
+
+      await assert.rejects(
+        organizations.write.addOrganizationMember(
+          [member1.account.address, memberData.x500Name, memberData.certSerialHex, memberData.platformVersion, memberData.host, memberData.port],
+          { account: nonOwner.account }
+        ),
+        /Caller is not an organization admin/
+      );
+    });
+
+    it("Should only let an organization admin manage its own organization's members", async function () {
+      const { networkManager, organizations } = await deployWithOrganization();
+      const memberData = createMemberData(2);
+
+      await addAsOrganizationAdmin(organizations, member1.account.address, 1);
+      await networkManager.write.addMember([
+        member2.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+
+      await assert.rejects(
+        organizations.write.removeOrganizationMember([member2.account.address], { account: member3.account }),
+        /Member belongs to another organization/
+      );
+      await assert.rejects(
+        organizations.write.updateOrganizationMemberStatus([member2.account.address, false], { account: member3.account }),
+        /Member belongs to another organization/
+      );
+
+      await organizations.write.updateOrganizationMemberStatus([member1.account.address, false], { account: member3.account });
+      assert.equal(((await networkManager.read.getMember([member1.account.address])) as any).isActive, false);
+
+      const updated = createMemberData(5);
+      await organizations.write.updateOrganizationMemberDetails(
+        [member1.account.address, updated.x500Name, updated.certSerialHex, updated.platformVersion, updated.host, updated.port],
+        { account: member3.account }
+      );
+      assert.equal(((await networkManager.read.getMember([member1.account.address])) as any).host, updated.host);
+
+      await organizations.write.removeOrganizationMember([member1.account.address], { account: member3.account });
+      assert.equal(await networkManager.read.isMember([member1.account.address]), false);
+      assert.equal(((await organizations.read.getOrganization([1n])) as any).memberCount, 0n);
+    });
+
+    it("Should free quota when a registrar removes an organization member", async function () {
+      const { networkManager, organizations } = await deployWithOrganization(1n);
+
+      await addAsOrganizationAdmin(organizations, member1.account.address, 1);
+      await networkManager.write.removeMember([member1.account.address]);
+
+      assert.equal(((await organizations.read.getOrganization([1n])) as any).memberCount, 0n);
+      await addAsOrganizationAdmin(organizations, member2.account.address, 2);
+      assert.equal(await organizations.read.getMemberOrganization([member2.account.address]), 1n);
+    });
+
+    it("Should let registrars move members between organizations", async function () {
+      const { networkManager, organizations } = await deployWithOrganization(1n);
+      const memberData = createMemberData(1);
+
+      await networkManager.write.addMember([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+      await organizations.write.createOrganization(["Globex", 1n]);
+
+      await organizations.write.setMemberOrganization([member1.account.address, 1n]);
+      await organizations.write.setMemberOrganization([member1.account.address, 2n]);
+
+      assert.equal(((await organizations.read.getOrganization([1n])) as any).memberCount, 0n);
+      assert.equal(((await organizations.read.getOrganization([2n])) as any).memberCount, 1n);
+      await assert.rejects(
+        organizations.write.setMemberOrganization([member1.account.address, 2n]),
+        /Member is already in this organization/
+      );
+      await assert.rejects(
+        organizations.write.setMemberOrganization([member1.account.address, 1n], { account: nonOwner.account }),
+        /AccessControl: account/
+      );
+
+      await organizations.write.setMemberOrganization([member1.account.address, 0n]);
+      assert.equal(await organizations.read.getMemberOrganization([member1.account.address]), 0n);
+    });
+
+    it("Should not lower a quota below the member count", async function () {
+      const { organizations } = await deployWithOrganization();
+
+      await addAsOrganizationAdmin(organizations, member1.account.address, 1);
+      await assert.rejects(
+        organizations.write.setOrganizationQuota([1n, 0n]),
+        /Quota is below the organization's member count/
+      );
+
+      await organizations.write.setOrganizationQuota([1n, 5n]);
+      assert.equal(((await organizations.read.getOrganization([1n])) as any).nodeQuota, 5n);
+    });
+
+    it("Should stop a removed admin from managing members", async function () {
+      const { organizations } = await deployWithOrganization();
+
+      await organizations.write.removeOrganizationAdmin([member3.account.address]);
+
+      assert.equal(await organizations.read.getAdminOrganization([member3.account.address]), 0n);
+      assert.equal(((await organizations.read.getOrganization([1n])) as any).admins.length, 0);
+      await assert.rejects(
+        addAsOrganizationAdmin(organizations, member1.account.address, 1),
+        /Caller is not an organization admin/
+      );
+    });
+  });
+
+  describe("Member Lifecycle", function () {
+    // MemberState enum values
+    const PENDING = 0;
+    const ACTIVE = 1;
+    const SUSPENDED = 2;
+    const RETIRING = 3;
+    const RETIRED = 4;
+
+    async function deployWithPendingMember() {
+      const networkManager = await deployNetworkManager();
+      const lifecycle = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+      const memberData = createMemberData(1);
+
+      await lifecycle.write.addPendingMember([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+
+      return { networkManager, lifecycle };
+    }
+
+    it("Should add members as Active through addMember, addMembers and add proposals", async function () {
+      const networkManager = await deployNetworkManager();
+      const lifecycle = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+      const zeroFingerprint = toHex(0, { size: 32 });
+
+      // bootstrap registers its nodes with one addMembers batch
+      await networkManager.write.addMembers([[member1, member2].map((member, i) => {
+        const memberData = createMemberData(i + 1);
+        return {
+          memberAddress: member.account.address,
+          x500Name: memberData.x500Name,
+          certSerialHex: memberData.certSerialHex,
+          platformVersion: memberData.platformVersion,
+          host: memberData.host,
+          port: memberData.port,
+          certFingerprint: zeroFingerprint,
+          certNotBefore: 0n,
+          certNotAfter: 0n,
+        };
+      })]);
+
+      const memberData = createMemberData(3);
+      await networkManager.write.proposeAddMember([
+        member3.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+      await networkManager.write.executeProposal([0n]);
+
+      const addresses = [member1.account.address, member2.account.address, member3.account.address];
+      assert.deepEqual(await lifecycle.read.getMemberStates([addresses]), [ACTIVE, ACTIVE, ACTIVE]);
+      for (const address of addresses) {
+        assert.equal(((await networkManager.read.getMember([address])) as any).isActive, true);
+      }
+    });
+
+    it("Should add Pending members and activate them with a reason", async function () {
+      const { networkManager, lifecycle } = await deployWithPendingMember();
+
+      assert.equal(await lifecycle.read.getMemberState([member1.account.address]), PENDING);
+      assert.equal(((await networkManager.read.getMember([member1.account.address])) as any).isActive, false);
+
+      await lifecycle.write.setMemberState([member1.account.address, ACTIVE, 1]);
+
+      assert.equal(await lifecycle.read.getMemberState([member1.account.address]), ACTIVE);
+      assert.equal(((await networkManager.read.getMember([member1.account.address])) as any).isActive, true);
+
+      const events = await lifecycle.getEvents.MemberStateChanged({}, { fromBlock: 0n });
+      assert.equal(events.length, 1);
+      assert.equal((events[0].args as any).previousState, PENDING);
+      assert.equal((events[0].args as any).newState, ACTIVE);
+      assert.equal((events[0].args as any).reason, 1);
+      assert.equal((await networkManager.getEvents.MemberStatusChanged({}, { fromBlock: 0n })).length, 1);
+    });
+
+    it("Should walk a member through suspension and retirement", async function () {
+      const { networkManager, lifecycle } = await deployWithPendingMember();
+
+      for (const [state, reason] of [[ACTIVE, 1], [SUSPENDED, 2], [ACTIVE, 0], [RETIRING, 6], [RETIRED, 6]]) {
+        await lifecycle.write.setMemberState([member1.account.address, state, reason]);
+        assert.equal(await lifecycle.read.getMemberState([member1.account.address]), state);
+        assert.equal(((await networkManager.read.getMember([member1.account.address])) as any).isActive, state === ACTIVE);
+      }
+
+      assert.equal((await lifecycle.getEvents.MemberStateChanged({}, { fromBlock: 0n })).length, 5);
+    });
+
+    it("Should reject transitions outside the lifecycle", async function () {
+      const { networkManager, lifecycle } = await deployWithPendingMember();
+
+      await assert.rejects(lifecycle.write.setMemberState([member1.account.address, SUSPENDED, 0]), /Invalid state transition/);
+      await assert.rejects(lifecycle.write.setMemberState([member1.account.address, RETIRING, 0]), /Invalid state transition/);
+      await assert.rejects(lifecycle.write.setMemberState([member1.account.address, PENDING, 0]), /Invalid state transition/);
+
+      await lifecycle.write.setMemberState([member1.account.address, RETIRED, 7]);
+      await assert.rejects(lifecycle.write.setMemberState([member1.account.address, ACTIVE, 0]), /Invalid state transition/);
+      await assert.rejects(networkManager.write.updateMemberStatus([member1.account.address, true]), /Invalid state transition/);
+    });
+
+    it("Should map the boolean status onto Active and Suspended", async function () {
+      const { networkManager, lifecycle } = await deployWithPendingMember();
+
+      // Inactive is the status a Pending member already has, so it stays Pending
+      await networkManager.write.updateMemberStatus([member1.account.address, false]);
+      assert.equal(await lifecycle.read.getMemberState([member1.account.address]), PENDING);
+
+      await networkManager.write.updateMemberStatus([member1.account.address, true]);
+      assert.equal(await lifecycle.read.getMemberState([member1.account.address]), ACTIVE);
+
+      await networkManager.write.updateMemberStatus([member1.account.address, false]);
+      assert.equal(await lifecycle.read.getMemberState([member1.account.address]), SUSPENDED);
+
+      await lifecycle.write.setMemberState([member1.account.address, RETIRING, 6]);
+      await assert.rejects(networkManager.write.updateMemberStatus([member1.account.address, true]), /Invalid state transition/);
+    });
+
+    it("Should only let operators change states, with a known reason code", async function () {
+      const { lifecycle } = await deployWithPendingMember();
+      const operatorRole = await lifecycle.read.OPERATOR_ROLE();
+
+      await assert.rejects(
+        lifecycle.write.setMemberState([member1.account.address, ACTIVE, 1], { account: member2.account }),
+        /is missing role/
+      );
+      await assert.rejects(lifecycle.write.setMemberState([member1.account.address, ACTIVE, 8]), /Invalid reason code/);
+      await assert.rejects(lifecycle.write.setMemberState([member2.account.address, ACTIVE, 1]), /Member does not exist/);
+
+      await lifecycle.write.grantRole([operatorRole, member2.account.address]);
+      await lifecycle.write.setMemberState([member1.account.address, ACTIVE, 1], { account: member2.account });
+      assert.equal(await lifecycle.read.getMemberState([member1.account.address]), ACTIVE);
+    });
+
+    it("Should return states in batches and not carry a state over to a re-added member", async function () {
+      const { networkManager, lifecycle } = await deployWithPendingMember();
+      const memberData = createMemberData(1);
+
+      await lifecycle.write.setMemberState([member1.account.address, ACTIVE, 1]);
+      assert.deepEqual(await lifecycle.read.getMemberStates([[member1.account.address, member2.account.address]]), [ACTIVE, PENDING]);
+
+      await lifecycle.write.setMemberState([member1.account.address, RETIRING, 6]);
+      await lifecycle.write.setMemberState([member1.account.address, RETIRED, 6]);
+      await networkManager.write.removeMember([member1.account.address]);
+      await networkManager.write.addMember([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+      assert.equal(await lifecycle.read.getMemberState([member1.account.address]), ACTIVE);
+    });
+  });
+
+  describe("Former Members", function () {
+    it("Should archive the record of a removed member", async function () {
+      const networkManager = await deployWithMember();
+      const archive = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+      const memberData = createMemberData(1);
+      const joinedAt = ((await networkManager.read.getMember([member1.account.address])) as any).joinedAt;
+
+      await networkManager.write.removeMember([member1.account.address]);
+
+      const formerMembers = (await archive.read.getFormerMembers()) as any[];
+      assert.equal(formerMembers.length, 1);
+      assert.equal(formerMembers[0].member.x500Name, memberData.x500Name);
+      assert.equal(formerMembers[0].member.certSerialHex, memberData.certSerialHex);
+      assert.equal(formerMembers[0].member.joinedAt, joinedAt);
+      assert.equal(formerMembers[0].finalState, 1);
+      assert.equal(formerMembers[0].reason, 0);
+      assert.equal(formerMembers[0].removedBy.toLowerCase(), owner.account.address.toLowerCase());
+      assert.ok(formerMembers[0].removedAt >= joinedAt);
+      assert.equal(formerMembers[0].previousTenure, 0n);
+
+      const events = await archive.getEvents.MemberArchived({}, { fromBlock: 0n });
+      assert.equal(events.length, 1);
+      assert.equal((events[0].args as any).tenureId, 1n);
+    });
+
+    it("Should record the reason given on removal", async function () {
+      const networkManager = await deployWithMember();
+      const archive = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      await assert.rejects(archive.write.removeMemberWithReason([member1.account.address, 8]), /Invalid reason code/);
+      await assert.rejects(
+        archive.write.removeMemberWithReason([member1.account.address, 4], { account: member2.account }),
+        /is missing role/
+      );
+
+      await archive.write.removeMemberWithReason([member1.account.address, 4]);
+
+      assert.equal(await networkManager.read.isMember([member1.account.address]), false);
+      assert.equal(((await archive.read.getFormerMembers()) as any[])[0].reason, 4);
+    });
+
+    it("Should link a re-added address to its earlier tenure", async function () {
+      const networkManager = await deployWithMember();
+      const archive = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      assert.equal(await archive.read.getPreviousTenure([member1.account.address]), 0n);
+
+      const memberData = createMemberData(1);
+      await networkManager.write.removeMember([member1.account.address]);
+      await networkManager.write.addMember([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+      assert.equal(await archive.read.getPreviousTenure([member1.account.address]), 1n);
+
+      await archive.write.removeMemberWithReason([member1.account.address, 6]);
+      const formerMembers = (await archive.read.getFormerMembers()) as any[];
+      assert.equal(formerMembers.length, 2);
+      assert.equal(formerMembers[1].previousTenure, 1n);
+      assert.equal(await archive.read.getPreviousTenure([member1.account.address]), 2n);
+    });
+  });
+
+  describe("Heartbeats", function () {
+    it("Should record the time of a member's latest heartbeat", async function () {
+      const networkManager = await deployWithMember();
+      const liveness = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      assert.equal(await liveness.read.getLastSeen([member1.account.address]), 0n);
+
+      await liveness.write.heartbeat([], { account: member1.account });
+      const block = await publicClient.getBlock();
+
+      assert.equal(await liveness.read.getLastSeen([member1.account.address]), block.timestamp);
+      assert.deepEqual(
+        await liveness.read.getLastSeenTimes([[member1.account.address, member2.account.address]]),
+        [block.timestamp, 0n]
+      );
+    });
+
+    it("Should only accept heartbeats from members", async function () {
+      const networkManager = await deployWithMember();
+      const liveness = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      await assert.rejects(liveness.write.heartbeat([], { account: member2.account }), /Member does not exist/);
+      await assert.rejects(liveness.read.getLastSeen([member2.account.address]), /Member does not exist/);
+    });
+
+    it("Should accept heartbeats while paused and forget them on removal", async function () {
+      const networkManager = await deployWithMember();
+      const liveness = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      await networkManager.write.pause();
+      await liveness.write.heartbeat([], { account: member1.account });
+      assert.ok(((await liveness.read.getLastSeen([member1.account.address])) as bigint) > 0n);
+
+      await networkManager.write.unpause();
+      await networkManager.write.removeMember([member1.account.address]);
+      assert.deepEqual(await liveness.read.getLastSeenTimes([[member1.account.address]]), [0n]);
+    });
+  });
+
+  describe("Upgrade Plans", function () {
+    async function deployWithPlan() {
+      const networkManager = await deployNetworkManager();
+      const upgrades = await viem.getContractAt("NetworkManagerExtension2", networkManager.address);
+
+      for (const [index, member] of [member1, member2].entries()) {
+        const memberData = createMemberData(index + 1);
+        await networkManager.write.addMember([
+          member.account.address,
+          memberData.x500Name,
+          memberData.certSerialHex,
+          memberData.platformVersion,
+          memberData.host,
+          memberData.port,
+        ]);
+      }
+
+      const block = await publicClient.getBlock();
+      const deadline = block.timestamp + 86400n;
+      await upgrades.write.createUpgradePlan([3, block.number + 1000n, deadline]);
+
+      return { networkManager, upgrades, deadline };
+    }
+
+    it("Should create a plan and report members' readiness", async function () {
+      const { upgrades, deadline } = await deployWithPlan();
+
+      const plan = (await upgrades.read.getUpgradePlan([1n])) as any;
+      assert.equal(plan.targetVersion, 3);
+      assert.equal(plan.deadline, deadline);
+      assert.equal(plan.cancelled, false);
+      assert.equal(await upgrades.read.getUpgradePlanCount(), 1n);
+
+      const events = await upgrades.getEvents.UpgradePlanCreated({}, { fromBlock: 0n });
+      assert.equal((events[0].args as any).planId, 1n);
+
+      await upgrades.write.acknowledgeUpgrade([1n], { account: member1.account });
+      assert.equal(await upgrades.read.hasAcknowledgedUpgrade([1n, member1.account.address]), true);
+      const [ready, notReady] = (await upgrades.read.getUpgradeReadiness([1n])) as [`0x${string}`[], `0x${string}`[]];
+      assert.deepEqual(ready.map(address => address.toLowerCase()), [member1.account.address.toLowerCase()]);
+      assert.deepEqual(notReady.map(address => address.toLowerCase()), [member2.account.address.toLowerCase()]);
+
+      await assert.rejects(
+        upgrades.write.acknowledgeUpgrade([1n], { account: member1.account }),
+        /Upgrade already acknowledged/
+      );
+    });
+
+    it("Should only count Active members in the readiness report", async function () {
+      const { upgrades } = await deployWithPlan();
+      // MemberState enum values
+      const ACTIVE = 1;
+      const SUSPENDED = 2;
+      const memberData = createMemberData(3);
+
+      await upgrades.write.addPendingMember([
+        member3.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+      await upgrades.write.acknowledgeUpgrade([1n], { account: member1.account });
+      await upgrades.write.acknowledgeUpgrade([1n], { account: member2.account });
+      await upgrades.write.setMemberState([member2.account.address, SUSPENDED, 0]);
+
+      const readiness = async () => {
+        const [ready, notReady] = (await upgrades.read.getUpgradeReadiness([1n])) as [`0x${string}`[], `0x${string}`[]];
+        return [ready.map(address => address.toLowerCase()), notReady.map(address => address.toLowerCase())];
+      };
+
+      // The suspended member's acknowledgement and the pending member are both left out
+      assert.deepEqual(await readiness(), [[member1.account.address.toLowerCase()], []]);
+
+      await upgrades.write.setMemberState([member2.account.address, ACTIVE, 0]);
+      await upgrades.write.setMemberState([member3.account.address, ACTIVE, 0]);
+      assert.deepEqual(await readiness(), [
+        [member1.account.address.toLowerCase(), member2.account.address.toLowerCase()],
+        [member3.account.address.toLowerCase()],
+      ]);
+    });
+
+    it("Should only let members acknowledge open plans", async function () {
+      const { upgrades } = await deployWithPlan();
+
+      await assert.rejects(
+        upgrades.write.acknowledgeUpgrade([1n], { account: nonOwner.account }),
+        /Member does not exist/
+      );
+      await assert.rejects(
+        upgrades.write.acknowledgeUpgrade([2n], { account: member1.account }),
+        /Upgrade plan does not exist/
+      );
+      await assert.rejects(
+        upgrades.write.cancelUpgradePlan([1n], { account: member1.account }),
+        /AccessControl: account/
+      );
+
+      await upgrades.write.cancelUpgradePlan([1n]);
+      await assert.rejects(
+        upgrades.write.acknowledgeUpgrade([1n], { account: member1.account }),
+        /Upgrade plan is cancelled/
+      );
+    });
+
+    it("Should reject acknowledgements after the deadline", async function () {
+      const { upgrades } = await deployWithPlan();
+
+      const testClient = await viem.getTestClient();
+      await testClient.increaseTime({ seconds: 86401 });
+      await testClient.mine({ blocks: 1 });
+
+      await assert.rejects(
+        upgrades.write.acknowledgeUpgrade([1n], { account: member1.account }),
+        /Upgrade plan deadline has passed/
+      );
+    });
+
+    it("Should not count an acknowledgement from a removed member's earlier tenure", async function () {
+      const { networkManager, upgrades } = await deployWithPlan();
+
+      await upgrades.write.acknowledgeUpgrade([1n], { account: member1.account });
+      await networkManager.write.removeMember([member1.account.address]);
+      assert.equal(await upgrades.read.hasAcknowledgedUpgrade([1n, member1.account.address]), false);
+
+      const memberData = createMemberData(1);
+      await networkManager.write.addMember([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+      assert.equal(await upgrades.read.hasAcknowledgedUpgrade([1n, member1.account.address]), false);
+    });
+  });
+
+  describe("Upgrades", function () {
+    async function deployProxy() {
+      const implementation = await deployNetworkManager();
+      const initData = encodeFunctionData({
+        abi: implementation.abi,
+        functionName: "initialize",
+        args: [owner.account.address],
+      });
+      const proxy = await viem.deployContract("NetworkManagerProxy", [implementation.address, initData]);
+
+      return viem.getContractAt("NetworkManager", proxy.address);
+    }
+
+    async function upgradeToMock(networkManager: Awaited<ReturnType<typeof deployProxy>>) {
+      const secondExtension = await deploySecondExtension();
+      const implementation = await viem.deployContract("NetworkManagerV2Mock", [secondExtension.address]);
+      await networkManager.write.upgradeTo([implementation.address]);
+
+      return viem.getContractAt("NetworkManagerV2Mock", networkManager.address);
+    }
+
+    it("Should initialize the proxy with the given owner", async function () {
+      const networkManager = await deployProxy();
+
+      const contractOwner = (await networkManager.read.owner()) as `0x${string}`;
+      assert.equal(contractOwner.toLowerCase(), owner.account.address.toLowerCase());
+      assert.equal(await networkManager.read.hasRole([await networkManager.read.DEFAULT_ADMIN_ROLE(), owner.account.address]), true);
+      assert.equal(await networkManager.read.approvalThreshold(), 1n);
+      assert.notEqual(await networkManager.read.deploymentBlock(), 0n);
+    });
+
+    it("Should not allow initializing twice", async function () {
+      const networkManager = await deployProxy();
+
+      await assert.rejects(
+        networkManager.write.initialize([nonOwner.account.address], { account: nonOwner.account }),
+        /Initializable: contract is already initialized/
+      );
+    });
+
+    it("Should not allow initializing the implementation", async function () {
+      const implementation = await deployNetworkManager();
+
+      await assert.rejects(
+        implementation.write.initialize([nonOwner.account.address], { account: nonOwner.account }),
+        /Initializable: contract is already initialized/
+      );
+    });
+
+    it("Should keep state across an upgrade", async function () {
+      const networkManager = await deployProxy();
+      const memberData = createMemberData(1);
+      const revokedSerial = toHex(9999, { size: 8 });
+      const registrarRole = await networkManager.read.REGISTRAR_ROLE();
+
+      await networkManager.write.addMember([
+        member1.account.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port,
+      ]);
+      await networkManager.write.updateMemberStatus([member1.account.address, false]);
+      await networkManager.write.grantRole([registrarRole, member2.account.address]);
+      await networkManager.write.setApprovalThreshold([2n]);
+      await networkManager.write.revokeCertificate([revokedSerial, 1]);
+      const deploymentBlock = await networkManager.read.deploymentBlock();
+
+      const upgraded = await upgradeToMock(networkManager);
+
+      const member = (await upgraded.read.getMember([member1.account.address])) as any;
+      assert.equal(member.x500Name, memberData.x500Name);
+      assert.equal(member.host, memberData.host);
+      assert.equal(member.port, memberData.port);
+      assert.equal(member.isActive, false);
+      const members = (await upgraded.read.getAllMembers()) as `0x${string}`[];
+      assert.deepEqual(members.map(address => address.toLowerCase()), [member1.account.address.toLowerCase()]);
+      assert.equal(await upgraded.read.hasRole([registrarRole, member2.account.address]), true);
+      assert.equal(await upgraded.read.approvalThreshold(), 2n);
+      assert.equal(await upgraded.read.isSerialRevoked([revokedSerial]), true);
+      assert.equal(await upgraded.read.deploymentBlock(), deploymentBlock);
+
+      const contractOwner = (await upgraded.read.owner()) as `0x${string}`;
+      assert.equal(contractOwner.toLowerCase(), owner.account.address.toLowerCase());
+    });
+
+    it("Should expose new functions and storage after an upgrade", async function () {
+      const upgraded = await upgradeToMock(await deployProxy());
+
+      assert.equal(await upgraded.read.version(), "2.0.0-mock");
+      await upgraded.write.setUpgradeMarker([42n]);
+      assert.equal(await upgraded.read.upgradeMarker(), 42n);
+      assert.equal(await upgraded.read.getMemberCount(), 0n);
+    });
+
+    it("Should only allow the owner to upgrade", async function () {
+      const networkManager = await deployProxy();
+      const secondExtension = await deploySecondExtension();
+      const implementation = await viem.deployContract("NetworkManagerV2Mock", [secondExtension.address]);
+
+      await assert.rejects(
+        networkManager.write.upgradeTo([implementation.address], { account: nonOwner.account }),
+        /Ownable: caller is not the owner/
+      );
+    });
+  });
+
+  describe("Host Validation", function () {
+    it("Should accept IPv6 addresses, with an IPv4 part only at the end", function () {
+      assert.equal(hostKind("::1"), "ipv6");
+      assert.equal(hostKind("[2001:db8::1]"), "ipv6");
+      assert.equal(hostKind("::ffff:192.0.2.1"), "ipv6");
+      assert.equal(hostKind("1.2.3.4::"), null);
+      assert.equal(hostKind("1.2.3.4::1"), null);
+      assert.equal(hostKind("::1.2.3.4:1"), null);
+    });
+
+    it("Should store every spelling of an IPv6 address in its canonical form", function () {
+      assert.equal(normalizeHost("::1"), "::1");
+      assert.equal(normalizeHost("0::1"), "::1");
+      assert.equal(normalizeHost("0:0:0:0:0:0:0:1"), "::1");
+      assert.equal(normalizeHost("[0000:0000::0001]"), "::1");
+      assert.equal(normalizeHost("2001:DB8:0:0:1:0:0:1"), "2001:db8::1:0:0:1");
+      assert.equal(normalizeHost("2001:db8:0:1:1:1:1:1"), "2001:db8:0:1:1:1:1:1");
+      assert.equal(normalizeHost("2001:0db8::0:0"), "2001:db8::");
+      assert.equal(normalizeHost("0:0:0:0:0:0:0:0"), "::");
+      assert.equal(normalizeHost("0:0:0:0:0:FFFF:192.0.2.1"), "::ffff:192.0.2.1");
+      assert.equal(normalizeHost("Node1.Example.com"), "node1.example.com");
+    });
+
+    it("Should bracket IPv6 hosts when formatting an endpoint", function () {
+      assert.equal(formatEndpoint("2001:db8::1", 30303), "[2001:db8::1]:30303");
+      assert.equal(formatEndpoint("node1.example.com", 30303), "node1.example.com:30303");
+    });
+  });
 });
@@ -9,7 +9,18 @@ import MemberDetails from './components/MemberDetails';
 import AddMemberForm from './components/AddMemberForm';
 import UpdateMemberForm from './components/UpdateMemberForm';
 import ManageContract from './components/ManageContract';
+import PendingProposals from './components/PendingProposals';
+import ActivityFeed from './components/ActivityFeed';
+import ExpiringMembers from './components/ExpiringMembers';
+import ComplianceDashboard from './components/ComplianceDashboard';
+import UpgradeReadiness from './components/UpgradeReadiness';
+import SignJoinRequest from './components/SignJoinRequest';
+import MyNode from './components/MyNode';
+import Organizations from './components/Organizations';
+import MyOrganization from './components/MyOrganization';
+import FormerMembers from './components/FormerMembers';
 import { useContract } from './hooks/useContract';
+import { getLeaseStatus } from './utils/contractHelpers';
 
 function App() {
   const {
@@ -17,8 +28,22 @@ function App() {
     account,
     contractAddress,
     owner,
-    isOwner,
+    pendingOwner,
+    roles,
     members,
+    memberRecords,
+    proposals,
+    proposalCount,
+    approvalThreshold,
+    isPaused,
+    metadataSelfService,
+    joinRequestRequired,
+    defaultLeaseDuration,
+    minPlatformVersion,
+    organizations,
+    adminOrganizationId,
+    formerMembers,
+    upgradePlans,
     selectedMember,
     loading,
     error,
@@ -28,11 +53,54 @@ function App() {
     selectMember,
     addMember,
     removeMember,
-    updateMemberStatus,
+    setMemberState,
     updateMemberDetails,
+    updateMyEndpoint,
     transferOwnership,
+    acceptOwnership,
+    cancelOwnershipTransfer,
+    revokeCertificate,
+    grantRole,
+    revokeRole,
+    approveProposal,
+    executeProposal,
+    cancelProposal,
+    loadMoreProposals,
+    setApprovalThreshold,
+    setMemberMetadata,
+    setMemberEndpoints,
+    setMetadataSelfService,
+    setJoinRequestRequired,
+    renewMembership,
+    setDefaultLeaseDuration,
+    setMinPlatformVersion,
+    createOrganization,
+    setOrganizationQuota,
+    addOrganizationAdmin,
+    removeOrganizationAdmin,
+    setMemberOrganization,
+    addOrganizationMember,
+    removeOrganizationMember,
+    updateOrganizationMemberStatus,
+    acknowledgeUpgrade,
+    pause,
+    unpause,
   } = useContract();
 
+  // The connected account's own record, if it is a registered member
+  const myMember = memberRecords.find(
+    member => member.memberAddress.toLowerCase() === account.toLowerCase()
+  );
+
+  const expiringCount = memberRecords.filter(
+    member => ['expiring', 'expired'].includes(getLeaseStatus(member))
+  ).length;
+
+  // The organization the connected account administers, if any
+  const myOrganization = organizations.find(organization => organization.id === adminOrganizationId);
+
+  const isPendingOwner = pendingOwner !== '' && pendingOwner.toLowerCase() === account.toLowerCase();
+
   const [showDebugPanel, setShowDebugPanel] = useState(() => {
     const saved = localStorage.getItem('showDebugPanel');
     return saved !== 'false';
@@ -62,7 +130,7 @@ function App() {
       <Navigation
         account={account}
         isConnected={isConnected}
-        isOwner={isOwner}
+        roles={roles}
         contractAddress={contractAddress}
         showDebugPanel={showDebugPanel}
         onLogout={disconnect}
@@ -82,13 +150,27 @@ function App() {
           <>
             {error && <Alert variant="danger">{error}</Alert>}
 
+            {isPaused && (
+              <Alert variant="warning">
+                <strong>Registry paused.</strong> Member, certificate and proposal changes are blocked until a pauser
+                unpauses the contract. Existing data can still be viewed.
+              </Alert>
+            )}
+
             <Row className="mb-3">
               <Col>
                 <h3>XDC Network Manager</h3>
                 <p>
                   Owner: <strong>{owner}</strong>
-                  {isOwner && <span className="badge bg-success ms-2">You are the owner</span>}
+                  {owner.toLowerCase() === account.toLowerCase() && (
+                    <span className="badge bg-success ms-2">You are the owner</span>
+                  )}
                 </p>
+                {isPendingOwner && (
+                  <Alert variant="info">
+                    You have been nominated as the contract manager. Accept the role under Contract Management.
+                  </Alert>
+                )}
                 <p>Contract Address: <strong>{contractAddress}</strong></p>
                 <p>Connected Account: <strong>{account}</strong></p>
               </Col>
@@ -99,7 +181,8 @@ function App() {
                 <Row>
                   <Col md={6}>
                     <MemberList
-                      members={members}
+                      members={memberRecords}
+                      organizations={organizations}
                       onSelectMember={selectMember}
                       loading={loading}
                     />
@@ -108,9 +191,20 @@ function App() {
                     {selectedMember ? (
                       <MemberDetails
                         member={selectedMember}
-                        isManager={isOwner}
+                        canRegister={roles.registrar}
+                        canOperate={roles.operator}
+                        canEditMetadata={
+                          roles.registrar ||
+                          (metadataSelfService && selectedMember.memberAddress.toLowerCase() === account.toLowerCase())
+                        }
                         onRemoveMember={removeMember}
-                        onUpdateStatus={updateMemberStatus}
+                        onSetState={setMemberState}
+                        onRevokeCertificate={revokeCertificate}
+                        minPlatformVersion={minPlatformVersion}
+                        earlierTenures={formerMembers.filter(
+                          former => former.member.memberAddress.toLowerCase() === selectedMember.memberAddress.toLowerCase()
+                        )}
+                        onSetMetadata={setMemberMetadata}
                       />
                     ) : (
                       <div className="p-4 bg-light text-center">
@@ -120,14 +214,112 @@ function App() {
                   </Col>
                 </Row>
               </Tab>
+
+              {myMember && (
+                <Tab eventKey="myNode" title="My Node">
+                  <MyNode
+                    member={myMember}
+                    onUpdateEndpoint={updateMyEndpoint}
+                    onSetEndpoints={setMemberEndpoints}
+                    loading={loading}
+                  />
+                </Tab>
+              )}
+
+              {myOrganization && (
+                <Tab eventKey="myOrganization" title="My Organization">
+                  <MyOrganization
+                    organization={myOrganization}
+                    members={memberRecords}
+                    onAddMember={addOrganizationMember}
+                    onRemoveMember={removeOrganizationMember}
+                    onUpdateStatus={updateOrganizationMemberStatus}
+                    loading={loading}
+                  />
+                </Tab>
+              )}
+
+              <Tab
+                eventKey="proposals"
+                title={`Pending Proposals (${proposals.filter(proposal => proposal.status === 'Pending').length})`}
+              >
+                <PendingProposals
+                  proposals={proposals}
+                  proposalCount={proposalCount}
+                  approvalThreshold={approvalThreshold}
+                  account={account}
+                  canApprove={roles.registrar}
+                  isAdmin={roles.admin}
+                  onApprove={approveProposal}
+                  onExecute={executeProposal}
+                  onCancel={cancelProposal}
+                  onLoadMore={loadMoreProposals}
+                  loading={loading}
+                />
+              </Tab>
               
-              {isOwner && (
+              <Tab eventKey="activity" title="Activity" mountOnEnter>
+                <ActivityFeed members={memberRecords} />
+              </Tab>
+
+              <Tab
+                eventKey="expiring"
+                title={`Expiring Soon (${expiringCount})`}
+              >
+                <ExpiringMembers
+                  members={memberRecords}
+                  canRenew={roles.renewer}
+                  onRenew={renewMembership}
+                  loading={loading}
+                />
+              </Tab>
+
+              <Tab eventKey="compliance" title="Compliance">
+                <ComplianceDashboard members={memberRecords} minPlatformVersion={minPlatformVersion} />
+              </Tab>
+
+              <Tab eventKey="upgradeReadiness" title="Upgrade Readiness">
+                <UpgradeReadiness
+                  upgradePlans={upgradePlans}
+                  members={memberRecords}
+                  account={account}
+                  onAcknowledge={acknowledgeUpgrade}
+                  loading={loading}
+                />
+              </Tab>
+
+              <Tab eventKey="formerMembers" title={`Former Members (${formerMembers.length})`}>
+                <FormerMembers formerMembers={formerMembers} currentMembers={members} />
+              </Tab>
+
+              <Tab eventKey="organizations" title="Organizations">
+                <Organizations
+                  organizations={organizations}
+                  members={memberRecords}
+                  isOwner={owner.toLowerCase() === account.toLowerCase()}
+                  canRegister={roles.registrar}
+                  onCreateOrganization={createOrganization}
+                  onSetQuota={setOrganizationQuota}
+                  onAddAdmin={addOrganizationAdmin}
+                  onRemoveAdmin={removeOrganizationAdmin}
+                  onSetMemberOrganization={setMemberOrganization}
+                  loading={loading}
+                />
+              </Tab>
+
+              {!myMember && (
+                <Tab eventKey="joinRequest" title="Sign Join Request">
+                  <SignJoinRequest account={account} />
+                </Tab>
+              )}
+
+              {roles.registrar && (
                 <Tab eventKey="addMember" title="Add Member">
                   <AddMemberForm onAddMember={addMember} loading={loading} />
                 </Tab>
               )}
 
-              {isOwner && (
+              {roles.registrar && (
                 <Tab eventKey="updateMember" title="Update Member">
                   <UpdateMemberForm
                     onUpdateMember={updateMemberDetails}
@@ -137,11 +329,33 @@ function App() {
                 </Tab>
               )}
 
-              {isOwner && (
+              {(roles.admin || roles.pauser || isPendingOwner || owner.toLowerCase() === account.toLowerCase()) && (
                 <Tab eventKey="management" title="Contract Management">
                   <ManageContract
                     currentManager={owner}
+                    pendingManager={pendingOwner}
+                    isManager={owner.toLowerCase() === account.toLowerCase()}
+                    isAdmin={roles.admin}
+                    isPendingManager={isPendingOwner}
                     onTransferManager={transferOwnership}
+                    onAcceptManager={acceptOwnership}
+                    onCancelTransfer={cancelOwnershipTransfer}
+                    onGrantRole={grantRole}
+                    onRevokeRole={revokeRole}
+                    approvalThreshold={approvalThreshold}
+                    onSetApprovalThreshold={setApprovalThreshold}
+                    metadataSelfService={metadataSelfService}
+                    onSetMetadataSelfService={setMetadataSelfService}
+                    joinRequestRequired={joinRequestRequired}
+                    onSetJoinRequestRequired={setJoinRequestRequired}
+                    defaultLeaseDuration={defaultLeaseDuration}
+                    onSetDefaultLeaseDuration={setDefaultLeaseDuration}
+                    minPlatformVersion={minPlatformVersion}
+                    onSetMinPlatformVersion={setMinPlatformVersion}
+                    isPauser={roles.pauser}
+                    isPaused={isPaused}
+                    onPause={pause}
+                    onUnpause={unpause}
                     loading={loading}
                   />
                 </Tab>
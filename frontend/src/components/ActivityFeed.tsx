@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Card, Form, Button, Spinner, Table, Badge, Row, Col } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import contractService, { ACTIVITY_EVENT_TYPES, MEMBER_STATES, REVOCATION_REASONS, STATE_REASONS } from '../utils/contractHelpers';
+import { formatEndpoint } from '../utils/validationHelpers';
+import type { ActivityEvent, ActivityEventType, Member } from '../types/contract';
+
+interface ActivityFeedProps {
+  members: Member[];
+}
+
+// How often live mode checks for new blocks
+const LIVE_POLL_INTERVAL_MS = 15000;
+
+const EVENT_LABELS: Record<ActivityEventType, { label: string; bg: string }> = {
+  MemberAdded: { label: 'Added', bg: 'success' },
+  MemberRemoved: { label: 'Removed', bg: 'danger' },
+  MemberArchived: { label: 'Archived', bg: 'secondary' },
+  MemberStatusChanged: { label: 'Status', bg: 'warning' },
+  MemberEndpointChanged: { label: 'Endpoint', bg: 'info' },
+  MemberSelfUpdated: { label: 'Self-service update', bg: 'info' },
+  MemberCertificateRotated: { label: 'Certificate rotated', bg: 'primary' },
+  MemberMetadataSet: { label: 'Metadata', bg: 'secondary' },
+  MemberLeaseRenewed: { label: 'Lease renewed', bg: 'success' },
+  MemberEndpointsChanged: { label: 'Endpoint list', bg: 'info' },
+  MemberStateChanged: { label: 'Lifecycle', bg: 'warning' },
+  CertificateRevoked: { label: 'Certificate revoked', bg: 'dark' }
+};
+
+const describeEvent = (event: ActivityEvent): string => {
+  const { values } = event;
+
+  switch (event.type) {
+    case 'MemberAdded':
+      return values.x500Name;
+    case 'MemberRemoved':
+      return 'Removed from the registry';
+    case 'MemberArchived':
+      return `Record kept as former member #${values.tenureId} (${STATE_REASONS[Number(values.reason)] ?? values.reason})`;
+    case 'MemberStatusChanged':
+      return `${values.previousStatus === 'true' ? 'Active' : 'Inactive'} → ${values.newStatus === 'true' ? 'Active' : 'Inactive'}`;
+    case 'MemberEndpointChanged':
+      return `${formatEndpoint(values.previousHost, values.previousPort)} → ${formatEndpoint(values.newHost, values.newPort)}`;
+    case 'MemberSelfUpdated':
+      return `Platform version ${values.platformVersion}`;
+    case 'MemberCertificateRotated':
+      return `Serial ${values.previousCertSerialHex} → ${values.newCertSerialHex}`;
+    case 'MemberMetadataSet':
+      return values.value ? `${values.key} = ${values.value}` : `${values.key} removed`;
+    case 'MemberLeaseRenewed':
+      return `Until ${new Date(Number(values.newExpiresAt) * 1000).toLocaleDateString()}`;
+    case 'MemberEndpointsChanged':
+      return 'Additional endpoints replaced';
+    case 'MemberStateChanged':
+      return `${MEMBER_STATES[Number(values.previousState)]} → ${MEMBER_STATES[Number(values.newState)]} (${STATE_REASONS[Number(values.reason)] ?? values.reason})`;
+    case 'CertificateRevoked':
+      return `Serial ${values.certSerialHex} (${REVOCATION_REASONS[Number(values.reason)] ?? values.reason})`;
+  }
+};
+
+/**
+ * Membership history read from contract logs, from the deployment block onward.
+ * Live mode keeps polling for new blocks with the same filters.
+ */
+const ActivityFeed: React.FC<ActivityFeedProps> = ({ members }) => {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [memberFilter, setMemberFilter] = useState('');
+  const [selectedTypes, setSelectedTypes] = useState<ActivityEventType[]>(ACTIVITY_EVENT_TYPES);
+  const [fromBlock, setFromBlock] = useState('');
+  const [toBlock, setToBlock] = useState('');
+  const [live, setLive] = useState(false);
+  const [loading, setLoading] = useState(false);
+  // Last block included in `events`, so live mode only asks for newer logs
+  const lastBlockRef = useRef(0);
+  // Filters of the last load; live mode keeps using them until Apply is pressed again
+  const appliedFilterRef = useRef<{ types: ActivityEventType[]; memberAddress?: string }>({ types: ACTIVITY_EVENT_TYPES });
+
+  const memberNames = new Map(members.map(member => [member.memberAddress.toLowerCase(), member.x500Name]));
+
+  const loadActivity = useCallback(async () => {
+    const memberAddress = memberFilter.trim();
+    if (memberAddress && !memberAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
+      toast.error('Please enter a valid member address (0x followed by 40 hex characters)');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const start = fromBlock ? parseInt(fromBlock, 10) : await contractService.getDeploymentBlock();
+      const end = toBlock ? parseInt(toBlock, 10) : Number((await contractService.getLatestBlock()).number);
+
+      if (isNaN(start) || isNaN(end) || start > end) {
+        toast.error('Invalid block range');
+        return;
+      }
+
+      const filter = { types: selectedTypes, memberAddress: memberAddress || undefined };
+      setEvents(await contractService.getActivity({ ...filter, fromBlock: start, toBlock: end }));
+      appliedFilterRef.current = filter;
+      lastBlockRef.current = end;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Unable to load activity: ${errorMessage}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [memberFilter, selectedTypes, fromBlock, toBlock]);
+
+  useEffect(() => {
+    loadActivity();
+    // Load once on mount; later loads are triggered by the Apply button
+  }, []);
+
+  useEffect(() => {
+    // A fixed upper block means the range is closed, so there is nothing new to poll for
+    if (!live || toBlock) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const latest = Number((await contractService.getLatestBlock()).number);
+        if (latest <= lastBlockRef.current) return;
+
+        const newEvents = await contractService.getActivity({
+          ...appliedFilterRef.current,
+          fromBlock: lastBlockRef.current + 1,
+          toBlock: latest
+        });
+        lastBlockRef.current = latest;
+
+        if (newEvents.length > 0) {
+          setEvents(prev => [...newEvents, ...prev]);
+        }
+      } catch (error) {
+        console.error('Error polling activity:', error);
+      }
+    }, LIVE_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [live, toBlock]);
+
+  const toggleType = (type: ActivityEventType, checked: boolean) => {
+    setSelectedTypes(prev =>
+      checked ? ACTIVITY_EVENT_TYPES.filter(t => t === type || prev.includes(t)) : prev.filter(t => t !== type)
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    loadActivity();
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header as="h5" className="d-flex justify-content-between align-items-center">
+        Activity
+        <Form.Check
+          type="switch"
+          id="activity-live"
+          label="Live"
+          checked={live}
+          disabled={Boolean(toBlock)}
+          onChange={(e) => setLive(e.target.checked)}
+          className="fs-6"
+        />
+      </Card.Header>
+      <Card.Body>
+        <Form onSubmit={handleSubmit} className="mb-3">
+          <Row className="g-2 mb-2">
+            <Col md={6}>
+              <Form.Control
+                type="text"
+                placeholder="Filter by member address"
+                value={memberFilter}
+                onChange={(e) => setMemberFilter(e.target.value)}
+                list="activity-members"
+              />
+              <datalist id="activity-members">
+                {members.map(member => (
+                  <option key={member.memberAddress} value={member.memberAddress}>
+                    {member.x500Name}
+                  </option>
+                ))}
+              </datalist>
+            </Col>
+            <Col md={2}>
+              <Form.Control
+                type="number"
+                min={0}
+                placeholder="From block"
+                value={fromBlock}
+                onChange={(e) => setFromBlock(e.target.value)}
+              />
+            </Col>
+            <Col md={2}>
+              <Form.Control
+                type="number"
+                min={0}
+                placeholder="To block"
+                value={toBlock}
+                onChange={(e) => setToBlock(e.target.value)}
+              />
+            </Col>
+            <Col md={2}>
+              <Button variant="primary" type="submit" disabled={loading || selectedTypes.length === 0} className="w-100">
+                Apply
+              </Button>
+            </Col>
+          </Row>
+          <div>
+            {ACTIVITY_EVENT_TYPES.map(type => (
+              <Form.Check
+                key={type}
+                inline
+                type="checkbox"
+                id={`activity-type-${type}`}
+                label={EVENT_LABELS[type].label}
+                checked={selectedTypes.includes(type)}
+                onChange={(e) => toggleType(type, e.target.checked)}
+              />
+            ))}
+          </div>
+          <Form.Text className="text-muted">
+            Leave the block range empty to read from the deployment block to the latest block.
+          </Form.Text>
+        </Form>
+
+        {loading ? (
+          <div className="text-center p-4">
+            <Spinner animation="border" role="status">
+              <span className="visually-hidden">Loading...</span>
+            </Spinner>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center p-4">
+            <p>No activity found</p>
+          </div>
+        ) : (
+          <Table responsive size="sm">
+            <thead>
+              <tr>
+                <th>Block</th>
+                <th>Event</th>
+                <th>Member</th>
+                <th>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map(event => (
+                <tr key={`${event.transactionHash}-${event.logIndex}`}>
+                  <td title={event.transactionHash}>{event.blockNumber}</td>
+                  <td>
+                    <Badge bg={EVENT_LABELS[event.type].bg}>{EVENT_LABELS[event.type].label}</Badge>
+                  </td>
+                  <td className="text-break font-monospace small">
+                    {event.memberAddress || '—'}
+                    {memberNames.get(event.memberAddress.toLowerCase()) && (
+                      <div className="text-muted">{memberNames.get(event.memberAddress.toLowerCase())}</div>
+                    )}
+                  </td>
+                  <td className="text-break small">{describeEvent(event)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+
+        <div className="mt-3">
+          <small className="text-muted">Events shown: {events.length}</small>
+        </div>
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default ActivityFeed;
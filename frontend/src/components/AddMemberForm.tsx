@@ -1,12 +1,18 @@
 import React, { useState } from "react";
 import { Card, Form, Button, Spinner, Alert } from "react-bootstrap";
 import { toast } from "react-toastify";
-import { validateMemberData } from "../utils/validationHelpers";
-import type { MemberFormData } from '../types/contract';
+import contractService from "../utils/contractHelpers";
+import { formatEndpoint, normalizeHost, parseSignedJoinRequest, validateEndpoints, validateMemberData } from "../utils/validationHelpers";
+import { useEndpointHolder } from "../hooks/useEndpointHolder";
+import EndpointListEditor from "./EndpointListEditor";
+import type { MemberEndpoint, MemberFormData, SignedJoinRequest } from '../types/contract';
 
 interface AddMemberFormProps {
-  onAddMember: (memberData: MemberFormData) => Promise<{ success: boolean; error?: string }>;
+  onAddMember: (memberData: MemberFormData, joinRequest?: SignedJoinRequest) => Promise<{ success: boolean; error?: string }>;
   loading: boolean;
+  // Set when an organization admin adds a member to its own organization. Organization admins cannot add from
+  // a signed join request or set another member's endpoints, so those parts of the form are hidden.
+  organizationName?: string;
 }
 
 interface FormState {
@@ -18,7 +24,7 @@ interface FormState {
   port: string;
 }
 
-const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading }) => {
+const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading, organizationName }) => {
   const [formData, setFormData] = useState<FormState>({
     address: "",
     x500Name: "",
@@ -27,14 +33,64 @@ const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading }) =
     host: "",
     port: "",
   });
+  const [endpoints, setEndpoints] = useState<MemberEndpoint[]>([]);
   const [validated, setValidated] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const endpointHolder = useEndpointHolder(formData.host, formData.port);
+  // Imported signed join request; while set, the fields it covers are locked so the signature stays valid
+  const [joinRequest, setJoinRequest] = useState<SignedJoinRequest | null>(null);
+  const [joinRequestJson, setJoinRequestJson] = useState("");
+  const [verifying, setVerifying] = useState(false);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
+  const handleImportJoinRequest = async () => {
+    const parsed = parseSignedJoinRequest(joinRequestJson);
+    if (!parsed.isValid || !parsed.request) {
+      toast.error(parsed.error);
+      return;
+    }
+
+    const request = parsed.request;
+    if (request.contractAddress.toLowerCase() !== (contractService.contractAddress || "").toLowerCase()) {
+      toast.error(`This join request was signed for another contract (${request.contractAddress})`);
+      return;
+    }
+    if (request.deadline < Date.now() / 1000) {
+      toast.error(`This join request expired on ${new Date(request.deadline * 1000).toLocaleString()}; ask the applicant to sign a new one`);
+      return;
+    }
+
+    setVerifying(true);
+    const valid = await contractService.isValidJoinRequest(request);
+    const nonce = await contractService.getJoinRequestNonce(request.memberAddress).catch(() => request.nonce);
+    setVerifying(false);
+
+    if (nonce !== request.nonce) {
+      toast.error("This join request was already used; ask the applicant to sign a new one");
+      return;
+    }
+    if (!valid) {
+      toast.error("Join request signature is not valid for this network, or the details were changed after signing");
+      return;
+    }
+
+    setJoinRequest(request);
+    setJoinRequestJson("");
+    setFormData((prev) => ({
+      ...prev,
+      address: request.memberAddress,
+      x500Name: request.x500Name,
+      certSerialHex: request.certSerialHex,
+      host: request.host,
+      port: String(request.port),
+    }));
+    toast.success(`Join request from ${request.memberAddress} verified`);
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const form = e.currentTarget;
@@ -66,16 +122,28 @@ const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading }) =
 
     setValidationErrors({});
 
+    if (endpointHolder) {
+      toast.error(`Endpoint ${formatEndpoint(formData.host, formData.port)} is already used by ${endpointHolder}`);
+      return;
+    }
+
+    const endpointsValidation = validateEndpoints(endpoints, { host: formData.host, port: formData.port });
+    if (!endpointsValidation.isValid) {
+      toast.error(endpointsValidation.error);
+      return;
+    }
+
     const data: MemberFormData = {
       address: formData.address.trim(),
       x500Name: formData.x500Name.trim(),
       certSerialHex: validation.sanitizedCertSerial || formData.certSerialHex,
       platformVersion: parseInt(formData.platformVersion, 10),
-      host: formData.host.trim(),
-      port: parseInt(formData.port, 10)
+      host: normalizeHost(formData.host),
+      port: parseInt(formData.port, 10),
+      endpoints: endpoints.length > 0 ? endpoints : undefined
     };
 
-    const result = await onAddMember(data);
+    const result = await onAddMember(data, joinRequest ?? undefined);
 
     if (result && result.success) {
       setFormData({
@@ -86,14 +154,16 @@ const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading }) =
         host: "contour.p2p.app.contournetwork.io",
         port: "10030",
       });
+      setEndpoints([]);
       setValidated(false);
       setValidationErrors({});
+      setJoinRequest(null);
     }
   };
 
   return (
     <Card className="shadow-sm">
-      <Card.Header as="h5">Add New Member</Card.Header>
+      <Card.Header as="h5">{organizationName ? `Add Member to ${organizationName}` : "Add New Member"}</Card.Header>
       <Card.Body>
         {Object.keys(validationErrors).length > 0 && (
           <Alert variant="danger" className="mb-3">
@@ -107,12 +177,49 @@ const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading }) =
             </ul>
           </Alert>
         )}
+        {organizationName ? null : joinRequest ? (
+          <Alert variant="success" className="mb-3 d-flex justify-content-between align-items-start gap-2">
+            <span>
+              Verified join request signed by <span className="font-monospace text-break">{joinRequest.memberAddress}</span>.
+              The signed fields are locked; set the platform version and add the member.
+            </span>
+            <Button variant="outline-secondary" size="sm" onClick={() => setJoinRequest(null)}>
+              Discard
+            </Button>
+          </Alert>
+        ) : (
+          <Form.Group className="mb-4">
+            <Form.Label>Import Signed Join Request (optional)</Form.Label>
+            <Form.Control
+              as="textarea"
+              rows={3}
+              placeholder='Paste the JSON an applicant produced with "Sign Join Request"'
+              value={joinRequestJson}
+              onChange={(e) => setJoinRequestJson(e.target.value)}
+              className="font-monospace small"
+            />
+            <Button
+              variant="outline-primary"
+              size="sm"
+              className="mt-2"
+              onClick={handleImportJoinRequest}
+              disabled={!joinRequestJson.trim() || verifying}
+            >
+              {verifying ? "Verifying..." : "Verify & Import"}
+            </Button>
+            <Form.Text className="d-block text-muted">
+              A signed join request proves the applicant controls the member address. The contract checks the signature again when the member is added.
+            </Form.Text>
+          </Form.Group>
+        )}
+
         <Form noValidate validated={validated} onSubmit={handleSubmit}>
           <Form.Group className="mb-3">
             <Form.Label>Member Address</Form.Label>
             <Form.Control
               type="text"
               name="address"
+              readOnly={!!joinRequest}
               placeholder="0x..."
               value={formData.address}
               onChange={handleChange}
@@ -132,6 +239,7 @@ const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading }) =
             <Form.Control
               type="text"
               name="x500Name"
+              readOnly={!!joinRequest}
               placeholder="CN=Node1,O=XDC,C=SG"
               value={formData.x500Name}
               onChange={handleChange}
@@ -150,6 +258,7 @@ const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading }) =
             <Form.Control
               type="text"
               name="certSerialHex"
+              readOnly={!!joinRequest}
               placeholder="0x1234567890abcdef"
               value={formData.certSerialHex}
               onChange={handleChange}
@@ -184,6 +293,7 @@ const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading }) =
             <Form.Control
               type="text"
               name="host"
+              readOnly={!!joinRequest}
               placeholder="Enter host address"
               value={formData.host}
               onChange={handleChange}
@@ -199,6 +309,7 @@ const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading }) =
             <Form.Control
               type="number"
               name="port"
+              readOnly={!!joinRequest}
               placeholder="Enter port number"
               value={formData.port}
               onChange={handleChange}
@@ -209,6 +320,17 @@ const AddMemberForm: React.FC<AddMemberFormProps> = ({ onAddMember, loading }) =
             </Form.Control.Feedback>
           </Form.Group>
 
+          {!organizationName && (
+            <EndpointListEditor endpoints={endpoints} onChange={setEndpoints} disabled={loading} />
+          )}
+
+          {endpointHolder && (
+            <Alert variant="warning" className="mb-3">
+              This endpoint is already used by member <span className="font-monospace text-break">{endpointHolder}</span>.
+              Each member needs its own host and port.
+            </Alert>
+          )}
+
           <Button variant="primary" type="submit" disabled={loading}>
             {loading ? (
               <>
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Badge } from 'react-bootstrap';
+import { getCertExpiryStatus } from '../utils/contractHelpers';
+import type { CertExpiryStatus, Member } from '../types/contract';
+
+interface CertExpiryBadgeProps {
+  member: Member;
+  className?: string;
+}
+
+const BADGES: Record<CertExpiryStatus, { bg: string; label: string } | null> = {
+  valid: { bg: 'success', label: 'Cert valid' },
+  expiring: { bg: 'warning', label: 'Cert expiring' },
+  expired: { bg: 'danger', label: 'Cert expired' },
+  notYetValid: { bg: 'secondary', label: 'Cert not yet valid' },
+  unknown: null
+};
+
+const CertExpiryBadge: React.FC<CertExpiryBadgeProps> = ({ member, className }) => {
+  const badge = BADGES[getCertExpiryStatus(member)];
+  if (!badge) return null;
+
+  return (
+    <Badge
+      bg={badge.bg}
+      text={badge.bg === 'warning' ? 'dark' : undefined}
+      className={className}
+      title={`Expires ${new Date(member.certNotAfter * 1000).toLocaleString()}`}
+    >
+      {badge.label}
+    </Badge>
+  );
+};
+
+export default CertExpiryBadge;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Card, Table, Badge, ProgressBar, Row, Col } from 'react-bootstrap';
+import { isPlatformCompliant } from '../utils/contractHelpers';
+import { formatEndpoint } from '../utils/validationHelpers';
+import MemberStateBadge from './MemberStateBadge';
+import type { Member } from '../types/contract';
+
+interface ComplianceDashboardProps {
+  members: Member[];
+  minPlatformVersion: number;
+}
+
+/**
+ * Platform versions running across the network and the members still below the minimum,
+ * so operators can be chased before a hard fork.
+ */
+const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({ members, minPlatformVersion }) => {
+  const nonCompliant = members
+    .filter(member => !isPlatformCompliant(member, minPlatformVersion))
+    .sort((a, b) => a.platformVersion - b.platformVersion);
+  const compliantShare = members.length > 0
+    ? Math.round(((members.length - nonCompliant.length) / members.length) * 100)
+    : 100;
+
+  // Member count per version, newest first
+  const counts = new Map<number, number>();
+  members.forEach(member => counts.set(member.platformVersion, (counts.get(member.platformVersion) ?? 0) + 1));
+  const distribution = [...counts.entries()].sort(([a], [b]) => b - a);
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header as="h5">Platform Version Compliance</Card.Header>
+      <Card.Body>
+        <Row className="mb-4">
+          <Col md={4}>
+            <div className="text-muted small">Minimum platform version</div>
+            <div className="fs-4">{minPlatformVersion > 0 ? minPlatformVersion : 'None'}</div>
+          </Col>
+          <Col md={8}>
+            <div className="text-muted small">
+              Compliant members: {members.length - nonCompliant.length} of {members.length}
+            </div>
+            <ProgressBar
+              now={compliantShare}
+              label={`${compliantShare}%`}
+              variant={nonCompliant.length === 0 ? 'success' : 'warning'}
+              className="mt-2"
+            />
+          </Col>
+        </Row>
+
+        <h6>Version Distribution</h6>
+        {distribution.length === 0 ? (
+          <p className="text-muted small">No members registered</p>
+        ) : (
+          <Table responsive size="sm" className="mb-4">
+            <thead>
+              <tr>
+                <th>Version</th>
+                <th>Members</th>
+                <th className="w-50">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {distribution.map(([version, count]) => (
+                <tr key={version}>
+                  <td>
+                    {version}
+                    {version < minPlatformVersion && (
+                      <Badge bg="danger" className="ms-2">Below minimum</Badge>
+                    )}
+                  </td>
+                  <td>{count}</td>
+                  <td>
+                    <ProgressBar
+                      now={(count / members.length) * 100}
+                      variant={version < minPlatformVersion ? 'danger' : 'success'}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+
+        <h6>Below Minimum</h6>
+        {nonCompliant.length === 0 ? (
+          <p className="text-muted small">
+            {minPlatformVersion > 0 ? 'Every member meets the minimum version' : 'No minimum version is set'}
+          </p>
+        ) : (
+          <Table responsive size="sm">
+            <thead>
+              <tr>
+                <th>Member</th>
+                <th>Version</th>
+                <th>Endpoint</th>
+              </tr>
+            </thead>
+            <tbody>
+              {nonCompliant.map(member => (
+                <tr key={member.memberAddress}>
+                  <td className="text-break font-monospace small">
+                    {member.memberAddress}
+                    <div className="text-muted">{member.x500Name}</div>
+                  </td>
+                  <td>
+                    {member.platformVersion}
+                    {member.state !== 'Active' && <MemberStateBadge state={member.state} className="ms-2" />}
+                  </td>
+                  <td className="text-break small">{formatEndpoint(member.host, member.port)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default ComplianceDashboard;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Card, Form, Button, Spinner, Alert, Badge } from 'react-bootstrap';
 import { toast } from 'react-toastify';
 import contractService from '../utils/contractHelpers';
+import { NetworkManagerDeployment } from '../contracts/NetworkManager.deployment';
 
 interface ConnectionPanelProps {
   onConnect: (rpcUrl: string, contractAddress: string) => Promise<void>;
@@ -20,7 +21,7 @@ const EXPECTED_RPC_URL = import.meta.env.VITE_DEFAULT_RPC_URL || 'http://127.0.0
 
 const ConnectionPanel: React.FC<ConnectionPanelProps> = ({ onConnect, onConnectMetaMask, loading }) => {
   const [rpcUrl, setRpcUrl] = useState(import.meta.env.VITE_DEFAULT_RPC_URL || 'http://localhost:8545');
-  const [contractAddress, setContractAddress] = useState(import.meta.env.VITE_DEFAULT_CONTRACT_ADDRESS || '');
+  const [contractAddress, setContractAddress] = useState(import.meta.env.VITE_DEFAULT_CONTRACT_ADDRESS || NetworkManagerDeployment.address);
   const [metaMaskAvailable] = useState(contractService.isMetaMaskAvailable());
   const [currentNetwork, setCurrentNetwork] = useState<NetworkInfo | null>(null);
   const [switchingNetwork, setSwitchingNetwork] = useState(false);
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Form, Button, Row, Col } from 'react-bootstrap';
+import { ENDPOINT_PROTOCOLS, ENDPOINT_PROTOCOL_LABELS } from '../utils/contractHelpers';
+import { MAX_ENDPOINTS } from '../utils/validationHelpers';
+import type { EndpointProtocol, MemberEndpoint } from '../types/contract';
+
+interface EndpointListEditorProps {
+  endpoints: MemberEndpoint[];
+  onChange: (endpoints: MemberEndpoint[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Rows of protocol, host and port for a member's additional endpoints.
+ * The primary P2P endpoint stays in the form's own host and port fields.
+ */
+const EndpointListEditor: React.FC<EndpointListEditorProps> = ({ endpoints, onChange, disabled = false }) => {
+  const updateRow = (index: number, changes: Partial<MemberEndpoint>) => {
+    onChange(endpoints.map((endpoint, i) => (i === index ? { ...endpoint, ...changes } : endpoint)));
+  };
+
+  return (
+    <Form.Group className="mb-3">
+      <Form.Label>Additional Endpoints</Form.Label>
+      {endpoints.map((endpoint, index) => (
+        <Row key={index} className="g-2 mb-2">
+          <Col md={3}>
+            <Form.Select
+              value={endpoint.protocol}
+              onChange={(e) => updateRow(index, { protocol: e.target.value as EndpointProtocol })}
+              disabled={disabled}
+            >
+              {ENDPOINT_PROTOCOLS.map(protocol => (
+                <option key={protocol} value={protocol}>{ENDPOINT_PROTOCOL_LABELS[protocol]}</option>
+              ))}
+            </Form.Select>
+          </Col>
+          <Col md={5}>
+            <Form.Control
+              type="text"
+              placeholder="rpc.node1.example.com"
+              value={endpoint.host}
+              onChange={(e) => updateRow(index, { host: e.target.value })}
+              disabled={disabled}
+            />
+          </Col>
+          <Col md={2}>
+            <Form.Control
+              type="number"
+              placeholder="8545"
+              value={endpoint.port || ''}
+              onChange={(e) => updateRow(index, { port: parseInt(e.target.value, 10) || 0 })}
+              disabled={disabled}
+            />
+          </Col>
+          <Col md={2}>
+            <Button
+              variant="outline-danger"
+              className="w-100"
+              onClick={() => onChange(endpoints.filter((_, i) => i !== index))}
+              disabled={disabled}
+            >
+              Remove
+            </Button>
+          </Col>
+        </Row>
+      ))}
+      <div>
+        <Button
+          variant="outline-secondary"
+          size="sm"
+          onClick={() => onChange([...endpoints, { protocol: 'rpc', host: '', port: 0 }])}
+          disabled={disabled || endpoints.length >= MAX_ENDPOINTS}
+        >
+          Add Endpoint
+        </Button>
+      </div>
+      <Form.Text className="text-muted">
+        RPC, WebSocket, gRPC or metrics endpoints besides the P2P host and port above (at most {MAX_ENDPOINTS}).
+        Each host and port can belong to only one member.
+      </Form.Text>
+    </Form.Group>
+  );
+};
+
+export default EndpointListEditor;
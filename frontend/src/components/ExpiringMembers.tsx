@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Card, Form, Button, Table, Row, Col } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import LeaseBadge from './LeaseBadge';
+import { LEASE_EXPIRY_WARNING_DAYS, getLeaseStatus } from '../utils/contractHelpers';
+import type { Member } from '../types/contract';
+
+interface ExpiringMembersProps {
+  members: Member[];
+  canRenew: boolean;
+  onRenew: (address: string, expiresAt: number) => Promise<void>;
+  loading: boolean;
+}
+
+const WINDOW_OPTIONS = [7, LEASE_EXPIRY_WARNING_DAYS, 90, 180];
+
+// Consortium agreements are annual, so renewals default to one more year
+const DEFAULT_RENEWAL_DAYS = 365;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Members whose lease has ended or ends within the chosen window, soonest first.
+ * Renewers can extend a lease from here by a number of days.
+ */
+const ExpiringMembers: React.FC<ExpiringMembersProps> = ({ members, canRenew, onRenew, loading }) => {
+  const [windowDays, setWindowDays] = useState(LEASE_EXPIRY_WARNING_DAYS);
+  const [renewalDays, setRenewalDays] = useState(String(DEFAULT_RENEWAL_DAYS));
+
+  const expiring = members
+    .filter(member => ['expiring', 'expired'].includes(getLeaseStatus(member, windowDays)))
+    .sort((a, b) => a.expiresAt - b.expiresAt);
+
+  const handleRenew = (member: Member) => {
+    const days = parseInt(renewalDays, 10);
+    if (isNaN(days) || days < 1) {
+      toast.error('Renewal period must be at least 1 day');
+      return;
+    }
+
+    // An expired lease is renewed from today rather than from its old end
+    const from = Math.max(member.expiresAt, Math.floor(Date.now() / 1000));
+    onRenew(member.memberAddress, from + days * SECONDS_PER_DAY);
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header as="h5">Expiring Soon</Card.Header>
+      <Card.Body>
+        <Row className="g-2 mb-3">
+          <Col md={4}>
+            <Form.Label>Show leases ending within</Form.Label>
+            <Form.Select value={windowDays} onChange={(e) => setWindowDays(Number(e.target.value))}>
+              {WINDOW_OPTIONS.map(days => (
+                <option key={days} value={days}>{days} days</option>
+              ))}
+            </Form.Select>
+          </Col>
+          {canRenew && (
+            <Col md={4}>
+              <Form.Label>Renew for (days)</Form.Label>
+              <Form.Control
+                type="number"
+                min={1}
+                value={renewalDays}
+                onChange={(e) => setRenewalDays(e.target.value)}
+              />
+            </Col>
+          )}
+        </Row>
+
+        {expiring.length === 0 ? (
+          <div className="text-center p-4">
+            <p>No leases end within {windowDays} days</p>
+          </div>
+        ) : (
+          <Table responsive size="sm">
+            <thead>
+              <tr>
+                <th>Member</th>
+                <th>Lease ends</th>
+                {canRenew && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {expiring.map(member => (
+                <tr key={member.memberAddress}>
+                  <td className="text-break font-monospace small">
+                    {member.memberAddress}
+                    <div className="text-muted">{member.x500Name}</div>
+                  </td>
+                  <td className="text-nowrap">
+                    {new Date(member.expiresAt * 1000).toLocaleDateString()}
+                    <LeaseBadge member={member} className="ms-2" />
+                  </td>
+                  {canRenew && (
+                    <td className="text-end">
+                      <Button variant="outline-success" size="sm" onClick={() => handleRenew(member)} disabled={loading}>
+                        Renew
+                      </Button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+
+        <div className="mt-3">
+          <small className="text-muted">
+            Members shown: {expiring.length}. Members without a lease never expire and are not listed.
+          </small>
+        </div>
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default ExpiringMembers;
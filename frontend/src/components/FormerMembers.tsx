@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Card, Form, Table, Badge } from 'react-bootstrap';
+import MemberStateBadge from './MemberStateBadge';
+import { STATE_REASONS } from '../utils/contractHelpers';
+import { formatEndpoint } from '../utils/validationHelpers';
+import type { FormerMember } from '../types/contract';
+
+interface FormerMembersProps {
+  formerMembers: FormerMember[];
+  currentMembers: string[];
+}
+
+/**
+ * The archived records of removed members, most recent removal first. An address that was
+ * removed more than once lists one row per tenure, each linked to the tenure before it.
+ */
+const FormerMembers: React.FC<FormerMembersProps> = ({ formerMembers, currentMembers }) => {
+  const [search, setSearch] = useState('');
+
+  const query = search.trim().toLowerCase();
+  const shown = formerMembers
+    .filter(former =>
+      query === '' ||
+      former.member.memberAddress.toLowerCase().includes(query) ||
+      former.member.x500Name.toLowerCase().includes(query) ||
+      former.member.certSerialHex.toLowerCase().includes(query)
+    )
+    .sort((a, b) => b.tenureId - a.tenureId);
+
+  const isCurrentMember = (address: string) =>
+    currentMembers.some(member => member.toLowerCase() === address.toLowerCase());
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header as="h5">Former Members</Card.Header>
+      <Card.Body>
+        <Form.Control
+          type="text"
+          placeholder="Search by address, X.500 name or certificate serial"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="mb-3"
+        />
+
+        {shown.length === 0 ? (
+          <div className="text-center p-4">
+            <p>{formerMembers.length === 0 ? 'No members have been removed' : 'No former members match the search'}</p>
+          </div>
+        ) : (
+          <Table responsive size="sm">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Member</th>
+                <th>Tenure</th>
+                <th>Removal</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(former => (
+                <tr key={former.tenureId}>
+                  <td>{former.tenureId}</td>
+                  <td className="text-break small">
+                    <span className="font-monospace">{former.member.memberAddress}</span>
+                    {isCurrentMember(former.member.memberAddress) && (
+                      <Badge bg="primary" className="ms-2">Member again</Badge>
+                    )}
+                    <div className="text-muted">{former.member.x500Name}</div>
+                    <div className="text-muted font-monospace">
+                      {former.member.certSerialHex} · {formatEndpoint(former.member.host, former.member.port)}
+                    </div>
+                  </td>
+                  <td className="text-nowrap small">
+                    {new Date(former.member.joinedAt * 1000).toLocaleDateString()} – {new Date(former.removedAt * 1000).toLocaleDateString()}
+                    {former.previousTenure > 0 && (
+                      <div className="text-muted">Follows #{former.previousTenure}</div>
+                    )}
+                  </td>
+                  <td className="small">
+                    <MemberStateBadge state={former.finalState} className="me-2" />
+                    {STATE_REASONS[former.reason] ?? `Reason ${former.reason}`}
+                    <div className="text-muted text-break font-monospace">by {former.removedBy}</div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+
+        <div className="mt-3">
+          <small className="text-muted">
+            Records shown: {shown.length} of {formerMembers.length}. The state badge is the member's lifecycle state when it was removed.
+          </small>
+        </div>
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default FormerMembers;
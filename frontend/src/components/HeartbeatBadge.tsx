@@ -0,0 +1,34 @@
+import React from 'react';
+import { Badge } from 'react-bootstrap';
+import { HEARTBEAT_STALE_MINUTES, getHeartbeatStatus } from '../utils/contractHelpers';
+import type { HeartbeatStatus, Member } from '../types/contract';
+
+interface HeartbeatBadgeProps {
+  member: Member;
+  staleMinutes?: number;
+  className?: string;
+}
+
+// Only nodes that stopped sending heartbeats, or never sent one, get a badge
+const BADGES: Record<HeartbeatStatus, { bg: string; label: string } | null> = {
+  live: null,
+  stale: { bg: 'danger', label: 'Stale' },
+  none: { bg: 'secondary', label: 'Never seen' }
+};
+
+const HeartbeatBadge: React.FC<HeartbeatBadgeProps> = ({ member, staleMinutes = HEARTBEAT_STALE_MINUTES, className }) => {
+  const badge = BADGES[getHeartbeatStatus(member, staleMinutes)];
+  if (!badge) return null;
+
+  const title = member.lastSeen
+    ? `Last heartbeat ${new Date(member.lastSeen * 1000).toLocaleString()}`
+    : 'No heartbeat received from this node';
+
+  return (
+    <Badge bg={badge.bg} className={className} title={title}>
+      {badge.label}
+    </Badge>
+  );
+};
+
+export default HeartbeatBadge;
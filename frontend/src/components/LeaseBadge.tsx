@@ -0,0 +1,35 @@
+import React from 'react';
+import { Badge } from 'react-bootstrap';
+import { getLeaseStatus } from '../utils/contractHelpers';
+import type { LeaseStatus, Member } from '../types/contract';
+
+interface LeaseBadgeProps {
+  member: Member;
+  className?: string;
+}
+
+// Only leases that need attention get a badge
+const BADGES: Record<LeaseStatus, { bg: string; label: string } | null> = {
+  valid: null,
+  expiring: { bg: 'warning', label: 'Lease expiring' },
+  expired: { bg: 'danger', label: 'Lease expired' },
+  none: null
+};
+
+const LeaseBadge: React.FC<LeaseBadgeProps> = ({ member, className }) => {
+  const badge = BADGES[getLeaseStatus(member)];
+  if (!badge) return null;
+
+  return (
+    <Badge
+      bg={badge.bg}
+      text={badge.bg === 'warning' ? 'dark' : undefined}
+      className={className}
+      title={`Lease ends ${new Date(member.expiresAt * 1000).toLocaleString()}`}
+    >
+      {badge.label}
+    </Badge>
+  );
+};
+
+export default LeaseBadge;
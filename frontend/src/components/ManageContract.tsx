@@ -1,16 +1,181 @@
-import React, { useState } from 'react';
-import { Card, Form, Button, Spinner } from 'react-bootstrap';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, Form, Button, Spinner, Table, Row, Col } from 'react-bootstrap';
 import { toast } from 'react-toastify';
+import contractService, { ROLES } from '../utils/contractHelpers';
+import type { Role } from '../types/contract';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
 
 interface ManageContractProps {
   currentManager: string;
+  pendingManager: string;
+  isManager: boolean;
+  isAdmin: boolean;
+  isPendingManager: boolean;
   onTransferManager: (newManagerAddress: string) => Promise<void>;
+  onAcceptManager: () => Promise<void>;
+  onCancelTransfer: () => Promise<void>;
+  onGrantRole: (role: Role, address: string) => Promise<void>;
+  onRevokeRole: (role: Role, address: string) => Promise<void>;
+  approvalThreshold: number;
+  onSetApprovalThreshold: (threshold: number) => Promise<void>;
+  metadataSelfService: boolean;
+  onSetMetadataSelfService: (enabled: boolean) => Promise<void>;
+  joinRequestRequired: boolean;
+  onSetJoinRequestRequired: (required: boolean) => Promise<void>;
+  defaultLeaseDuration: number;
+  onSetDefaultLeaseDuration: (seconds: number) => Promise<void>;
+  minPlatformVersion: number;
+  onSetMinPlatformVersion: (version: number) => Promise<void>;
+  isPauser: boolean;
+  isPaused: boolean;
+  onPause: () => Promise<void>;
+  onUnpause: () => Promise<void>;
   loading: boolean;
 }
 
-const ManageContract: React.FC<ManageContractProps> = ({ currentManager, onTransferManager, loading }) => {
+const ManageContract: React.FC<ManageContractProps> = ({
+  currentManager,
+  pendingManager,
+  isManager,
+  isAdmin,
+  isPendingManager,
+  onTransferManager,
+  onAcceptManager,
+  onCancelTransfer,
+  onGrantRole,
+  onRevokeRole,
+  approvalThreshold,
+  onSetApprovalThreshold,
+  metadataSelfService,
+  onSetMetadataSelfService,
+  joinRequestRequired,
+  onSetJoinRequestRequired,
+  defaultLeaseDuration,
+  onSetDefaultLeaseDuration,
+  minPlatformVersion,
+  onSetMinPlatformVersion,
+  isPauser,
+  isPaused,
+  onPause,
+  onUnpause,
+  loading
+}) => {
   const [newManager, setNewManager] = useState('');
   const [validated, setValidated] = useState(false);
+  const [roleHolders, setRoleHolders] = useState<Partial<Record<Role, string[]>>>({});
+  const [grantAddress, setGrantAddress] = useState('');
+  const [grantRole, setGrantRole] = useState<Role>('registrar');
+  const [threshold, setThreshold] = useState(String(approvalThreshold));
+
+  const [leaseDays, setLeaseDays] = useState(String(defaultLeaseDuration / SECONDS_PER_DAY));
+  const [minVersion, setMinVersion] = useState(String(minPlatformVersion));
+
+  useEffect(() => {
+    setThreshold(String(approvalThreshold));
+  }, [approvalThreshold]);
+
+  useEffect(() => {
+    setLeaseDays(String(defaultLeaseDuration / SECONDS_PER_DAY));
+  }, [defaultLeaseDuration]);
+
+  useEffect(() => {
+    setMinVersion(String(minPlatformVersion));
+  }, [minPlatformVersion]);
+
+  const fetchRoleHolders = useCallback(async () => {
+    try {
+      const holders: Partial<Record<Role, string[]>> = {};
+      for (const role of ROLES) {
+        holders[role] = await contractService.getRoleMembers(role);
+      }
+      setRoleHolders(holders);
+    } catch (error) {
+      toast.error('Unable to load role holders');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRoleHolders();
+  }, [fetchRoleHolders]);
+
+  const handleGrant = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!grantAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
+      toast.error('Please enter a valid Ethereum address (0x followed by 40 hex characters)');
+      return;
+    }
+
+    await onGrantRole(grantRole, grantAddress);
+    setGrantAddress('');
+    await fetchRoleHolders();
+  };
+
+  const handleThresholdSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const newThreshold = parseInt(threshold);
+    if (isNaN(newThreshold) || newThreshold < 1) {
+      toast.error('Approval threshold must be at least 1');
+      return;
+    }
+
+    onSetApprovalThreshold(newThreshold);
+  };
+
+  const handleLeaseSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const days = parseInt(leaseDays, 10);
+    if (isNaN(days) || days < 0) {
+      toast.error('Lease duration cannot be negative');
+      return;
+    }
+
+    onSetDefaultLeaseDuration(days * SECONDS_PER_DAY);
+  };
+
+  const handleMinVersionSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const version = parseInt(minVersion, 10);
+    if (isNaN(version) || version < 0 || version > 65535) {
+      toast.error('Minimum platform version must be between 0 and 65535');
+      return;
+    }
+
+    onSetMinPlatformVersion(version);
+  };
+
+  const handleRevoke = async (role: Role, address: string) => {
+    if (window.confirm(`Are you sure you want to revoke the ${role} role from ${address}?`)) {
+      await onRevokeRole(role, address);
+      await fetchRoleHolders();
+    }
+  };
+
+  const handleAccept = () => {
+    if (window.confirm('Accept the manager role for this NetworkManager contract?')) {
+      onAcceptManager();
+    }
+  };
+
+  const handleCancelTransfer = () => {
+    if (window.confirm(`Cancel the pending nomination of ${pendingManager}?`)) {
+      onCancelTransfer();
+    }
+  };
+
+  const handlePauseToggle = () => {
+    if (isPaused) {
+      if (window.confirm('Unpause the registry? Member, certificate and proposal changes will be allowed again.')) {
+        onUnpause();
+      }
+    } else if (window.confirm('Pause the registry? All member, certificate and proposal changes will be blocked until it is unpaused.')) {
+      onPause();
+    }
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setNewManager(e.target.value);
@@ -33,7 +198,7 @@ const ManageContract: React.FC<ManageContractProps> = ({ currentManager, onTrans
       return;
     }
     
-    if (window.confirm(`Are you sure you want to transfer the manager role to ${newManager}? This action cannot be undone.`)) {
+    if (window.confirm(`Nominate ${newManager} as the new manager? The transfer completes only when they accept.`)) {
       onTransferManager(newManager);
       setNewManager('');
       setValidated(false);
@@ -49,56 +214,272 @@ const ManageContract: React.FC<ManageContractProps> = ({ currentManager, onTrans
           <p className="text-break">{currentManager}</p>
         </div>
 
-        <hr className="my-4" />
-
-        <h6 className="mb-3">Transfer Manager Role</h6>
-        <Form noValidate validated={validated} onSubmit={handleSubmit}>
-          <Form.Group className="mb-3">
-            <Form.Label>New Manager Address</Form.Label>
-            <Form.Control
-              type="text"
-              placeholder="0x..."
-              value={newManager}
-              onChange={handleChange}
-              required
-              pattern="^0x[a-fA-F0-9]{40}$"
+        {pendingManager && (
+          <div className="alert alert-info">
+            <h6>Pending Manager</h6>
+            <p className="text-break mb-2">{pendingManager}</p>
+            <p className="mb-2">
+              The nominee becomes manager once they accept. Until then the current manager keeps control.
+            </p>
+            <div className="d-flex gap-2">
+              {isPendingManager && (
+                <Button variant="success" size="sm" onClick={handleAccept} disabled={loading}>
+                  Accept Manager Role
+                </Button>
+              )}
+              {isManager && (
+                <Button variant="outline-danger" size="sm" onClick={handleCancelTransfer} disabled={loading}>
+                  Cancel Nomination
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {isPauser && (
+          <>
+            <hr className="my-4" />
+
+            <h6 className="mb-3">Emergency Pause</h6>
+            <p className="mb-2">
+              The registry is currently <strong>{isPaused ? 'paused' : 'active'}</strong>.
+              {' '}Pausing blocks every member, certificate and proposal change; roles and ownership can still be managed.
+            </p>
+            <Button variant={isPaused ? 'success' : 'danger'} onClick={handlePauseToggle} disabled={loading}>
+              {isPaused ? 'Unpause Registry' : 'Pause Registry'}
+            </Button>
+          </>
+        )}
+
+        {isAdmin && (
+          <>
+            <hr className="my-4" />
+
+            <h6 className="mb-3">Roles</h6>
+            <Table responsive size="sm">
+              <thead>
+                <tr>
+                  <th>Role</th>
+                  <th>Holder</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {ROLES.flatMap(role =>
+                  (roleHolders[role] || []).map(holder => (
+                    <tr key={`${role}-${holder}`}>
+                      <td className="text-capitalize">{role}</td>
+                      <td className="text-break font-monospace">{holder}</td>
+                      <td className="text-end">
+                        <Button
+                          variant="outline-danger"
+                          size="sm"
+                          onClick={() => handleRevoke(role, holder)}
+                          disabled={loading}
+                        >
+                          Revoke
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </Table>
+            <Form.Text className="text-muted d-block mb-3">
+              Roles are separate from the manager: the deploying account starts with every role but auditor and can revoke its own once they are handed out.
+            </Form.Text>
+
+            <Form onSubmit={handleGrant}>
+              <Row className="g-2">
+                <Col md={6}>
+                  <Form.Control
+                    type="text"
+                    placeholder="0x..."
+                    value={grantAddress}
+                    onChange={(e) => setGrantAddress(e.target.value)}
+                  />
+                </Col>
+                <Col md={3}>
+                  <Form.Select
+                    value={grantRole}
+                    onChange={(e) => setGrantRole(e.target.value as Role)}
+                    className="text-capitalize"
+                  >
+                    {ROLES.map(role => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </Form.Select>
+                </Col>
+                <Col md={3}>
+                  <Button variant="primary" type="submit" disabled={loading} className="w-100">
+                    Grant Role
+                  </Button>
+                </Col>
+              </Row>
+            </Form>
+
+            <hr className="my-4" />
+
+            <h6 className="mb-3">Approval Threshold</h6>
+            <Form onSubmit={handleThresholdSubmit}>
+              <Row className="g-2">
+                <Col md={3}>
+                  <Form.Control
+                    type="number"
+                    min={1}
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                  />
+                </Col>
+                <Col md={3}>
+                  <Button variant="primary" type="submit" disabled={loading} className="w-100">
+                    Set Threshold
+                  </Button>
+                </Col>
+              </Row>
+              <Form.Text className="text-muted">
+                Number of registrar approvals a proposal needs. Above 1, members can only be added,
+                updated or removed through proposals. Raising it takes effect at once; lowering it creates a
+                proposal that needs the current number of approvals.
+              </Form.Text>
+            </Form>
+
+            <hr className="my-4" />
+
+            <h6 className="mb-3">Member Metadata</h6>
+            <Form.Check
+              type="switch"
+              id="metadata-self-service"
+              label="Members can edit metadata on their own record"
+              checked={metadataSelfService}
+              disabled={loading}
+              onChange={(e) => onSetMetadataSelfService(e.target.checked)}
             />
-            <Form.Control.Feedback type="invalid">
-              Please provide a valid Ethereum address.
-            </Form.Control.Feedback>
             <Form.Text className="text-muted">
-              Enter the Ethereum address of the new manager
+              Registrars can always edit any member's metadata.
             </Form.Text>
-          </Form.Group>
 
-          <div className="alert alert-warning">
-            <strong>Warning:</strong> Transferring the manager role will give complete control 
-            of the NetworkManager contract to the new address. This action cannot be undone 
-            unless the new manager transfers it back.
-          </div>
+            <hr className="my-4" />
+
+            <h6 className="mb-3">Signed Join Requests</h6>
+            <Form.Check
+              type="switch"
+              id="join-request-required"
+              label="Members can only be added from a signed join request"
+              checked={joinRequestRequired}
+              disabled={loading}
+              onChange={(e) => onSetJoinRequestRequired(e.target.checked)}
+            />
+            <Form.Text className="text-muted">
+              Leave off while migrating existing nodes. Above an approval threshold of 1, signed join requests are
+              added through a proposal like any other member.
+            </Form.Text>
+
+            <hr className="my-4" />
+
+            <h6 className="mb-3">Default Membership Lease</h6>
+            <Form onSubmit={handleLeaseSubmit}>
+              <Row className="g-2">
+                <Col md={3}>
+                  <Form.Control
+                    type="number"
+                    min={0}
+                    value={leaseDays}
+                    onChange={(e) => setLeaseDays(e.target.value)}
+                  />
+                </Col>
+                <Col md={3}>
+                  <Button variant="primary" type="submit" disabled={loading} className="w-100">
+                    Set Lease (days)
+                  </Button>
+                </Col>
+              </Row>
+              <Form.Text className="text-muted">
+                Lease given to members added from now on; existing leases are unchanged. 0 adds members without a lease.
+              </Form.Text>
+            </Form>
+
+            <hr className="my-4" />
 
-          <Button
-            variant="danger"
-            type="submit"
-            disabled={loading}
-          >
-            {loading ? (
-              <>
-                <Spinner
-                  as="span"
-                  animation="border"
-                  size="sm"
-                  role="status"
-                  aria-hidden="true"
-                  className="me-2"
+            <h6 className="mb-3">Minimum Platform Version</h6>
+            <Form onSubmit={handleMinVersionSubmit}>
+              <Row className="g-2">
+                <Col md={3}>
+                  <Form.Control
+                    type="number"
+                    min={0}
+                    max={65535}
+                    value={minVersion}
+                    onChange={(e) => setMinVersion(e.target.value)}
+                  />
+                </Col>
+                <Col md={3}>
+                  <Button variant="primary" type="submit" disabled={loading} className="w-100">
+                    Set Minimum
+                  </Button>
+                </Col>
+              </Row>
+              <Form.Text className="text-muted">
+                Members below this version are reported as non-compliant but stay registered. 0 means no minimum.
+              </Form.Text>
+            </Form>
+          </>
+        )}
+
+        {isManager && (
+          <>
+            <hr className="my-4" />
+
+            <h6 className="mb-3">Transfer Manager Role</h6>
+            <Form noValidate validated={validated} onSubmit={handleSubmit}>
+              <Form.Group className="mb-3">
+                <Form.Label>New Manager Address</Form.Label>
+                <Form.Control
+                  type="text"
+                  placeholder="0x..."
+                  value={newManager}
+                  onChange={handleChange}
+                  required
+                  pattern="^0x[a-fA-F0-9]{40}$"
                 />
-                Transferring...
-              </>
-            ) : (
-              'Transfer Manager Role'
-            )}
-          </Button>
-        </Form>
+                <Form.Control.Feedback type="invalid">
+                  Please provide a valid Ethereum address.
+                </Form.Control.Feedback>
+                <Form.Text className="text-muted">
+                  Enter the Ethereum address of the new manager
+                </Form.Text>
+              </Form.Group>
+
+              <div className="alert alert-warning">
+                <strong>Note:</strong> The new address is only nominated. It takes over upgrades and
+                organizations once it accepts the role; until then you can cancel the nomination or nominate
+                a different address. Roles do not move with it: grant them under "Roles".
+              </div>
+
+              <Button
+                variant="danger"
+                type="submit"
+                disabled={loading}
+              >
+                {loading ? (
+                  <>
+                    <Spinner
+                      as="span"
+                      animation="border"
+                      size="sm"
+                      role="status"
+                      aria-hidden="true"
+                      className="me-2"
+                    />
+                    Nominating...
+                  </>
+                ) : (
+                  'Nominate New Manager'
+                )}
+              </Button>
+            </Form>
+          </>
+        )}
       </Card.Body>
     </Card>
   );
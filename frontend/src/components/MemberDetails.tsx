@@ -1,37 +1,113 @@
-import React from "react";
-import { Card, Button, Table, Badge } from "react-bootstrap";
-import type { Member } from '../types/contract';
+import React, { useState, useEffect } from "react";
+import { Card, Button, Table, Badge, Form } from "react-bootstrap";
+import contractService, { ENDPOINT_PROTOCOL_LABELS, MEMBER_STATE_TRANSITIONS, REVOCATION_REASONS, STATE_REASONS, isPlatformCompliant } from '../utils/contractHelpers';
+import { formatEndpoint } from '../utils/validationHelpers';
+import CertExpiryBadge from './CertExpiryBadge';
+import MemberMetadataTable from './MemberMetadataTable';
+import MemberHistory from './MemberHistory';
+import LeaseBadge from './LeaseBadge';
+import HeartbeatBadge from './HeartbeatBadge';
+import MemberStateBadge from './MemberStateBadge';
+import type { FormerMember, Member, MemberEndpoint, MemberState } from '../types/contract';
 
 interface MemberDetailsProps {
   member: Member;
-  isManager: boolean;
-  onRemoveMember: (address: string) => Promise<void>;
-  onUpdateStatus: (address: string, isActive: boolean) => Promise<void>;
+  canRegister: boolean;
+  canOperate: boolean;
+  canEditMetadata: boolean;
+  minPlatformVersion: number;
+  earlierTenures: FormerMember[]; // Archived records of this address's previous memberships
+  onRemoveMember: (address: string, reason: number) => Promise<void>;
+  onSetState: (address: string, state: MemberState, reason: number) => Promise<void>;
+  onRevokeCertificate: (certSerialHex: string, reason: number) => Promise<void>;
+  onSetMetadata: (address: string, key: string, value: string) => Promise<boolean>;
 }
 
+// Button that moves a member into each state; no transition leads back to Pending
+const TRANSITION_BUTTONS: Record<MemberState, { label: string; variant: string }> = {
+  Pending: { label: "Set Pending", variant: "info" },
+  Active: { label: "Activate", variant: "success" },
+  Suspended: { label: "Suspend", variant: "warning" },
+  Retiring: { label: "Start Retiring", variant: "secondary" },
+  Retired: { label: "Retire", variant: "dark" },
+};
+
 const MemberDetails: React.FC<MemberDetailsProps> = ({
   member,
-  isManager,
+  canRegister,
+  canOperate,
+  canEditMetadata,
+  minPlatformVersion,
+  earlierTenures,
   onRemoveMember,
-  onUpdateStatus,
+  onSetState,
+  onRevokeCertificate,
+  onSetMetadata,
 }) => {
+  const [isRevoked, setIsRevoked] = useState(false);
+  const [revocationReason, setRevocationReason] = useState(0);
+  const [stateReason, setStateReason] = useState(0);
+  const [removalReason, setRemovalReason] = useState(0);
+  const [endpoints, setEndpoints] = useState<MemberEndpoint[]>([]);
+
+  useEffect(() => {
+    const fetchRevocationStatus = async () => {
+      if (!member?.certSerialHex || member.certSerialHex === '0x') {
+        setIsRevoked(false);
+        return;
+      }
+
+      try {
+        setIsRevoked(await contractService.isSerialRevoked(member.certSerialHex));
+      } catch (error) {
+        setIsRevoked(false);
+      }
+    };
+
+    fetchRevocationStatus();
+  }, [member?.certSerialHex]);
+
+  // Keyed on the member object, which is replaced after every update to it
+  useEffect(() => {
+    const fetchEndpoints = async () => {
+      try {
+        setEndpoints(await contractService.getMemberEndpoints(member.memberAddress));
+      } catch (error) {
+        setEndpoints([]);
+      }
+    };
+
+    fetchEndpoints();
+  }, [member]);
+
   if (!member) return null;
 
   const handleRemove = () => {
-    if (window.confirm("Are you sure you want to remove this member?")) {
-      onRemoveMember(member.memberAddress);
+    if (window.confirm(`Are you sure you want to remove this member (${STATE_REASONS[removalReason]})? Its record will be kept under Former Members.`)) {
+      onRemoveMember(member.memberAddress, removalReason);
+    }
+  };
+
+  const handleStateChange = (state: MemberState) => {
+    if (
+      window.confirm(
+        `Are you sure you want to move this member from ${member.state} to ${state} (${STATE_REASONS[stateReason]})?`
+      )
+    ) {
+      onSetState(member.memberAddress, state, stateReason);
     }
   };
 
-  const handleStatusChange = () => {
+  const nextStates = MEMBER_STATE_TRANSITIONS[member.state];
+
+  const handleRevoke = async () => {
     if (
       window.confirm(
-        `Are you sure you want to set this member to ${
-          member.isActive ? "inactive" : "active"
-        }?`
+        `Are you sure you want to revoke certificate ${member.certSerialHex} (${REVOCATION_REASONS[revocationReason]})? Revocation cannot be undone.`
       )
     ) {
-      onUpdateStatus(member.memberAddress, !member.isActive);
+      await onRevokeCertificate(member.certSerialHex, revocationReason);
+      setIsRevoked(await contractService.isSerialRevoked(member.certSerialHex));
     }
   };
 
@@ -39,9 +115,7 @@ const MemberDetails: React.FC<MemberDetailsProps> = ({
     <Card className="shadow-sm">
       <Card.Header as="h5">
         Member Details
-        <Badge bg={member.isActive ? "success" : "danger"} className="ms-2">
-          {member.isActive ? "Active" : "Inactive"}
-        </Badge>
+        <MemberStateBadge state={member.state} className="ms-2" />
       </Card.Header>
       <Card.Body>
         <Table responsive>
@@ -56,36 +130,175 @@ const MemberDetails: React.FC<MemberDetailsProps> = ({
             </tr>
             <tr>
               <th>Certificate Serial (Hex):</th>
-              <td className="text-break font-monospace">{member.certSerialHex || "Not set"}</td>
+              <td className="text-break font-monospace">
+                {member.certSerialHex || "Not set"}
+                {isRevoked && (
+                  <Badge bg="danger" className="ms-2">Revoked</Badge>
+                )}
+              </td>
             </tr>
             <tr>
-              <th>Platform Version:</th>
-              <td>{member.platformVersion || "Not set"}</td>
+              <th>Certificate Fingerprint:</th>
+              <td className="text-break font-monospace">
+                {member.certNotAfter ? member.certFingerprint : "Not registered"}
+              </td>
+            </tr>
+            <tr>
+              <th>Certificate Validity:</th>
+              <td>
+                {member.certNotAfter ? (
+                  <>
+                    {new Date(member.certNotBefore * 1000).toLocaleString()} – {new Date(member.certNotAfter * 1000).toLocaleString()}
+                    <CertExpiryBadge member={member} className="ms-2" />
+                  </>
+                ) : (
+                  "Not registered"
+                )}
+              </td>
+            </tr>
+            <tr>
+              <th>Membership Lease:</th>
+              <td>
+                {member.expiresAt ? (
+                  <>
+                    Until {new Date(member.expiresAt * 1000).toLocaleString()}
+                    <LeaseBadge member={member} className="ms-2" />
+                  </>
+                ) : (
+                  "No expiry"
+                )}
+              </td>
             </tr>
             <tr>
-              <th>Host:</th>
-              <td>{member.host || "Not set"}</td>
+              <th>Last Heartbeat:</th>
+              <td>
+                {member.lastSeen ? (
+                  <>
+                    {new Date(member.lastSeen * 1000).toLocaleString()}
+                    <HeartbeatBadge member={member} className="ms-2" />
+                  </>
+                ) : (
+                  <>
+                    Never
+                    <HeartbeatBadge member={member} className="ms-2" />
+                  </>
+                )}
+              </td>
             </tr>
             <tr>
-              <th>Port:</th>
-              <td>{member.port || "Not set"}</td>
+              <th>Platform Version:</th>
+              <td>
+                {member.platformVersion || "Not set"}
+                {!isPlatformCompliant(member, minPlatformVersion) && (
+                  <Badge bg="danger" className="ms-2">Below minimum ({minPlatformVersion})</Badge>
+                )}
+              </td>
+            </tr>
+            {earlierTenures.length > 0 && (
+              <tr>
+                <th>Earlier Tenures:</th>
+                <td>
+                  {earlierTenures.map(tenure => (
+                    <div key={tenure.tenureId} className="small">
+                      #{tenure.tenureId}: {new Date(tenure.member.joinedAt * 1000).toLocaleDateString()} – {new Date(tenure.removedAt * 1000).toLocaleDateString()} ({STATE_REASONS[tenure.reason] ?? tenure.reason})
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </Table>
+
+        <h6 className="mb-2">Endpoints</h6>
+        <Table responsive size="sm" className="mb-3">
+          <tbody>
+            <tr>
+              <td className="w-25">
+                {ENDPOINT_PROTOCOL_LABELS.p2p}
+                <Badge bg="light" text="dark" className="ms-2 border">Primary</Badge>
+              </td>
+              <td className="text-break font-monospace small">{formatEndpoint(member.host, member.port)}</td>
             </tr>
+            {endpoints.map(endpoint => (
+              <tr key={formatEndpoint(endpoint.host, endpoint.port)}>
+                <td>{ENDPOINT_PROTOCOL_LABELS[endpoint.protocol]}</td>
+                <td className="text-break font-monospace small">{formatEndpoint(endpoint.host, endpoint.port)}</td>
+              </tr>
+            ))}
           </tbody>
         </Table>
 
-        {isManager && (
+        <h6 className="mb-2">Metadata</h6>
+        <div className="mb-3">
+          <MemberMetadataTable
+            memberAddress={member.memberAddress}
+            canEdit={canEditMetadata}
+            onSetMetadata={onSetMetadata}
+          />
+        </div>
+
+        {canOperate && nextStates.length > 0 && (
+          <div className="d-flex flex-wrap gap-2 mb-3">
+            <Form.Select
+              value={stateReason}
+              onChange={(e) => setStateReason(Number(e.target.value))}
+              style={{ maxWidth: "220px" }}
+            >
+              {STATE_REASONS.map((reason, code) => (
+                <option key={reason} value={code}>
+                  {reason}
+                </option>
+              ))}
+            </Form.Select>
+            {nextStates.map(state => (
+              <Button key={state} variant={TRANSITION_BUTTONS[state].variant} onClick={() => handleStateChange(state)}>
+                {TRANSITION_BUTTONS[state].label}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {canRegister && (
           <div className="d-flex gap-2">
-            <Button
-              variant={member.isActive ? "warning" : "success"}
-              onClick={handleStatusChange}
+            <Form.Select
+              value={removalReason}
+              onChange={(e) => setRemovalReason(Number(e.target.value))}
+              style={{ maxWidth: "220px" }}
             >
-              Set {member.isActive ? "Inactive" : "Active"}
-            </Button>
+              {STATE_REASONS.map((reason, code) => (
+                <option key={reason} value={code}>
+                  {reason}
+                </option>
+              ))}
+            </Form.Select>
             <Button variant="danger" onClick={handleRemove}>
               Remove Member
             </Button>
           </div>
         )}
+
+        {canRegister && !isRevoked && member.certSerialHex && member.certSerialHex !== "0x" && (
+          <div className="d-flex gap-2 mt-3">
+            <Form.Select
+              size="sm"
+              value={revocationReason}
+              onChange={(e) => setRevocationReason(Number(e.target.value))}
+              style={{ maxWidth: "220px" }}
+            >
+              {REVOCATION_REASONS.map((reason, code) => (
+                <option key={reason} value={code}>
+                  {reason}
+                </option>
+              ))}
+            </Form.Select>
+            <Button variant="outline-danger" size="sm" onClick={handleRevoke}>
+              Revoke Certificate
+            </Button>
+          </div>
+        )}
+
+        <h6 className="mt-4 mb-2">History</h6>
+        <MemberHistory memberAddress={member.memberAddress} />
       </Card.Body>
     </Card>
   );
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { Button, Badge, ListGroup, Table, Spinner } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import contractService from '../utils/contractHelpers';
+import type { MemberFieldChange, MemberHistoryEntry } from '../types/contract';
+
+interface MemberHistoryProps {
+  memberAddress: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  x500Name: 'X.500 Name',
+  certSerialHex: 'Certificate Serial',
+  isActive: 'Status',
+  platformVersion: 'Platform Version',
+  host: 'Host',
+  port: 'Port',
+  certFingerprint: 'Certificate Fingerprint',
+  certNotBefore: 'Certificate Valid From',
+  certNotAfter: 'Certificate Valid Until',
+  expiresAt: 'Membership Lease',
+  endpoints: 'Additional Endpoints',
+  state: 'Lifecycle State'
+};
+
+const TIMESTAMP_FIELDS = ['certNotBefore', 'certNotAfter', 'expiresAt'];
+
+const formatValue = (field: string, value: string): string => {
+  if (value === '' || (TIMESTAMP_FIELDS.includes(field) && value === '0')) return '—';
+  if (field === 'isActive') return value === 'true' ? 'Active' : 'Inactive';
+  if (TIMESTAMP_FIELDS.includes(field)) return new Date(Number(value) * 1000).toLocaleString();
+  return value;
+};
+
+const fieldLabel = (change: MemberFieldChange): string =>
+  change.field.startsWith('metadata.')
+    ? `Metadata "${change.field.slice('metadata.'.length)}"`
+    : FIELD_LABELS[change.field] ?? change.field;
+
+/**
+ * Timeline of every change to a member, newest first, with the block and the account that made it.
+ * Loaded on demand because it reads the contract's state at each past block.
+ */
+const MemberHistory: React.FC<MemberHistoryProps> = ({ memberAddress }) => {
+  const [entries, setEntries] = useState<MemberHistoryEntry[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setEntries(null);
+  }, [memberAddress]);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      setEntries(await contractService.getMemberHistory(memberAddress));
+    } catch (error) {
+      console.error('Error loading member history:', error);
+      toast.error(`Error loading history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (entries === null) {
+    return (
+      <Button variant="outline-secondary" size="sm" onClick={loadHistory} disabled={loading}>
+        {loading ? (
+          <>
+            <Spinner as="span" animation="border" size="sm" role="status" aria-hidden="true" className="me-2" />
+            Loading history...
+          </>
+        ) : (
+          'Load history'
+        )}
+      </Button>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-muted small">No changes recorded</p>;
+  }
+
+  return (
+    <ListGroup variant="flush">
+      {[...entries].reverse().map(entry => (
+        <ListGroup.Item key={entry.transactionHash} className="px-0">
+          <div className="d-flex flex-wrap justify-content-between gap-2">
+            <strong>{new Date(entry.timestamp * 1000).toLocaleString()}</strong>
+            <span className="text-muted small">Block {entry.blockNumber}</span>
+          </div>
+          <div className="small text-break">
+            By <span className="font-monospace">{entry.sender}</span>
+          </div>
+          <div className="small text-muted text-break font-monospace">{entry.transactionHash}</div>
+          <div className="my-1">
+            {entry.events.map((event, i) => (
+              <Badge key={i} bg="light" text="dark" className="me-1 border">{event}</Badge>
+            ))}
+          </div>
+
+          {entry.stateUnavailable && (
+            <p className="small text-warning mb-0">
+              The node could not return the member's state at this block, so field changes are not shown.
+            </p>
+          )}
+
+          {entry.changes.length > 0 && (
+            <Table size="sm" className="mb-0 small">
+              <tbody>
+                {entry.changes.map(change => (
+                  <tr key={change.field}>
+                    <th className="fw-normal text-muted w-25">{fieldLabel(change)}</th>
+                    <td className="text-break">
+                      {formatValue(change.field, change.previous)} → {formatValue(change.field, change.current)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+        </ListGroup.Item>
+      ))}
+    </ListGroup>
+  );
+};
+
+export default MemberHistory;
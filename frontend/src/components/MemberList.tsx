@@ -1,64 +1,118 @@
 import React, { useState, useEffect } from 'react';
-import { ListGroup, Card, Form, Spinner } from 'react-bootstrap';
-import contractService from '../utils/contractHelpers';
+import { ListGroup, Card, Form, Spinner, Row, Col } from 'react-bootstrap';
+import { HEARTBEAT_STALE_MINUTES, MEMBER_STATES, getHeartbeatStatus } from '../utils/contractHelpers';
+import CertExpiryBadge from './CertExpiryBadge';
+import LeaseBadge from './LeaseBadge';
+import HeartbeatBadge from './HeartbeatBadge';
+import MemberStateBadge from './MemberStateBadge';
+import type { Member, MemberState, Organization } from '../types/contract';
 
 interface MemberListProps {
-  members: string[];
+  members: Member[];
+  organizations: Organization[];
   onSelectMember: (address: string) => Promise<void>;
   loading: boolean;
 }
 
-const MemberList: React.FC<MemberListProps> = ({ members, onSelectMember, loading }) => {
+// Heartbeat ages, in minutes, after which a node can be flagged as stale
+const STALE_THRESHOLD_OPTIONS = [...new Set([5, HEARTBEAT_STALE_MINUTES, 60, 240, 1440])].sort((a, b) => a - b);
+
+// Common name (CN) part of an X.500 name, e.g. "node-abc" for "C=US, O=MyOrg, CN=node-abc"
+const getCommonName = (x500Name: string): string => {
+  const match = x500Name.match(/(?:^|,)\s*CN=([^,]+)/i);
+  return match ? match[1].trim() : '';
+};
+
+// Matches an address substring, a certificate serial (with or without 0x) or a CN substring
+const matchesSearch = (member: Member, searchTerm: string): boolean => {
+  const term = searchTerm.trim().toLowerCase();
+  if (!term) return true;
+
+  const serialTerm = term.replace(/^0x/, '');
+  const commonNameTerm = term.replace(/^cn=/, '');
+
+  return (
+    member.memberAddress.toLowerCase().includes(term) ||
+    (serialTerm.length > 0 && member.certSerialHex.toLowerCase().replace(/^0x/, '').includes(serialTerm)) ||
+    getCommonName(member.x500Name).toLowerCase().includes(commonNameTerm)
+  );
+};
+
+// Members grouped under their organization, in organization order, then the members outside any organization
+const groupByOrganization = (
+  members: Member[],
+  organizations: Organization[]
+): { title: string; members: Member[] }[] => {
+  const organizationOf = new Map<string, number>();
+  organizations.forEach(organization =>
+    organization.members.forEach(address => organizationOf.set(address.toLowerCase(), organization.id))
+  );
+
+  const groups = organizations.map(organization => ({
+    title: `${organization.name} (${organization.memberCount}/${organization.nodeQuota} nodes)`,
+    members: members.filter(member => organizationOf.get(member.memberAddress.toLowerCase()) === organization.id)
+  }));
+  groups.push({
+    title: 'No organization',
+    members: members.filter(member => !organizationOf.has(member.memberAddress.toLowerCase()))
+  });
+
+  return groups.filter(group => group.members.length > 0);
+};
+
+const MemberList: React.FC<MemberListProps> = ({ members, organizations, onSelectMember, loading }) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [filteredMembers, setFilteredMembers] = useState<string[]>([]);
-  const [memberStatus, setMemberStatus] = useState<Record<string, boolean>>({});
+  const [stateFilter, setStateFilter] = useState<MemberState | ''>('');
+  const [staleMinutes, setStaleMinutes] = useState(HEARTBEAT_STALE_MINUTES);
+  const [filteredMembers, setFilteredMembers] = useState<Member[]>([]);
 
   useEffect(() => {
     if (!members) return;
 
-    const filtered = members.filter(address => 
-      address.toLowerCase().includes(searchTerm.toLowerCase())
+    const filtered = members.filter(member =>
+      matchesSearch(member, searchTerm) && (stateFilter === '' || member.state === stateFilter)
     );
     setFilteredMembers(filtered);
-  }, [members, searchTerm]);
-
-  useEffect(() => {
-    const fetchMemberStatus = async () => {
-      if (!members || members.length === 0) return;
-      
-      const statusObj: Record<string, boolean> = {};
-      for (const address of members) {
-        try {
-          const exists = await contractService.isMember(address);
-          if (!exists) {
-            statusObj[address] = false;
-            continue;
-          }
-          
-          const member = await contractService.getMember(address);
-          statusObj[address] = member.isActive;
-        } catch (error) {
-          statusObj[address] = false;
-        }
-      }
-      setMemberStatus(statusObj);
-    };
-
-    fetchMemberStatus();
-  }, [members]);
+  }, [members, searchTerm, stateFilter]);
 
   return (
     <Card className="shadow-sm">
       <Card.Header as="h5">Network Members</Card.Header>
       <Card.Body>
-        <Form.Control
-          type="text"
-          placeholder="Search members by address"
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="mb-3"
-        />
-        
+        <Row className="g-2 mb-3">
+          <Col sm={6}>
+            <Form.Control
+              type="text"
+              placeholder="Search by address, certificate serial or CN"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </Col>
+          <Col sm={3}>
+            <Form.Select value={stateFilter} onChange={(e) => setStateFilter(e.target.value as MemberState | '')}>
+              <option value="">All states</option>
+              {MEMBER_STATES.map(state => (
+                <option key={state} value={state}>
+                  {state} ({members.filter(member => member.state === state).length})
+                </option>
+              ))}
+            </Form.Select>
+          </Col>
+          <Col sm={3}>
+            <Form.Select
+              value={staleMinutes}
+              onChange={(e) => setStaleMinutes(Number(e.target.value))}
+              title="Flag members whose latest heartbeat is older than this"
+            >
+              {STALE_THRESHOLD_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  Stale after {minutes >= 60 ? `${minutes / 60} h` : `${minutes} min`}
+                </option>
+              ))}
+            </Form.Select>
+          </Col>
+        </Row>
+
         {loading ? (
           <div className="text-center p-4">
             <Spinner animation="border" role="status">
@@ -71,28 +125,43 @@ const MemberList: React.FC<MemberListProps> = ({ members, onSelectMember, loadin
           </div>
         ) : (
           <ListGroup variant="flush">
-            {filteredMembers.map(address => (
-              <ListGroup.Item
-                key={address}
-                action
-                onClick={() => onSelectMember(address)}
-                className="d-flex justify-content-between align-items-center"
-              >
-                <div className="text-truncate" style={{ maxWidth: '80%' }}>
-                  {address}
-                </div>
-                {memberStatus[address] !== undefined && (
-                  <span className={`badge ${memberStatus[address] ? 'bg-success' : 'bg-danger'}`}>
-                    {memberStatus[address] ? 'Active' : 'Inactive'}
-                  </span>
+            {groupByOrganization(filteredMembers, organizations).map(group => (
+              <React.Fragment key={group.title}>
+                {organizations.length > 0 && (
+                  <ListGroup.Item variant="light" className="fw-semibold small">{group.title}</ListGroup.Item>
                 )}
-              </ListGroup.Item>
+                {group.members.map(member => (
+                  <ListGroup.Item
+                    key={member.memberAddress}
+                    action
+                    onClick={() => onSelectMember(member.memberAddress)}
+                    className="d-flex justify-content-between align-items-center"
+                  >
+                    <div className="text-truncate" style={{ maxWidth: '80%' }}>
+                      {member.memberAddress}
+                      {getCommonName(member.x500Name) && (
+                        <div className="small text-muted text-truncate">{getCommonName(member.x500Name)}</div>
+                      )}
+                    </div>
+                    <div className="text-nowrap">
+                      <CertExpiryBadge member={member} className="me-1" />
+                      <LeaseBadge member={member} className="me-1" />
+                      <HeartbeatBadge member={member} staleMinutes={staleMinutes} className="me-1" />
+                      <MemberStateBadge state={member.state} />
+                    </div>
+                  </ListGroup.Item>
+                ))}
+              </React.Fragment>
             ))}
           </ListGroup>
         )}
-        
+
         <div className="mt-3">
-          <small className="text-muted">Total Members: {members.length}</small>
+          <small className="text-muted">
+            Total Members: {members.length}
+            {' · '}Stale: {members.filter(member => getHeartbeatStatus(member, staleMinutes) === 'stale').length}
+            {' · '}Never seen: {members.filter(member => getHeartbeatStatus(member, staleMinutes) === 'none').length}
+          </small>
         </div>
       </Card.Body>
     </Card>
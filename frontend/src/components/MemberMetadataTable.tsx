@@ -0,0 +1,194 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Table, Form, Button, Spinner } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import contractService from '../utils/contractHelpers';
+import { validateMetadataEntry } from '../utils/validationHelpers';
+import type { MemberMetadataEntry } from '../types/contract';
+
+interface MemberMetadataTableProps {
+  memberAddress: string;
+  canEdit: boolean;
+  onSetMetadata: (address: string, key: string, value: string) => Promise<boolean>;
+}
+
+/**
+ * Free-form key/value attributes of a member (region, operator contact, hardware class, ...).
+ * Rows are edited in place; saving an empty value removes the key on-chain.
+ */
+const MemberMetadataTable: React.FC<MemberMetadataTableProps> = ({ memberAddress, canEdit, onSetMetadata }) => {
+  const [entries, setEntries] = useState<MemberMetadataEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingKey, setEditingKey] = useState('');
+  const [editValue, setEditValue] = useState('');
+  const [newKey, setNewKey] = useState('');
+  const [newValue, setNewValue] = useState('');
+
+  const loadMetadata = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEntries(await contractService.getMemberMetadata(memberAddress));
+    } catch (error) {
+      console.error('Error loading member metadata:', error);
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [memberAddress]);
+
+  useEffect(() => {
+    setEditingKey('');
+    loadMetadata();
+  }, [loadMetadata]);
+
+  const save = async (key: string, value: string): Promise<boolean> => {
+    const validation = validateMetadataEntry(key, value);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return false;
+    }
+
+    setSaving(true);
+    const success = await onSetMetadata(memberAddress, key.trim(), value);
+    setSaving(false);
+
+    if (success) {
+      await loadMetadata();
+    }
+    return success;
+  };
+
+  const handleEditSave = async () => {
+    if (await save(editingKey, editValue)) {
+      setEditingKey('');
+    }
+  };
+
+  const handleRemove = async (key: string) => {
+    if (window.confirm(`Remove metadata "${key}"?`)) {
+      await save(key, '');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!newValue) {
+      toast.error('Metadata value is required');
+      return;
+    }
+    if (entries.some(entry => entry.key === newKey.trim())) {
+      toast.error(`Metadata "${newKey.trim()}" already exists; edit it instead`);
+      return;
+    }
+
+    if (await save(newKey, newValue)) {
+      setNewKey('');
+      setNewValue('');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center p-2">
+        <Spinner animation="border" size="sm" role="status">
+          <span className="visually-hidden">Loading...</span>
+        </Spinner>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {entries.length === 0 ? (
+        <p className="text-muted small">No metadata set</p>
+      ) : (
+        <Table responsive size="sm">
+          <thead>
+            <tr>
+              <th>Key</th>
+              <th>Value</th>
+              {canEdit && <th></th>}
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.key}>
+                <td className="font-monospace small">{entry.key}</td>
+                <td className="text-break">
+                  {editingKey === entry.key ? (
+                    <Form.Control
+                      size="sm"
+                      type="text"
+                      value={editValue}
+                      onChange={(e) => setEditValue(e.target.value)}
+                    />
+                  ) : (
+                    entry.value
+                  )}
+                </td>
+                {canEdit && (
+                  <td className="text-nowrap text-end">
+                    {editingKey === entry.key ? (
+                      <>
+                        <Button variant="primary" size="sm" className="me-1" onClick={handleEditSave} disabled={saving}>
+                          Save
+                        </Button>
+                        <Button variant="secondary" size="sm" onClick={() => setEditingKey('')} disabled={saving}>
+                          Cancel
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button
+                          variant="outline-primary"
+                          size="sm"
+                          className="me-1"
+                          onClick={() => {
+                            setEditingKey(entry.key);
+                            setEditValue(entry.value);
+                          }}
+                          disabled={saving}
+                        >
+                          Edit
+                        </Button>
+                        <Button variant="outline-danger" size="sm" onClick={() => handleRemove(entry.key)} disabled={saving}>
+                          Remove
+                        </Button>
+                      </>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+
+      {canEdit && (
+        <Form onSubmit={handleAdd} className="d-flex gap-2">
+          <Form.Control
+            size="sm"
+            type="text"
+            placeholder="Key (e.g. region)"
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            style={{ maxWidth: '180px' }}
+          />
+          <Form.Control
+            size="sm"
+            type="text"
+            placeholder="Value"
+            value={newValue}
+            onChange={(e) => setNewValue(e.target.value)}
+          />
+          <Button variant="outline-primary" size="sm" type="submit" disabled={saving}>
+            Add
+          </Button>
+        </Form>
+      )}
+    </>
+  );
+};
+
+export default MemberMetadataTable;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Badge } from 'react-bootstrap';
+import type { MemberState } from '../types/contract';
+
+interface MemberStateBadgeProps {
+  state: MemberState;
+  className?: string;
+}
+
+const BADGE_COLORS: Record<MemberState, string> = {
+  Pending: 'info',
+  Active: 'success',
+  Suspended: 'warning',
+  Retiring: 'secondary',
+  Retired: 'dark'
+};
+
+const MemberStateBadge: React.FC<MemberStateBadgeProps> = ({ state, className }) => (
+  <Badge
+    bg={BADGE_COLORS[state]}
+    text={['info', 'warning'].includes(BADGE_COLORS[state]) ? 'dark' : undefined}
+    className={className}
+  >
+    {state}
+  </Badge>
+);
+
+export default MemberStateBadge;
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { Card, Form, Button, Spinner, Table, Row, Col } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import contractService from '../utils/contractHelpers';
+import { normalizeHost, validateEndpoints, validateHost, validatePort, validatePlatformVersion } from '../utils/validationHelpers';
+import EndpointListEditor from './EndpointListEditor';
+import MemberStateBadge from './MemberStateBadge';
+import type { Member, MemberEndpoint } from '../types/contract';
+
+interface MyNodeProps {
+  member: Member;
+  onUpdateEndpoint: (host: string, port: number, platformVersion: number) => Promise<{ success: boolean; error?: string }>;
+  onSetEndpoints: (address: string, endpoints: MemberEndpoint[]) => Promise<boolean>;
+  loading: boolean;
+}
+
+/**
+ * Self-service panel for the connected account's own node record.
+ * Only the endpoint fields and additional endpoints can be changed here; identity and status stay with registrars and operators.
+ */
+const MyNode: React.FC<MyNodeProps> = ({ member, onUpdateEndpoint, onSetEndpoints, loading }) => {
+  const [host, setHost] = useState(member.host);
+  const [port, setPort] = useState(String(member.port));
+  const [platformVersion, setPlatformVersion] = useState(String(member.platformVersion));
+
+  useEffect(() => {
+    setHost(member.host);
+    setPort(String(member.port));
+    setPlatformVersion(String(member.platformVersion));
+  }, [member.host, member.port, member.platformVersion]);
+
+  const [endpoints, setEndpoints] = useState<MemberEndpoint[]>([]);
+  const [loadedEndpoints, setLoadedEndpoints] = useState<MemberEndpoint[]>([]);
+
+  useEffect(() => {
+    const fetchEndpoints = async () => {
+      try {
+        const memberEndpoints = await contractService.getMemberEndpoints(member.memberAddress);
+        setEndpoints(memberEndpoints);
+        setLoadedEndpoints(memberEndpoints);
+      } catch (error) {
+        console.error('Error loading endpoints:', error);
+      }
+    };
+
+    fetchEndpoints();
+  }, [member.memberAddress]);
+
+  const handleEndpointsSave = async () => {
+    const validation = validateEndpoints(endpoints, member);
+    if (!validation.isValid) {
+      toast.error(validation.error);
+      return;
+    }
+
+    if (await onSetEndpoints(member.memberAddress, endpoints)) {
+      setLoadedEndpoints(endpoints);
+    }
+  };
+
+  const isUnchanged =
+    normalizeHost(host) === member.host &&
+    Number(port) === member.port &&
+    Number(platformVersion) === member.platformVersion;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    for (const validation of [validateHost(host), validatePort(port), validatePlatformVersion(platformVersion)]) {
+      if (!validation.isValid) {
+        toast.error(validation.error);
+        return;
+      }
+    }
+
+    await onUpdateEndpoint(normalizeHost(host), parseInt(port, 10), parseInt(platformVersion, 10));
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header as="h5">
+        My Node
+        <MemberStateBadge state={member.state} className="ms-2" />
+      </Card.Header>
+      <Card.Body>
+        <Table responsive>
+          <tbody>
+            <tr>
+              <th>X.500 Name:</th>
+              <td>{member.x500Name}</td>
+            </tr>
+            <tr>
+              <th>Address:</th>
+              <td className="text-break">{member.memberAddress}</td>
+            </tr>
+            <tr>
+              <th>Certificate Serial (Hex):</th>
+              <td className="text-break font-monospace">{member.certSerialHex || 'Not set'}</td>
+            </tr>
+            <tr>
+              <th>Last Updated:</th>
+              <td>{member.lastUpdated ? new Date(member.lastUpdated * 1000).toLocaleString() : 'Never'}</td>
+            </tr>
+          </tbody>
+        </Table>
+
+        <h6 className="mb-3">Endpoint</h6>
+        <Form onSubmit={handleSubmit}>
+          <Row className="g-2 mb-3">
+            <Col md={6}>
+              <Form.Label>Host</Form.Label>
+              <Form.Control
+                type="text"
+                placeholder="node1.example.com"
+                value={host}
+                onChange={(e) => setHost(e.target.value)}
+              />
+            </Col>
+            <Col md={3}>
+              <Form.Label>Port</Form.Label>
+              <Form.Control
+                type="number"
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+              />
+            </Col>
+            <Col md={3}>
+              <Form.Label>Platform Version</Form.Label>
+              <Form.Control
+                type="number"
+                value={platformVersion}
+                onChange={(e) => setPlatformVersion(e.target.value)}
+              />
+            </Col>
+          </Row>
+          <Form.Text className="text-muted d-block mb-3">
+            Changes are signed by your own account. Ask a registrar to change the X.500 name or certificate serial.
+          </Form.Text>
+
+          <Button variant="primary" type="submit" disabled={loading || isUnchanged}>
+            {loading ? (
+              <>
+                <Spinner
+                  as="span"
+                  animation="border"
+                  size="sm"
+                  role="status"
+                  aria-hidden="true"
+                  className="me-2"
+                />
+                Updating...
+              </>
+            ) : (
+              'Update Endpoint'
+            )}
+          </Button>
+        </Form>
+
+        <h6 className="mt-4 mb-3">Other Endpoints</h6>
+        <EndpointListEditor endpoints={endpoints} onChange={setEndpoints} disabled={loading} />
+        <Button
+          variant="primary"
+          onClick={handleEndpointsSave}
+          disabled={loading || JSON.stringify(endpoints) === JSON.stringify(loadedEndpoints)}
+        >
+          Save Endpoints
+        </Button>
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default MyNode;
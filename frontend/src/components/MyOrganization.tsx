@@ -0,0 +1,101 @@
+import React from 'react';
+import { Card, Button, Table, Row, Col } from 'react-bootstrap';
+import AddMemberForm from './AddMemberForm';
+import MemberStateBadge from './MemberStateBadge';
+import type { Member, MemberFormData, Organization } from '../types/contract';
+
+interface MyOrganizationProps {
+  organization: Organization;
+  members: Member[];
+  onAddMember: (memberData: MemberFormData) => Promise<{ success: boolean; error?: string }>;
+  onRemoveMember: (address: string) => Promise<void>;
+  onUpdateStatus: (address: string, isActive: boolean) => Promise<void>;
+  loading: boolean;
+}
+
+/**
+ * For organization admins: the nodes of their own organization, which they can add, activate,
+ * deactivate and remove without holding a registrar or operator role.
+ */
+const MyOrganization: React.FC<MyOrganizationProps> = ({
+  organization,
+  members,
+  onAddMember,
+  onRemoveMember,
+  onUpdateStatus,
+  loading
+}) => {
+  const organizationMembers = members.filter(member =>
+    organization.members.some(address => address.toLowerCase() === member.memberAddress.toLowerCase())
+  );
+  const quotaReached = organization.memberCount >= organization.nodeQuota;
+
+  const handleRemove = (address: string) => {
+    if (window.confirm(`Are you sure you want to remove member ${address} from ${organization.name}?`)) {
+      onRemoveMember(address);
+    }
+  };
+
+  return (
+    <Row>
+      <Col md={6}>
+        <Card className="shadow-sm">
+          <Card.Header as="h5">{organization.name}</Card.Header>
+          <Card.Body>
+            <p>
+              Nodes: <strong>{organization.memberCount} / {organization.nodeQuota}</strong>
+            </p>
+
+            {organizationMembers.length === 0 ? (
+              <div className="text-center p-4">
+                <p>Your organization has no members yet</p>
+              </div>
+            ) : (
+              <Table responsive size="sm">
+                <tbody>
+                  {organizationMembers.map(member => (
+                    <tr key={member.memberAddress}>
+                      <td className="text-break font-monospace small">
+                        {member.memberAddress}
+                        <MemberStateBadge state={member.state} className="ms-2" />
+                        <div className="text-muted">{member.x500Name}</div>
+                      </td>
+                      <td className="text-end text-nowrap">
+                        {/* Retiring and retired members cannot be reactivated */}
+                        {!['Retiring', 'Retired'].includes(member.state) && (
+                          <Button
+                            variant={member.isActive ? 'outline-warning' : 'outline-success'}
+                            size="sm"
+                            className="me-1"
+                            onClick={() => onUpdateStatus(member.memberAddress, !member.isActive)}
+                            disabled={loading}
+                          >
+                            {member.isActive ? 'Deactivate' : 'Activate'}
+                          </Button>
+                        )}
+                        <Button variant="outline-danger" size="sm" onClick={() => handleRemove(member.memberAddress)} disabled={loading}>
+                          Remove
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            )}
+          </Card.Body>
+        </Card>
+      </Col>
+      <Col md={6}>
+        {quotaReached ? (
+          <div className="p-4 bg-light text-center">
+            <p>Node quota reached. Ask the contract owner to raise it before adding more members.</p>
+          </div>
+        ) : (
+          <AddMemberForm onAddMember={onAddMember} organizationName={organization.name} loading={loading} />
+        )}
+      </Col>
+    </Row>
+  );
+};
+
+export default MyOrganization;
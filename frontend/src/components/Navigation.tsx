@@ -1,10 +1,12 @@
 import React from 'react';
 import { Navbar, Container, Nav, Badge, Button, OverlayTrigger, Tooltip } from 'react-bootstrap';
+import { ROLES } from '../utils/contractHelpers';
+import type { AccountRoles } from '../types/contract';
 
 interface NavigationProps {
   account: string;
   isConnected: boolean;
-  isOwner: boolean;
+  roles: AccountRoles;
   contractAddress: string;
   showDebugPanel: boolean;
   onLogout: () => void;
@@ -14,7 +16,7 @@ interface NavigationProps {
 const Navigation: React.FC<NavigationProps> = ({
   account,
   isConnected,
-  isOwner,
+  roles,
   showDebugPanel,
   onLogout,
   onToggleDebugPanel
@@ -42,9 +44,9 @@ const Navigation: React.FC<NavigationProps> = ({
         <Navbar.Collapse id="basic-navbar-nav" className="justify-content-end">
           {isConnected && (
             <Nav className="ml-auto d-flex align-items-center">
-              {isOwner && (
-                <Badge bg="success" className="me-2">Owner</Badge>
-              )}
+              {ROLES.filter(role => roles[role]).map(role => (
+                <Badge key={role} bg="success" className="me-2 text-capitalize">{role}</Badge>
+              ))}
               <Nav.Item className="d-flex align-items-center text-light me-2">
                 <span
                   className="address-text"
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Card, Form, Button, Table, Row, Col, Badge } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import { isValidAddress } from '../utils/validationHelpers';
+import type { Member, Organization } from '../types/contract';
+
+interface OrganizationsProps {
+  organizations: Organization[];
+  members: Member[];
+  isOwner: boolean;
+  canRegister: boolean;
+  onCreateOrganization: (name: string, nodeQuota: number) => Promise<void>;
+  onSetQuota: (organizationId: number, nodeQuota: number) => Promise<void>;
+  onAddAdmin: (organizationId: number, address: string) => Promise<void>;
+  onRemoveAdmin: (address: string) => Promise<void>;
+  onSetMemberOrganization: (address: string, organizationId: number) => Promise<void>;
+  loading: boolean;
+}
+
+/**
+ * Organizations with their node quota and admins. The owner creates organizations, sets quotas and
+ * appoints admins; registrars move existing members between organizations.
+ */
+const Organizations: React.FC<OrganizationsProps> = ({
+  organizations,
+  members,
+  isOwner,
+  canRegister,
+  onCreateOrganization,
+  onSetQuota,
+  onAddAdmin,
+  onRemoveAdmin,
+  onSetMemberOrganization,
+  loading
+}) => {
+  const [newName, setNewName] = useState('');
+  const [newQuota, setNewQuota] = useState('');
+  const [quotaDrafts, setQuotaDrafts] = useState<Record<number, string>>({});
+  const [adminDrafts, setAdminDrafts] = useState<Record<number, string>>({});
+  const [assignMember, setAssignMember] = useState('');
+  const [assignOrganization, setAssignOrganization] = useState('0');
+
+  const parseQuota = (value: string): number | null => {
+    const quota = parseInt(value, 10);
+    if (isNaN(quota) || quota < 0) {
+      toast.error('Node quota cannot be negative');
+      return null;
+    }
+    return quota;
+  };
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (newName.trim() === '') {
+      toast.error('Organization name is required');
+      return;
+    }
+    const quota = parseQuota(newQuota);
+    if (quota === null) return;
+
+    await onCreateOrganization(newName.trim(), quota);
+    setNewName('');
+    setNewQuota('');
+  };
+
+  const handleSetQuota = (organization: Organization) => {
+    const quota = parseQuota(quotaDrafts[organization.id] ?? '');
+    if (quota === null) return;
+
+    if (quota < organization.memberCount) {
+      toast.error(`${organization.name} already has ${organization.memberCount} members`);
+      return;
+    }
+    onSetQuota(organization.id, quota);
+  };
+
+  const handleAddAdmin = async (organization: Organization) => {
+    const address = (adminDrafts[organization.id] ?? '').trim();
+    if (!isValidAddress(address)) {
+      toast.error('Please enter a valid Ethereum address (0x followed by 40 hex characters)');
+      return;
+    }
+
+    await onAddAdmin(organization.id, address);
+    setAdminDrafts(prev => ({ ...prev, [organization.id]: '' }));
+  };
+
+  const handleAssign = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (assignMember === '') {
+      toast.error('Select a member');
+      return;
+    }
+    onSetMemberOrganization(assignMember, Number(assignOrganization));
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header as="h5">Organizations</Card.Header>
+      <Card.Body>
+        {organizations.length === 0 ? (
+          <div className="text-center p-4">
+            <p>No organizations yet</p>
+          </div>
+        ) : (
+          <Table responsive size="sm">
+            <thead>
+              <tr>
+                <th>Organization</th>
+                <th>Nodes</th>
+                <th>Admins</th>
+              </tr>
+            </thead>
+            <tbody>
+              {organizations.map(organization => (
+                <tr key={organization.id}>
+                  <td>
+                    <strong>{organization.name}</strong>
+                    <div className="text-muted small">#{organization.id}</div>
+                  </td>
+                  <td className="text-nowrap">
+                    {organization.memberCount} / {organization.nodeQuota}
+                    {organization.memberCount >= organization.nodeQuota && (
+                      <Badge bg="warning" text="dark" className="ms-2">Full</Badge>
+                    )}
+                    {isOwner && (
+                      <div className="d-flex gap-1 mt-1">
+                        <Form.Control
+                          type="number"
+                          size="sm"
+                          min={organization.memberCount}
+                          placeholder="New quota"
+                          value={quotaDrafts[organization.id] ?? ''}
+                          onChange={(e) => setQuotaDrafts(prev => ({ ...prev, [organization.id]: e.target.value }))}
+                          style={{ maxWidth: '7rem' }}
+                        />
+                        <Button variant="outline-primary" size="sm" onClick={() => handleSetQuota(organization)} disabled={loading}>
+                          Set
+                        </Button>
+                      </div>
+                    )}
+                  </td>
+                  <td>
+                    {organization.admins.length === 0 && <span className="text-muted small">None</span>}
+                    {organization.admins.map(admin => (
+                      <div key={admin} className="d-flex align-items-center gap-2 small font-monospace text-break">
+                        {admin}
+                        {isOwner && (
+                          <Button variant="link" size="sm" className="text-danger p-0" onClick={() => onRemoveAdmin(admin)} disabled={loading}>
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    {isOwner && (
+                      <div className="d-flex gap-1 mt-1">
+                        <Form.Control
+                          type="text"
+                          size="sm"
+                          placeholder="0x..."
+                          value={adminDrafts[organization.id] ?? ''}
+                          onChange={(e) => setAdminDrafts(prev => ({ ...prev, [organization.id]: e.target.value }))}
+                        />
+                        <Button variant="outline-primary" size="sm" onClick={() => handleAddAdmin(organization)} disabled={loading}>
+                          Add
+                        </Button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+
+        {isOwner && (
+          <Form onSubmit={handleCreate} className="mt-4">
+            <h6>Create Organization</h6>
+            <Row className="g-2">
+              <Col md={6}>
+                <Form.Control
+                  type="text"
+                  placeholder="Organization name"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                />
+              </Col>
+              <Col md={3}>
+                <Form.Control
+                  type="number"
+                  min={0}
+                  placeholder="Node quota"
+                  value={newQuota}
+                  onChange={(e) => setNewQuota(e.target.value)}
+                />
+              </Col>
+              <Col md={3}>
+                <Button variant="primary" type="submit" className="w-100" disabled={loading}>
+                  Create
+                </Button>
+              </Col>
+            </Row>
+          </Form>
+        )}
+
+        {canRegister && organizations.length > 0 && (
+          <Form onSubmit={handleAssign} className="mt-4">
+            <h6>Move Member</h6>
+            <Row className="g-2">
+              <Col md={6}>
+                <Form.Select value={assignMember} onChange={(e) => setAssignMember(e.target.value)}>
+                  <option value="">Select a member</option>
+                  {members.map(member => (
+                    <option key={member.memberAddress} value={member.memberAddress}>
+                      {member.memberAddress}
+                    </option>
+                  ))}
+                </Form.Select>
+              </Col>
+              <Col md={3}>
+                <Form.Select value={assignOrganization} onChange={(e) => setAssignOrganization(e.target.value)}>
+                  <option value="0">No organization</option>
+                  {organizations.map(organization => (
+                    <option key={organization.id} value={organization.id}>{organization.name}</option>
+                  ))}
+                </Form.Select>
+              </Col>
+              <Col md={3}>
+                <Button variant="primary" type="submit" className="w-100" disabled={loading}>
+                  Move
+                </Button>
+              </Col>
+            </Row>
+            <Form.Text className="text-muted">
+              Moving a member into an organization counts against its node quota.
+            </Form.Text>
+          </Form>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default Organizations;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Card, Table, Button, Badge, Form } from 'react-bootstrap';
+import { formatEndpoint } from '../utils/validationHelpers';
+import type { Proposal, ProposalStatus } from '../types/contract';
+
+interface PendingProposalsProps {
+  proposals: Proposal[];
+  proposalCount: number;
+  approvalThreshold: number;
+  account: string;
+  canApprove: boolean;
+  isAdmin: boolean;
+  onApprove: (proposalId: number) => Promise<void>;
+  onExecute: (proposalId: number) => Promise<void>;
+  onCancel: (proposalId: number) => Promise<void>;
+  onLoadMore: () => Promise<void>;
+  loading: boolean;
+}
+
+const STATUS_VARIANTS: Record<ProposalStatus, string> = {
+  Pending: 'warning',
+  Executed: 'success',
+  Cancelled: 'secondary',
+  Expired: 'dark'
+};
+
+const ACTION_LABELS: Record<Proposal['action'], string> = {
+  AddMember: 'Add member',
+  RemoveMember: 'Remove member',
+  UpdateMemberDetails: 'Update details',
+  ChangeApprovalThreshold: 'Change threshold',
+  SetMemberCertificate: 'Set certificate',
+  AddMemberWithJoinRequest: 'Add member (signed request)'
+};
+
+const PendingProposals: React.FC<PendingProposalsProps> = ({
+  proposals,
+  proposalCount,
+  approvalThreshold,
+  account,
+  canApprove,
+  isAdmin,
+  onApprove,
+  onExecute,
+  onCancel,
+  onLoadMore,
+  loading
+}) => {
+  const [showClosed, setShowClosed] = useState(false);
+
+  const visibleProposals = proposals
+    .filter(proposal => showClosed || proposal.status === 'Pending')
+    .sort((a, b) => b.id - a.id);
+
+  const handleCancel = (proposal: Proposal) => {
+    if (window.confirm(`Are you sure you want to cancel proposal #${proposal.id}?`)) {
+      onCancel(proposal.id);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header as="h5" className="d-flex justify-content-between align-items-center">
+        Pending Proposals
+        <small className="text-muted">Approvals required: {approvalThreshold}</small>
+      </Card.Header>
+      <Card.Body>
+        <Form.Check
+          type="switch"
+          id="show-closed-proposals"
+          label="Show executed, cancelled and expired proposals"
+          checked={showClosed}
+          onChange={(e) => setShowClosed(e.target.checked)}
+          className="mb-3"
+        />
+
+        {visibleProposals.length === 0 ? (
+          <div className="text-center p-4">
+            <p>No proposals to show</p>
+          </div>
+        ) : (
+          <Table responsive size="sm">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Change</th>
+                <th>Member</th>
+                <th>Proposer</th>
+                <th>Approvals</th>
+                <th>Expires</th>
+                <th>Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleProposals.map(proposal => {
+                const isPending = proposal.status === 'Pending';
+                const isProposer = proposal.proposer.toLowerCase() === account.toLowerCase();
+
+                return (
+                  <tr key={proposal.id}>
+                    <td>{proposal.id}</td>
+                    <td>
+                      {ACTION_LABELS[proposal.action]}
+                      {proposal.action === 'ChangeApprovalThreshold' ? (
+                        <div className="small text-muted">To {proposal.proposedThreshold} approvals</div>
+                      ) : proposal.action === 'SetMemberCertificate' ? (
+                        <div className="small text-muted text-break font-monospace">{proposal.member.certFingerprint}</div>
+                      ) : proposal.action !== 'RemoveMember' && (
+                        <div className="small text-muted">
+                          {proposal.member.x500Name} ({formatEndpoint(proposal.member.host, proposal.member.port)})
+                        </div>
+                      )}
+                    </td>
+                    <td className="text-break font-monospace small">
+                      {proposal.action === 'ChangeApprovalThreshold' ? '-' : proposal.member.memberAddress}
+                    </td>
+                    <td className="text-break font-monospace small">{proposal.proposer}</td>
+                    <td>
+                      {proposal.approvals}/{approvalThreshold}
+                      {proposal.approvedByAccount && (
+                        <Badge bg="info" className="ms-1">You</Badge>
+                      )}
+                    </td>
+                    <td className="small">{new Date(proposal.expiresAt * 1000).toLocaleString()}</td>
+                    <td>
+                      <Badge bg={STATUS_VARIANTS[proposal.status]}>{proposal.status}</Badge>
+                    </td>
+                    <td className="text-end text-nowrap">
+                      {isPending && canApprove && !proposal.approvedByAccount && (
+                        <Button variant="outline-primary" size="sm" className="me-1" onClick={() => onApprove(proposal.id)} disabled={loading}>
+                          Approve
+                        </Button>
+                      )}
+                      {isPending && canApprove && proposal.approvals >= approvalThreshold && (
+                        <Button variant="success" size="sm" className="me-1" onClick={() => onExecute(proposal.id)} disabled={loading}>
+                          Execute
+                        </Button>
+                      )}
+                      {(isPending || proposal.status === 'Expired') && (isProposer || isAdmin) && (
+                        <Button variant="outline-danger" size="sm" onClick={() => handleCancel(proposal)} disabled={loading}>
+                          Cancel
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </Table>
+        )}
+
+        {/* Every pending proposal is always loaded; only older closed ones can be missing */}
+        {showClosed && proposals.length < proposalCount && (
+          <div className="text-center">
+            <Button variant="outline-secondary" size="sm" onClick={onLoadMore} disabled={loading}>
+              Load older proposals ({proposals.length} of {proposalCount} shown)
+            </Button>
+          </div>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default PendingProposals;
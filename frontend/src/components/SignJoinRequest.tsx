@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Card, Form, Button, Spinner, Alert } from 'react-bootstrap';
+import { toast } from 'react-toastify';
+import contractService from '../utils/contractHelpers';
+import { normalizeHost, validateCertSerialHex, validateHost, validatePort, validateX500Name } from '../utils/validationHelpers';
+import type { SignedJoinRequest } from '../types/contract';
+
+interface SignJoinRequestProps {
+  account: string;
+}
+
+/**
+ * For node operators applying to join: signs the node's registration details with the connected
+ * (member) key and produces a JSON blob to send to a registrar, who imports it in "Add Member".
+ */
+const SignJoinRequest: React.FC<SignJoinRequestProps> = ({ account }) => {
+  const [formData, setFormData] = useState({ x500Name: '', certSerialHex: '', host: '', port: '' });
+  const [signing, setSigning] = useState(false);
+  const [signedRequest, setSignedRequest] = useState<SignedJoinRequest | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    setSignedRequest(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const certValidation = validateCertSerialHex(formData.certSerialHex);
+    for (const check of [
+      validateX500Name(formData.x500Name),
+      certValidation,
+      validateHost(formData.host),
+      validatePort(formData.port)
+    ]) {
+      if (!check.isValid) {
+        toast.error(check.error);
+        return;
+      }
+    }
+
+    try {
+      setSigning(true);
+      setSignedRequest(await contractService.signJoinRequest({
+        x500Name: formData.x500Name.trim(),
+        certSerialHex: certValidation.sanitized,
+        host: normalizeHost(formData.host),
+        port: parseInt(formData.port, 10)
+      }));
+    } catch (error) {
+      toast.error(`Error signing join request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const requestJson = signedRequest ? JSON.stringify(signedRequest, null, 2) : '';
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(requestJson);
+    toast.success('Join request copied to clipboard');
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([requestJson], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `join-request-${signedRequest!.memberAddress}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header as="h5">Sign Join Request</Card.Header>
+      <Card.Body>
+        <p className="text-muted">
+          Applying to join the network? Connect with your node's member key, enter its details and sign.
+          Send the resulting JSON to a registrar: it proves you control the address being registered.
+        </p>
+
+        <Form onSubmit={handleSubmit}>
+          <Form.Group className="mb-3">
+            <Form.Label>Member Address</Form.Label>
+            <Form.Control type="text" value={account} readOnly className="font-monospace" />
+            <Form.Text className="text-muted">
+              The connected account. Switch accounts to sign for a different node.
+            </Form.Text>
+          </Form.Group>
+
+          <Form.Group className="mb-3">
+            <Form.Label>X.500 Distinguished Name</Form.Label>
+            <Form.Control
+              type="text"
+              name="x500Name"
+              placeholder="CN=Node1,O=XDC,C=SG"
+              value={formData.x500Name}
+              onChange={handleChange}
+              required
+            />
+          </Form.Group>
+
+          <Form.Group className="mb-3">
+            <Form.Label>Certificate Serial (Hex)</Form.Label>
+            <Form.Control
+              type="text"
+              name="certSerialHex"
+              placeholder="0x1234567890abcdef"
+              value={formData.certSerialHex}
+              onChange={handleChange}
+              required
+            />
+          </Form.Group>
+
+          <Form.Group className="mb-3">
+            <Form.Label>Host</Form.Label>
+            <Form.Control
+              type="text"
+              name="host"
+              placeholder="node1.example.com"
+              value={formData.host}
+              onChange={handleChange}
+              required
+            />
+          </Form.Group>
+
+          <Form.Group className="mb-3">
+            <Form.Label>Port</Form.Label>
+            <Form.Control
+              type="number"
+              name="port"
+              placeholder="30303"
+              value={formData.port}
+              onChange={handleChange}
+              required
+            />
+          </Form.Group>
+
+          <Button variant="primary" type="submit" disabled={signing}>
+            {signing ? (
+              <>
+                <Spinner as="span" animation="border" size="sm" role="status" aria-hidden="true" className="me-2" />
+                Waiting for signature...
+              </>
+            ) : (
+              'Sign Join Request'
+            )}
+          </Button>
+        </Form>
+
+        {signedRequest && (
+          <div className="mt-4">
+            <Alert variant="success">
+              Join request signed. It is only valid for this network and contract, for exactly these details, and
+              for one registration until {new Date(signedRequest.deadline * 1000).toLocaleString()}.
+            </Alert>
+            <Form.Control as="textarea" rows={12} value={requestJson} readOnly className="font-monospace small mb-2" />
+            <div className="d-flex gap-2">
+              <Button variant="outline-primary" size="sm" onClick={handleCopy}>
+                Copy
+              </Button>
+              <Button variant="outline-secondary" size="sm" onClick={handleDownload}>
+                Download
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default SignJoinRequest;
@@ -2,8 +2,10 @@ import React, { useState } from 'react';
 import { Card, Form, Button, Spinner, Alert } from 'react-bootstrap';
 import { toast } from 'react-toastify';
 import contractService from '../utils/contractHelpers';
-import { validateMemberData } from '../utils/validationHelpers';
-import type { MemberFormData } from '../types/contract';
+import { formatEndpoint, normalizeHost, validateEndpoints, validateMemberData } from '../utils/validationHelpers';
+import { useEndpointHolder } from '../hooks/useEndpointHolder';
+import EndpointListEditor from './EndpointListEditor';
+import type { MemberEndpoint, MemberFormData } from '../types/contract';
 
 interface UpdateMemberFormProps {
   onUpdateMember: (memberData: MemberFormData) => Promise<{ success: boolean; error?: string }>;
@@ -30,8 +32,12 @@ const UpdateMemberForm: React.FC<UpdateMemberFormProps> = ({ onUpdateMember, mem
     host: '',
     port: ''
   });
+  const [endpoints, setEndpoints] = useState<MemberEndpoint[]>([]);
+  // Endpoints as loaded, so the list is only written when it was edited
+  const [loadedEndpoints, setLoadedEndpoints] = useState<MemberEndpoint[]>([]);
   const [validated, setValidated] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const endpointHolder = useEndpointHolder(formData.host, formData.port, formData.address);
   const [fetchingDetails, setFetchingDetails] = useState(false);
 
   const handleMemberSelect = async (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -50,6 +56,9 @@ const UpdateMemberForm: React.FC<UpdateMemberFormProps> = ({ onUpdateMember, mem
           host: memberDetails.host || '',
           port: memberDetails.port || ''
         });
+        const memberEndpoints = await contractService.getMemberEndpoints(address);
+        setEndpoints(memberEndpoints);
+        setLoadedEndpoints(memberEndpoints);
         setFetchingDetails(false);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -103,14 +112,26 @@ const UpdateMemberForm: React.FC<UpdateMemberFormProps> = ({ onUpdateMember, mem
     }
 
     setValidationErrors({});
+
+    if (endpointHolder) {
+      toast.error(`Endpoint ${formatEndpoint(formData.host, formData.port)} is already used by ${endpointHolder}`);
+      return;
+    }
+
+    const endpointsValidation = validateEndpoints(endpoints, { host: formData.host, port: formData.port });
+    if (!endpointsValidation.isValid) {
+      toast.error(endpointsValidation.error);
+      return;
+    }
     
     const data: MemberFormData = {
       address: formData.address.trim(),
       x500Name: formData.x500Name.trim(),
       certSerialHex: validation.sanitizedCertSerial || formData.certSerialHex,
       platformVersion: typeof formData.platformVersion === 'string' ? parseInt(formData.platformVersion, 10) : formData.platformVersion,
-      host: formData.host.trim(),
-      port: typeof formData.port === 'string' ? parseInt(formData.port, 10) : formData.port
+      host: normalizeHost(formData.host),
+      port: typeof formData.port === 'string' ? parseInt(formData.port, 10) : formData.port,
+      endpoints: JSON.stringify(endpoints) !== JSON.stringify(loadedEndpoints) ? endpoints : undefined
     };
     
     const result = await onUpdateMember(data);
@@ -125,6 +146,8 @@ const UpdateMemberForm: React.FC<UpdateMemberFormProps> = ({ onUpdateMember, mem
         port: ''
       });
       setSelectedMember('');
+      setEndpoints([]);
+      setLoadedEndpoints([]);
       setValidated(false);
       setValidationErrors({});
     }
@@ -275,6 +298,15 @@ const UpdateMemberForm: React.FC<UpdateMemberFormProps> = ({ onUpdateMember, mem
                 </Form.Control.Feedback>
               </Form.Group>
 
+              <EndpointListEditor endpoints={endpoints} onChange={setEndpoints} disabled={loading} />
+
+              {endpointHolder && (
+                <Alert variant="warning" className="mb-3">
+                  This endpoint is already used by member <span className="font-monospace text-break">{endpointHolder}</span>.
+                  Each member needs its own host and port.
+                </Alert>
+              )}
+
               <Button
                 variant="primary"
                 type="submit"
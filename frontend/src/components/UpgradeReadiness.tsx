@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Card, Table, Badge, Button, Form, ProgressBar, Row, Col } from 'react-bootstrap';
+import type { Member, UpgradePlan, UpgradePlanStatus } from '../types/contract';
+
+interface UpgradeReadinessProps {
+  upgradePlans: UpgradePlan[];
+  members: Member[];
+  account: string;
+  onAcknowledge: (planId: number) => Promise<void>;
+  loading: boolean;
+}
+
+const STATUS_BADGES: Record<UpgradePlanStatus, { bg: string; label: string }> = {
+  Open: { bg: 'primary', label: 'Open' },
+  DeadlinePassed: { bg: 'warning', label: 'Deadline passed' },
+  Activated: { bg: 'success', label: 'Activated' },
+  Cancelled: { bg: 'secondary', label: 'Cancelled' }
+};
+
+/**
+ * Share of Active members that acknowledged an upgrade plan ahead of its hard fork, and who is still
+ * missing. The connected member can acknowledge an open plan here.
+ */
+const UpgradeReadiness: React.FC<UpgradeReadinessProps> = ({ upgradePlans, members, account, onAcknowledge, loading }) => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  if (upgradePlans.length === 0) {
+    return (
+      <Card className="shadow-sm">
+        <Card.Header as="h5">Upgrade Readiness</Card.Header>
+        <Card.Body>
+          <p className="text-muted mb-0">No upgrade plans have been created</p>
+        </Card.Body>
+      </Card>
+    );
+  }
+
+  // Latest plan unless another one was picked
+  const plan = upgradePlans.find(candidate => candidate.id === selectedId) ?? upgradePlans[upgradePlans.length - 1];
+  const total = plan.ready.length + plan.notReady.length;
+  const readyShare = total > 0 ? Math.round((plan.ready.length / total) * 100) : 100;
+  const status = STATUS_BADGES[plan.status];
+
+  const isSameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  const recordOf = (address: string) => members.find(member => isSameAddress(member.memberAddress, address));
+  const canAcknowledge = plan.status === 'Open' && plan.notReady.some(address => isSameAddress(address, account));
+
+  // Members that have not acknowledged first, so they stand out
+  const rows = [
+    ...plan.notReady.map(address => ({ address, ready: false })),
+    ...plan.ready.map(address => ({ address, ready: true }))
+  ];
+
+  return (
+    <Card className="shadow-sm">
+      <Card.Header as="h5">Upgrade Readiness</Card.Header>
+      <Card.Body>
+        <Form.Select
+          value={plan.id}
+          onChange={(e) => setSelectedId(Number(e.target.value))}
+          className="mb-3"
+        >
+          {[...upgradePlans].reverse().map(candidate => (
+            <option key={candidate.id} value={candidate.id}>
+              Plan #{candidate.id}: v{candidate.targetVersion} at block {candidate.activationBlock} ({STATUS_BADGES[candidate.status].label})
+            </option>
+          ))}
+        </Form.Select>
+
+        <Row className="mb-4">
+          <Col md={4}>
+            <div className="text-muted small">Target platform version</div>
+            <div className="fs-4">
+              {plan.targetVersion}
+              <Badge bg={status.bg} className="ms-2 fs-6">{status.label}</Badge>
+            </div>
+            <div className="text-muted small mt-2">Activation block: {plan.activationBlock}</div>
+            <div className="text-muted small">Acknowledge by: {new Date(plan.deadline * 1000).toLocaleString()}</div>
+          </Col>
+          <Col md={8}>
+            <div className="text-muted small">
+              Ready members: {plan.ready.length} of {total} active
+            </div>
+            <ProgressBar
+              now={readyShare}
+              label={`${readyShare}%`}
+              variant={plan.notReady.length === 0 ? 'success' : 'warning'}
+              className="mt-2"
+            />
+            {canAcknowledge && (
+              <Button
+                variant="primary"
+                size="sm"
+                className="mt-3"
+                onClick={() => onAcknowledge(plan.id)}
+                disabled={loading}
+              >
+                Acknowledge my node is ready
+              </Button>
+            )}
+          </Col>
+        </Row>
+
+        {rows.length === 0 ? (
+          <p className="text-muted small">No active members</p>
+        ) : (
+          <Table responsive size="sm">
+            <thead>
+              <tr>
+                <th>Member</th>
+                <th>Registered Version</th>
+                <th>Readiness</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ address, ready }) => {
+                const record = recordOf(address);
+                return (
+                  <tr key={address}>
+                    <td className="text-break font-monospace small">
+                      {address}
+                      {record && <div className="text-muted">{record.x500Name}</div>}
+                    </td>
+                    <td>
+                      {record?.platformVersion ?? '-'}
+                      {record && record.platformVersion < plan.targetVersion && (
+                        <Badge bg="secondary" className="ms-2">Below target</Badge>
+                      )}
+                    </td>
+                    <td>
+                      <Badge bg={ready ? 'success' : 'danger'}>{ready ? 'Ready' : 'Not ready'}</Badge>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </Table>
+        )}
+
+        <div className="mt-3">
+          <small className="text-muted">
+            Readiness is the member's own acknowledgement; the registered version only changes when its details are updated.
+          </small>
+        </div>
+      </Card.Body>
+    </Card>
+  );
+};
+
+export default UpgradeReadiness;
@@ -0,0 +1,11 @@
+/**
+ * NetworkManager Deployment
+ * Auto-generated from the Ignition deployment
+ * DO NOT EDIT MANUALLY - Run 'npm run export-abi' in contracts directory to update
+ */
+
+export const NetworkManagerDeployment = {
+  chain: 'chain-57539',
+  address: '0xA1D9671ed9F862C8Bbf2aCfEbA61C02f0Bb86620', // Proxy - use this address for all calls
+  implementation: '0xA1D9671ed9F862C8Bbf2aCfEbA61C02f0Bb86620'
+} as const;
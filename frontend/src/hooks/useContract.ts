@@ -1,20 +1,62 @@
 import { useState, useEffect, useCallback } from 'react';
 import { toast } from 'react-toastify';
-import contractService from '../utils/contractHelpers';
-import type { ContractHookReturn, ContractState, MemberFormData } from '../types/contract';
+import contractService, { PROPOSALS_PAGE_SIZE } from '../utils/contractHelpers';
+import { formatEndpoint } from '../utils/validationHelpers';
+import type { AccountRoles, ContractHookReturn, ContractState, MemberEndpoint, MemberFormData, MemberState, Role, SignedJoinRequest, TransactionReceipt } from '../types/contract';
 
 /**
  * Custom hook for managing contract connection and state
  * Provides a clean interface to interact with the contract service
  */
+const NO_ROLES: AccountRoles = {
+  admin: false,
+  registrar: false,
+  operator: false,
+  auditor: false,
+  pauser: false,
+  renewer: false,
+};
+
+// Proposal id from a propose* receipt, read from its ProposalCreated event
+const getCreatedProposalId = (tx: TransactionReceipt): string =>
+  String(tx.events?.ProposalCreated?.returnValues?.proposalId ?? '');
+
+// Additional endpoints are set in a second transaction once the member record change went through.
+// If only that one fails the record change still stands, so it is reported as a partial success.
+const setEndpointsAfterRecordChange = async (address: string, endpoints: MemberEndpoint[], recordChange: string) => {
+  try {
+    await contractService.setMemberEndpoints(address, endpoints);
+    toast.success(endpoints.length ? `${endpoints.length} additional endpoint(s) set` : 'Additional endpoints removed');
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    toast.warning(`${recordChange}, but setting its additional endpoints failed: ${errorMessage}. Set them again from "Update Member".`, {
+      autoClose: false,
+    });
+  }
+};
+
 export const useContract = (): ContractHookReturn => {
   const [state, setState] = useState<ContractState>({
     isConnected: false,
     account: '',
     contractAddress: '',
     owner: '',
-    isOwner: false,
+    pendingOwner: '',
+    roles: NO_ROLES,
     members: [],
+    memberRecords: [],
+    proposals: [],
+    proposalCount: 0,
+    approvalThreshold: 1,
+    isPaused: false,
+    metadataSelfService: false,
+    joinRequestRequired: false,
+    defaultLeaseDuration: 0,
+    minPlatformVersion: 0,
+    organizations: [],
+    adminOrganizationId: 0,
+    formerMembers: [],
+    upgradePlans: [],
     selectedMember: null,
     loading: false,
     error: null,
@@ -34,14 +76,45 @@ export const useContract = (): ContractHookReturn => {
       setState(prev => ({ ...prev, loading: true }));
 
       const ownerAddress = await contractService.getOwner();
-      const memberAddresses = await contractService.getAllMembers();
+      const pendingOwner = await contractService.getPendingOwner();
+      // Load full member records in pages rather than one getMember call per address
+      const memberRecords = await contractService.getAllMemberRecords();
       const currentAccount = contractService.account || '';
+      const roles = currentAccount
+        ? await contractService.getAccountRoles(currentAccount)
+        : NO_ROLES;
+      const approvalThreshold = await contractService.getApprovalThreshold();
+      // Only the recent proposals; older closed ones are loaded when the user asks for them
+      const { proposals, total: proposalCount } = await contractService.getProposals(currentAccount);
+      const isPaused = await contractService.isPaused();
+      const metadataSelfService = await contractService.isMetadataSelfServiceEnabled();
+      const joinRequestRequired = await contractService.isJoinRequestRequired();
+      const defaultLeaseDuration = await contractService.getDefaultLeaseDuration();
+      const minPlatformVersion = await contractService.getMinPlatformVersion();
+      const organizations = await contractService.getOrganizations();
+      const adminOrganizationId = currentAccount ? await contractService.getAdminOrganization(currentAccount) : 0;
+      const formerMembers = await contractService.getFormerMembers();
+      const upgradePlans = await contractService.getUpgradePlans();
 
       setState(prev => ({
         ...prev,
         owner: ownerAddress,
-        isOwner: ownerAddress.toLowerCase() === currentAccount.toLowerCase(),
-        members: memberAddresses,
+        pendingOwner: /^0x0+$/.test(pendingOwner) ? '' : pendingOwner,
+        roles,
+        members: memberRecords.map(member => member.memberAddress),
+        memberRecords,
+        proposals,
+        proposalCount,
+        approvalThreshold,
+        isPaused,
+        metadataSelfService,
+        joinRequestRequired,
+        defaultLeaseDuration,
+        minPlatformVersion,
+        organizations,
+        adminOrganizationId,
+        formerMembers,
+        upgradePlans,
         loading: false,
       }));
     } catch (err) {
@@ -64,8 +137,22 @@ export const useContract = (): ContractHookReturn => {
         setState(prev => ({
           ...prev,
           owner: '',
-          isOwner: false,
+          pendingOwner: '',
+          roles: NO_ROLES,
           members: [],
+          memberRecords: [],
+          proposals: [],
+          proposalCount: 0,
+          approvalThreshold: 1,
+          isPaused: false,
+          metadataSelfService: false,
+          joinRequestRequired: false,
+          defaultLeaseDuration: 0,
+          minPlatformVersion: 0,
+          organizations: [],
+          adminOrganizationId: 0,
+          formerMembers: [],
+          upgradePlans: [],
           selectedMember: null,
         }));
       }
@@ -158,24 +245,54 @@ export const useContract = (): ContractHookReturn => {
   }, []);
 
   // Add member
-  const addMember = useCallback(async (memberData: MemberFormData) => {
+  const addMember = useCallback(async (memberData: MemberFormData, joinRequest?: SignedJoinRequest) => {
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
 
-      const tx = await contractService.addMember(
-        memberData.address,
-        memberData.x500Name,
-        memberData.certSerialHex,
-        memberData.platformVersion,
-        memberData.host,
-        memberData.port
-      );
+      if (!joinRequest && state.joinRequestRequired) {
+        throw new Error('Members can only be added from a signed join request');
+      }
+
+      // Above a threshold of one, membership changes go through a proposal
+      if (state.approvalThreshold > 1) {
+        const tx = joinRequest
+          ? await contractService.proposeAddMemberWithJoinRequest(joinRequest, memberData.platformVersion)
+          : await contractService.proposeAddMember(
+            memberData.address,
+            memberData.x500Name,
+            memberData.certSerialHex,
+            memberData.platformVersion,
+            memberData.host,
+            memberData.port
+          );
+        toast.success(`Proposal #${getCreatedProposalId(tx)} created. It needs ${state.approvalThreshold} approvals before it can be executed.`);
+        if (memberData.endpoints?.length) {
+          toast.info('Additional endpoints can be set from "Update Member" once the proposal is executed');
+        }
+        await fetchContractData();
+        return { success: true };
+      }
+
+      const tx = joinRequest
+        ? await contractService.addMemberWithJoinRequest(joinRequest, memberData.platformVersion)
+        : await contractService.addMember(
+          memberData.address,
+          memberData.x500Name,
+          memberData.certSerialHex,
+          memberData.platformVersion,
+          memberData.host,
+          memberData.port
+        );
 
       const toastMessage = `Member added successfully! Transaction: ${tx.transactionHash}`;
       toast.success(toastMessage, {
         autoClose: 10000,
       });
 
+      if (memberData.endpoints?.length) {
+        await setEndpointsAfterRecordChange(memberData.address, memberData.endpoints, 'The member was added');
+      }
+
       await fetchContractData();
       
       return { success: true };
@@ -187,14 +304,25 @@ export const useContract = (): ContractHookReturn => {
     } finally {
       setState(prev => ({ ...prev, loading: false }));
     }
-  }, [fetchContractData]);
+  }, [state.approvalThreshold, state.joinRequestRequired, fetchContractData]);
 
   // Remove member
-  const removeMember = useCallback(async (address: string) => {
+  const removeMember = useCallback(async (address: string, reason: number = 0) => {
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
-      await contractService.removeMember(address);
-      toast.success('Member removed successfully!');
+
+      if (state.approvalThreshold > 1) {
+        const tx = await contractService.proposeRemoveMember(address);
+        toast.success(`Proposal #${getCreatedProposalId(tx)} to remove ${address} created`);
+        if (reason !== 0) {
+          toast.info('Removals through a proposal are archived without a reason');
+        }
+        await fetchContractData();
+        return;
+      }
+
+      await contractService.removeMember(address, reason);
+      toast.success('Member removed successfully! Its record is kept under "Former Members".');
 
       await fetchContractData();
       setState(prev => ({ ...prev, selectedMember: null }));
@@ -205,7 +333,7 @@ export const useContract = (): ContractHookReturn => {
     } finally {
       setState(prev => ({ ...prev, loading: false }));
     }
-  }, [fetchContractData]);
+  }, [state.approvalThreshold, fetchContractData]);
 
   // Update member status
   const updateMemberStatus = useCallback(async (address: string, isActive: boolean) => {
@@ -230,21 +358,77 @@ export const useContract = (): ContractHookReturn => {
     }
   }, [state.selectedMember, fetchContractData]);
 
+  // Move a member along its lifecycle
+  const setMemberState = useCallback(async (address: string, memberState: MemberState, reason: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.setMemberState(address, memberState, reason);
+      toast.success(`Member moved to ${memberState}`);
+
+      // Refresh selected member if it's the current one
+      if (state.selectedMember?.memberAddress === address) {
+        const updatedMember = await contractService.getMember(address);
+        setState(prev => ({ ...prev, selectedMember: updatedMember }));
+      }
+
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error changing member state: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [state.selectedMember, fetchContractData]);
+
   // Update member details
   const updateMemberDetails = useCallback(async (memberData: MemberFormData) => {
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
 
-      await contractService.updateMemberDetails(
-        memberData.address,
-        memberData.x500Name,
-        memberData.certSerialHex,
-        memberData.platformVersion,
-        memberData.host,
-        memberData.port
-      );
-
-      toast.success('Member details updated successfully!');
+      // When only the additional endpoints changed there is nothing to update or propose
+      const current = state.memberRecords.find(member => member.memberAddress.toLowerCase() === memberData.address.toLowerCase());
+      const detailsUnchanged = current !== undefined &&
+        current.x500Name === memberData.x500Name &&
+        current.certSerialHex.toLowerCase() === memberData.certSerialHex.toLowerCase() &&
+        current.platformVersion === Number(memberData.platformVersion) &&
+        current.host.toLowerCase() === memberData.host.toLowerCase() &&
+        current.port === Number(memberData.port);
+
+      if (detailsUnchanged) {
+        if (memberData.endpoints) {
+          await contractService.setMemberEndpoints(memberData.address, memberData.endpoints);
+          toast.success('Additional endpoints updated');
+        }
+      } else if (state.approvalThreshold > 1) {
+        const tx = await contractService.proposeUpdateMemberDetails(
+          memberData.address,
+          memberData.x500Name,
+          memberData.certSerialHex,
+          memberData.platformVersion,
+          memberData.host,
+          memberData.port
+        );
+        toast.success(`Proposal #${getCreatedProposalId(tx)} to update ${memberData.address} created`);
+        if (memberData.endpoints) {
+          toast.info('Additional endpoints were not changed; save them again from "Update Member" once the proposal is executed');
+        }
+      } else {
+        await contractService.updateMemberDetails(
+          memberData.address,
+          memberData.x500Name,
+          memberData.certSerialHex,
+          memberData.platformVersion,
+          memberData.host,
+          memberData.port
+        );
+
+        toast.success('Member details updated successfully!');
+
+        if (memberData.endpoints) {
+          await setEndpointsAfterRecordChange(memberData.address, memberData.endpoints, "The member's details were updated");
+        }
+      }
 
       // Refresh contract data to get updated member list
       await fetchContractData();
@@ -264,14 +448,39 @@ export const useContract = (): ContractHookReturn => {
     } finally {
       setState(prev => ({ ...prev, loading: false }));
     }
-  }, [state.selectedMember, fetchContractData]);
+  }, [state.selectedMember, state.memberRecords, state.approvalThreshold, fetchContractData]);
+
+  // Update the connected member's own endpoint
+  const updateMyEndpoint = useCallback(async (host: string, port: number, platformVersion: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.updateMyEndpoint(host, port, platformVersion);
+      toast.success(`Node endpoint updated to ${formatEndpoint(host, port)}`);
+
+      await fetchContractData();
+
+      if (state.selectedMember?.memberAddress.toLowerCase() === state.account.toLowerCase()) {
+        const updatedMember = await contractService.getMember(state.account);
+        setState(prev => ({ ...prev, selectedMember: updatedMember }));
+      }
+
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error updating endpoint: ${errorMessage}`);
+      return { success: false, error: errorMessage };
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [state.selectedMember, state.account, fetchContractData]);
 
   // Transfer ownership
   const transferOwnership = useCallback(async (newOwnerAddress: string) => {
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
       await contractService.transferOwnership(newOwnerAddress);
-      toast.success('Owner role transferred successfully!');
+      toast.success(`${newOwnerAddress} nominated as manager. The transfer completes when they accept.`);
       await fetchContractData();
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
@@ -282,6 +491,489 @@ export const useContract = (): ContractHookReturn => {
     }
   }, [fetchContractData]);
 
+  // Accept a pending ownership nomination
+  const acceptOwnership = useCallback(async () => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.acceptOwnership();
+      toast.success('Owner role accepted successfully!');
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error accepting owner role: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Cancel a pending ownership nomination
+  const cancelOwnershipTransfer = useCallback(async () => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.cancelOwnershipTransfer();
+      toast.success('Pending owner nomination cancelled');
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error cancelling owner transfer: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Revoke certificate
+  const revokeCertificate = useCallback(async (certSerialHex: string, reason: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.revokeCertificate(certSerialHex, reason);
+      toast.success(`Certificate ${certSerialHex} revoked`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error revoking certificate: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, []);
+
+  // Grant role
+  const grantRole = useCallback(async (role: Role, address: string) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.grantRole(role, address);
+      toast.success(`Granted ${role} role to ${address}`);
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error granting role: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Revoke role
+  const revokeRole = useCallback(async (role: Role, address: string) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.revokeRole(role, address);
+      toast.success(`Revoked ${role} role from ${address}`);
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error revoking role: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Approve, execute or cancel a proposal
+  const approveProposal = useCallback(async (proposalId: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.approveProposal(proposalId);
+      toast.success(`Proposal #${proposalId} approved`);
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error approving proposal: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  const executeProposal = useCallback(async (proposalId: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.executeProposal(proposalId);
+      toast.success(`Proposal #${proposalId} executed`);
+      await fetchContractData();
+      setState(prev => ({ ...prev, selectedMember: null }));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error executing proposal: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  const cancelProposal = useCallback(async (proposalId: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.cancelProposal(proposalId);
+      toast.success(`Proposal #${proposalId} cancelled`);
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error cancelling proposal: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Load another page of older proposals
+  const loadMoreProposals = useCallback(async () => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      const { proposals, total } = await contractService.getProposals(
+        contractService.account || '',
+        state.proposals.length + PROPOSALS_PAGE_SIZE
+      );
+      setState(prev => ({ ...prev, proposals, proposalCount: total }));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error loading proposals: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [state.proposals.length]);
+
+  // Set approval threshold; lowering it goes through a proposal
+  const setApprovalThreshold = useCallback(async (threshold: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+
+      if (threshold < state.approvalThreshold) {
+        const tx = await contractService.proposeApprovalThreshold(threshold);
+        toast.success(`Proposal #${getCreatedProposalId(tx)} to lower the threshold to ${threshold} created. It needs ${state.approvalThreshold} approvals before it can be executed.`);
+        await fetchContractData();
+        return;
+      }
+
+      await contractService.setApprovalThreshold(threshold);
+      toast.success(`Approval threshold set to ${threshold}`);
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error setting approval threshold: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [state.approvalThreshold, fetchContractData]);
+
+  // Set or remove (empty value) a metadata entry; MemberDetails reloads the entries itself
+  const setMemberMetadata = useCallback(async (address: string, key: string, value: string) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.setMemberMetadata(address, key, value);
+      toast.success(value ? `Metadata "${key}" saved` : `Metadata "${key}" removed`);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error setting metadata: ${errorMessage}`);
+      return false;
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, []);
+
+  // Replace a member's additional endpoints; used by members from My Node
+  const setMemberEndpoints = useCallback(async (address: string, endpoints: MemberEndpoint[]) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.setMemberEndpoints(address, endpoints);
+      toast.success('Additional endpoints updated');
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error setting endpoints: ${errorMessage}`);
+      return false;
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, []);
+
+  // Allow or stop members editing their own metadata
+  const setMetadataSelfService = useCallback(async (enabled: boolean) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.setMetadataSelfService(enabled);
+      toast.success(enabled ? 'Members can now edit their own metadata' : 'Metadata is now limited to registrars');
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error changing metadata self-service: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Require new members to come from signed join requests, or allow direct adds again
+  const setJoinRequestRequired = useCallback(async (required: boolean) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.setJoinRequestRequired(required);
+      toast.success(required ? 'Members can now only be added from signed join requests' : 'Members can be added directly again');
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error changing the join request requirement: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Renew a member's lease until the given time (unix seconds)
+  const renewMembership = useCallback(async (address: string, expiresAt: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.renewMembership(address, expiresAt);
+      toast.success(`Membership renewed until ${new Date(expiresAt * 1000).toLocaleDateString()}`);
+
+      await fetchContractData();
+
+      if (state.selectedMember?.memberAddress === address) {
+        const updatedMember = await contractService.getMember(address);
+        setState(prev => ({ ...prev, selectedMember: updatedMember }));
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error renewing membership: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [state.selectedMember, fetchContractData]);
+
+  // Set the lease given to members added from now on
+  const setDefaultLeaseDuration = useCallback(async (seconds: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.setDefaultLeaseDuration(seconds);
+      toast.success(seconds > 0 ? `New members get a ${Math.round(seconds / 86400)}-day lease` : 'New members are added without a lease');
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error setting default lease: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Set the oldest platform version the network supports
+  const setMinPlatformVersion = useCallback(async (version: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.setMinPlatformVersion(version);
+      toast.success(version > 0 ? `Minimum platform version set to ${version}` : 'Minimum platform version cleared');
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error setting minimum platform version: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Create an organization (owner only)
+  const createOrganization = useCallback(async (name: string, nodeQuota: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.createOrganization(name, nodeQuota);
+      toast.success(`Organization "${name}" created`);
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error creating organization: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Change how many members an organization may hold (owner only)
+  const setOrganizationQuota = useCallback(async (organizationId: number, nodeQuota: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.setOrganizationQuota(organizationId, nodeQuota);
+      toast.success(`Organization quota set to ${nodeQuota}`);
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error setting organization quota: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Appoint an organization admin (owner only)
+  const addOrganizationAdmin = useCallback(async (organizationId: number, address: string) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.addOrganizationAdmin(organizationId, address);
+      toast.success(`${address} is now an organization admin`);
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error adding organization admin: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Remove an organization admin (owner only)
+  const removeOrganizationAdmin = useCallback(async (address: string) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.removeOrganizationAdmin(address);
+      toast.success(`${address} is no longer an organization admin`);
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error removing organization admin: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Move a member into an organization, or out of its organization with 0 (registrars)
+  const setMemberOrganization = useCallback(async (address: string, organizationId: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.setMemberOrganization(address, organizationId);
+      toast.success(organizationId > 0 ? 'Member moved to the organization' : 'Member removed from its organization');
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error setting member organization: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Add a member to the connected admin's organization. Additional endpoints are set by the member itself from My Node.
+  const addOrganizationMember = useCallback(async (memberData: MemberFormData) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      const tx = await contractService.addOrganizationMember(
+        memberData.address,
+        memberData.x500Name,
+        memberData.certSerialHex,
+        memberData.platformVersion,
+        memberData.host,
+        memberData.port
+      );
+      toast.success(`Member added to your organization! Transaction: ${tx.transactionHash}`, { autoClose: 10000 });
+      await fetchContractData();
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error adding member: ${errorMessage}`);
+      return { success: false, error: errorMessage };
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Remove a member of the connected admin's organization
+  const removeOrganizationMember = useCallback(async (address: string) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.removeOrganizationMember(address);
+      toast.success('Member removed from your organization');
+      await fetchContractData();
+      setState(prev => ({
+        ...prev,
+        selectedMember: prev.selectedMember?.memberAddress === address ? null : prev.selectedMember
+      }));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error removing member: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Activate or deactivate a member of the connected admin's organization
+  const updateOrganizationMemberStatus = useCallback(async (address: string, isActive: boolean) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.updateOrganizationMemberStatus(address, isActive);
+      toast.success(`Member status updated to ${isActive ? 'active' : 'inactive'}`);
+
+      if (state.selectedMember?.memberAddress === address) {
+        const updatedMember = await contractService.getMember(address);
+        setState(prev => ({ ...prev, selectedMember: updatedMember }));
+      }
+
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error updating status: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [state.selectedMember, fetchContractData]);
+
+  // Signal that the connected member's node is ready for an upgrade plan
+  const acknowledgeUpgrade = useCallback(async (planId: number) => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.acknowledgeUpgrade(planId);
+      toast.success(`Readiness for upgrade plan #${planId} acknowledged`);
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error acknowledging upgrade: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Pause registry changes
+  const pause = useCallback(async () => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.pause();
+      toast.success('Registry paused');
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error pausing registry: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
+  // Resume registry changes
+  const unpause = useCallback(async () => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      await contractService.unpause();
+      toast.success('Registry unpaused');
+      await fetchContractData();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setState(prev => ({ ...prev, error: errorMessage }));
+      toast.error(`Error unpausing registry: ${errorMessage}`);
+    } finally {
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [fetchContractData]);
+
   return {
     // State
     ...state,
@@ -294,7 +986,37 @@ export const useContract = (): ContractHookReturn => {
     addMember,
     removeMember,
     updateMemberStatus,
+    setMemberState,
     updateMemberDetails,
+    updateMyEndpoint,
     transferOwnership,
+    acceptOwnership,
+    cancelOwnershipTransfer,
+    revokeCertificate,
+    grantRole,
+    revokeRole,
+    approveProposal,
+    executeProposal,
+    cancelProposal,
+    loadMoreProposals,
+    setApprovalThreshold,
+    setMemberMetadata,
+    setMemberEndpoints,
+    setMetadataSelfService,
+    setJoinRequestRequired,
+    renewMembership,
+    setDefaultLeaseDuration,
+    setMinPlatformVersion,
+    createOrganization,
+    setOrganizationQuota,
+    addOrganizationAdmin,
+    removeOrganizationAdmin,
+    setMemberOrganization,
+    addOrganizationMember,
+    removeOrganizationMember,
+    updateOrganizationMemberStatus,
+    acknowledgeUpgrade,
+    pause,
+    unpause,
   };
 };
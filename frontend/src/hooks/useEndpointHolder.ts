@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import contractService from '../utils/contractHelpers';
+import { normalizeHost } from '../utils/validationHelpers';
+
+// Wait for typing to pause before asking the contract
+const LOOKUP_DELAY_MS = 400;
+
+/**
+ * Member already registered at host:port, or '' when the endpoint is free.
+ * `ownAddress` is ignored as a holder so a member keeping its current endpoint is not flagged.
+ */
+export const useEndpointHolder = (host: string, port: string | number, ownAddress: string = ''): string => {
+  const [holder, setHolder] = useState('');
+
+  useEffect(() => {
+    const normalizedHost = normalizeHost(host);
+    const portNumber = Number(port);
+    if (!normalizedHost || !Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535) {
+      setHolder('');
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await contractService.getEndpointHolder(normalizedHost, portNumber);
+        if (cancelled) return;
+        const isFree = /^0x0+$/.test(result) || result.toLowerCase() === ownAddress.toLowerCase();
+        setHolder(isFree ? '' : result);
+      } catch (error) {
+        console.error('Error looking up endpoint:', error);
+        if (!cancelled) setHolder('');
+      }
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [host, port, ownAddress]);
+
+  return holder;
+};
@@ -9,12 +9,52 @@ export interface Member {
   x500Name: string;
   memberAddress: string;
   certSerialHex: string; // X.509 certificate serial number in hex format
-  isActive: boolean;
+  isActive: boolean;       // True exactly when state is 'Active'
+  state: MemberState;
   joinedAt: number;
   lastUpdated: number;
   platformVersion: number;
   host: string;
   port: number;
+  certFingerprint: string; // SHA-256 fingerprint of the certificate (bytes32 hex, zero if not registered)
+  certNotBefore: number;   // Certificate validity window in unix seconds, 0 if not registered
+  certNotAfter: number;
+  expiresAt: number;       // Membership lease end in unix seconds, 0 if the membership does not expire
+  lastSeen: number;        // Latest heartbeat from the node in unix seconds, 0 if it has sent none
+}
+
+// Lifecycle of a membership, in the order of the contract's MemberState enum
+export type MemberState = 'Pending' | 'Active' | 'Suspended' | 'Retiring' | 'Retired';
+
+// Archived record of a removed member, kept on-chain after removal
+export interface FormerMember {
+  tenureId: number;        // Archive id, starting at 1
+  member: Member;          // Record as it stood at removal; expiresAt is not archived
+  finalState: MemberState;
+  reason: number;          // Index into STATE_REASONS
+  removedBy: string;
+  removedAt: number;
+  previousTenure: number;  // Archive id of the same address's earlier tenure, 0 for its first
+}
+
+// One free-form attribute of a member, e.g. region or operator contact
+export interface MemberMetadataEntry {
+  key: string;
+  value: string;
+}
+
+// Certificate validity derived from certNotBefore/certNotAfter
+export type CertExpiryStatus = 'valid' | 'expiring' | 'expired' | 'notYetValid' | 'unknown';
+
+// Membership lease state derived from expiresAt; 'none' for members without a lease
+export type LeaseStatus = 'valid' | 'expiring' | 'expired' | 'none';
+
+// Node liveness derived from lastSeen; 'none' for nodes that never sent a heartbeat
+export type HeartbeatStatus = 'live' | 'stale' | 'none';
+
+export interface MembersPage {
+  members: Member[];
+  total: number;
 }
 
 export interface MemberFormData {
@@ -24,6 +64,56 @@ export interface MemberFormData {
   platformVersion: number | string;
   host: string;
   port: number | string;
+  endpoints?: MemberEndpoint[]; // Additional endpoints; left as they are when undefined
+}
+
+// Protocols of a member's additional endpoints, in the order of the contract's EndpointProtocol enum
+export type EndpointProtocol = 'p2p' | 'rpc' | 'ws' | 'grpc' | 'metrics';
+
+export interface MemberEndpoint {
+  protocol: EndpointProtocol;
+  host: string;
+  port: number;
+}
+
+// A company running several member nodes; its admins manage only its own members, up to nodeQuota of them
+export interface Organization {
+  id: number; // Starts at 1; members outside any organization have none
+  name: string;
+  nodeQuota: number;
+  memberCount: number;
+  admins: string[];
+  members: string[];
+}
+
+// Open and DeadlinePassed are derived client-side from the deadline and the current block
+export type UpgradePlanStatus = 'Open' | 'DeadlinePassed' | 'Activated' | 'Cancelled';
+
+// A hard fork members acknowledge readiness for before it activates
+export interface UpgradePlan {
+  id: number; // Starts at 1
+  targetVersion: number;
+  activationBlock: number;
+  deadline: number; // Members can acknowledge until this time
+  createdBy: string;
+  createdAt: number;
+  status: UpgradePlanStatus;
+  ready: string[];    // Current members that acknowledged the plan
+  notReady: string[]; // Current members that have not
+}
+
+// Registration details an applicant signs (EIP-712) with their member key and shares with a registrar as JSON
+export interface SignedJoinRequest {
+  memberAddress: string;
+  x500Name: string;
+  certSerialHex: string;
+  host: string;
+  port: number;
+  nonce: number;    // The member address's join request nonce when signed; the request is single-use
+  deadline: number; // Unix seconds after which the contract rejects the request
+  chainId: number;
+  contractAddress: string; // NetworkManager the request was signed for (EIP-712 verifyingContract)
+  signature: string;
 }
 
 export interface ValidationResult {
@@ -37,13 +127,102 @@ export interface MemberDataValidation {
   sanitizedCertSerial?: string; // Sanitized X.509 certificate serial hex
 }
 
+// Access roles defined by NetworkManager; the deployer is granted all but auditor, like any other grant
+export type Role = 'admin' | 'registrar' | 'operator' | 'auditor' | 'pauser' | 'renewer';
+
+export type AccountRoles = Record<Role, boolean>;
+
+export type ProposalAction = 'AddMember' | 'RemoveMember' | 'UpdateMemberDetails' | 'ChangeApprovalThreshold' | 'SetMemberCertificate' | 'AddMemberWithJoinRequest';
+
+// Expired is derived client-side for pending proposals past their expiry
+export type ProposalStatus = 'Pending' | 'Executed' | 'Cancelled' | 'Expired';
+
+export interface Proposal {
+  id: number;
+  action: ProposalAction;
+  member: Member; // Only memberAddress is set for RemoveMember, and the certificate fields too for SetMemberCertificate; nothing for ChangeApprovalThreshold
+  proposedThreshold?: number; // Set for ChangeApprovalThreshold
+  proposer: string;
+  approvals: number; // For pending proposals, only approvals from current registrars
+  createdAt: number;
+  expiresAt: number;
+  status: ProposalStatus;
+  approvedByAccount: boolean; // Only checked for pending proposals
+}
+
+export interface ProposalsPage {
+  proposals: Proposal[]; // Most recent first
+  total: number; // Proposals ever created, including those not loaded
+}
+
+// Contract events shown in the activity feed
+export type ActivityEventType =
+  | 'MemberAdded'
+  | 'MemberRemoved'
+  | 'MemberArchived'
+  | 'MemberStatusChanged'
+  | 'MemberEndpointChanged'
+  | 'MemberSelfUpdated'
+  | 'MemberCertificateRotated'
+  | 'MemberMetadataSet'
+  | 'MemberLeaseRenewed'
+  | 'MemberEndpointsChanged'
+  | 'MemberStateChanged'
+  | 'CertificateRevoked';
+
+export interface ActivityEvent {
+  type: ActivityEventType;
+  memberAddress: string; // Empty for CertificateRevoked, which is keyed by serial
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  values: Record<string, string>; // Decoded event arguments by name
+}
+
+export interface MemberFieldChange {
+  field: string; // NodeMember field name, expiresAt, or metadata.<key>
+  previous: string; // Empty if the field had no value before
+  current: string; // Empty if the field was cleared
+}
+
+export interface MemberHistoryEntry {
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  sender: string;
+  events: string[]; // Contract events the transaction emitted for the member, in log order
+  changes: MemberFieldChange[];
+  stateUnavailable: boolean; // The node could not serve getMember at this block, e.g. it is not an archive node
+}
+
+export interface ActivityFilter {
+  fromBlock: number;
+  toBlock: number;
+  types: ActivityEventType[];
+  memberAddress?: string;
+}
+
 export interface ContractState {
   isConnected: boolean;
   account: string;
   contractAddress: string;
   owner: string;
-  isOwner: boolean;
+  pendingOwner: string; // Nominated owner awaiting acceptance, empty if none
+  roles: AccountRoles;
   members: string[];
+  memberRecords: Member[];
+  proposals: Proposal[]; // The most recent ones, including every pending one
+  proposalCount: number; // Proposals ever created; older closed ones are loaded on request
+  approvalThreshold: number;
+  isPaused: boolean; // Registry changes are frozen until a pauser unpauses
+  metadataSelfService: boolean; // Members may edit metadata on their own record
+  joinRequestRequired: boolean; // Members can only be added from a signed join request
+  defaultLeaseDuration: number; // Lease in seconds given to new members, 0 if they get none
+  minPlatformVersion: number; // Oldest supported node software, 0 if there is no minimum
+  organizations: Organization[];
+  adminOrganizationId: number; // Organization the connected account administers, 0 if none
+  formerMembers: FormerMember[];
+  upgradePlans: UpgradePlan[];
   selectedMember: Member | null;
   loading: boolean;
   error: string | null;
@@ -54,11 +233,41 @@ export interface ContractHookReturn extends ContractState {
   connectWithMetaMask: (contractAddr: string) => Promise<void>;
   disconnect: () => void;
   selectMember: (address: string) => Promise<void>;
-  addMember: (memberData: MemberFormData) => Promise<{ success: boolean; error?: string }>;
-  removeMember: (address: string) => Promise<void>;
+  addMember: (memberData: MemberFormData, joinRequest?: SignedJoinRequest) => Promise<{ success: boolean; error?: string }>;
+  removeMember: (address: string, reason?: number) => Promise<void>;
   updateMemberStatus: (address: string, isActive: boolean) => Promise<void>;
+  setMemberState: (address: string, state: MemberState, reason: number) => Promise<void>;
   updateMemberDetails: (memberData: MemberFormData) => Promise<{ success: boolean; error?: string }>;
+  updateMyEndpoint: (host: string, port: number, platformVersion: number) => Promise<{ success: boolean; error?: string }>;
   transferOwnership: (newOwnerAddress: string) => Promise<void>;
+  acceptOwnership: () => Promise<void>;
+  cancelOwnershipTransfer: () => Promise<void>;
+  revokeCertificate: (certSerialHex: string, reason: number) => Promise<void>;
+  grantRole: (role: Role, address: string) => Promise<void>;
+  revokeRole: (role: Role, address: string) => Promise<void>;
+  approveProposal: (proposalId: number) => Promise<void>;
+  executeProposal: (proposalId: number) => Promise<void>;
+  cancelProposal: (proposalId: number) => Promise<void>;
+  loadMoreProposals: () => Promise<void>;
+  setApprovalThreshold: (threshold: number) => Promise<void>;
+  setMemberMetadata: (address: string, key: string, value: string) => Promise<boolean>;
+  setMemberEndpoints: (address: string, endpoints: MemberEndpoint[]) => Promise<boolean>;
+  setMetadataSelfService: (enabled: boolean) => Promise<void>;
+  setJoinRequestRequired: (required: boolean) => Promise<void>;
+  renewMembership: (address: string, expiresAt: number) => Promise<void>;
+  setDefaultLeaseDuration: (seconds: number) => Promise<void>;
+  setMinPlatformVersion: (version: number) => Promise<void>;
+  createOrganization: (name: string, nodeQuota: number) => Promise<void>;
+  setOrganizationQuota: (organizationId: number, nodeQuota: number) => Promise<void>;
+  addOrganizationAdmin: (organizationId: number, address: string) => Promise<void>;
+  removeOrganizationAdmin: (address: string) => Promise<void>;
+  setMemberOrganization: (address: string, organizationId: number) => Promise<void>;
+  addOrganizationMember: (memberData: MemberFormData) => Promise<{ success: boolean; error?: string }>;
+  removeOrganizationMember: (address: string) => Promise<void>;
+  updateOrganizationMemberStatus: (address: string, isActive: boolean) => Promise<void>;
+  acknowledgeUpgrade: (planId: number) => Promise<void>;
+  pause: () => Promise<void>;
+  unpause: () => Promise<void>;
 }
 
 export interface TransactionReceipt {
@@ -5,11 +5,198 @@
 
 import Web3 from 'web3';
 import type { Contract, ContractAbi } from 'web3';
-import type { Member, TransactionReceipt } from '../types/contract';
+import type { AccountRoles, ActivityEvent, ActivityEventType, ActivityFilter, CertExpiryStatus, EndpointProtocol, FormerMember, HeartbeatStatus, LeaseStatus, Member, MemberEndpoint, MemberFormData, MemberHistoryEntry, MemberMetadataEntry, MembersPage, MemberState, Organization, Proposal, ProposalAction, ProposalsPage, Role, SignedJoinRequest, TransactionReceipt, UpgradePlan } from '../types/contract';
 import { NetworkManagerABI } from '../contracts/NetworkManager.abi';
+import { formatEndpoint, normalizeHost } from './validationHelpers';
 
 const CONTRACT_ABI: ContractAbi = NetworkManagerABI as ContractAbi;
 
+// Number of member records requested per getMembersPage call
+export const MEMBERS_PAGE_SIZE = 50;
+
+// Number of proposals requested per getProposalsPage call, and how many getProposals loads at least
+export const PROPOSALS_PAGE_SIZE = 25;
+
+// Contract constant holding the bytes32 identifier of each role
+const ROLE_CONSTANTS: Record<Role, string> = {
+  admin: 'DEFAULT_ADMIN_ROLE',
+  registrar: 'REGISTRAR_ROLE',
+  operator: 'OPERATOR_ROLE',
+  auditor: 'AUDITOR_ROLE',
+  pauser: 'PAUSER_ROLE',
+  renewer: 'RENEWER_ROLE'
+};
+
+export const ROLES = Object.keys(ROLE_CONSTANTS) as Role[];
+
+// Certificates expiring within this many days are flagged in the UI
+export const CERT_EXPIRY_WARNING_DAYS = 30;
+
+/**
+ * Classify a member's certificate by its registered validity window
+ */
+export const getCertExpiryStatus = (member: Member, now: number = Date.now() / 1000): CertExpiryStatus => {
+  if (!member.certNotAfter) return 'unknown';
+  if (now < member.certNotBefore) return 'notYetValid';
+  if (now >= member.certNotAfter) return 'expired';
+  if (member.certNotAfter - now <= CERT_EXPIRY_WARNING_DAYS * 24 * 60 * 60) return 'expiring';
+  return 'valid';
+};
+
+// Default window of the "Expiring soon" view
+export const LEASE_EXPIRY_WARNING_DAYS = 30;
+
+/**
+ * Classify a member's lease; leases ending within `warningDays` count as expiring
+ */
+export const getLeaseStatus = (
+  member: Member,
+  warningDays: number = LEASE_EXPIRY_WARNING_DAYS,
+  now: number = Date.now() / 1000
+): LeaseStatus => {
+  if (!member.expiresAt) return 'none';
+  if (now >= member.expiresAt) return 'expired';
+  if (member.expiresAt - now <= warningDays * 24 * 60 * 60) return 'expiring';
+  return 'valid';
+};
+
+// Default for the member list's stale heartbeat flag; the heartbeat agent beats every 5 minutes by default
+export const HEARTBEAT_STALE_MINUTES = Number(import.meta.env.VITE_HEARTBEAT_STALE_MINUTES) || 15;
+
+/**
+ * Classify a node's liveness; heartbeats older than `staleMinutes` count as stale
+ */
+export const getHeartbeatStatus = (
+  member: Member,
+  staleMinutes: number = HEARTBEAT_STALE_MINUTES,
+  now: number = Date.now() / 1000
+): HeartbeatStatus => {
+  if (!member.lastSeen) return 'none';
+  return now - member.lastSeen > staleMinutes * 60 ? 'stale' : 'live';
+};
+
+/**
+ * Client-side mirror of the contract's isCompliant for an already loaded member
+ */
+export const isPlatformCompliant = (member: Member, minPlatformVersion: number): boolean =>
+  member.platformVersion >= minPlatformVersion;
+
+// Events read by the activity feed, in the order they are offered as filters
+export const ACTIVITY_EVENT_TYPES: ActivityEventType[] = [
+  'MemberAdded',
+  'MemberRemoved',
+  'MemberArchived',
+  'MemberStatusChanged',
+  'MemberEndpointChanged',
+  'MemberSelfUpdated',
+  'MemberCertificateRotated',
+  'MemberMetadataSet',
+  'MemberLeaseRenewed',
+  'MemberEndpointsChanged',
+  'MemberStateChanged',
+  'CertificateRevoked'
+];
+
+// Indexed by the contract's EndpointProtocol enum value
+export const ENDPOINT_PROTOCOLS: EndpointProtocol[] = ['p2p', 'rpc', 'ws', 'grpc', 'metrics'];
+
+export const ENDPOINT_PROTOCOL_LABELS: Record<EndpointProtocol, string> = {
+  p2p: 'P2P',
+  rpc: 'RPC',
+  ws: 'WebSocket',
+  grpc: 'gRPC',
+  metrics: 'Metrics'
+};
+
+// Indexed by the contract's MemberState enum value
+export const MEMBER_STATES: MemberState[] = ['Pending', 'Active', 'Suspended', 'Retiring', 'Retired'];
+
+// States setMemberState accepts from each state; must match _isAllowedTransition in NetworkManagerBase
+export const MEMBER_STATE_TRANSITIONS: Record<MemberState, MemberState[]> = {
+  Pending: ['Active', 'Retired'],
+  Active: ['Suspended', 'Retiring'],
+  Suspended: ['Active', 'Retiring'],
+  Retiring: ['Retired'],
+  Retired: []
+};
+
+// Reasons recorded with a lifecycle transition, indexed by reason code (up to MAX_STATE_REASON)
+export const STATE_REASONS = [
+  'Unspecified',
+  'Node online',
+  'Maintenance',
+  'Security incident',
+  'Policy violation',
+  'Lease expired',
+  'Decommissioned',
+  'Replaced by another node'
+] as const;
+
+// Events that mark a change to one member's record. MemberUpdated accompanies every change to the struct itself.
+const MEMBER_HISTORY_EVENTS = [
+  'MemberAdded',
+  'MemberUpdated',
+  'MemberRemoved',
+  'MemberMetadataSet',
+  'MemberLeaseRenewed',
+  'MemberEndpointsChanged',
+  'MemberStateChanged',
+  'MemberArchived'
+];
+
+// NodeMember fields compared between blocks; joinedAt and lastUpdated change with every write and are left out
+const MEMBER_HISTORY_FIELDS: (keyof Member)[] = [
+  'x500Name',
+  'certSerialHex',
+  'isActive',
+  'platformVersion',
+  'host',
+  'port',
+  'certFingerprint',
+  'certNotBefore',
+  'certNotAfter'
+];
+
+// EIP-712 type of a join request; must match JOIN_REQUEST_TYPEHASH in NetworkManagerExtension3
+const JOIN_REQUEST_TYPES = {
+  EIP712Domain: [
+    { name: 'name', type: 'string' },
+    { name: 'version', type: 'string' },
+    { name: 'chainId', type: 'uint256' },
+    { name: 'verifyingContract', type: 'address' }
+  ],
+  JoinRequest: [
+    { name: 'memberAddress', type: 'address' },
+    { name: 'x500Name', type: 'string' },
+    { name: 'certSerialHex', type: 'bytes' },
+    { name: 'host', type: 'string' },
+    { name: 'port', type: 'uint16' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+// How long a signed join request can be used, in seconds
+export const JOIN_REQUEST_LIFETIME = 7 * 24 * 60 * 60;
+
+// Largest block range requested in one eth_getLogs call; many subnet RPC nodes cap the range
+const LOG_BLOCK_RANGE = 5000;
+
+// ProposalAction and ProposalStatus enum names, indexed by their contract values
+const PROPOSAL_ACTIONS: ProposalAction[] = ['AddMember', 'RemoveMember', 'UpdateMemberDetails', 'ChangeApprovalThreshold', 'SetMemberCertificate', 'AddMemberWithJoinRequest'];
+const PROPOSAL_STATUSES = ['Pending', 'Executed', 'Cancelled'] as const;
+
+// RFC 5280 CRLReason names accepted by revokeCertificate, indexed by reason code
+export const REVOCATION_REASONS = [
+  'unspecified',
+  'keyCompromise',
+  'CACompromise',
+  'affiliationChanged',
+  'superseded',
+  'cessationOfOperation',
+  'certificateHold'
+] as const;
+
 
 type EventListener = () => void;
 
@@ -20,6 +207,7 @@ class ContractService {
   private web3: Web3 | null = null;
   private contract: Contract<typeof CONTRACT_ABI> | null = null;
   private listeners: Map<string, Set<EventListener>> = new Map();
+  private roleIds: Partial<Record<Role, string>> = {};
 
   public isConnected = false;
   public account: string | null = null;
@@ -156,6 +344,7 @@ class ContractService {
 
       // Initialize contract
       this.contract = new this.web3.eth.Contract(CONTRACT_ABI, contractAddr);
+      this.roleIds = {};
 
       const chainId = await this.web3.eth.getChainId();
 
@@ -216,6 +405,7 @@ class ContractService {
 
       // Initialize contract
       this.contract = new this.web3.eth.Contract(CONTRACT_ABI, contractAddr);
+      this.roleIds = {};
 
       this.isConnected = true;
       this.saveConnectionState(false);
@@ -237,6 +427,7 @@ class ContractService {
   disconnect(): void {
     this.web3 = null;
     this.contract = null;
+    this.roleIds = {};
     this.isConnected = false;
     this.account = null;
     this.contractAddress = null;
@@ -315,6 +506,68 @@ class ContractService {
     }
   }
 
+  /**
+   * Get the number of registered members
+   */
+  async getMemberCount(): Promise<number> {
+    this.ensureConnected();
+    const count = await this.contract!.methods.getMemberCount().call();
+    return Number(count);
+  }
+
+  /**
+   * Get a page of full member records along with the total member count
+   * @param offset Index of the first member to return
+   * @param limit Maximum number of members to return
+   * @param block Block to read at; the latest block if omitted
+   */
+  async getMembersPage(offset: number, limit: number, block?: number): Promise<MembersPage> {
+    this.ensureConnected();
+    const result = await this.contract!.methods.getMembersPage(offset, limit).call(undefined, block) as any;
+    const page = result.page || result[0] || [];
+    const members: Member[] = Array.isArray(page) ? page.map((member: any) => this.parseMember(member)) : [];
+
+    // Leases, lifecycle states and heartbeats are kept outside the NodeMember struct, so they are read for the whole page in one call each
+    if (members.length > 0) {
+      const addresses = members.map(member => member.memberAddress);
+      const expiries = await this.contract!.methods.getLeaseExpiries(addresses).call(undefined, block) as any[];
+      const states = await this.contract!.methods.getMemberStates(addresses).call(undefined, block) as any[];
+      const lastSeenTimes = await this.contract!.methods.getLastSeenTimes(addresses).call(undefined, block) as any[];
+      members.forEach((member, index) => {
+        member.expiresAt = Number(expiries[index] ?? 0);
+        member.state = MEMBER_STATES[Number(states[index] ?? 0)];
+        member.lastSeen = Number(lastSeenTimes[index] ?? 0);
+      });
+    }
+
+    return {
+      members,
+      total: Number(result.total ?? result[1] ?? 0)
+    };
+  }
+
+  /**
+   * Get every member record by walking the registry page by page.
+   * Every page is read at the same block, so a member added or removed meanwhile cannot shift a page
+   * and make a record appear twice or be skipped.
+   * @param pageSize Number of members fetched per call
+   */
+  async getAllMemberRecords(pageSize: number = MEMBERS_PAGE_SIZE): Promise<Member[]> {
+    this.ensureConnected();
+    const block = Number(await this.web3!.eth.getBlockNumber());
+    const records: Member[] = [];
+    let total = 0;
+
+    do {
+      const page = await this.getMembersPage(records.length, pageSize, block);
+      total = page.total;
+      if (page.members.length === 0) break;
+      records.push(...page.members);
+    } while (records.length < total);
+
+    return records;
+  }
+
   /**
    * Get member details by address
    * Returns member data with certSerialHex (X.509 certificate serial number)
@@ -327,22 +580,14 @@ class ContractService {
       // Attempt to call getMember directly
       // Note: We use low-level call to catch RPC errors better
       const member = await this.contract!.methods.getMember(address).call() as any;
-      
-      // Contract returns NodeMember struct
-      // Handle empty bytes data safely by checking if certSerialHex is valid
-      const certSerialHex = member.certSerialHex || member[2];
-      const certSerialHexStr = certSerialHex ? String(certSerialHex) : '0x';
-      
+      const expiresAt = await this.contract!.methods.getLeaseExpiry(address).call();
+      const state = await this.contract!.methods.getMemberState(address).call();
+      const lastSeen = await this.contract!.methods.getLastSeen(address).call();
       return {
-        x500Name: String(member.x500Name || member[0] || ''),
-        memberAddress: String(member.memberAddress || member[1] || address),
-        certSerialHex: certSerialHexStr,
-        isActive: Boolean(member.isActive !== undefined ? member.isActive : member[3]),
-        joinedAt: Number(member.joinedAt || member[4] || 0),
-        lastUpdated: Number(member.lastUpdated || member[5] || 0),
-        platformVersion: Number(member.platformVersion || member[6] || 0),
-        host: String(member.host || member[7] || ''),
-        port: Number(member.port || member[8] || 0)
+        ...this.parseMember(member, address),
+        expiresAt: Number(expiresAt),
+        state: MEMBER_STATES[Number(state)],
+        lastSeen: Number(lastSeen)
       };
     } catch (error: any) {
       // Check for specific error types
@@ -361,6 +606,34 @@ class ContractService {
     }
   }
 
+  /**
+   * Convert a NodeMember struct returned by the contract into a Member
+   */
+  private parseMember(member: any, fallbackAddress: string = ''): Member {
+    // Contract returns NodeMember struct
+    // Handle empty bytes data safely by checking if certSerialHex is valid
+    const certSerialHex = member.certSerialHex || member[2];
+    const certSerialHexStr = certSerialHex ? String(certSerialHex) : '0x';
+
+    return {
+      x500Name: String(member.x500Name || member[0] || ''),
+      memberAddress: String(member.memberAddress || member[1] || fallbackAddress),
+      certSerialHex: certSerialHexStr,
+      isActive: Boolean(member.isActive !== undefined ? member.isActive : member[3]),
+      joinedAt: Number(member.joinedAt || member[4] || 0),
+      lastUpdated: Number(member.lastUpdated || member[5] || 0),
+      platformVersion: Number(member.platformVersion || member[6] || 0),
+      host: String(member.host || member[7] || ''),
+      port: Number(member.port || member[8] || 0),
+      certFingerprint: String(member.certFingerprint || member[9] || ''),
+      certNotBefore: Number(member.certNotBefore || member[10] || 0),
+      certNotAfter: Number(member.certNotAfter || member[11] || 0),
+      expiresAt: 0, // Not part of the struct; filled in by the callers that read leases
+      state: 'Pending', // Likewise filled in by the callers that read lifecycle states
+      lastSeen: 0 // And by the callers that read heartbeats
+    };
+  }
+
   /**
    * Get transaction options for legacy (Type 0) transactions
    * XDC Subnet doesn't support EIP-1559, so we need to use legacy format
@@ -412,21 +685,149 @@ class ContractService {
   }
 
   /**
-   * Remove a member from the network
+   * Sign a join request for the connected account with its own key (EIP-712), for an applicant
+   * to hand to a registrar. The request is bound to this contract and chain, carries the account's
+   * current nonce so it can only be used once, and expires after JOIN_REQUEST_LIFETIME.
+   */
+  async signJoinRequest(
+    request: Pick<SignedJoinRequest, 'x500Name' | 'certSerialHex' | 'host' | 'port'>
+  ): Promise<SignedJoinRequest> {
+    this.ensureConnected();
+    const chainId = Number(await this.web3!.eth.getChainId());
+    const nonce = await this.getJoinRequestNonce(this.account!);
+    const deadline = Math.floor(Date.now() / 1000) + JOIN_REQUEST_LIFETIME;
+    const message = { memberAddress: this.account!, ...request, nonce, deadline };
+
+    const signature = await this.web3!.eth.signTypedData(this.account!, {
+      types: JOIN_REQUEST_TYPES,
+      primaryType: 'JoinRequest',
+      domain: { name: 'NetworkManager', version: '1', chainId, verifyingContract: this.contractAddress! },
+      message
+    });
+
+    return { ...message, chainId, contractAddress: this.contractAddress!, signature: String(signature) };
+  }
+
+  /**
+   * Check a join request's signature against the connected contract and chain
+   */
+  async isValidJoinRequest(request: SignedJoinRequest): Promise<boolean> {
+    this.ensureConnected();
+    const { memberAddress, x500Name, certSerialHex, host, port, nonce, deadline, signature } = request;
+
+    try {
+      return Boolean(await this.contract!.methods
+        .isValidJoinRequest({ memberAddress, x500Name, certSerialHex, host, port, nonce, deadline }, signature)
+        .call());
+    } catch (error) {
+      console.error('Error verifying join request:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Nonce the address's next join request must carry; each accepted request increments it
+   */
+  async getJoinRequestNonce(address: string): Promise<number> {
+    this.ensureConnected();
+    const nonce = await this.contract!.methods.getJoinRequestNonce(address).call();
+    return Number(nonce);
+  }
+
+  /**
+   * Check whether members can only be added from signed join requests
+   */
+  async isJoinRequestRequired(): Promise<boolean> {
+    this.ensureConnected();
+    const required = await this.contract!.methods.isJoinRequestRequired().call();
+    return Boolean(required);
+  }
+
+  async setJoinRequestRequired(required: boolean): Promise<TransactionReceipt> {
+    this.ensureConnected();
+
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+
+    const tx = await this.contract!.methods
+      .setJoinRequestRequired(required)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Add a member from a signed join request; the contract verifies the signature
+   */
+  async addMemberWithJoinRequest(request: SignedJoinRequest, platformVersion: number | string): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    const { memberAddress, x500Name, certSerialHex, host, port, nonce, deadline, signature } = request;
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .addMemberWithJoinRequest({ memberAddress, x500Name, certSerialHex, host, port, nonce, deadline }, Number(platformVersion), signature)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Propose adding a member from a signed join request; the nonce is consumed when the proposal executes
    */
-  async removeMember(address: string): Promise<TransactionReceipt> {
+  async proposeAddMemberWithJoinRequest(request: SignedJoinRequest, platformVersion: number | string): Promise<TransactionReceipt> {
     this.ensureConnected();
+    const { memberAddress, x500Name, certSerialHex, host, port, nonce, deadline, signature } = request;
     
     // Use legacy transaction format for XDC Subnet
     const txOptions = await this.getLegacyTxOptions();
     
     const tx = await this.contract!.methods
-      .removeMember(address)
+      .proposeAddMemberWithJoinRequest({ memberAddress, x500Name, certSerialHex, host, port, nonce, deadline }, Number(platformVersion), signature)
       .send(txOptions);
 
     return tx as unknown as TransactionReceipt;
   }
 
+  /**
+   * Remove a member from the network. Its record is archived either way
+   * @param reason Index into STATE_REASONS recorded in the archive; 0 (unspecified) uses plain removeMember
+   */
+  async removeMember(address: string, reason: number = 0): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = reason === 0
+      ? await this.contract!.methods.removeMember(address).send(txOptions)
+      : await this.contract!.methods.removeMemberWithReason(address, reason).send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Get the archived records of every removed member, oldest removal first
+   */
+  async getFormerMembers(): Promise<FormerMember[]> {
+    this.ensureConnected();
+    const archive = await this.contract!.methods.getFormerMembers().call() as any[];
+
+    return (Array.isArray(archive) ? archive : []).map((former: any, index: number) => {
+      const finalState = MEMBER_STATES[Number(former.finalState ?? former[1] ?? 0)];
+      return {
+        tenureId: index + 1,
+        member: { ...this.parseMember(former.member ?? former[0]), state: finalState },
+        finalState,
+        reason: Number(former.reason ?? former[2] ?? 0),
+        removedBy: String(former.removedBy ?? former[3] ?? ''),
+        removedAt: Number(former.removedAt ?? former[4] ?? 0),
+        previousTenure: Number(former.previousTenure ?? former[5] ?? 0)
+      };
+    });
+  }
+
   /**
    * Update member status (active/inactive)
    */
@@ -443,6 +844,24 @@ class ContractService {
     return tx as unknown as TransactionReceipt;
   }
 
+  /**
+   * Move a member along its lifecycle
+   * @param state Target state; must be reachable from the member's current state
+   * @param reason Index into STATE_REASONS
+   */
+  async setMemberState(address: string, state: MemberState, reason: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+
+    const tx = await this.contract!.methods
+      .setMemberState(address, MEMBER_STATES.indexOf(state), reason)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
   /**
    * Update member details
    * @param address Member's blockchain address
@@ -481,16 +900,1055 @@ class ContractService {
   }
 
   /**
-   * Transfer contract ownership to a new manager
+   * Add several members in a single transaction. The contract rejects the whole batch if any entry is invalid.
+   * Certificate fingerprints are left unset; register them afterwards with setMemberCertificate.
    */
-  async transferOwnership(newOwner: string): Promise<TransactionReceipt> {
+  async addMembers(members: MemberFormData[]): Promise<TransactionReceipt> {
     this.ensureConnected();
     
     // Use legacy transaction format for XDC Subnet
     const txOptions = await this.getLegacyTxOptions();
     
+    const batch = members.map(member => ({
+      memberAddress: member.address,
+      x500Name: member.x500Name,
+      certSerialHex: member.certSerialHex,
+      platformVersion: Number(member.platformVersion),
+      host: normalizeHost(member.host),
+      port: Number(member.port),
+      certFingerprint: '0x' + '0'.repeat(64),
+      certNotBefore: 0,
+      certNotAfter: 0
+    }));
+
     const tx = await this.contract!.methods
-      .transferOwnership(newOwner)
+      .addMembers(batch)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Set the same status on several members in a single transaction
+   */
+  async updateMembersStatus(addresses: string[], isActive: boolean): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .updateMembersStatus(addresses, isActive)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Remove several members in a single transaction
+   */
+  async removeMembers(addresses: string[]): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .removeMembers(addresses)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Update the connected member's own host, port and platform version
+   */
+  async updateMyEndpoint(
+    host: string,
+    port: number | string,
+    platformVersion: number | string
+  ): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .updateMyEndpoint(host, Number(port), Number(platformVersion))
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Get a member's additional endpoints, in the order they were set
+   */
+  async getMemberEndpoints(address: string): Promise<MemberEndpoint[]> {
+    this.ensureConnected();
+    const endpoints = await this.contract!.methods.getEndpoints(address).call() as any[];
+    return endpoints.map(endpoint => this.parseEndpoint(endpoint));
+  }
+
+  /**
+   * Replace a member's additional endpoints; an empty list removes them
+   */
+  async setMemberEndpoints(address: string, endpoints: MemberEndpoint[]): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .setEndpoints(
+        address,
+        endpoints.map(endpoint => ({
+          protocol: ENDPOINT_PROTOCOLS.indexOf(endpoint.protocol),
+          host: normalizeHost(endpoint.host),
+          port: Number(endpoint.port)
+        }))
+      )
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  private parseEndpoint(endpoint: any): MemberEndpoint {
+    return {
+      protocol: ENDPOINT_PROTOCOLS[Number(endpoint.protocol ?? endpoint[0])] ?? 'p2p',
+      host: String(endpoint.host ?? endpoint[1] ?? ''),
+      port: Number(endpoint.port ?? endpoint[2] ?? 0)
+    };
+  }
+
+  /**
+   * Get every metadata entry of a member, sorted by key
+   */
+  async getMemberMetadata(address: string): Promise<MemberMetadataEntry[]> {
+    this.ensureConnected();
+    const result = await this.contract!.methods.getAllMetadata(address).call() as any;
+    const keys: string[] = result.keys || result[0] || [];
+    const values: string[] = result.values || result[1] || [];
+
+    return keys
+      .map((key, index) => ({ key: String(key), value: String(values[index] ?? '') }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Set a metadata entry on a member; an empty value removes the key
+   */
+  async setMemberMetadata(address: string, key: string, value: string): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .setMetadata(address, key, value)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Check whether members may set metadata on their own record
+   */
+  async isMetadataSelfServiceEnabled(): Promise<boolean> {
+    this.ensureConnected();
+    const enabled = await this.contract!.methods.isMetadataSelfServiceEnabled().call();
+    return Boolean(enabled);
+  }
+
+  async setMetadataSelfService(enabled: boolean): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .setMetadataSelfService(enabled)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Set when a member's lease ends (unix seconds); renewer role
+   */
+  async renewMembership(address: string, expiresAt: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .renewMembership(address, expiresAt)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Get the lease length in seconds given to new members (0 if they get none)
+   */
+  async getDefaultLeaseDuration(): Promise<number> {
+    this.ensureConnected();
+    const duration = await this.contract!.methods.getDefaultLeaseDuration().call();
+    return Number(duration);
+  }
+
+  async setDefaultLeaseDuration(seconds: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .setDefaultLeaseDuration(seconds)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Get the oldest platform version the network supports (0 if there is no minimum)
+   */
+  async getMinPlatformVersion(): Promise<number> {
+    this.ensureConnected();
+    const version = await this.contract!.methods.getMinPlatformVersion().call();
+    return Number(version);
+  }
+
+  async setMinPlatformVersion(version: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .setMinPlatformVersion(version)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Get every organization with its admins and members, in id order
+   */
+  async getOrganizations(): Promise<Organization[]> {
+    this.ensureConnected();
+    const count = Number(await this.contract!.methods.getOrganizationCount().call());
+    const organizations: Organization[] = [];
+
+    for (let id = 1; id <= count; id++) {
+      const organization = await this.contract!.methods.getOrganization(id).call() as any;
+      const members = await this.contract!.methods.getOrganizationMembers(id).call() as string[];
+      organizations.push({
+        id,
+        name: String(organization.name ?? organization[0] ?? ''),
+        nodeQuota: Number(organization.nodeQuota ?? organization[1] ?? 0),
+        memberCount: Number(organization.memberCount ?? organization[2] ?? 0),
+        admins: ((organization.admins ?? organization[3] ?? []) as string[]).map(String),
+        members: members.map(String)
+      });
+    }
+
+    return organizations;
+  }
+
+  /**
+   * Get every upgrade plan with the current members ready and not ready for it, in id order
+   */
+  async getUpgradePlans(): Promise<UpgradePlan[]> {
+    this.ensureConnected();
+    const count = Number(await this.contract!.methods.getUpgradePlanCount().call());
+    const currentBlock = Number(await this.web3!.eth.getBlockNumber());
+    const now = Math.floor(Date.now() / 1000);
+    const plans: UpgradePlan[] = [];
+
+    for (let id = 1; id <= count; id++) {
+      const plan = await this.contract!.methods.getUpgradePlan(id).call() as any;
+      const readiness = await this.contract!.methods.getUpgradeReadiness(id).call() as any;
+      const activationBlock = Number(plan.activationBlock ?? plan[1] ?? 0);
+      const deadline = Number(plan.deadline ?? plan[2] ?? 0);
+      const cancelled = Boolean(plan.cancelled ?? plan[5]);
+
+      plans.push({
+        id,
+        targetVersion: Number(plan.targetVersion ?? plan[0] ?? 0),
+        activationBlock,
+        deadline,
+        createdBy: String(plan.createdBy ?? plan[3] ?? ''),
+        createdAt: Number(plan.createdAt ?? plan[4] ?? 0),
+        status: cancelled
+          ? 'Cancelled'
+          : currentBlock >= activationBlock ? 'Activated' : deadline < now ? 'DeadlinePassed' : 'Open',
+        ready: ((readiness.ready ?? readiness[0] ?? []) as string[]).map(String),
+        notReady: ((readiness.notReady ?? readiness[1] ?? []) as string[]).map(String)
+      });
+    }
+
+    return plans;
+  }
+
+  /**
+   * Signal that the connected member's node is ready for an upgrade plan
+   */
+  async acknowledgeUpgrade(planId: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .acknowledgeUpgrade(planId)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Get the organization an account administers (0 if none)
+   */
+  async getAdminOrganization(address: string): Promise<number> {
+    this.ensureConnected();
+    const organizationId = await this.contract!.methods.getAdminOrganization(address).call();
+    return Number(organizationId);
+  }
+
+  async createOrganization(name: string, nodeQuota: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .createOrganization(name, nodeQuota)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  async setOrganizationQuota(organizationId: number, nodeQuota: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .setOrganizationQuota(organizationId, nodeQuota)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  async addOrganizationAdmin(organizationId: number, address: string): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .addOrganizationAdmin(organizationId, address)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  async removeOrganizationAdmin(address: string): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .removeOrganizationAdmin(address)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Move a member into an organization; 0 takes it out of its organization
+   */
+  async setMemberOrganization(address: string, organizationId: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .setMemberOrganization(address, organizationId)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Add a member to the connected organization admin's own organization
+   */
+  async addOrganizationMember(
+    address: string,
+    x500Name: string,
+    certSerialHex: string,
+    platformVersion: number | string,
+    host: string,
+    port: number | string
+  ): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .addOrganizationMember(
+        address,
+        x500Name,
+        certSerialHex,
+        Number(platformVersion),
+        host,
+        Number(port)
+      )
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  async removeOrganizationMember(address: string): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .removeOrganizationMember(address)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  async updateOrganizationMemberStatus(address: string, isActive: boolean): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .updateOrganizationMemberStatus(address, isActive)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Get the nominated owner awaiting acceptance (zero address if none)
+   */
+  async getPendingOwner(): Promise<string> {
+    this.ensureConnected();
+    const pendingOwner = await this.contract!.methods.pendingOwner().call();
+    return String(pendingOwner);
+  }
+
+  /**
+   * Nominate a new manager; ownership moves only once they call acceptOwnership
+   */
+  async transferOwnership(newOwner: string): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .transferOwnership(newOwner)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Accept a pending ownership nomination (must be called by the nominee)
+   */
+  async acceptOwnership(): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .acceptOwnership()
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Withdraw a pending ownership nomination
+   */
+  async cancelOwnershipTransfer(): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .cancelOwnershipTransfer()
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Add a certificate serial to the on-chain revocation list
+   * @param certSerialHex X.509 certificate serial number in hex format
+   * @param reason RFC 5280 CRLReason code (index into REVOCATION_REASONS)
+   */
+  async revokeCertificate(certSerialHex: string, reason: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .revokeCertificate(certSerialHex, reason)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Check whether a certificate serial has been revoked on-chain
+   */
+  async isSerialRevoked(certSerialHex: string): Promise<boolean> {
+    this.ensureConnected();
+    const revoked = await this.contract!.methods.isSerialRevoked(certSerialHex).call();
+    return Boolean(revoked);
+  }
+
+  /**
+   * Get the member registered at host:port (zero address if the endpoint is free)
+   */
+  async getEndpointHolder(host: string, port: number): Promise<string> {
+    this.ensureConnected();
+    const holder = await this.contract!.methods.getEndpointHolder(host, port).call();
+    return String(holder);
+  }
+
+  /**
+   * Get the number of registrar approvals a proposal needs
+   */
+  async getApprovalThreshold(): Promise<number> {
+    this.ensureConnected();
+    const threshold = await this.contract!.methods.approvalThreshold().call();
+    return Number(threshold);
+  }
+
+  /**
+   * Get the block the contract was deployed in, where its event history starts
+   */
+  async getDeploymentBlock(): Promise<number> {
+    this.ensureConnected();
+    return Number(await this.contract!.methods.deploymentBlock().call());
+  }
+
+  /**
+   * Read membership events in a block range, newest first.
+   * CertificateRevoked is not tied to a member address, so it is skipped when filtering by member.
+   */
+  async getActivity(filter: ActivityFilter): Promise<ActivityEvent[]> {
+    this.ensureConnected();
+    const types = filter.memberAddress
+      ? filter.types.filter(type => type !== 'CertificateRevoked')
+      : filter.types;
+    const activity: ActivityEvent[] = [];
+
+    for (let start = filter.fromBlock; start <= filter.toBlock; start += LOG_BLOCK_RANGE) {
+      const end = Math.min(start + LOG_BLOCK_RANGE - 1, filter.toBlock);
+
+      for (const type of types) {
+        const logs = await this.contract!.getPastEvents(type as any, {
+          filter: filter.memberAddress ? { memberAddress: filter.memberAddress } : undefined,
+          fromBlock: start,
+          toBlock: end
+        });
+
+        for (const log of logs) {
+          if (typeof log === 'string') continue;
+
+          // returnValues holds each argument by index and by name; keep the named ones
+          const values: Record<string, string> = {};
+          for (const [key, value] of Object.entries(log.returnValues)) {
+            if (isNaN(Number(key)) && key !== '__length__') {
+              values[key] = String(value);
+            }
+          }
+
+          activity.push({
+            type,
+            memberAddress: values.memberAddress || '',
+            blockNumber: Number(log.blockNumber),
+            transactionHash: String(log.transactionHash),
+            logIndex: Number(log.logIndex),
+            values
+          });
+        }
+      }
+    }
+
+    return activity.sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+  }
+
+  /**
+   * Reconstruct a member's change history, oldest first, one entry per transaction.
+   * Struct changes come from comparing getMember at the block before and the block of each change,
+   * which needs an archive node; metadata and lease changes come from the events themselves,
+   * and endpoint list changes from getEndpoints at the same two blocks.
+   * If several transactions change the member in one block, the struct diff is shown on the last of them.
+   */
+  async getMemberHistory(address: string): Promise<MemberHistoryEntry[]> {
+    this.ensureConnected();
+    const fromBlock = await this.getDeploymentBlock();
+    const toBlock = Number(await this.web3!.eth.getBlockNumber());
+    const entries = new Map<string, MemberHistoryEntry & { logs: { type: string; logIndex: number; values: Record<string, string> }[] }>();
+
+    for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+      const end = Math.min(start + LOG_BLOCK_RANGE - 1, toBlock);
+
+      for (const type of MEMBER_HISTORY_EVENTS) {
+        const logs = await this.contract!.getPastEvents(type as any, {
+          filter: { memberAddress: address },
+          fromBlock: start,
+          toBlock: end
+        });
+
+        for (const log of logs) {
+          if (typeof log === 'string') continue;
+
+          const transactionHash = String(log.transactionHash);
+          const entry = entries.get(transactionHash) ?? {
+            blockNumber: Number(log.blockNumber),
+            timestamp: 0,
+            transactionHash,
+            sender: '',
+            events: [],
+            changes: [],
+            stateUnavailable: false,
+            logs: []
+          };
+          entry.logs.push({
+            type,
+            logIndex: Number(log.logIndex),
+            values: Object.fromEntries(Object.entries(log.returnValues).map(([key, value]) => [key, String(value)]))
+          });
+          entries.set(transactionHash, entry);
+        }
+      }
+    }
+
+    // Logs come back grouped by event type, so restore log order within and across transactions
+    for (const entry of entries.values()) {
+      entry.logs.sort((a, b) => a.logIndex - b.logIndex);
+      entry.events = entry.logs.map(log => log.type);
+    }
+    const sorted = [...entries.values()].sort((a, b) => a.blockNumber - b.blockNumber || a.logs[0].logIndex - b.logs[0].logIndex);
+    const readMemberAt = async (block: number): Promise<Member | null> => {
+      try {
+        return this.parseMember(await this.contract!.methods.getMember(address).call(undefined, block), address);
+      } catch {
+        return null; // Not a member at that block, or the node has pruned its state
+      }
+    };
+
+    for (const [index, entry] of sorted.entries()) {
+      const block = await this.web3!.eth.getBlock(entry.blockNumber);
+      const transaction = await this.web3!.eth.getTransaction(entry.transactionHash);
+      entry.timestamp = Number(block.timestamp);
+      entry.sender = String(transaction.from);
+
+      const changesStruct = entry.events.some(type => type === 'MemberAdded' || type === 'MemberUpdated' || type === 'MemberRemoved');
+      const lastInBlock = sorted[index + 1]?.blockNumber !== entry.blockNumber;
+      if (changesStruct && lastInBlock) {
+        const before = await readMemberAt(entry.blockNumber - 1);
+        const after = await readMemberAt(entry.blockNumber);
+        const removed = entry.events.includes('MemberRemoved');
+
+        if ((!before && !entry.events.includes('MemberAdded')) || (!after && !removed)) {
+          entry.stateUnavailable = true;
+        } else if (after) {
+          for (const field of MEMBER_HISTORY_FIELDS) {
+            const previous = before ? String(before[field]) : '';
+            const current = String(after[field]);
+            if (previous !== current) {
+              entry.changes.push({ field, previous, current });
+            }
+          }
+        }
+      }
+
+      for (const { type, values } of entry.logs) {
+        if (type === 'MemberMetadataSet') {
+          let previous = '';
+          try {
+            previous = String(await this.contract!.methods.getMetadata(address, values.key).call(undefined, entry.blockNumber - 1));
+          } catch {
+            // Metadata predating the member, or pruned state; show the new value only
+          }
+          entry.changes.push({ field: `metadata.${values.key}`, previous, current: values.value });
+        } else if (type === 'MemberLeaseRenewed') {
+          entry.changes.push({
+            field: 'expiresAt',
+            previous: values.previousExpiresAt === '0' ? '' : values.previousExpiresAt,
+            current: values.newExpiresAt
+          });
+        } else if (type === 'MemberEndpointsChanged') {
+          const readEndpointsAt = async (block: number): Promise<string> => {
+            try {
+              const endpoints = await this.contract!.methods.getEndpoints(address).call(undefined, block) as any[];
+              return endpoints
+                .map(endpoint => this.parseEndpoint(endpoint))
+                .map(endpoint => `${endpoint.protocol} ${formatEndpoint(endpoint.host, endpoint.port)}`)
+                .join(', ');
+            } catch {
+              return ''; // Pruned state; the change shows as a new list
+            }
+          };
+          entry.changes.push({
+            field: 'endpoints',
+            previous: await readEndpointsAt(entry.blockNumber - 1),
+            current: await readEndpointsAt(entry.blockNumber)
+          });
+        } else if (type === 'MemberStateChanged') {
+          entry.changes.push({
+            field: 'state',
+            previous: MEMBER_STATES[Number(values.previousState)],
+            current: `${MEMBER_STATES[Number(values.newState)]} (${STATE_REASONS[Number(values.reason)] ?? values.reason})`
+          });
+        }
+      }
+    }
+
+    return sorted.map(({ logs: _logs, ...entry }) => entry);
+  }
+
+  /**
+   * Check whether registry changes are currently paused
+   */
+  async isPaused(): Promise<boolean> {
+    this.ensureConnected();
+    return Boolean(await this.contract!.methods.paused().call());
+  }
+
+  /**
+   * Get the most recent proposals, newest first, marking which open ones the given account has approved.
+   * Reads pages backwards until at least `minCount` are loaded and the oldest one has expired: proposals are
+   * created in id order with the same lifetime, so every older one has expired too and none can still be approved.
+   */
+  async getProposals(account: string = '', minCount: number = PROPOSALS_PAGE_SIZE): Promise<ProposalsPage> {
+    this.ensureConnected();
+    const total = Number(await this.contract!.methods.getProposalCount().call());
+    const now = Math.floor(Date.now() / 1000);
+    const proposals: Proposal[] = [];
+
+    for (let end = total; end > 0;) {
+      const start = Math.max(0, end - PROPOSALS_PAGE_SIZE);
+      const result = await this.contract!.methods.getProposalsPage(start, end - start).call() as any;
+      const page: any[] = result.page || result[0] || [];
+
+      for (let index = page.length - 1; index >= 0; index--) {
+        const id = start + index;
+        const proposal = page[index];
+        const expiresAt = Number(proposal.expiresAt);
+        const storedStatus = PROPOSAL_STATUSES[Number(proposal.status)];
+        const status = storedStatus === 'Pending' && expiresAt < now ? 'Expired' : storedStatus;
+        const action = PROPOSAL_ACTIONS[Number(proposal.action)];
+
+        proposals.push({
+          id,
+          action,
+          member: this.parseMember(proposal.member),
+          proposedThreshold: action === 'ChangeApprovalThreshold'
+            ? Number(await this.contract!.methods.getProposedThreshold(id).call())
+            : undefined,
+          proposer: String(proposal.proposer),
+          // Execution only counts approvals from accounts that are still registrars
+          approvals: status === 'Pending'
+            ? Number(await this.contract!.methods.getCurrentApprovals(id).call())
+            : Number(proposal.approvals),
+          createdAt: Number(proposal.createdAt),
+          expiresAt,
+          status,
+          approvedByAccount: account && status === 'Pending'
+            ? Boolean(await this.contract!.methods.hasApprovedProposal(id, account).call())
+            : false
+        });
+      }
+
+      end = start;
+      if (proposals.length >= minCount && proposals[proposals.length - 1].expiresAt < now) break;
+    }
+
+    return { proposals, total };
+  }
+
+  /**
+   * Propose adding a member; parameters match addMember
+   */
+  async proposeAddMember(
+    address: string,
+    x500Name: string,
+    certSerialHex: string,
+    platformVersion: number | string,
+    host: string,
+    port: number | string
+  ): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .proposeAddMember(
+        address,
+        x500Name,
+        certSerialHex,
+        Number(platformVersion),
+        host,
+        Number(port)
+      )
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Propose removing a member
+   */
+  async proposeRemoveMember(address: string): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .proposeRemoveMember(address)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Propose updating member details; parameters match updateMemberDetails
+   */
+  async proposeUpdateMemberDetails(
+    address: string,
+    x500Name: string,
+    certSerialHex: string,
+    platformVersion: number | string,
+    host: string,
+    port: number | string
+  ): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .proposeUpdateMemberDetails(
+        address,
+        x500Name,
+        certSerialHex,
+        Number(platformVersion),
+        host,
+        Number(port)
+      )
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Approve a pending proposal
+   */
+  async approveProposal(proposalId: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .approveProposal(proposalId)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Execute a proposal that has reached the approval threshold
+   */
+  async executeProposal(proposalId: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .executeProposal(proposalId)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Cancel a pending proposal (proposer or admin only)
+   */
+  async cancelProposal(proposalId: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .cancelProposal(proposalId)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Propose a new approval threshold; the only way to lower it
+   */
+  async proposeApprovalThreshold(threshold: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .proposeApprovalThreshold(threshold)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Raise the number of approvals a proposal needs
+   */
+  async setApprovalThreshold(threshold: number): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .setApprovalThreshold(threshold)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Freeze all registry changes (pauser role)
+   */
+  async pause(): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .pause()
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Allow registry changes again (pauser role)
+   */
+  async unpause(): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .unpause()
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Get the bytes32 identifier of a role, read once from the contract constants
+   */
+  private async getRoleId(role: Role): Promise<string> {
+    this.ensureConnected();
+    if (!this.roleIds[role]) {
+      const roleId = await (this.contract!.methods as any)[ROLE_CONSTANTS[role]]().call();
+      this.roleIds[role] = String(roleId);
+    }
+    return this.roleIds[role]!;
+  }
+
+  /**
+   * Get the roles held by an account
+   */
+  async getAccountRoles(address: string): Promise<AccountRoles> {
+    this.ensureConnected();
+    const roles = {} as AccountRoles;
+
+    for (const role of ROLES) {
+      const roleId = await this.getRoleId(role);
+      roles[role] = Boolean(await this.contract!.methods.hasRole(roleId, address).call());
+    }
+
+    return roles;
+  }
+
+  /**
+   * Get the accounts explicitly granted a role
+   */
+  async getRoleMembers(role: Role): Promise<string[]> {
+    this.ensureConnected();
+    const roleId = await this.getRoleId(role);
+    const count = Number(await this.contract!.methods.getRoleMemberCount(roleId).call());
+    const holders: string[] = [];
+
+    for (let i = 0; i < count; i++) {
+      holders.push(String(await this.contract!.methods.getRoleMember(roleId, i).call()));
+    }
+
+    return holders;
+  }
+
+  /**
+   * Grant a role to an account
+   */
+  async grantRole(role: Role, address: string): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    const roleId = await this.getRoleId(role);
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .grantRole(roleId, address)
+      .send(txOptions);
+
+    return tx as unknown as TransactionReceipt;
+  }
+
+  /**
+   * Revoke a role from an account
+   */
+  async revokeRole(role: Role, address: string): Promise<TransactionReceipt> {
+    this.ensureConnected();
+    const roleId = await this.getRoleId(role);
+    
+    // Use legacy transaction format for XDC Subnet
+    const txOptions = await this.getLegacyTxOptions();
+    
+    const tx = await this.contract!.methods
+      .revokeRole(roleId, address)
       .send(txOptions);
 
     return tx as unknown as TransactionReceipt;
@@ -2,7 +2,7 @@
  * Validation utility functions for XDC Network Manager
  */
 
-import { ValidationResult, MemberDataValidation, MemberFormData } from '../types/contract';
+import { ValidationResult, MemberDataValidation, MemberEndpoint, MemberFormData, SignedJoinRequest } from '../types/contract';
 
 /**
  * Validates if a string is valid hexadecimal
@@ -131,8 +131,86 @@ export const validatePort = (port: number | string): ValidationResult => {
   };
 };
 
+const IPV4_OCTET = '(25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)';
+const IPV4_PATTERN = new RegExp(`^${IPV4_OCTET}(\\.${IPV4_OCTET}){3}$`);
+const DNS_LABEL_PATTERN = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+
+/**
+ * Trims and lowercases a host and strips the brackets of a bracketed IPv6 address ("[::1]" becomes "::1").
+ * Valid IPv6 addresses are also rewritten in their RFC 5952 form ("0:0:0:0:0:0:0:1" becomes "::1").
+ * Hosts are stored on-chain in this form; the contract only compares them case-insensitively.
+ */
+export const normalizeHost = (host: string): string => {
+  const trimmed = host.trim().toLowerCase();
+  const unbracketed = trimmed.startsWith('[') && trimmed.endsWith(']') ? trimmed.slice(1, -1) : trimmed;
+  return unbracketed.includes(':') && isValidIPv6(unbracketed) ? canonicalIPv6(unbracketed) : unbracketed;
+};
+
+/**
+ * RFC 5952 text form of a valid, lowercased IPv6 address: no leading zeros, and the longest run of two or
+ * more zero groups (the first, on a tie) replaced by "::". An IPv4 tail is kept in dotted form.
+ */
+const canonicalIPv6 = (address: string): string => {
+  const halves = address.split('::').map(half => (half === '' ? [] : half.split(':')));
+  const last = halves[halves.length - 1];
+  const ipv4 = last.length > 0 && last[last.length - 1].includes('.') ? last.pop()! : '';
+
+  const width = ipv4 ? 6 : 8;
+  const groups = halves.length === 2
+    ? [...halves[0], ...Array(width - halves[0].length - halves[1].length).fill('0'), ...halves[1]]
+    : halves[0];
+  const hex = groups.map(group => parseInt(group, 16).toString(16));
+
+  let runStart = -1;
+  let runLength = 1;
+  for (let i = 0; i < hex.length; i++) {
+    if (hex[i] !== '0') continue;
+    let end = i + 1;
+    while (end < hex.length && hex[end] === '0') end++;
+    if (end - i > runLength) {
+      runStart = i;
+      runLength = end - i;
+    }
+    // hex[end] is not a zero group, so the scan can resume after it
+    i = end;
+  }
+
+  const text = runStart < 0
+    ? hex.join(':')
+    : `${hex.slice(0, runStart).join(':')}::${hex.slice(runStart + runLength).join(':')}`;
+  if (!ipv4) return text;
+  return text.endsWith(':') ? `${text}${ipv4}` : `${text}:${ipv4}`;
+};
+
 /**
- * Validates host address
+ * Formats host:port for display, with an IPv6 host in brackets ("[::1]:30303")
+ */
+export const formatEndpoint = (host: string, port: number | string): string => {
+  const normalized = normalizeHost(host);
+  return normalized.includes(':') ? `[${normalized}]:${port}` : `${normalized}:${port}`;
+};
+
+const isValidIPv6 = (address: string): boolean => {
+  const halves = address.split('::');
+  if (halves.length > 2) return false;
+
+  const groups = halves.map(half => (half === '' ? [] : half.split(':')));
+
+  // An IPv4 tail ("::ffff:192.0.2.1") takes the place of two groups. It must end the address, so it is
+  // only looked for in the last half: "1.2.3.4::" is not an address
+  const tail = groups[groups.length - 1];
+  let count = groups.flat().length;
+  if (tail.length > 0 && tail[tail.length - 1].includes('.')) {
+    if (!IPV4_PATTERN.test(tail.pop()!)) return false;
+    count++;
+  }
+
+  if (!groups.flat().every(group => /^[0-9a-fA-F]{1,4}$/.test(group))) return false;
+  return halves.length === 2 ? count < 8 : count === 8;
+};
+
+/**
+ * Validates host address: an IPv4 address, an IPv6 address (with or without brackets) or a DNS name
  */
 export const validateHost = (host: string): ValidationResult => {
   if (!host || typeof host !== 'string') {
@@ -142,21 +220,32 @@ export const validateHost = (host: string): ValidationResult => {
     };
   }
 
-  const trimmed = host.trim();
+  const normalized = normalizeHost(host);
 
-  if (trimmed.length === 0) {
+  if (normalized.length === 0) {
     return {
       isValid: false,
       error: 'Host address cannot be empty'
     };
   }
 
-  // Basic format validation (allows domain names and IPs)
-  // Very permissive - just check it's not empty and has reasonable chars
-  if (!/^[a-zA-Z0-9.-]+$/.test(trimmed)) {
+  if (normalized.includes(':')) {
+    return isValidIPv6(normalized)
+      ? { isValid: true, error: '' }
+      : { isValid: false, error: 'Host address is not a valid IPv6 address' };
+  }
+
+  // All-numeric dotted hosts are never DNS names, so "256.1.1.1" is an invalid address rather than a name
+  if (/^[\d.]+$/.test(normalized)) {
+    return IPV4_PATTERN.test(normalized)
+      ? { isValid: true, error: '' }
+      : { isValid: false, error: 'Host address is not a valid IPv4 address' };
+  }
+
+  if (normalized.length > 253 || !normalized.split('.').every(label => DNS_LABEL_PATTERN.test(label))) {
     return {
       isValid: false,
-      error: 'Host address contains invalid characters'
+      error: 'Host address is not a valid DNS name'
     };
   }
 
@@ -192,6 +281,84 @@ export const validatePlatformVersion = (version: number | string): ValidationRes
   };
 };
 
+// Limits enforced by NetworkManager.setMetadata, in UTF-8 bytes
+const MAX_METADATA_KEY_LENGTH = 64;
+const MAX_METADATA_VALUE_LENGTH = 256;
+
+/**
+ * Validates a metadata key and value; an empty value is allowed and removes the key
+ */
+export const validateMetadataEntry = (key: string, value: string): ValidationResult => {
+  const keyLength = new TextEncoder().encode(key.trim()).length;
+
+  if (keyLength === 0) {
+    return {
+      isValid: false,
+      error: 'Metadata key is required'
+    };
+  }
+
+  if (keyLength > MAX_METADATA_KEY_LENGTH) {
+    return {
+      isValid: false,
+      error: `Metadata key must be at most ${MAX_METADATA_KEY_LENGTH} bytes`
+    };
+  }
+
+  if (new TextEncoder().encode(value).length > MAX_METADATA_VALUE_LENGTH) {
+    return {
+      isValid: false,
+      error: `Metadata value must be at most ${MAX_METADATA_VALUE_LENGTH} bytes`
+    };
+  }
+
+  return {
+    isValid: true,
+    error: ''
+  };
+};
+
+// Limit enforced by NetworkManager.setEndpoints
+export const MAX_ENDPOINTS = 8;
+
+/**
+ * Validates a member's additional endpoints; each host:port must be unique and differ from the primary endpoint
+ */
+export const validateEndpoints = (
+  endpoints: MemberEndpoint[],
+  primary: { host: string; port: number | string }
+): ValidationResult => {
+  if (endpoints.length > MAX_ENDPOINTS) {
+    return {
+      isValid: false,
+      error: `A member can have at most ${MAX_ENDPOINTS} additional endpoints`
+    };
+  }
+
+  const seen = new Set([`${normalizeHost(primary.host)}:${Number(primary.port)}`]);
+  for (const endpoint of endpoints) {
+    for (const check of [validateHost(endpoint.host), validatePort(endpoint.port)]) {
+      if (!check.isValid) {
+        return { isValid: false, error: `${endpoint.protocol.toUpperCase()} endpoint: ${check.error}` };
+      }
+    }
+
+    const key = `${normalizeHost(endpoint.host)}:${Number(endpoint.port)}`;
+    if (seen.has(key)) {
+      return {
+        isValid: false,
+        error: `Endpoint ${formatEndpoint(endpoint.host, endpoint.port)} is listed more than once`
+      };
+    }
+    seen.add(key);
+  }
+
+  return {
+    isValid: true,
+    error: ''
+  };
+};
+
 /**
  * Validates all member data before submission
  */
@@ -239,3 +406,60 @@ export const validateMemberData = (memberData: MemberFormData): MemberDataValida
     sanitizedCertSerial: certValidation.isValid ? certValidation.sanitized : memberData.certSerialHex
   };
 };
+
+/**
+ * Parses the JSON blob produced by "Sign Join Request" and checks its fields.
+ * The signature itself is verified against the contract separately.
+ */
+export const parseSignedJoinRequest = (json: string): ValidationResult & { request?: SignedJoinRequest } => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { isValid: false, error: 'Join request is not valid JSON' };
+  }
+
+  if (!data || typeof data !== 'object') {
+    return { isValid: false, error: 'Join request must be a JSON object' };
+  }
+
+  if (!isValidAddress(data.memberAddress)) {
+    return { isValid: false, error: 'Join request has an invalid member address' };
+  }
+
+  for (const check of [
+    validateX500Name(data.x500Name),
+    validateCertSerialHex(data.certSerialHex),
+    validateHost(data.host),
+    validatePort(data.port)
+  ]) {
+    if (!check.isValid) {
+      return { isValid: false, error: `Join request: ${check.error}` };
+    }
+  }
+
+  if (!Number.isSafeInteger(data.nonce) || data.nonce < 0 || !Number.isSafeInteger(data.deadline) || data.deadline <= 0) {
+    return { isValid: false, error: 'Join request has no valid nonce and deadline' };
+  }
+
+  if (typeof data.signature !== 'string' || !/^0x[0-9a-fA-F]{130}$/.test(data.signature)) {
+    return { isValid: false, error: 'Join request has no valid signature' };
+  }
+
+  return {
+    isValid: true,
+    error: '',
+    request: {
+      memberAddress: data.memberAddress,
+      x500Name: data.x500Name,
+      certSerialHex: data.certSerialHex,
+      host: data.host,
+      port: Number(data.port),
+      nonce: data.nonce,
+      deadline: data.deadline,
+      chainId: Number(data.chainId),
+      contractAddress: String(data.contractAddress ?? ''),
+      signature: data.signature
+    }
+  };
+};
@@ -4,6 +4,7 @@ interface ImportMetaEnv {
   readonly VITE_DEFAULT_RPC_URL: string
   readonly VITE_DEFAULT_CONTRACT_ADDRESS: string
   readonly VITE_SUBNET_CHAIN_ID: string
+  readonly VITE_HEARTBEAT_STALE_MINUTES?: string
 }
 
 interface ImportMeta {